@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthenticated } from "@/lib/auth";
+import { getEmergencyPause, pauseOperations, resumeOperations } from "@/lib/emergency-pause";
+import { notifyAdmins } from "@/lib/telegram-notifier";
+
+/**
+ * GET /api/admin/pause
+ * Returns whether on-chain operations are paused, and why.
+ * Requires API key auth.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthenticated(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const pause = getEmergencyPause();
+  return NextResponse.json({ paused: pause !== null, pause });
+}
+
+/**
+ * POST /api/admin/pause
+ * Body: { paused: true|false, reason?: string }
+ * Pauses or resumes every on-chain operation (sends, deploys, claims, pool
+ * funding, payouts, buy-and-burn). Headlines keep publishing without tokens.
+ * Requires API key auth.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAuthenticated(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { paused?: unknown; reason?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be valid JSON" }, { status: 400 });
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: "Body must be a JSON object" }, { status: 400 });
+  }
+
+  try {
+    if (typeof body.paused !== "boolean") {
+      return NextResponse.json({ error: "paused must be true or false" }, { status: 400 });
+    }
+
+    if (body.paused) {
+      const reason = typeof body.reason === "string" && body.reason.trim()
+        ? body.reason.trim().slice(0, 200)
+        : "Paused via API";
+      const alreadyPaused = getEmergencyPause() !== null;
+      const pause = pauseOperations(reason, "api");
+      if (!alreadyPaused) {
+        await notifyAdmins(`⏸ On-chain operations PAUSED via API: ${pause.reason}`);
+      }
+      return NextResponse.json({ paused: true, pause });
+    }
+
+    const lifted = resumeOperations("api");
+    if (lifted) {
+      await notifyAdmins(`▶️ On-chain operations resumed via API.`);
+    }
+    return NextResponse.json({ paused: false, resumed: lifted !== null });
+  } catch (error) {
+    console.error("[Admin] Pause toggle error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
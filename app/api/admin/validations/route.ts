@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSubmissionById,
+  getSubmissionValidations,
+  getRecentSubmissionValidations,
+} from "@/lib/db";
+import { isAuthenticated, clampInt } from "@/lib/auth";
+
+/**
+ * GET /api/admin/validations
+ * Validation audit trail (per-layer scores, detected dates, duplicate layer,
+ * models and latencies).
+ *
+ * Query params:
+ * - submissionId: return every validation run for this submission
+ * - rejected: "true" to only list failed runs (ignored with submissionId)
+ * - limit: max results (default 50, max 200)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthenticated(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const submissionIdParam = searchParams.get("submissionId");
+
+    if (submissionIdParam) {
+      const submissionId = parseInt(submissionIdParam, 10);
+      if (isNaN(submissionId)) {
+        return NextResponse.json(
+          { success: false, error: "submissionId must be a number" },
+          { status: 400 }
+        );
+      }
+
+      const submission = getSubmissionById(submissionId);
+      if (!submission) {
+        return NextResponse.json(
+          { success: false, error: "Submission not found" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        submission: {
+          id: submission.id,
+          url: submission.url,
+          status: submission.status,
+          rejection_reason: submission.rejection_reason,
+        },
+        data: getSubmissionValidations(submissionId),
+      });
+    }
+
+    const limit = clampInt(parseInt(searchParams.get("limit") || "50", 10), 1, 200);
+    const onlyRejected = searchParams.get("rejected") === "true";
+
+    return NextResponse.json({
+      success: true,
+      data: getRecentSubmissionValidations(limit, onlyRejected),
+    });
+  } catch (error) {
+    console.error("Error fetching validation audit:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch validation audit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getSubmitterEarnings } from "@/lib/db";
+import { isValidSolanaAddress } from "@/lib/solana-wallet";
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * GET /api/earnings/:solAddress
+ * Tokens launched by a submitter wallet with every share it has earned.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ solAddress: string }> }
+) {
+  const { solAddress } = await params;
+
+  if (!isValidSolanaAddress(solAddress)) {
+    return NextResponse.json({ error: "Invalid Solana address" }, { status: 400 });
+  }
+
+  const earnings = getSubmitterEarnings(solAddress);
+
+  // Convert lamports to SOL for the response
+  return NextResponse.json({
+    ...earnings,
+    entries: earnings.entries.map((e) => ({
+      ...e,
+      submitter_sol: e.submitter_lamports / LAMPORTS_PER_SOL,
+    })),
+    payouts: earnings.payouts.map((p) => ({
+      ...p,
+      amount_sol: p.amount_lamports / LAMPORTS_PER_SOL,
+    })),
+    totals: {
+      ...earnings.totals,
+      paid_sol: earnings.totals.paid_lamports / LAMPORTS_PER_SOL,
+      pending_sol: earnings.totals.pending_lamports / LAMPORTS_PER_SOL,
+      failed_sol: earnings.totals.failed_lamports / LAMPORTS_PER_SOL,
+      skipped_sol: earnings.totals.skipped_lamports / LAMPORTS_PER_SOL,
+      lifetime_sol: earnings.totals.lifetime_lamports / LAMPORTS_PER_SOL,
+    },
+  });
+}
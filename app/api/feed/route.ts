@@ -5,10 +5,13 @@
  * GET /api/feed?format=atom → Atom 1.0 XML
  *
  * Enables discovery by RSS readers, aggregators, and search engines.
+ * Edited headlines carry their latest "Updated" / "Correction" note.
  */
 
 import { NextRequest } from "next/server";
-import { getAllHeadlines } from "@/lib/db";
+import { getAllHeadlines, getLatestHeadlineRevisions } from "@/lib/db";
+import { formatRevisionNote } from "@/lib/headline-editor";
+import type { HeadlineRevision } from "@/lib/types";
 
 const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
 const SITE_TITLE = "THE MCAFEE REPORT";
@@ -23,14 +26,21 @@ function escapeXml(str: string): string {
     .replace(/'/g, "&apos;");
 }
 
-function buildRss(headlines: ReturnType<typeof getAllHeadlines>): string {
+type Revisions = Map<number, HeadlineRevision>;
+
+/** Item description, led by the latest revision note if the headline was edited. */
+function describe(h: ReturnType<typeof getAllHeadlines>[number], revisions: Revisions): string {
+  const text = h.mcafee_take || "Read on The McAfee Report";
+  const revision = revisions.get(h.id);
+  return revision ? `[${formatRevisionNote(revision)}] ${text}` : text;
+}
+
+function buildRss(headlines: ReturnType<typeof getAllHeadlines>, revisions: Revisions): string {
   const items = headlines
     .map((h) => {
       const pubDate = new Date(h.created_at).toUTCString();
       const articleUrl = `${SITE_URL}/article/${h.id}`;
-      const description = h.mcafee_take
-        ? escapeXml(h.mcafee_take)
-        : `Read on The McAfee Report`;
+      const description = escapeXml(describe(h, revisions));
       return `    <item>
       <title>${escapeXml(h.title)}</title>
       <link>${escapeXml(articleUrl)}</link>
@@ -56,9 +66,56 @@ ${items}
 </rss>`;
 }
 
+function buildAtom(headlines: ReturnType<typeof getAllHeadlines>, revisions: Revisions): string {
+  const toIso = (sqliteDate: string) => new Date(`${sqliteDate.replace(" ", "T")}Z`).toISOString();
+
+  const entries = headlines
+    .map((h) => {
+      const articleUrl = `${SITE_URL}/article/${h.id}`;
+      const revision = revisions.get(h.id);
+      return `  <entry>
+    <title>${escapeXml(h.title)}</title>
+    <link href="${escapeXml(articleUrl)}" />
+    <id>${escapeXml(articleUrl)}</id>
+    <published>${toIso(h.created_at)}</published>
+    <updated>${toIso(revision ? revision.created_at : h.created_at)}</updated>
+    <summary>${escapeXml(describe(h, revisions))}</summary>
+  </entry>`;
+    })
+    .join("\n");
+
+  const updated = headlines.reduce((latest, h) => {
+    const revision = revisions.get(h.id);
+    const date = toIso(revision ? revision.created_at : h.created_at);
+    return date > latest ? date : latest;
+  }, headlines.length > 0 ? toIso(headlines[0].created_at) : new Date().toISOString());
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(SITE_TITLE)}</title>
+  <subtitle>${escapeXml(SITE_DESCRIPTION)}</subtitle>
+  <link href="${escapeXml(SITE_URL)}" />
+  <link href="${escapeXml(SITE_URL)}/api/feed?format=atom" rel="self" type="application/atom+xml" />
+  <id>${escapeXml(SITE_URL)}/</id>
+  <updated>${updated}</updated>
+${entries}
+</feed>`;
+}
+
 export async function GET(request: NextRequest) {
   const headlines = getAllHeadlines(50);
-  const xml = buildRss(headlines);
+  const revisions = getLatestHeadlineRevisions(headlines.map((h) => h.id));
+
+  if (request.nextUrl.searchParams.get("format") === "atom") {
+    return new Response(buildAtom(headlines, revisions), {
+      headers: {
+        "Content-Type": "application/atom+xml; charset=utf-8",
+        "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+      },
+    });
+  }
+
+  const xml = buildRss(headlines, revisions);
 
   return new Response(xml, {
     headers: {
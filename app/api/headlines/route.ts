@@ -6,7 +6,8 @@ import {
   removeHeadline,
 } from "@/lib/db";
 import { isAuthenticated } from "@/lib/auth";
-import type { AddHeadlineRequest } from "@/lib/types";
+import { editHeadline } from "@/lib/headline-editor";
+import type { AddHeadlineRequest, UpdateHeadlineRequest } from "@/lib/types";
 
 /**
  * GET /api/headlines
@@ -90,6 +91,63 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * PATCH /api/headlines
+ * Body: { id: number, title?: string, image_url?: string, summary?: string,
+ *         correction?: boolean, note?: string }
+ * Every change is recorded in the headline's public revision history;
+ * corrections require a note.
+ * Requires x-api-key header
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Check authorization (timing-safe comparison)
+    if (!isAuthenticated(request)) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body: UpdateHeadlineRequest = await request.json();
+
+    const id = Number(body.id);
+    if (!Number.isInteger(id)) {
+      return NextResponse.json(
+        { error: "Missing or invalid required field: id" },
+        { status: 400 }
+      );
+    }
+
+    const result = editHeadline(
+      id,
+      {
+        title: typeof body.title === "string" ? body.title : undefined,
+        imageUrl: typeof body.image_url === "string" ? body.image_url : undefined,
+        summary: typeof body.summary === "string" ? body.summary : undefined,
+        correction: body.correction === true,
+        note: typeof body.note === "string" ? body.note : undefined,
+      },
+      "api"
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error?.includes("not found") ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ revision: result.revision });
+  } catch (error) {
+    console.error("Error editing headline:", error);
+    return NextResponse.json(
+      { error: "Failed to edit headline" },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * DELETE /api/headlines
  * Query params: id (required)
@@ -0,0 +1,89 @@
+/**
+ * Live API - Server-Sent Events stream of homepage updates.
+ *
+ * GET /api/live → text/event-stream with named events:
+ *   headline, activity, stats, votes, siren, prices
+ *
+ * Every event's data is a JSON payload typed by LiveEventMap in lib/types.ts.
+ * One server-side poller (lib/live-events.ts) feeds all connections.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { subscribeLiveEvents, getLiveListenerCount } from "@/lib/live-events";
+import type { LiveEventMap, LiveEventType } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const RECONNECT_DELAY_MS = 5_000;
+
+function getMaxConnections(): number {
+  const max = parseInt(process.env.LIVE_MAX_CONNECTIONS || "500", 10);
+  return isNaN(max) || max < 1 ? 500 : max;
+}
+
+export async function GET(request: NextRequest) {
+  if (getLiveListenerCount() >= getMaxConnections()) {
+    return NextResponse.json(
+      { error: "Too many live connections. Try again shortly." },
+      { status: 503, headers: { "Retry-After": "30" } }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed by the client
+          cleanup?.();
+        }
+      };
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      const unsubscribe = subscribeLiveEvents(
+        <K extends LiveEventType>(type: K, data: LiveEventMap[K]) => {
+          write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      );
+
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      request.signal.addEventListener("abort", () => cleanup?.());
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable nginx response buffering so events flush immediately
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
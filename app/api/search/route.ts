@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchHeadlines } from "@/lib/db";
+import { parseHeadlineSearchParams } from "@/lib/headline-search";
+
+/**
+ * GET /api/search?q=&from=&to=&type=&token=&page=&limit=
+ * Full-text search over published headlines.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = parseHeadlineSearchParams((name) => request.nextUrl.searchParams.get(name));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const { results, total } = searchHeadlines(parsed.filters);
+    return NextResponse.json({
+      success: true,
+      query: parsed.filters.query || "",
+      page: parsed.page,
+      limit: parsed.limit,
+      total,
+      data: results,
+    });
+  } catch (error) {
+    console.error("Error searching headlines:", error);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+}
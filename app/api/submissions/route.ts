@@ -25,7 +25,7 @@ export async function GET(request: NextRequest) {
 
   try {
     const searchParams = request.nextUrl.searchParams;
-    const status = searchParams.get("status") as "pending" | "validating" | "approved" | "rejected" | "published" | null;
+    const status = searchParams.get("status") as "pending" | "validating" | "approved" | "rejected" | "appealed" | "published" | null;
     const limit = clampInt(parseInt(searchParams.get("limit") || "50", 10), 1, 200);
 
     let submissions;
@@ -85,7 +85,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     // Validate status
-    const validStatuses = ["pending", "validating", "approved", "rejected", "published"];
+    const validStatuses = ["pending", "validating", "approved", "rejected", "appealed", "published"];
     if (!validStatuses.includes(status)) {
       return NextResponse.json(
         { success: false, error: `Invalid status. Must be one of: ${validStatuses.join(", ")}` },
@@ -1,55 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAllTokens } from "@/lib/db";
 import { isValidBase58Address } from "@/lib/auth";
-
-// Cache configuration
-const CACHE_TTL_MS = 30 * 1000; // 30 seconds
-const MAX_CACHE_SIZE = 500; // Prevent unbounded growth
-
-interface CachedPrice {
-  price: number;
-  priceChange24h: number;
-  marketCap?: number;
-  volume24h?: number;
-  lastUpdated: number;
-}
-
-interface TokenPriceResponse {
-  mintAddress: string;
-  ticker: string;
-  price: number;
-  priceChange24h: number;
-  marketCap?: number;
-  volume24h?: number;
-  imageUrl?: string;
-  pumpUrl?: string;
-}
-
-// LRU-like cache with size limit and TTL eviction
-let priceCache: Map<string, CachedPrice> = new Map();
-
-/** Evict expired entries and oldest if over limit */
-function evictCache() {
-  const now = Date.now();
-
-  // Remove expired entries
-  for (const [key, value] of priceCache) {
-    if (now - value.lastUpdated > CACHE_TTL_MS * 10) {
-      priceCache.delete(key);
-    }
-  }
-
-  // If still over limit, remove oldest entries
-  if (priceCache.size > MAX_CACHE_SIZE) {
-    const entries = [...priceCache.entries()].sort(
-      (a, b) => a[1].lastUpdated - b[1].lastUpdated
-    );
-    const toRemove = entries.slice(0, priceCache.size - MAX_CACHE_SIZE);
-    for (const [key] of toRemove) {
-      priceCache.delete(key);
-    }
-  }
-}
+import { getTokenPrice, getTokenPrices } from "@/lib/token-prices";
 
 // Rate limiting: simple sliding window per IP
 const rateLimitMap = new Map<string, { count: number; windowStart: number }>();
@@ -72,120 +24,6 @@ function isRateLimited(request: NextRequest): boolean {
   return false;
 }
 
-/**
- * Fetch price data from pump.fun API
- */
-async function fetchPumpFunPrice(mintAddress: string): Promise<CachedPrice | null> {
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10_000);
-
-    try {
-      const response = await fetch(
-        `https://frontend-api.pump.fun/coins/${mintAddress}`,
-        {
-          headers: {
-            "Accept": "application/json",
-          },
-          signal: controller.signal,
-          next: { revalidate: 30 },
-        }
-      );
-
-      if (!response.ok) {
-        return null;
-      }
-
-      const data = await response.json();
-      
-      return {
-        price: data.price || 0,
-        priceChange24h: data.price_change_24h || 0,
-        marketCap: data.usd_market_cap,
-        volume24h: data.volume_24h,
-        lastUpdated: Date.now(),
-      };
-    } finally {
-      clearTimeout(timeout);
-    }
-  } catch (error) {
-    console.error(`Error fetching pump.fun price for ${mintAddress}:`, error);
-    return null;
-  }
-}
-
-/**
- * Fetch price data from DexScreener as fallback
- */
-async function fetchDexScreenerPrice(mintAddress: string): Promise<CachedPrice | null> {
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10_000);
-
-    try {
-      const response = await fetch(
-        `https://api.dexscreener.com/latest/dex/tokens/${mintAddress}`,
-        {
-          headers: {
-            "Accept": "application/json",
-          },
-          signal: controller.signal,
-          next: { revalidate: 30 },
-        }
-      );
-
-      if (!response.ok) {
-        return null;
-      }
-
-      const data = await response.json();
-      const pair = data.pairs?.[0]; // Get the first/main pair
-
-      if (!pair) {
-        return null;
-      }
-
-      return {
-        price: parseFloat(pair.priceUsd) || 0,
-        priceChange24h: pair.priceChange?.h24 || 0,
-        marketCap: pair.fdv,
-        volume24h: pair.volume?.h24,
-        lastUpdated: Date.now(),
-      };
-    } finally {
-      clearTimeout(timeout);
-    }
-  } catch (error) {
-    console.error(`Error fetching DexScreener price for ${mintAddress}:`, error);
-    return null;
-  }
-}
-
-/**
- * Get price for a single token with caching
- */
-async function getTokenPrice(mintAddress: string): Promise<CachedPrice | null> {
-  // Check cache first
-  const cached = priceCache.get(mintAddress);
-  if (cached && Date.now() - cached.lastUpdated < CACHE_TTL_MS) {
-    return cached;
-  }
-
-  // Try pump.fun first, then DexScreener as fallback
-  let price = await fetchPumpFunPrice(mintAddress);
-  
-  if (!price) {
-    price = await fetchDexScreenerPrice(mintAddress);
-  }
-
-  if (price) {
-    priceCache.set(mintAddress, price);
-    evictCache();
-  }
-
-  return price;
-}
-
 /**
  * GET /api/token-prices
  * Returns prices for all tokens or specific tokens by mint address
@@ -230,45 +68,7 @@ export async function GET(request: NextRequest) {
         }));
     }
 
-    // Fetch prices in parallel (with rate limiting)
-    const BATCH_SIZE = 5;
-    const results: TokenPriceResponse[] = [];
-    
-    for (let i = 0; i < tokensToFetch.length; i += BATCH_SIZE) {
-      const batch = tokensToFetch.slice(i, i + BATCH_SIZE);
-      
-      const batchResults = await Promise.all(
-        batch.map(async ({ mintAddress, ticker, imageUrl, pumpUrl }) => {
-          const price = await getTokenPrice(mintAddress);
-          
-          if (price) {
-            return {
-              mintAddress,
-              ticker,
-              price: price.price,
-              priceChange24h: price.priceChange24h,
-              marketCap: price.marketCap,
-              volume24h: price.volume24h,
-              imageUrl,
-              pumpUrl,
-            };
-          }
-          
-          return null;
-        })
-      );
-      
-      for (const r of batchResults) {
-        if (r !== null) {
-          results.push(r as TokenPriceResponse);
-        }
-      }
-      
-      // Small delay between batches to avoid rate limiting
-      if (i + BATCH_SIZE < tokensToFetch.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-    }
+    const results = await getTokenPrices(tokensToFetch);
 
     return NextResponse.json({
       success: true,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getTopSubmitters } from "@/lib/db";
+import { getTopSubmitters, getAverageTokenFeeLamports } from "@/lib/db";
+import { getUserReputation } from "@/lib/reputation";
 
 export async function GET(request: NextRequest) {
   const period = request.nextUrl.searchParams.get("period") || "all";
@@ -9,6 +10,10 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Invalid period. Use: day, week, month, all" }, { status: 400 });
   }
 
-  const submitters = getTopSubmitters(period, 15);
+  const averageTokenFee = getAverageTokenFeeLamports();
+  const submitters = getTopSubmitters(period, 15).map((submitter) => ({
+    ...submitter,
+    reputation: getUserReputation(submitter.telegram_user_id, averageTokenFee).score,
+  }));
   return NextResponse.json({ submitters, period });
 }
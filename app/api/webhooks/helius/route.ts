@@ -16,7 +16,8 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { LAMPORTS_PER_SOL } from "@solana/web3.js";
-import { getTokenByMintAddress, isKnownCreatorWallet } from "@/lib/db";
+import { getTokenByMintAddress, getTokenByCreatorWallet } from "@/lib/db";
+import { recordCreatorWalletSweep, recordDeposit } from "@/lib/ledger";
 import { safeCompare } from "@/lib/auth";
 
 const MASTER_WALLET = process.env.MASTER_WALLET_PUBLIC_KEY || "";
@@ -203,7 +204,7 @@ export async function POST(request: NextRequest) {
     );
 
     let processed = 0;
-    let distributed = 0;
+    const distributed = 0;
     let skippedReplay = 0;
 
     for (const tx of transactions) {
@@ -240,12 +241,14 @@ export async function POST(request: NextRequest) {
       // Extract incoming SOL transfers to the master wallet
       const transfers = extractIncomingTransfers(tx);
 
-      for (const transfer of transfers) {
-        // Skip internal sweeps from ephemeral deployer wallets
-        if (isKnownCreatorWallet(transfer.fromAddress)) {
+      for (const [index, transfer] of transfers.entries()) {
+        // Skip internal sweeps from ephemeral deployer wallets (booked as a ledger transfer)
+        const sweptToken = getTokenByCreatorWallet(transfer.fromAddress);
+        if (sweptToken) {
           console.log(
             `[HeliusWebhook] Skipping internal sweep from deployer wallet ${transfer.fromAddress.slice(0, 8)}…`
           );
+          recordCreatorWalletSweep(sweptToken.id, transfer.lamports, tx.signature, index);
           continue;
         }
 
@@ -254,6 +257,7 @@ export async function POST(request: NextRequest) {
           console.log(
             `[HeliusWebhook] Skipping top-off deposit from ignored sender ${transfer.fromAddress.slice(0, 8)}… (${transfer.lamports / LAMPORTS_PER_SOL} SOL)`
           );
+          recordDeposit(transfer.fromAddress, transfer.lamports, tx.signature, index);
           continue;
         }
 
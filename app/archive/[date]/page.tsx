@@ -0,0 +1,145 @@
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getHeadlinesByDay, getAdjacentHeadlineDays } from "@/lib/db";
+import { clampInt } from "@/lib/auth";
+import { TokenBadge } from "@/components/TokenBadge";
+import { ThemeToggle } from "@/components/ThemeToggle";
+
+export const revalidate = 300;
+
+const PAGE_SIZE = 50;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ArchivePageProps {
+  params: Promise<{ date: string }>;
+  searchParams: Promise<{ page?: string }>;
+}
+
+/** Parse a YYYY-MM-DD route segment as a UTC date, or null if invalid. */
+function parseDay(day: string): Date | null {
+  if (!DAY_PATTERN.test(day)) return null;
+  const date = new Date(`${day}T00:00:00Z`);
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== day ? null : date;
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString("en-US", {
+    weekday: "long", month: "long", day: "numeric", year: "numeric", timeZone: "UTC",
+  });
+}
+
+export async function generateMetadata({ params }: ArchivePageProps): Promise<Metadata> {
+  const { date } = await params;
+  const day = parseDay(date);
+  if (!day) return { title: "Archive Not Found" };
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+  return {
+    title: `${formatDay(day)} | The McAfee Report Archive`,
+    description: `Every headline published on The McAfee Report on ${formatDay(day)}.`,
+    alternates: {
+      canonical: `${siteUrl}/archive/${date}`,
+    },
+  };
+}
+
+export default async function ArchivePage({ params, searchParams }: ArchivePageProps) {
+  const { date } = await params;
+  const day = parseDay(date);
+  if (!day) notFound();
+
+  const { page: pageParam } = await searchParams;
+  const page = clampInt(parseInt(pageParam || "1", 10), 1, 1000);
+  const { headlines, total } = getHeadlinesByDay(date, PAGE_SIZE, (page - 1) * PAGE_SIZE);
+  const { previous, next } = getAdjacentHeadlineDays(date);
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+
+  return (
+    <main className="main-content">
+      <div className="min-h-screen grid-bg">
+      {/* Header */}
+      <div className="border-b border-dark-200/30 py-4">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center justify-between">
+            <a href="/" className="text-neon-cyan hover:underline text-sm font-mono">
+              &larr; Back to The McAfee Report
+            </a>
+            <div className="flex items-center gap-3">
+              <span className="text-gray-500 text-xs font-mono">
+                {total} headline{total === 1 ? "" : "s"}
+              </span>
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <h1 className="text-3xl md:text-4xl font-bold text-center mb-2">
+          <span className="text-neon-cyan">ARCHIVE</span>
+        </h1>
+        <p className="text-gray-400 text-center mb-8 text-sm">{formatDay(day)}</p>
+
+        {/* Day navigation */}
+        <div className="flex items-center justify-between mb-6 text-sm font-mono">
+          {previous ? (
+            <a href={`/archive/${previous}`} className="text-neon-cyan hover:underline">&larr; {previous}</a>
+          ) : <span />}
+          {next ? (
+            <a href={`/archive/${next}`} className="text-neon-cyan hover:underline">{next} &rarr;</a>
+          ) : <span />}
+        </div>
+
+        {headlines.length === 0 ? (
+          <p className="text-gray-500 text-sm py-8 text-center">No headlines published this day.</p>
+        ) : (
+          <div className="space-y-2">
+            {headlines.map((headline) => (
+              <div
+                key={headline.id}
+                className="flex items-start gap-3 p-3 rounded-lg bg-dark-100/50 border border-dark-200/30 hover:border-dark-200/60 transition-colors"
+              >
+                <span className="text-[10px] text-gray-500 font-mono mt-1 w-10 flex-shrink-0" title="UTC">
+                  {headline.created_at.slice(11, 16)}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <a
+                    href={`/article/${headline.id}`}
+                    className="font-medium text-sm hover:text-neon-cyan"
+                  >
+                    {headline.title}
+                  </a>
+                  {headline.mcafee_take && (
+                    <p className="text-xs text-gray-400 mt-1 line-clamp-2">{headline.mcafee_take}</p>
+                  )}
+                </div>
+                {headline.token && (
+                  <TokenBadge
+                    pumpUrl={headline.token.pump_url}
+                    ticker={headline.token.ticker}
+                    imageUrl={headline.token.image_url}
+                    size="sm"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Paging within the day */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-6 text-sm font-mono">
+            {page > 1 ? (
+              <a href={`/archive/${date}?page=${page - 1}`} className="text-neon-cyan hover:underline">&larr; Previous</a>
+            ) : <span />}
+            <span className="text-gray-500 text-xs">page {page} of {totalPages}</span>
+            {page < totalPages ? (
+              <a href={`/archive/${date}?page=${page + 1}`} className="text-neon-cyan hover:underline">Next &rarr;</a>
+            ) : <span />}
+          </div>
+        )}
+      </div>
+      </div>
+    </main>
+  );
+}
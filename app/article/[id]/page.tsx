@@ -1,6 +1,7 @@
 import { notFound } from "next/navigation";
 import type { Metadata } from "next";
-import { getHeadlineWithDetails, getRelatedHeadlines } from "@/lib/db";
+import { getHeadlineWithDetails, getHeadlineRevisions, getRelatedHeadlines, getStoryTimeline } from "@/lib/db";
+import { describeRevisionChanges, formatRevisionNote } from "@/lib/headline-editor";
 import { TokenBadge } from "@/components/TokenBadge";
 import { CopyLinkButton } from "@/components/CopyLinkButton";
 import { CopyAddressButton } from "@/components/CopyAddressButton";
@@ -25,7 +26,9 @@ export async function generateMetadata({ params }: ArticlePageProps): Promise<Me
   if (!article) return { title: "Article Not Found" };
 
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
-  const ogImageUrl = `${siteUrl}/api/og/${id}`;
+  // The revision is part of the card URL so edits don't keep serving a cached card
+  const latestRevision = getHeadlineRevisions(article.id).pop();
+  const ogImageUrl = `${siteUrl}/api/og/${id}${latestRevision ? `?v=${latestRevision.id}` : ""}`;
 
   const description = article.token
     ? `$${article.token.ticker} token launched for this story. Trade on pump.fun. Powered by The McAfee Report.`
@@ -85,6 +88,8 @@ export default async function ArticlePage({ params }: ArticlePageProps) {
   const telegramShareUrl = encodeURIComponent(articleUrlTg);
 
   const publishedDate = new Date(article.created_at);
+  const revisions = getHeadlineRevisions(article.id);
+  const latestRevision = revisions[revisions.length - 1];
 
   // Extract summary for both the Summary box and the chatbot context
   let articleSummary: string | null = article.summary || null;
@@ -104,7 +109,7 @@ export default async function ArticlePage({ params }: ArticlePageProps) {
     headline: article.title,
     url: articleUrl,
     datePublished: article.created_at,
-    dateModified: article.created_at,
+    dateModified: latestRevision ? latestRevision.created_at : article.created_at,
     image: article.image_url ? [article.image_url] : undefined,
     description: articleSummary || article.title,
     publisher: {
@@ -169,6 +174,20 @@ export default async function ArticlePage({ params }: ArticlePageProps) {
           </a>
         )}
 
+        {/* Latest edit note — corrections are called out */}
+        {latestRevision && (
+          <p
+            className={`text-sm mb-4 ${
+              latestRevision.kind === "correction" ? "text-yellow-400" : "text-gray-400"
+            }`}
+          >
+            <span className="font-semibold">{formatRevisionNote(latestRevision)}</span>
+            <span className="text-gray-500 font-mono ml-2">
+              <TimeAgo date={latestRevision.created_at} />
+            </span>
+          </p>
+        )}
+
         {/* AI McAfee Commentary */}
         {article.mcafee_take && (
           <div className="mb-6">
@@ -186,7 +205,9 @@ export default async function ArticlePage({ params }: ArticlePageProps) {
           {article.submitter_wallet && (
             <span>Submitted by {article.submitter_wallet.slice(0, 4)}...{article.submitter_wallet.slice(-4)}</span>
           )}
-          <span>{publishedDate.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}</span>
+          <a href={`/archive/${article.created_at.slice(0, 10)}`} className="hover:text-neon-cyan">
+            {publishedDate.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}
+          </a>
           <a
             href={article.url}
             target="_blank"
@@ -344,6 +365,76 @@ export default async function ArticlePage({ params }: ArticlePageProps) {
         {/* Comments */}
         <CommentSection headlineId={article.id} />
 
+        {/* Change history — every edit since publication */}
+        {revisions.length > 0 && (
+          <div className="border-t border-dark-200/30 pt-8 mb-8">
+            <h2 className="text-lg font-bold text-white mb-4 tracking-wide">
+              CHANGE HISTORY <span className="text-xs text-gray-500 font-mono">({revisions.length} {revisions.length === 1 ? "edit" : "edits"})</span>
+            </h2>
+            <ol className="space-y-3">
+              {[...revisions].reverse().map((revision) => (
+                <li key={revision.id} className="text-sm">
+                  <p className="text-xs text-gray-500 font-mono">
+                    <TimeAgo date={revision.created_at} />
+                    <span className={`ml-2 uppercase ${revision.kind === "correction" ? "text-yellow-400" : "text-neon-cyan/80"}`}>
+                      {revision.kind === "correction" ? "Correction" : "Update"}
+                    </span>
+                    <span className="ml-2">{describeRevisionChanges(revision).join(", ")}</span>
+                  </p>
+                  {revision.note && <p className="text-gray-300">{revision.note}</p>}
+                  {revision.old_title !== null && (
+                    <p className="text-gray-500">
+                      Was: <span className="line-through">{revision.old_title}</span>
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {/* Developing story — earlier and later coverage of the same event */}
+        {(() => {
+          const timeline = getStoryTimeline(article.id);
+          if (timeline.length < 2) return null;
+          return (
+            <div className="border-t border-dark-200/30 pt-8 mb-8">
+              <h2 className="text-lg font-bold text-white mb-4 tracking-wide">
+                DEVELOPING STORY <span className="text-xs text-gray-500 font-mono">({timeline.length} updates)</span>
+              </h2>
+              <ol className="border-l border-neon-cyan/30 ml-2 space-y-4">
+                {timeline.map((entry) => {
+                  const isCurrent = entry.id === article.id;
+                  return (
+                    <li key={entry.id} className="relative ml-4">
+                      <span
+                        className={`absolute -left-[22.5px] top-1 w-3 h-3 rounded-full border ${
+                          isCurrent ? "bg-neon-cyan border-neon-cyan" : "bg-dark-100 border-neon-cyan/50"
+                        }`}
+                        aria-hidden="true"
+                      />
+                      <p className="text-xs text-gray-500 font-mono">
+                        <TimeAgo date={entry.created_at} />
+                        {entry.is_update && <span className="ml-2 text-neon-cyan/80 uppercase">Update</span>}
+                      </p>
+                      {isCurrent ? (
+                        <p className="text-sm font-medium text-neon-cyan leading-tight">{entry.title}</p>
+                      ) : (
+                        <a
+                          href={`/article/${entry.id}`}
+                          className="text-sm font-medium text-gray-200 hover:text-neon-cyan transition-colors leading-tight"
+                        >
+                          {entry.title}
+                        </a>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          );
+        })()}
+
         {/* Related Articles — prevents dead-end user journeys */}
         {(() => {
           const related = getRelatedHeadlines(article.id, 6);
@@ -0,0 +1,114 @@
+import type { Metadata } from "next";
+import { getBuyBurnTotals, getRecentBuyBurns } from "@/lib/db";
+import { ThemeToggle } from "@/components/ThemeToggle";
+
+export const revalidate = 60;
+
+export const metadata: Metadata = {
+  title: "$NEWS Burns | The McAfee Report",
+  description: "Every $NEWS buy-and-burn funded by creator fees, with on-chain transactions.",
+};
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+/** pump.fun tokens use 6 decimals (NEWS_TOKEN_DECIMALS in lib/buy-burn.ts). */
+const NEWS_DECIMALS = 6;
+
+function formatSol(lamports: number): string {
+  const sol = lamports / LAMPORTS_PER_SOL;
+  return sol < 0.01 ? sol.toFixed(4) : sol.toFixed(2);
+}
+
+function formatNews(amount: number): string {
+  return (amount / 10 ** NEWS_DECIMALS).toLocaleString("en-US", { maximumFractionDigits: 0 });
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function TxLink({ label, signature }: { label: string; signature: string | null }) {
+  if (!signature) return null;
+  return (
+    <a
+      href={`https://solscan.io/tx/${signature}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-neon-cyan hover:underline"
+    >
+      {label}
+    </a>
+  );
+}
+
+export default function BurnsPage() {
+  const totals = getBuyBurnTotals();
+  // Only runs that bought tokens are public; pending and failed swaps spent nothing
+  const burns = getRecentBuyBurns(100).filter((b) => b.status === "burned" || b.status === "swapped");
+
+  const totalCards = [
+    { label: "$NEWS burned", value: formatNews(totals.burnedAmount), className: "text-neon-cyan" },
+    { label: "SOL spent", value: formatSol(totals.spentLamports), className: "text-green-400" },
+    { label: "Burns", value: String(totals.burns), className: "text-gray-300" },
+  ];
+
+  return (
+    <main className="main-content">
+      <div className="min-h-screen grid-bg">
+      {/* Header */}
+      <div className="border-b border-dark-200/30 py-4">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center justify-between">
+            <a href="/" className="text-neon-cyan hover:underline text-sm font-mono">
+              &larr; Back to The McAfee Report
+            </a>
+            <ThemeToggle />
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <h1 className="text-3xl md:text-4xl font-bold text-center mb-2">
+          <span className="text-neon-cyan">$NEWS</span> BURNS
+        </h1>
+        <p className="text-gray-400 text-center mb-8 text-sm">
+          Creator fees buy $NEWS on the open market and burn it.
+        </p>
+
+        {/* Totals */}
+        <div className="grid grid-cols-3 gap-2 mb-8">
+          {totalCards.map((card) => (
+            <div key={card.label} className="p-3 rounded-lg bg-dark-100/50 border border-dark-200/30 text-center">
+              <p className={`text-lg font-bold ${card.className}`}>{card.value}</p>
+              <p className="text-[10px] text-gray-500 uppercase">{card.label}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Burn history */}
+        <h2 className="text-lg font-bold mb-3">Burn history</h2>
+        {burns.length === 0 ? (
+          <p className="text-gray-500 text-sm py-8 text-center">No burns yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {burns.map((burn) => (
+              <div
+                key={burn.id}
+                className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-dark-100/50 border border-dark-200/30 text-xs font-mono"
+              >
+                <span className="text-gray-500">{formatDate(burn.completed_at || burn.created_at)}</span>
+                <span className="flex-1">
+                  {formatNews(burn.burned_amount ?? burn.bought_amount ?? 0)} $NEWS
+                  <span className="text-gray-500"> for {formatSol(burn.input_lamports)} SOL</span>
+                </span>
+                {burn.status === "swapped" && <span className="uppercase text-yellow-400">burn pending</span>}
+                <TxLink label="swap" signature={burn.swap_tx_signature} />
+                <TxLink label="burn" signature={burn.burn_tx_signature} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,193 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getSubmitterEarnings, type EarningsEntry } from "@/lib/db";
+import { isValidSolanaAddress } from "@/lib/solana-wallet";
+import { TokenBadge } from "@/components/TokenBadge";
+import { ThemeToggle } from "@/components/ThemeToggle";
+
+export const revalidate = 60;
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+const STATUS_CLASSES: Record<EarningsEntry["status"], string> = {
+  paid: "text-green-400",
+  pending: "text-yellow-400",
+  failed: "text-red-400",
+  skipped: "text-gray-500",
+};
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+function formatSol(lamports: number): string {
+  const sol = lamports / LAMPORTS_PER_SOL;
+  return sol < 0.01 ? sol.toFixed(4) : sol.toFixed(2);
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function TxLink({ signature }: { signature: string | null }) {
+  if (!signature) return null;
+  return (
+    <a
+      href={`https://solscan.io/tx/${signature}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-neon-cyan hover:underline"
+    >
+      {signature.slice(0, 8)}...
+    </a>
+  );
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ solAddress: string }>;
+}): Promise<Metadata> {
+  const { solAddress } = await params;
+  return {
+    title: `Earnings for ${shortAddress(solAddress)} | The McAfee Report`,
+    description: "Tokens launched and SOL earned by a McAfee Report submitter.",
+  };
+}
+
+export default async function EarningsPage({
+  params,
+}: {
+  params: Promise<{ solAddress: string }>;
+}) {
+  const { solAddress } = await params;
+  if (!isValidSolanaAddress(solAddress)) {
+    notFound();
+  }
+
+  const earnings = getSubmitterEarnings(solAddress);
+  const { totals } = earnings;
+
+  const totalCards = [
+    { label: "Lifetime", lamports: totals.lifetime_lamports, className: "text-neon-cyan" },
+    { label: "Paid", lamports: totals.paid_lamports, className: "text-green-400" },
+    { label: "Pending", lamports: totals.pending_lamports, className: "text-yellow-400" },
+    { label: "Skipped", lamports: totals.skipped_lamports, className: "text-gray-400" },
+  ];
+
+  return (
+    <main className="main-content">
+      <div className="min-h-screen grid-bg">
+      {/* Header */}
+      <div className="border-b border-dark-200/30 py-4">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center justify-between">
+            <a href="/" className="text-neon-cyan hover:underline text-sm font-mono">
+              &larr; Back to The McAfee Report
+            </a>
+            <ThemeToggle />
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <h1 className="text-3xl md:text-4xl font-bold text-center mb-2">
+          <span className="text-neon-cyan">EARNINGS</span>
+        </h1>
+        <p className="text-gray-400 text-center mb-8 text-sm font-mono break-all">
+          {solAddress}
+          {earnings.rank && ` · #${earnings.rank} all-time`}
+        </p>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-8">
+          {totalCards.map((card) => (
+            <div key={card.label} className="p-3 rounded-lg bg-dark-100/50 border border-dark-200/30 text-center">
+              <p className={`text-lg font-bold ${card.className}`}>{formatSol(card.lamports)}</p>
+              <p className="text-[10px] text-gray-500 uppercase">{card.label} SOL</p>
+            </div>
+          ))}
+        </div>
+        {totals.failed_lamports > 0 && (
+          <p className="text-red-400 text-xs font-mono text-center -mt-6 mb-8">
+            {formatSol(totals.failed_lamports)} SOL failed to send and will be retried
+          </p>
+        )}
+
+        {/* Tokens with their allocations */}
+        <h2 className="text-lg font-bold mb-3">Tokens launched ({earnings.tokens.length})</h2>
+        {earnings.tokens.length === 0 ? (
+          <p className="text-gray-500 text-sm py-8 text-center">No tokens launched from this wallet.</p>
+        ) : (
+          <div className="space-y-3 mb-8">
+            {earnings.tokens.map((token) => {
+              const entries = earnings.entries.filter((e) => e.token_id === token.id);
+              return (
+                <div key={token.id} className="p-3 rounded-lg bg-dark-100/50 border border-dark-200/30">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      {token.headline_id ? (
+                        <a href={`/article/${token.headline_id}`} className="font-medium text-sm hover:text-neon-cyan">
+                          {token.token_name}
+                        </a>
+                      ) : (
+                        <p className="font-medium text-sm">{token.token_name}</p>
+                      )}
+                      <p className="text-[10px] text-gray-500 uppercase mt-1 font-mono">
+                        Launched {formatDate(token.created_at)}
+                      </p>
+                    </div>
+                    {token.pump_url && (
+                      <TokenBadge pumpUrl={token.pump_url} ticker={token.ticker} imageUrl={token.image_url ?? undefined} size="sm" />
+                    )}
+                  </div>
+
+                  {entries.length === 0 ? (
+                    <p className="text-gray-500 text-xs mt-2">No earnings yet.</p>
+                  ) : (
+                    <table className="w-full mt-3 text-xs font-mono">
+                      <tbody>
+                        {entries.map((entry) => (
+                          <tr key={`${entry.source}-${entry.id}`} className="border-t border-dark-200/30">
+                            <td className="py-1 text-gray-500">{formatDate(entry.created_at)}</td>
+                            <td className="py-1 text-gray-400">
+                              {entry.source === "claim_allocation" ? "Fee claim" : "Revenue"}
+                            </td>
+                            <td className="py-1 text-right">{formatSol(entry.submitter_lamports)} SOL</td>
+                            <td className={`py-1 pl-3 uppercase ${STATUS_CLASSES[entry.status]}`}>{entry.status}</td>
+                            <td className="py-1 pl-3 text-right"><TxLink signature={entry.tx_signature} /></td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Batched payouts */}
+        {earnings.payouts.length > 0 && (
+          <>
+            <h2 className="text-lg font-bold mb-3">Payouts</h2>
+            <div className="space-y-2">
+              {earnings.payouts.map((payout) => (
+                <div
+                  key={payout.batch_id}
+                  className="flex items-center gap-3 p-3 rounded-lg bg-dark-100/50 border border-dark-200/30 text-xs font-mono"
+                >
+                  <span className="text-gray-500">{formatDate(payout.created_at)}</span>
+                  <span className="flex-1">{formatSol(payout.amount_lamports)} SOL</span>
+                  <span className="uppercase text-gray-400">{payout.status}</span>
+                  <TxLink signature={payout.tx_signature} />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+      </div>
+    </main>
+  );
+}
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
-import { getTopSubmitters, getRecentTokenLaunches, getPublishedTodayCount } from "@/lib/db";
+import { getTopSubmitters, getRecentTokenLaunches, getPublishedTodayCount, getAverageTokenFeeLamports } from "@/lib/db";
+import { getUserReputation } from "@/lib/reputation";
 import { TokenBadge } from "@/components/TokenBadge";
 import { SubmitCTA } from "@/components/SubmitCTA";
 import { ThemeToggle } from "@/components/ThemeToggle";
@@ -12,7 +13,11 @@ export const metadata: Metadata = {
 };
 
 export default function LeaderboardPage() {
-  const topSubmitters = getTopSubmitters("all", 15);
+  const averageTokenFee = getAverageTokenFeeLamports();
+  const topSubmitters = getTopSubmitters("all", 15).map((submitter) => ({
+    ...submitter,
+    reputation: getUserReputation(submitter.telegram_user_id, averageTokenFee).score,
+  }));
   const recentLaunches = getRecentTokenLaunches("all", 15);
   const publishedToday = getPublishedTodayCount();
 
@@ -78,6 +83,9 @@ export default function LeaderboardPage() {
                       </p>
                       <p className="text-xs text-gray-500">
                         {submitter.total_submissions} submitted, {Math.round((submitter.published_count / submitter.total_submissions) * 100)}% hit rate
+                        <span className="ml-2 text-neon-cyan/70" title="Reputation: published vs rejected, originality, votes and token performance">
+                          rep {submitter.reputation}
+                        </span>
                       </p>
                     </div>
 
@@ -8,8 +8,8 @@ import { getSidebarHeadlines, getMainHeadline, getBreakingHeadline } from "@/lib
 import { MayhemBanner } from "@/components/MayhemBanner";
 import { SimpleFooter } from "@/components/SimpleFooter";
 
-// Revalidate every 10 seconds
-export const revalidate = 10;
+// Revalidate every 60 seconds — between renders, updates arrive over /api/live
+export const revalidate = 60;
 
 export default function Home() {
   const allSidebarHeadlines = getSidebarHeadlines(72);
@@ -48,7 +48,22 @@ export default function Home() {
                 </p>
                 <TokenTicker />
               </div>
-              <div className="flex-shrink-0 mt-1">
+              <div className="flex-shrink-0 mt-1 flex items-center gap-2">
+                <a
+                  href="/search"
+                  aria-label="Search headlines"
+                  className="text-neon-cyan hover:opacity-80 transition-opacity"
+                >
+                  <svg aria-hidden="true" width="18" height="18" viewBox="0 0 18 18" fill="none">
+                    <path
+                      d="m16 16-3.5-3.5M14 8A6 6 0 1 1 2 8a6 6 0 0 1 12 0Z"
+                      stroke="currentColor"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="1.5"
+                    />
+                  </svg>
+                </a>
                 <ThemeToggle />
               </div>
             </div>
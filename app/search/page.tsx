@@ -0,0 +1,188 @@
+import type { Metadata } from "next";
+import { searchHeadlines } from "@/lib/db";
+import { parseHeadlineSearchParams } from "@/lib/headline-search";
+import { TokenBadge } from "@/components/TokenBadge";
+import { ThemeToggle } from "@/components/ThemeToggle";
+
+export const metadata: Metadata = {
+  title: "Search | The McAfee Report",
+  description: "Search every headline, McAfee take and token ever published on The McAfee Report.",
+};
+
+const CONTENT_TYPE_OPTIONS = [
+  { value: "", label: "All types" },
+  { value: "article", label: "Articles" },
+  { value: "tweet", label: "Tweets" },
+  { value: "youtube", label: "YouTube" },
+  { value: "tiktok", label: "TikTok" },
+];
+
+const TOKEN_OPTIONS = [
+  { value: "", label: "With or without token" },
+  { value: "true", label: "Has token" },
+  { value: "false", label: "No token" },
+];
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function firstParam(params: SearchParams, name: string): string | undefined {
+  const value = params[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  const get = (name: string) => firstParam(params, name);
+  const parsed = parseHeadlineSearchParams(get);
+  const { results, total } = "error" in parsed
+    ? { results: [], total: 0 }
+    : searchHeadlines(parsed.filters);
+
+  const page = "error" in parsed ? 1 : parsed.page;
+  const limit = "error" in parsed ? 0 : parsed.limit;
+  const totalPages = limit > 0 ? Math.ceil(total / limit) : 0;
+
+  /** Build a link to another results page, keeping the current filters. */
+  const pageHref = (target: number): string => {
+    const query = new URLSearchParams();
+    for (const name of ["q", "from", "to", "type", "token"]) {
+      const value = get(name);
+      if (value) query.set(name, value);
+    }
+    query.set("page", String(target));
+    return `/search?${query.toString()}`;
+  };
+
+  const inputClass =
+    "bg-dark-100/50 border border-dark-200/30 rounded-lg px-3 py-2 text-sm font-mono focus:outline-none focus:border-neon-cyan/50";
+
+  return (
+    <main className="main-content">
+      <div className="min-h-screen grid-bg">
+      {/* Header */}
+      <div className="border-b border-dark-200/30 py-4">
+        <div className="container mx-auto px-4">
+          <div className="flex items-center justify-between">
+            <a href="/" className="text-neon-cyan hover:underline text-sm font-mono">
+              &larr; Back to The McAfee Report
+            </a>
+            <ThemeToggle />
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <h1 className="text-3xl md:text-4xl font-bold text-center mb-2">
+          <span className="text-neon-cyan">SEARCH</span>
+        </h1>
+        <p className="text-gray-400 text-center mb-8 text-sm">
+          Every headline, McAfee take and token we&apos;ve ever published.
+        </p>
+
+        {/* Search form (plain GET so results are linkable) */}
+        <form action="/search" method="get" className="space-y-3 mb-8">
+          <div className="flex gap-2">
+            <input
+              type="search"
+              name="q"
+              defaultValue={get("q") || ""}
+              placeholder="Search headlines, takes, tickers..."
+              aria-label="Search query"
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-neon-cyan/10 border border-neon-cyan/30 text-neon-cyan text-sm font-mono hover:bg-neon-cyan/20 transition-colors"
+            >
+              Search
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2 text-xs text-gray-400">
+            <label className="flex items-center gap-2">
+              From
+              <input type="date" name="from" defaultValue={get("from") || ""} className={inputClass} />
+            </label>
+            <label className="flex items-center gap-2">
+              To
+              <input type="date" name="to" defaultValue={get("to") || ""} className={inputClass} />
+            </label>
+            <select name="type" defaultValue={get("type") || ""} aria-label="Content type" className={inputClass}>
+              {CONTENT_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select name="token" defaultValue={get("token") || ""} aria-label="Token filter" className={inputClass}>
+              {TOKEN_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </form>
+
+        {"error" in parsed ? (
+          <p className="text-red-400 text-sm py-8 text-center">{parsed.error}</p>
+        ) : results.length === 0 ? (
+          <p className="text-gray-500 text-sm py-8 text-center">No headlines found.</p>
+        ) : (
+          <>
+            <p className="text-gray-500 text-xs font-mono mb-4">
+              {total} result{total === 1 ? "" : "s"}
+              {totalPages > 1 && ` · page ${page} of ${totalPages}`}
+            </p>
+            <div className="space-y-2">
+              {results.map((headline) => (
+                <div
+                  key={headline.id}
+                  className="p-3 rounded-lg bg-dark-100/50 border border-dark-200/30 hover:border-dark-200/60 transition-colors"
+                >
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <a
+                        href={`/article/${headline.id}`}
+                        className="font-medium text-sm hover:text-neon-cyan"
+                      >
+                        {headline.title}
+                      </a>
+                      {headline.mcafee_take && (
+                        <p className="text-xs text-gray-400 mt-1 line-clamp-2">{headline.mcafee_take}</p>
+                      )}
+                      <p className="text-[10px] text-gray-500 uppercase mt-1 font-mono">
+                        {new Date(headline.created_at).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                        {" · "}{headline.content_type}
+                      </p>
+                    </div>
+                    {headline.token && (
+                      <TokenBadge
+                        pumpUrl={headline.token.pump_url}
+                        ticker={headline.token.ticker}
+                        imageUrl={headline.token.image_url}
+                        size="sm"
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Paging */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between mt-6 text-sm font-mono">
+                {page > 1 ? (
+                  <a href={pageHref(page - 1)} className="text-neon-cyan hover:underline">&larr; Previous</a>
+                ) : <span />}
+                {page < totalPages ? (
+                  <a href={pageHref(page + 1)} className="text-neon-cyan hover:underline">Next &rarr;</a>
+                ) : <span />}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      </div>
+    </main>
+  );
+}
@@ -1,10 +1,10 @@
 /**
  * Dynamic sitemap generation for Google Search Console.
- * Automatically discovers all article pages + static routes.
+ * Automatically discovers all article pages, archive day pages + static routes.
  */
 
 import type { MetadataRoute } from "next";
-import { getAllHeadlines } from "@/lib/db";
+import { getAllHeadlines, getHeadlineDays } from "@/lib/db";
 
 export default function sitemap(): MetadataRoute.Sitemap {
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
@@ -40,5 +40,13 @@ export default function sitemap(): MetadataRoute.Sitemap {
     priority: 0.8,
   }));
 
-  return [...staticPages, ...articlePages];
+  // Archive day pages (reach articles older than the article list above)
+  const archivePages: MetadataRoute.Sitemap = getHeadlineDays(365).map(({ day }) => ({
+    url: `${siteUrl}/archive/${day}`,
+    lastModified: new Date(`${day}T23:59:59Z`),
+    changeFrequency: "daily" as const,
+    priority: 0.5,
+  }));
+
+  return [...staticPages, ...articlePages, ...archivePages];
 }
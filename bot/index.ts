@@ -25,7 +25,6 @@ if (!envLoaded) {
 }
 
 import { Bot, Context, session, SessionFlavor, InlineKeyboard } from "grammy";
-import OpenAI from "openai";
 import { PublicKey } from "@solana/web3.js";
 import { safeFetchText, isUrlSafe, sanitizeForPrompt } from "../lib/url-validator";
 import {
@@ -35,6 +34,7 @@ import {
   getWhitelist,
   getAllHeadlines,
   removeHeadline,
+  getHeadlineWithDetails,
   createSubmission,
   getSubmissionsByUser,
   getPendingSubmissionsCount,
@@ -50,12 +50,60 @@ import {
   getFinancialStats,
   getVisitStats,
   tickerExists,
+  getSubmissionById,
+  getLatestSubmissionValidation,
+  getAppealById,
+  getPendingAppeals,
+  getApprovedBacklog,
+  getApprovedQueuePosition,
+  getEffectivePayoutWallet,
+  getScheduledPayoutWallet,
+  getOpenTransferApprovals,
+  getIngestionSources,
+  getIngestionSourceById,
+  setIngestionSourceEnabled,
+  getOpenPublishReviews,
+  getPublishReviewById,
+  listSourceDomains,
 } from "../lib/db";
+import { fileAppeal, reviewAppeal } from "../lib/appeals";
+import type { SourceDomainTier, SubmissionAppeal } from "../lib/types";
 import { generateMcAfeeTake, scoreHeadlineImportance, generateCoinSummary } from "../lib/mcafee-commentator";
+import { chatCompletion, isLlmConfigured } from "../lib/llm-provider";
+import { assertSchemaVersion } from "../lib/migrations";
+import {
+  createPayoutWalletChallenge,
+  registerPayoutWallet,
+  cancelPayoutWalletChange,
+  getPayoutWalletCooldownHours,
+  type PayoutWalletChallenge,
+} from "../lib/payout-wallets";
+import { formatTransferApproval, voteOnTransferApproval } from "../lib/transfer-approvals";
+import { freezeWallet, getWalletFreeze, unfreezeWallet } from "../lib/wallet-guardrails";
+import { getEmergencyPause, pauseOperations, resumeOperations } from "../lib/emergency-pause";
+import {
+  describeUndatedItems,
+  formatIngestionSource,
+  getNewsroomAddress,
+  pollIngestionSources,
+  registerIngestionSource,
+} from "../lib/ingestion";
+import {
+  applyReviewEdit,
+  decideOnPublishReview,
+  formatPublishReview,
+  getReviewTimeoutMinutes,
+  isEditorReviewEnabled,
+  parseReviewEdit,
+  setEditorReviewEnabled,
+} from "../lib/publish-review";
+import { editHeadline, formatRevisionNote, parseHeadlineEdit } from "../lib/headline-editor";
+import { formatReputation, getSubmissionLimitPerHour, getUserReputation } from "../lib/reputation";
+import { formatSourceDomain, getDomainTrust, setDomainTier } from "../lib/source-domains";
 
 // Session data interface
 interface SessionData {
-  step: "idle" | "awaiting_url" | "awaiting_headline_choice" | "awaiting_image_choice" | "awaiting_column" | "awaiting_main_url" | "awaiting_main_headline_choice" | "awaiting_main_image_choice" | "awaiting_main_subtitle" | "awaiting_submit_url" | "awaiting_sol_address" | "awaiting_token_name" | "awaiting_cotd_url" | "awaiting_cotd_headline_choice" | "awaiting_cotd_image_choice" | "awaiting_cotd_description";
+  step: "idle" | "awaiting_url" | "awaiting_headline_choice" | "awaiting_image_choice" | "awaiting_column" | "awaiting_main_url" | "awaiting_main_headline_choice" | "awaiting_main_image_choice" | "awaiting_main_subtitle" | "awaiting_submit_url" | "awaiting_sol_address" | "awaiting_token_name" | "awaiting_cotd_url" | "awaiting_cotd_headline_choice" | "awaiting_cotd_image_choice" | "awaiting_cotd_description" | "awaiting_wallet_signature" | "awaiting_review_edit" | "awaiting_headline_edit";
   pendingUrl?: string;
   pendingTitle?: string;
   pendingColumn?: "left" | "right";
@@ -66,6 +114,9 @@ interface SessionData {
   pendingTokenName?: string;
   pendingTicker?: string;
   pendingPageContent?: { title: string; description: string; content: string; imageUrl: string | null };
+  pendingWalletChallenge?: PayoutWalletChallenge;
+  pendingReviewId?: number;
+  pendingHeadlineId?: number;
 }
 
 type MyContext = Context & SessionFlavor<SessionData>;
@@ -75,7 +126,6 @@ const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 const API_URL = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
 const API_SECRET = process.env.API_SECRET_KEY;
 const ADMIN_IDS = (process.env.ADMIN_TELEGRAM_IDS || "").split(",").filter(Boolean);
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 
 if (!BOT_TOKEN) {
   console.error("TELEGRAM_BOT_TOKEN is required");
@@ -87,15 +137,17 @@ if (!API_SECRET) {
   process.exit(1);
 }
 
-if (!OPENAI_API_KEY) {
-  console.error("OPENAI_API_KEY is required");
+if (!isLlmConfigured()) {
+  console.error("OPENAI_API_KEY is required (or set LLM_PROVIDER=local with LLM_BASE_URL, or LLM_PROVIDER=fixture)");
   process.exit(1);
 }
 
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: OPENAI_API_KEY,
-});
+try {
+  assertSchemaVersion();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
 
 // Create bot instance
 const bot = new Bot<MyContext>(BOT_TOKEN);
@@ -521,7 +573,7 @@ async function fetchPageContent(url: string): Promise<{ title: string; descripti
   return fetchRegularPageContent(url);
 }
 
-// Helper: Generate headlines using OpenAI
+// Helper: Generate headlines using the commentary LLM
 async function generateHeadlines(url: string, pageData: { title: string; description: string; content: string }): Promise<string[]> {
   const prompt = `You are John McAfee's AI headline writer for The McAfee Report — a Drudge Report-style crypto news aggregator. Write headlines like McAfee would: provocative, irreverent, anti-establishment, darkly funny, and always cutting to the truth they don't want you to see.
 
@@ -544,8 +596,7 @@ Requirements:
 Return ONLY the 3 headlines, one per line, numbered 1-3. No other text.`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await chatCompletion("commentary", {
       messages: [
         {
           role: "user",
@@ -553,10 +604,10 @@ Return ONLY the 3 headlines, one per line, numbered 1-3. No other text.`;
         },
       ],
       temperature: 0.8,
-      max_tokens: 300,
+      maxTokens: 300,
     });
 
-    const response = completion.choices[0]?.message?.content || "";
+    const response = completion.content;
     
     // Parse the numbered headlines
     const lines = response.split("\n").filter(line => line.trim());
@@ -581,7 +632,7 @@ Return ONLY the 3 headlines, one per line, numbered 1-3. No other text.`;
   }
 }
 
-// Helper: Generate Coin Of The Day title options using OpenAI
+// Helper: Generate Coin Of The Day title options using the commentary LLM
 async function generateCotdHeadlines(url: string, pageData: { title: string; description: string; content: string }): Promise<string[]> {
   const prompt = `You are writing the "Coin Of The Day" feature title for The McAfee Report — a crypto news aggregator. This highlights a single crypto project each day.
 
@@ -603,14 +654,13 @@ Requirements:
 Return ONLY the 3 titles, one per line, numbered 1-3. No other text.`;
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await chatCompletion("commentary", {
       messages: [{ role: "user", content: prompt }],
       temperature: 0.8,
-      max_tokens: 200,
+      maxTokens: 200,
     });
 
-    const response = completion.choices[0]?.message?.content || "";
+    const response = completion.content;
     const lines = response.split("\n").filter(line => line.trim());
     const headlines = lines
       .map(line => line.replace(/^\d+[\.\)]\s*/, "").trim())
@@ -645,6 +695,23 @@ function resetSession(session: SessionData) {
   session.pendingSolAddress = undefined;
   session.pendingTokenName = undefined;
   session.pendingTicker = undefined;
+  session.pendingWalletChallenge = undefined;
+  session.pendingReviewId = undefined;
+  session.pendingHeadlineId = undefined;
+}
+
+/** Apply an /edit message and report the outcome. Returns true if applied. */
+async function replyWithHeadlineEdit(ctx: MyContext, userId: number, headlineId: number, text: string): Promise<boolean> {
+  const result = editHeadline(headlineId, parseHeadlineEdit(text), userId.toString());
+  if (!result.success || !result.revision) {
+    await ctx.reply(`${result.error || "Could not edit the headline."}\nSend the changes again or /cancel.`);
+    return false;
+  }
+
+  await ctx.reply(
+    `Headline #${headlineId} edited (${formatRevisionNote(result.revision)}).\n${API_URL}/article/${headlineId}`
+  );
+  return true;
 }
 
 async function finalizeSubmission(ctx: MyContext, userId: number, session: SessionData) {
@@ -736,11 +803,72 @@ function statusLabel(status: string): string {
     case "validating": return "Validating";
     case "approved": return "Approved";
     case "rejected": return "Rejected";
+    case "appealed": return "Under appeal";
     case "published": return "Published";
     default: return status;
   }
 }
 
+// Helper: Format an appeal for the editor review queue
+function formatAppeal(appeal: SubmissionAppeal): string {
+  const submission = getSubmissionById(appeal.submission_id);
+  const shortUrl = submission
+    ? (submission.url.length > 40 ? submission.url.substring(0, 37) + "..." : submission.url)
+    : "unknown";
+
+  let msg = `*Appeal #${appeal.id}* — submission \`#${appeal.submission_id}\`\n`;
+  msg += `URL: \`${shortUrl}\`\n`;
+  if (submission?.rejection_reason) {
+    msg += `Rejected: ${escapeMarkdown(submission.rejection_reason)}\n`;
+  }
+  const validation = getLatestSubmissionValidation(appeal.submission_id);
+  if (validation?.duplicate_layer) {
+    msg += `Duplicate check: ${escapeMarkdown(validation.duplicate_layer)} match on #${validation.duplicate_of}` +
+      (validation.similarity !== null ? ` (${Math.round(validation.similarity * 100)}% similar)` : "") +
+      ` — _Update_ publishes it as a new development in that story\n`;
+  }
+  if (appeal.reason) {
+    msg += `Submitter says: ${escapeMarkdown(appeal.reason)}\n`;
+  }
+  msg += `_Filed ${appeal.created_at}_`;
+  return msg;
+}
+
+// Helper: Approve/deny buttons for an appeal, plus "Update" for duplicate
+// rejections (accept a follow-up as a developing-story entry)
+function appealReviewKeyboard(appeal: SubmissionAppeal): InlineKeyboard {
+  const keyboard = new InlineKeyboard().text("Approve", `appeal_approve_${appeal.id}`);
+  if (getLatestSubmissionValidation(appeal.submission_id)?.duplicate_layer) {
+    keyboard.text("Update", `appeal_update_${appeal.id}`);
+  }
+  return keyboard.text("Deny", `appeal_deny_${appeal.id}`);
+}
+
+// Helper: File an appeal and ping admins with review buttons
+async function submitAppeal(
+  ctx: MyContext,
+  userId: number,
+  submissionId: number,
+  reason?: string
+): Promise<string> {
+  const result = fileAppeal(submissionId, userId.toString(), reason);
+  if (!result.success || !result.appeal) {
+    return result.error || "Failed to file appeal.";
+  }
+
+  const appeal = result.appeal;
+  await Promise.allSettled(
+    ADMIN_IDS.map((adminId) =>
+      ctx.api.sendMessage(adminId, `*New Appeal*\n─────────────────────\n\n${formatAppeal(appeal)}`, {
+        parse_mode: "Markdown",
+        reply_markup: appealReviewKeyboard(appeal),
+      })
+    )
+  );
+
+  return `Appeal filed for submission #${submissionId}. An editor will review it and you'll be notified of the decision.`;
+}
+
 // ============================================================
 //  COMMANDS
 // ============================================================
@@ -758,7 +886,10 @@ bot.command("start", async (ctx) => {
 
   msg += `*Public*\n`;
   msg += `/submit  — Submit a news link\n`;
-  msg += `/mystatus — Your submissions\n\n`;
+  msg += `/mystatus — Your submissions\n`;
+  msg += `/wallet — Your payout wallet\n`;
+  msg += `/why — Why a submission was rejected\n`;
+  msg += `/appeal — Appeal a rejected submission\n\n`;
 
   if (authorized) {
     msg += `*Editor* (${admin ? "admin" : "whitelisted"})\n`;
@@ -767,6 +898,8 @@ bot.command("start", async (ctx) => {
     msg += `/cotd — Set Coin of the Day\n`;
     msg += `/list — Recent headlines\n`;
     msg += `/remove — Remove a headline\n`;
+    msg += `/edit — Edit or correct a published headline\n`;
+    msg += `/appeals — Appeal review queue\n`;
 
     if (admin) {
       msg += `\n*Admin*\n`;
@@ -775,6 +908,12 @@ bot.command("start", async (ctx) => {
       msg += `/removeuser — Remove from whitelist\n`;
       msg += `/queue — Submission queue\n`;
       msg += `/finances — Financial statistics\n`;
+      msg += `/approvals — Transfers awaiting approval\n`;
+      msg += `/freeze, /unfreeze — Halt or resume wallet sends\n`;
+      msg += `/pause, /resume — Stop or restart all on-chain operations\n`;
+      msg += `/sources — Feeds and sitemaps ingested as newsroom submissions\n`;
+      msg += `/review — Hold each publishing winner for editor approve / edit / skip\n`;
+      msg += `/domains — Source domain trust tiers and approval stats\n`;
       msg += `/visits — Visit statistics\n`;
     }
   }
@@ -801,6 +940,9 @@ bot.command("help", async (ctx) => {
   msg += `  Approved stories launch a token on pump.fun.\n`;
   msg += `  You receive 50% of creator fees.\n`;
   msg += `/mystatus — View your submission history\n`;
+  msg += `/wallet [address|cancel] — View or change your payout wallet\n`;
+  msg += `/why <id> — Validation breakdown for your submission\n`;
+  msg += `/appeal <id> [reason] — Ask an editor to re-review a rejection\n`;
   msg += `/cancel — Cancel current operation\n`;
 
   if (authorized) {
@@ -810,6 +952,8 @@ bot.command("help", async (ctx) => {
     msg += `/cotd — Set Coin of the Day (no token created)\n`;
     msg += `/list — View recent headlines with IDs\n`;
     msg += `/remove <id> — Remove a headline by ID\n`;
+    msg += `/edit <id> — Change a headline's title, image or summary (logged publicly)\n`;
+    msg += `/appeals — Review pending appeals (approve/deny)\n`;
   }
 
   if (admin) {
@@ -819,6 +963,14 @@ bot.command("help", async (ctx) => {
     msg += `/removeuser <id> — Remove from whitelist\n`;
     msg += `/queue — View pending submission queue\n`;
     msg += `/finances [day|week|all] — Financial statistics\n`;
+    msg += `/approvals — Approve or reject held outbound transfers\n`;
+    msg += `/freeze [reason] — Halt all outbound wallet sends\n`;
+    msg += `/unfreeze — Resume outbound wallet sends\n`;
+    msg += `/pause [reason] — Emergency stop for all on-chain operations\n`;
+    msg += `/resume — Restart on-chain operations\n`;
+    msg += `/sources [add <url> [name]|enable <id>|disable <id>|poll] — Newsroom feed ingestion\n`;
+    msg += `/review [on|off] — Editor review of each publishing winner (timeout auto-publishes)\n`;
+    msg += `/domains [trust|neutral|block <domain> [note]|info <domain>] — Source domain registry\n`;
     msg += `/visits — Page view stats (today/week/month)\n`;
   }
 
@@ -940,6 +1092,57 @@ bot.command("remove", async (ctx) => {
   }
 });
 
+// /edit <id> — change a published headline's title, image or summary
+bot.command("edit", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAuthorized(userId)) {
+    await ctx.reply("Not authorized.");
+    return;
+  }
+
+  const [firstLine, ...rest] = (ctx.message?.text || "").split("\n");
+  const id = parseInt(firstLine.split(/\s+/)[1]?.replace("#", "") || "", 10);
+  if (isNaN(id)) {
+    await ctx.reply(
+      "Usage: `/edit <id>`\nUse `/list` to see IDs.",
+      { parse_mode: "Markdown" }
+    );
+    return;
+  }
+
+  const headline = getHeadlineWithDetails(id);
+  if (!headline) {
+    await ctx.reply(`Headline #${id} not found.`);
+    return;
+  }
+
+  resetSession(ctx.session);
+  ctx.session.step = "awaiting_headline_edit";
+  ctx.session.pendingHeadlineId = id;
+
+  // Changes can follow on the next lines of the same message
+  if (rest.length > 0) {
+    if (await replyWithHeadlineEdit(ctx, userId, id, rest.join("\n"))) {
+      resetSession(ctx.session);
+    }
+    return;
+  }
+
+  await ctx.reply(
+    `Editing headline #${id}\n\n` +
+    `Title: ${headline.title}\n` +
+    `Image: ${headline.image_url || "none"}\n` +
+    `Summary: ${headline.summary ? `${headline.summary.slice(0, 200)}${headline.summary.length > 200 ? "..." : ""}` : "none"}\n\n` +
+    `Send the changes, one per line:\n\n` +
+    `title: New headline\n` +
+    `image: https://...\n` +
+    `summary: New summary\n` +
+    `note: Public note (optional)\n\n` +
+    `For a factual error use "correction: what was wrong" instead of note — it is shown as a Correction. ` +
+    `Every edit is listed on the article page. /cancel to stop.`
+  );
+});
+
 // /cancel
 bot.command("cancel", async (ctx) => {
   resetSession(ctx.session);
@@ -1006,12 +1209,25 @@ bot.command("mystatus", async (ctx) => {
 
       msg += `\`#${sub.id}\` — *${status}*\n`;
       msg += `${type}: \`${shortUrl}\`\n`;
+      if (sub.status === "approved") {
+        const position = getApprovedQueuePosition(sub.id);
+        if (position !== null) {
+          msg += `Queue position: ${position}${sub.carryover_count > 0 ? ` (carried over ${sub.carryover_count}x)` : ""}\n`;
+        }
+      }
       if (sub.rejection_reason) {
         msg += `Reason: ${sub.rejection_reason}\n`;
       }
       msg += `\n`;
     }
 
+    const reputation = getUserReputation(userId.toString());
+    msg += `Reputation: ${formatReputation(reputation)}\n`;
+    msg += `Submission limit: ${getSubmissionLimitPerHour(reputation.score)}/hour\n`;
+
+    const payoutAddress = getEffectivePayoutWallet(userId.toString())?.sol_address ?? submissions[0].sol_address;
+    msg += `Earnings: \`${API_URL}/earnings/${payoutAddress}\``;
+
     await ctx.reply(msg, { parse_mode: "Markdown" });
   } catch (error) {
     console.error("Error fetching submissions:", error);
@@ -1019,6 +1235,201 @@ bot.command("mystatus", async (ctx) => {
   }
 });
 
+// /why <id> — validation audit for a submission (own submissions, or any for admins)
+bot.command("why", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const args = ctx.message?.text?.split(" ").slice(1);
+  const submissionId = parseInt(args?.[0]?.replace("#", "") || "", 10);
+  if (isNaN(submissionId)) {
+    await ctx.reply("Usage: `/why <submission_id>`", { parse_mode: "Markdown" });
+    return;
+  }
+
+  const submission = getSubmissionById(submissionId);
+  if (!submission || (!isAdmin(userId) && submission.telegram_user_id !== userId.toString())) {
+    await ctx.reply(`Submission #${submissionId} not found.`);
+    return;
+  }
+
+  const audit = getLatestSubmissionValidation(submissionId);
+  if (!audit) {
+    await ctx.reply(
+      `*Submission #${submissionId}* — ${statusLabel(submission.status)}\n\nNo validation record yet.`,
+      { parse_mode: "Markdown" }
+    );
+    return;
+  }
+
+  const fmtMs = (ms: number | null): string => (ms === null ? "—" : `${ms}ms`);
+  const sourceLabels: Record<string, string> = {
+    structured: "page metadata",
+    ai: "AI extraction",
+    social_default: "social media (assumed fresh)",
+    unknown_default: "unknown (borderline default)",
+  };
+  const layerLabels: Record<string, string> = {
+    hash: "exact content hash",
+    embedding: "embedding similarity",
+    ai_title: "AI headline comparison",
+  };
+
+  let msg = `*Submission #${submissionId}* — ${statusLabel(submission.status)}\n`;
+  msg += `─────────────────────\n\n`;
+  msg += `*Result:* ${audit.is_valid ? "Passed" : "Failed"}\n`;
+  if (audit.rejection_reason) {
+    msg += `*Reason:* ${escapeMarkdown(audit.rejection_reason)}\n`;
+  }
+
+  msg += `\n*Fact check:* ${audit.fact_score ?? "—"}/100`;
+  if (audit.fact_model) msg += ` (\`${audit.fact_model}\`, ${fmtMs(audit.fact_latency_ms)})`;
+  msg += `\n`;
+  if (audit.fact_reason) msg += `  ${escapeMarkdown(audit.fact_reason)}\n`;
+
+  msg += `*Freshness:* ${audit.freshness_hours !== null ? `${Math.round(audit.freshness_hours * 10) / 10}h old` : "—"}\n`;
+  if (audit.published_at_source) {
+    msg += `  Date: ${audit.published_at ? `\`${audit.published_at}\`` : "none"} via ${sourceLabels[audit.published_at_source] || audit.published_at_source}`;
+    if (audit.freshness_model) msg += ` (\`${audit.freshness_model}\`, ${fmtMs(audit.freshness_latency_ms)})`;
+    msg += `\n`;
+  }
+
+  if (audit.duplicate_latency_ms !== null) {
+    msg += `*Duplicates:* `;
+    msg += audit.duplicate_layer
+      ? `matched #${audit.duplicate_of} by ${layerLabels[audit.duplicate_layer]}`
+      : `none found`;
+    if (audit.similarity !== null) msg += ` (top similarity ${(audit.similarity * 100).toFixed(1)}%)`;
+    msg += `, ${fmtMs(audit.duplicate_latency_ms)}\n`;
+  } else {
+    msg += `*Duplicates:* not checked\n`;
+  }
+
+  msg += `\n_Validated ${audit.created_at} in ${fmtMs(audit.total_latency_ms)}_`;
+
+  await ctx.reply(msg, { parse_mode: "Markdown" });
+});
+
+// /appeal <id> [reason] — ask an editor to re-review a rejected submission
+bot.command("appeal", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const args = ctx.message?.text?.split(" ").slice(1);
+  const submissionId = parseInt(args?.[0]?.replace("#", "") || "", 10);
+  if (isNaN(submissionId)) {
+    await ctx.reply("Usage: `/appeal <submission_id> [reason]`", { parse_mode: "Markdown" });
+    return;
+  }
+
+  const reason = args?.slice(1).join(" ");
+  await ctx.reply(await submitAppeal(ctx, userId, submissionId, reason));
+});
+
+// /wallet [address|cancel] — payout wallet for all your tokens
+bot.command("wallet", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId) return;
+
+  const arg = ctx.message?.text?.split(" ")[1]?.trim();
+  const telegramUserId = userId.toString();
+
+  if (!arg) {
+    const current = getEffectivePayoutWallet(telegramUserId);
+    const scheduled = getScheduledPayoutWallet(telegramUserId);
+
+    let msg = `*Payout Wallet*\n`;
+    msg += `─────────────────────\n\n`;
+    msg += current
+      ? `Current: \`${current.sol_address}\`\n`
+      : `Current: the wallet on each submission\n`;
+    if (scheduled) {
+      msg += `Pending: \`${scheduled.sol_address}\`\n`;
+      msg += `Takes effect: ${scheduled.effective_at} UTC\n`;
+      msg += `Cancel with /wallet cancel\n`;
+    }
+    msg += `\nChange it with \`/wallet <address>\`. You'll sign a message with that wallet to prove you own it; `;
+    msg += `the change takes effect after ${getPayoutWalletCooldownHours()} hours.`;
+
+    await ctx.reply(msg, { parse_mode: "Markdown" });
+    return;
+  }
+
+  if (arg.toLowerCase() === "cancel") {
+    const cancelled = cancelPayoutWalletChange(telegramUserId);
+    if (!cancelled) {
+      await ctx.reply("No pending payout wallet change to cancel.");
+      return;
+    }
+
+    await Promise.allSettled(
+      ADMIN_IDS.map((adminId) =>
+        ctx.api.sendMessage(
+          adminId,
+          `*Payout Wallet Change Cancelled*\n\n` +
+          `From: ${ctx.from?.username ? `@${ctx.from.username}` : userId} (\`${userId}\`)\n` +
+          `Wallet: \`${cancelled.sol_address}\``,
+          { parse_mode: "Markdown" }
+        )
+      )
+    );
+    await ctx.reply(`Cancelled the change to \`${cancelled.sol_address}\`.`, { parse_mode: "Markdown" });
+    return;
+  }
+
+  if (!isValidSolanaAddress(arg)) {
+    await ctx.reply("Invalid Solana address.\n\nUsage: `/wallet <address>`", { parse_mode: "Markdown" });
+    return;
+  }
+
+  resetSession(ctx.session);
+  ctx.session.pendingWalletChallenge = createPayoutWalletChallenge(telegramUserId, arg);
+  ctx.session.step = "awaiting_wallet_signature";
+
+  await ctx.reply(
+    `*Prove you own this wallet*\n` +
+    `─────────────────────\n\n` +
+    `Sign the message below with \`${arg}\` (Phantom, Solflare and Backpack: "Sign message"), ` +
+    `then paste the base58 signature here.\n\n` +
+    `\`\`\`\n${ctx.session.pendingWalletChallenge.message}\n\`\`\`\n\n` +
+    `Expires in 15 minutes. /cancel to stop.`,
+    { parse_mode: "Markdown" }
+  );
+});
+
+// /appeals (editor) — pending appeal review queue
+bot.command("appeals", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAuthorized(userId)) {
+    await ctx.reply("Not authorized.");
+    return;
+  }
+
+  try {
+    const appeals = getPendingAppeals(10);
+
+    if (appeals.length === 0) {
+      await ctx.reply("No pending appeals.");
+      return;
+    }
+
+    await ctx.reply(
+      `*Appeal Queue* (${appeals.length})\n─────────────────────`,
+      { parse_mode: "Markdown" }
+    );
+
+    for (const appeal of appeals) {
+      await ctx.reply(formatAppeal(appeal), {
+        parse_mode: "Markdown",
+        reply_markup: appealReviewKeyboard(appeal),
+      });
+    }
+  } catch (error) {
+    console.error("Error fetching appeals:", error);
+    await ctx.reply("Failed to fetch appeals.");
+  }
+});
+
 // /queue (admin)
 bot.command("queue", async (ctx) => {
   const userId = ctx.from?.id;
@@ -1031,7 +1442,7 @@ bot.command("queue", async (ctx) => {
     const { getSubmissionsByStatus } = await import("../lib/db");
     const pending = getSubmissionsByStatus("pending", 20);
     const validating = getSubmissionsByStatus("validating", 10);
-    const approved = getSubmissionsByStatus("approved", 10);
+    const approved = getApprovedBacklog(10);
 
     let msg = `*Submission Queue*\n`;
     msg += `─────────────────────\n\n`;
@@ -1055,12 +1466,13 @@ bot.command("queue", async (ctx) => {
       }
     }
 
-    msg += `\n*Approved, waiting* (${approved.length})\n`;
+    msg += `\n*Approved backlog* (${approved.length}, ranked)\n`;
     if (approved.length === 0) {
       msg += `  None\n`;
     } else {
-      for (const sub of approved.slice(0, 3)) {
-        msg += `  \`#${sub.id}\` \`${sub.url.substring(0, 30)}...\`\n`;
+      for (const sub of approved.slice(0, 5)) {
+        const score = sub.queue_score !== null ? Math.round(sub.queue_score) : "—";
+        msg += `  \`#${sub.id}\` score ${score}, ${sub.carryover_count}x carried \`${sub.url.substring(0, 30)}...\`\n`;
       }
     }
 
@@ -1213,6 +1625,306 @@ bot.command("mayhem", async (ctx) => {
   }
 });
 
+// /approvals (admin) — outbound transfers held for admin approval
+bot.command("approvals", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAdmin(userId)) {
+    await ctx.reply("Admin only.");
+    return;
+  }
+
+  try {
+    const approvals = getOpenTransferApprovals();
+
+    if (approvals.length === 0) {
+      await ctx.reply("No transfers awaiting approval.");
+      return;
+    }
+
+    await ctx.reply(
+      `*Transfer Approvals* (${approvals.length})\n─────────────────────`,
+      { parse_mode: "Markdown" }
+    );
+
+    for (const approval of approvals) {
+      if (approval.status === "approved") {
+        await ctx.reply(`${formatTransferApproval(approval)}\n\n*Approved* — waiting for the caller's retry`, {
+          parse_mode: "Markdown",
+        });
+        continue;
+      }
+      await ctx.reply(formatTransferApproval(approval), {
+        parse_mode: "Markdown",
+        reply_markup: new InlineKeyboard()
+          .text("Approve", `transfer_approve_${approval.id}`)
+          .text("Reject", `transfer_reject_${approval.id}`),
+      });
+    }
+  } catch (error) {
+    console.error("Error fetching transfer approvals:", error);
+    await ctx.reply("Failed to fetch transfer approvals.");
+  }
+});
+
+// /freeze (admin) — halt every outbound wallet send
+bot.command("freeze", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAdmin(userId)) {
+    await ctx.reply("Admin only.");
+    return;
+  }
+
+  const existing = getWalletFreeze();
+  if (existing) {
+    await ctx.reply(
+      `Wallet already frozen by ${existing.frozenBy} at ${existing.frozenAt}\nReason: ${existing.reason}\n\nUse /unfreeze to resume sends.`
+    );
+    return;
+  }
+
+  const reason = ctx.message?.text?.split(" ").slice(1).join(" ").trim() || "Frozen by admin";
+  freezeWallet(reason, userId.toString());
+  await ctx.reply(`Wallet frozen. All outbound sends are halted.\nReason: ${reason}\n\nUse /unfreeze to resume.`);
+  await Promise.allSettled(
+    ADMIN_IDS.filter((id) => id !== userId.toString()).map((adminId) =>
+      ctx.api.sendMessage(adminId, `🧊 Wallet frozen by admin ${userId}: ${reason}`)
+    )
+  );
+});
+
+// /unfreeze (admin) — resume outbound wallet sends
+bot.command("unfreeze", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAdmin(userId)) {
+    await ctx.reply("Admin only.");
+    return;
+  }
+
+  const lifted = unfreezeWallet(userId.toString());
+  if (!lifted) {
+    await ctx.reply("Wallet is not frozen.");
+    return;
+  }
+
+  await ctx.reply(`Wallet unfrozen. Outbound sends resume.\nWas frozen by ${lifted.frozenBy}: ${lifted.reason}`);
+  await Promise.allSettled(
+    ADMIN_IDS.filter((id) => id !== userId.toString()).map((adminId) =>
+      ctx.api.sendMessage(adminId, `Wallet unfrozen by admin ${userId}.`)
+    )
+  );
+});
+
+// /pause (admin) — emergency stop for every on-chain operation
+bot.command("pause", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAdmin(userId)) {
+    await ctx.reply("Admin only.");
+    return;
+  }
+
+  const existing = getEmergencyPause();
+  if (existing) {
+    await ctx.reply(
+      `Already paused by ${existing.pausedBy} at ${existing.pausedAt}\nReason: ${existing.reason}\n\nUse /resume to restart.`
+    );
+    return;
+  }
+
+  const reason = ctx.message?.text?.split(" ").slice(1).join(" ").trim() || "Paused by admin";
+  pauseOperations(reason, userId.toString());
+  await ctx.reply(
+    `On-chain operations PAUSED.\nNo sends, deploys, fee claims, pool funding, payouts or burns until /resume. ` +
+    `Headlines keep publishing without tokens.\nReason: ${reason}`
+  );
+  await Promise.allSettled(
+    ADMIN_IDS.filter((id) => id !== userId.toString()).map((adminId) =>
+      ctx.api.sendMessage(adminId, `⏸ On-chain operations paused by admin ${userId}: ${reason}`)
+    )
+  );
+});
+
+// /resume (admin) — lift the emergency pause
+bot.command("resume", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAdmin(userId)) {
+    await ctx.reply("Admin only.");
+    return;
+  }
+
+  const lifted = resumeOperations(userId.toString());
+  if (!lifted) {
+    await ctx.reply("On-chain operations are not paused.");
+    return;
+  }
+
+  await ctx.reply(`On-chain operations resumed.\nWas paused by ${lifted.pausedBy}: ${lifted.reason}`);
+  await Promise.allSettled(
+    ADMIN_IDS.filter((id) => id !== userId.toString()).map((adminId) =>
+      ctx.api.sendMessage(adminId, `▶️ On-chain operations resumed by admin ${userId}.`)
+    )
+  );
+});
+
+// /sources (admin) — RSS/Atom feeds and sitemaps ingested as newsroom submissions
+bot.command("sources", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAdmin(userId)) {
+    await ctx.reply("Admin only.");
+    return;
+  }
+
+  const args = ctx.message?.text?.split(/\s+/).slice(1) || [];
+  const action = args[0]?.toLowerCase();
+
+  try {
+    if (action === "add") {
+      const url = args[1];
+      if (!url) {
+        await ctx.reply("Usage: /sources add <feed or sitemap url> [name]");
+        return;
+      }
+      const result = await registerIngestionSource(url, args.slice(2).join(" ") || null, userId.toString());
+      if (!result.success || !result.source) {
+        await ctx.reply(`Could not add source: ${result.error}`);
+        return;
+      }
+      await ctx.reply(
+        `Source added (${result.items} items found):\n\n${formatIngestionSource(result.source)}` +
+        (result.undated ? `\n\n${describeUndatedItems(result.undated)}` : "") +
+        (getNewsroomAddress() ? "" : "\n\nNEWSROOM_SOL_ADDRESS is not set — nothing is ingested until it is.")
+      );
+      return;
+    }
+
+    if (action === "enable" || action === "disable") {
+      const id = parseInt(args[1]?.replace("#", "") || "", 10);
+      const source = isNaN(id) ? undefined : getIngestionSourceById(id);
+      if (!source) {
+        await ctx.reply(`Usage: /sources ${action} <id>`);
+        return;
+      }
+      setIngestionSourceEnabled(id, action === "enable");
+      await ctx.reply(`Source #${id} ${action}d.`);
+      return;
+    }
+
+    if (action === "poll") {
+      const result = await pollIngestionSources();
+      let msg = `Polled ${result.polled} source(s): ${result.submitted} submitted, ${result.skipped} skipped.`;
+      if (result.errors.length > 0) {
+        msg += `\n\n${result.errors.join("\n")}`;
+      }
+      await ctx.reply(msg);
+      return;
+    }
+
+    const sources = getIngestionSources();
+    if (sources.length === 0) {
+      await ctx.reply("No ingestion sources. Add one with /sources add <url> [name]");
+      return;
+    }
+
+    const newsroom = getNewsroomAddress();
+    await ctx.reply(
+      `Ingestion sources (${sources.length})\n` +
+      `Newsroom wallet: ${newsroom ?? "NOT SET (ingestion off)"}\n\n` +
+      sources.map(formatIngestionSource).join("\n\n")
+    );
+  } catch (error) {
+    console.error("Error handling /sources:", error);
+    await ctx.reply("Failed to handle /sources.");
+  }
+});
+
+// /review (admin) — hold each publishing winner for editor approval
+bot.command("review", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAdmin(userId)) {
+    await ctx.reply("Admin only.");
+    return;
+  }
+
+  const action = ctx.message?.text?.split(/\s+/)[1]?.toLowerCase();
+  if (action === "on" || action === "off") {
+    setEditorReviewEnabled(action === "on");
+    await ctx.reply(
+      action === "on"
+        ? `Editor review ON. Each publishing winner goes to editors for approve / edit / skip; ` +
+          `undecided drafts publish after ${getReviewTimeoutMinutes()} minutes.`
+        : "Editor review OFF. Winners publish immediately. Drafts already under review still publish."
+    );
+    return;
+  }
+
+  const open = getOpenPublishReviews();
+  let msg = `*Editor review:* ${isEditorReviewEnabled() ? "ON" : "OFF"} (timeout ${getReviewTimeoutMinutes()} min)\n`;
+  msg += `Usage: /review on | /review off\n`;
+  if (open.length > 0) {
+    msg += `\n${open.map(formatPublishReview).join("\n\n")}`;
+  }
+  await ctx.reply(msg, { parse_mode: "Markdown" });
+});
+
+// /domains (admin) — source domain trust tiers and learned stats
+bot.command("domains", async (ctx) => {
+  const userId = ctx.from?.id;
+  if (!userId || !isAdmin(userId)) {
+    await ctx.reply("Admin only.");
+    return;
+  }
+
+  const args = ctx.message?.text?.split(/\s+/).slice(1) || [];
+  const action = args[0]?.toLowerCase();
+  const tiers: Record<string, SourceDomainTier> = { trust: "trusted", neutral: "neutral", block: "blocked" };
+
+  try {
+    if (action && tiers[action]) {
+      if (!args[1]) {
+        await ctx.reply(`Usage: /domains ${action} <domain> [note]`);
+        return;
+      }
+      const result = setDomainTier(args[1], tiers[action], args.slice(2).join(" ") || null, userId.toString());
+      if (!result.success || !result.domain) {
+        await ctx.reply(result.error || "Could not update the domain.");
+        return;
+      }
+      await ctx.reply(`Updated:\n\n${formatSourceDomain(result.domain)}`);
+      return;
+    }
+
+    if (action === "info") {
+      const trust = args[1] ? getDomainTrust(args[1]) : null;
+      if (!trust) {
+        await ctx.reply("Usage: /domains info <domain or url>");
+        return;
+      }
+      if (!trust.entry) {
+        await ctx.reply(`${trust.host} — NEUTRAL\n  Never submitted.`);
+        return;
+      }
+      const inherited = trust.entry.domain !== trust.host ? `\n\n${trust.host} inherits this tier.` : "";
+      await ctx.reply(`${formatSourceDomain(trust.entry)}${inherited}`);
+      return;
+    }
+
+    const filter = action === "trusted" || action === "blocked" ? action : undefined;
+    const domains = listSourceDomains(filter, 25);
+    if (domains.length === 0) {
+      await ctx.reply(filter ? `No ${filter} domains.` : "No source domains recorded yet.");
+      return;
+    }
+
+    await ctx.reply(
+      `Source domains${filter ? ` (${filter})` : ""}\n` +
+      `Usage: /domains trust|neutral|block <domain> [note], /domains info <domain>\n\n` +
+      domains.map(formatSourceDomain).join("\n\n")
+    );
+  } catch (error) {
+    console.error("Error handling /domains:", error);
+    await ctx.reply("Failed to handle /domains.");
+  }
+});
+
 // /finances (admin) — financial statistics
 bot.command("finances", async (ctx) => {
   const userId = ctx.from?.id;
@@ -1309,6 +2021,86 @@ bot.on("message:text", async (ctx) => {
   const text = ctx.message.text;
   const session = ctx.session;
 
+  // ---- PAYOUT WALLET FLOW ----
+
+  if (session.step === "awaiting_wallet_signature" && session.pendingWalletChallenge) {
+    const result = registerPayoutWallet(userId.toString(), session.pendingWalletChallenge, text);
+    if (!result.success || !result.wallet) {
+      await ctx.reply(result.error || "Could not verify the signature.");
+      if (result.error?.includes("expired")) resetSession(session);
+      return;
+    }
+
+    const wallet = result.wallet;
+    resetSession(session);
+
+    await Promise.allSettled(
+      ADMIN_IDS.map((adminId) =>
+        ctx.api.sendMessage(
+          adminId,
+          `*Payout Wallet Change*\n\n` +
+          `From: ${ctx.from?.username ? `@${ctx.from.username}` : userId} (\`${userId}\`)\n` +
+          `New wallet: \`${wallet.sol_address}\`\n` +
+          `Takes effect: ${wallet.effective_at} UTC\n\n` +
+          `Signature verified. If this looks wrong, block it before then with ` +
+          `\`npx tsx scripts/payouts.ts cancel-wallet ${userId}\``,
+          { parse_mode: "Markdown" }
+        )
+      )
+    );
+
+    await ctx.reply(
+      `*Wallet verified* ✅\n\n` +
+      `Payouts move to \`${wallet.sol_address}\` at ${wallet.effective_at} UTC. ` +
+      `Until then they go to your current wallet.\n\n` +
+      `Changed your mind? /wallet cancel`,
+      { parse_mode: "Markdown" }
+    );
+    return;
+  }
+
+  // ---- PUBLISH REVIEW EDIT FLOW ----
+
+  if (session.step === "awaiting_review_edit" && session.pendingReviewId) {
+    if (!isAuthorized(userId)) {
+      resetSession(session);
+      return;
+    }
+
+    const result = applyReviewEdit(session.pendingReviewId, userId.toString(), parseReviewEdit(text));
+    if (!result.success || !result.review) {
+      await ctx.reply(result.error || "Could not apply the edit.", { parse_mode: "Markdown" });
+      if (result.review) resetSession(session);
+      return;
+    }
+
+    const review = result.review;
+    resetSession(session);
+    await ctx.reply(`${formatPublishReview(review)}\n\n*Edited* — approve to publish now.`, {
+      parse_mode: "Markdown",
+      reply_markup: new InlineKeyboard()
+        .text("Approve", `publish_approve_${review.id}`)
+        .text("Edit", `publish_edit_${review.id}`)
+        .text("Skip", `publish_skip_${review.id}`),
+    });
+    return;
+  }
+
+  // ---- HEADLINE EDIT FLOW ----
+
+  if (session.step === "awaiting_headline_edit" && session.pendingHeadlineId) {
+    if (!isAuthorized(userId)) {
+      resetSession(session);
+      return;
+    }
+
+    const headlineId = session.pendingHeadlineId;
+    if (await replyWithHeadlineEdit(ctx, userId, headlineId, text)) {
+      resetSession(session);
+    }
+    return;
+  }
+
   // ---- PUBLIC SUBMISSION FLOW ----
 
   if (session.step === "awaiting_submit_url") {
@@ -1350,12 +2142,16 @@ bot.on("message:text", async (ctx) => {
 
     session.pendingSolAddress = text;
 
-    // Admins bypass the hourly submission rate limit
+    // Admins bypass the hourly submission rate limit; for everyone else it
+    // scales with reputation
     if (!isAdmin(userId)) {
+      const reputation = getUserReputation(userId.toString());
+      const limit = getSubmissionLimitPerHour(reputation.score);
       const recentCount = getRecentSubmissionCountByUser(userId.toString(), 1);
-      if (recentCount >= 5) {
+      if (recentCount >= limit) {
         await ctx.reply(
-          `*Rate limit*\n\nMax 5 submissions per hour. Try again later.`,
+          `*Rate limit*\n\nMax ${limit} submission${limit === 1 ? "" : "s"} per hour at your reputation (${reputation.score}/100). ` +
+          `Published, original, well-received stories raise it. Try again later.`,
           { parse_mode: "Markdown" }
         );
         resetSession(session);
@@ -1920,11 +2716,143 @@ bot.on("callback_query:data", async (ctx) => {
   const data = ctx.callbackQuery.data;
   const session = ctx.session;
 
+  // Submitter appeal button (from rejection notices) — open to everyone,
+  // fileAppeal checks ownership
+  const appealMatch = data.match(/^appeal_(\d+)$/);
+  if (appealMatch && ctx.from) {
+    const reply = await submitAppeal(ctx, ctx.from.id, parseInt(appealMatch[1], 10));
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageReplyMarkup().catch(() => {});
+    await ctx.reply(reply);
+    return;
+  }
+
   if (!ctx.from || !isAuthorized(ctx.from.id)) {
     await ctx.answerCallbackQuery({ text: "Not authorized." });
     return;
   }
 
+  // Transfer approval (admin) — each admin's vote counts once
+  const transferMatch = data.match(/^transfer_(approve|reject)_(\d+)$/);
+  if (transferMatch) {
+    if (!isAdmin(ctx.from.id)) {
+      await ctx.answerCallbackQuery({ text: "Admin only." });
+      return;
+    }
+
+    const decision = transferMatch[1] === "approve" ? "approve" : "reject";
+    const approvalId = parseInt(transferMatch[2], 10);
+
+    try {
+      const result = await voteOnTransferApproval(approvalId, ctx.from.id.toString(), decision);
+      if (!result.success || !result.approval) {
+        await ctx.answerCallbackQuery({ text: result.error || "Vote failed." });
+        if (result.approval && result.approval.status !== "pending") {
+          await ctx.editMessageReplyMarkup().catch(() => {});
+        }
+        return;
+      }
+
+      const { approval, approvals } = result;
+      const voter = escapeMarkdown(ctx.from.username ? `@${ctx.from.username}` : ctx.from.id.toString());
+      const outcome =
+        approval.status === "approved" ? `*Approved* (${approvals}/${approval.approvals_required}) — sent on the next attempt`
+        : approval.status === "rejected" ? `*Rejected* by ${voter}`
+        : `Approved by ${voter} (${approvals}/${approval.approvals_required})`;
+
+      await ctx.editMessageText(`${formatTransferApproval(approval)}\n\n${outcome}`, { parse_mode: "Markdown" });
+    } catch (error) {
+      console.error("Error voting on transfer approval:", error);
+      await ctx.answerCallbackQuery({ text: "Failed to record vote." });
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  // Publish review (editor) — approve, edit or skip the next story
+  const publishMatch = data.match(/^publish_(approve|edit|skip)_(\d+)$/);
+  if (publishMatch) {
+    const reviewId = parseInt(publishMatch[2], 10);
+    const editor = escapeMarkdown(ctx.from.username ? `@${ctx.from.username}` : ctx.from.id.toString());
+
+    if (publishMatch[1] === "edit") {
+      const review = getPublishReviewById(reviewId);
+      if (!review || review.status !== "pending") {
+        await ctx.answerCallbackQuery({ text: review ? `Review #${reviewId} is already ${review.status}.` : "Review not found." });
+        return;
+      }
+      resetSession(session);
+      session.step = "awaiting_review_edit";
+      session.pendingReviewId = reviewId;
+      await ctx.answerCallbackQuery();
+      await ctx.reply(
+        `Send the changes for review #${reviewId}, one per line:\n\n` +
+        `headline: New headline\n` +
+        `name: Token Name\n` +
+        `ticker: TICKER\n\n` +
+        `Leave out what stays the same. /cancel to stop.`
+      );
+      return;
+    }
+
+    const decision = publishMatch[1] === "approve" ? "approve" : "skip";
+    try {
+      const result = await decideOnPublishReview(reviewId, ctx.from.id.toString(), decision);
+      if (!result.success || !result.review) {
+        await ctx.answerCallbackQuery({ text: result.error || "Decision failed." });
+        await ctx.editMessageReplyMarkup().catch(() => {});
+        return;
+      }
+
+      await ctx.editMessageText(
+        `${formatPublishReview(result.review)}\n\n*${decision === "approve" ? "Approved — publishing within a minute" : "Skipped"}* by ${editor}`,
+        { parse_mode: "Markdown" }
+      );
+    } catch (error) {
+      console.error("Error deciding publish review:", error);
+      await ctx.answerCallbackQuery({ text: "Failed to record decision." });
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  // Appeal review (editor)
+  const reviewMatch = data.match(/^appeal_(approve|update|deny)_(\d+)$/);
+  if (reviewMatch) {
+    const approve = reviewMatch[1] !== "deny";
+    const asStoryUpdate = reviewMatch[1] === "update";
+    const appealId = parseInt(reviewMatch[2], 10);
+
+    try {
+      const resolved = await reviewAppeal(appealId, ctx.from.id.toString(), approve, asStoryUpdate);
+      const appeal = getAppealById(appealId);
+
+      if (!resolved) {
+        await ctx.answerCallbackQuery({
+          text: appeal ? `Appeal #${appealId} already ${appeal.status}.` : "Appeal not found.",
+        });
+        await ctx.editMessageReplyMarkup().catch(() => {});
+        return;
+      }
+
+      await ctx.editMessageText(
+        `${formatAppeal(appeal!)}\n\n*${asStoryUpdate ? "Approved as story update" : approve ? "Approved — back in the publishing queue" : "Denied"}* by ${escapeMarkdown(ctx.from.username ? `@${ctx.from.username}` : ctx.from.id.toString())}`,
+        { parse_mode: "Markdown" }
+      );
+    } catch (error) {
+      console.error("Error reviewing appeal:", error);
+      await ctx.answerCallbackQuery({ text: "Failed to review appeal." });
+      return;
+    }
+
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
   // Headline selection (regular)
   if (data.startsWith("headline_")) {
     if (data === "headline_custom") {
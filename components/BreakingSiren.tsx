@@ -2,15 +2,26 @@
 
 import { useState, useEffect, useCallback } from "react";
 import type { Headline } from "@/lib/types";
+import { useLiveEvent } from "@/hooks/useLiveEvents";
 
 interface BreakingSirenProps {
   headline: Headline | null;
 }
 
-export function BreakingSiren({ headline }: BreakingSirenProps) {
+export function BreakingSiren({ headline: initialHeadline }: BreakingSirenProps) {
+  const [headline, setHeadline] = useState<Headline | null>(initialHeadline);
   const [dismissed, setDismissed] = useState(true);
   const [audioPlayed, setAudioPlayed] = useState(false);
 
+  useEffect(() => {
+    setHeadline(initialHeadline);
+  }, [initialHeadline]);
+
+  // Raise or clear the siren as soon as the server's breaking headline changes
+  useLiveEvent("siren", ({ headline: next }) => {
+    setHeadline(prev => (prev?.id === next?.id ? prev : next));
+  });
+
   useEffect(() => {
     if (!headline) {
       setDismissed(true);
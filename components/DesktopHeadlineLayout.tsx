@@ -2,6 +2,7 @@
 
 import { useState, useMemo, useEffect } from "react";
 import type { Headline, MainHeadlineData } from "@/lib/types";
+import { useLiveHeadlines } from "@/hooks/useLiveHeadlines";
 import { HeadlineColumn } from "./HeadlineColumn";
 import { MainHeadline } from "./MainHeadline";
 
@@ -27,9 +28,10 @@ interface DesktopHeadlineLayoutProps {
 }
 
 export function DesktopHeadlineLayout({
-  headlines,
+  headlines: initialHeadlines,
   mainHeadline,
 }: DesktopHeadlineLayoutProps) {
+  const headlines = useLiveHeadlines(initialHeadlines);
   const [sortMode, setSortMode] = useState<SortMode>("popular");
 
   // Restore persisted sort mode on mount (SSR-safe)
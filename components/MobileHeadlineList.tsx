@@ -2,6 +2,7 @@
 
 import { useState, useMemo, useEffect } from "react";
 import type { Headline } from "@/lib/types";
+import { useLiveHeadlines } from "@/hooks/useLiveHeadlines";
 import { HeadlineLink } from "./HeadlineLink";
 
 type SortMode = "popular" | "trending" | "recent";
@@ -24,7 +25,8 @@ interface MobileHeadlineListProps {
   headlines: Headline[];
 }
 
-export function MobileHeadlineList({ headlines }: MobileHeadlineListProps) {
+export function MobileHeadlineList({ headlines: initialHeadlines }: MobileHeadlineListProps) {
+  const headlines = useLiveHeadlines(initialHeadlines);
   const [sortMode, setSortMode] = useState<SortMode>("popular");
 
   // Restore persisted sort mode on mount (SSR-safe)
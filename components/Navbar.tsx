@@ -60,6 +60,25 @@ const CloseIcon = () => (
   </svg>
 );
 
+const SearchIcon = () => (
+  <svg
+    aria-hidden="true"
+    className="nav-icon"
+    fill="none"
+    height="18"
+    viewBox="0 0 18 18"
+    width="18"
+  >
+    <path
+      d="m16 16-3.5-3.5M14 8A6 6 0 1 1 2 8a6 6 0 0 1 12 0Z"
+      stroke="currentColor"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth="1.5"
+    />
+  </svg>
+);
+
 const LogoIcon = () => (
   <svg
     aria-label="Aintivirus"
@@ -199,6 +218,9 @@ export function Navbar() {
 
           {/* Right side */}
           <div className="nav-right">
+            <a aria-label="Search headlines" className="nav-search" href="/search">
+              <SearchIcon />
+            </a>
             <ThemeToggle />
             
             <button
@@ -274,6 +296,13 @@ export function Navbar() {
                 </li>
               );
             })}
+            <li className="nav-mobile-item">
+              <div className="nav-mobile-item-header">
+                <a className="nav-mobile-link" href="/search" onClick={() => setMobileMenuOpen(false)}>
+                  Search
+                </a>
+              </div>
+            </li>
             <li className="nav-mobile-cta-item">
               <a
                 className="nav-mobile-cta"
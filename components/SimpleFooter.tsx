@@ -12,6 +12,10 @@ export function SimpleFooter() {
             LEADERBOARD
           </a>
           <span className="text-dark-200/50 hidden sm:inline">|</span>
+          <a href="/burns" className="text-gray-500 hover:text-neon-cyan transition-colors">
+            BURNS
+          </a>
+          <span className="text-dark-200/50 hidden sm:inline">|</span>
           <a
             href="https://t.me/AIntivirus"
             target="_blank"
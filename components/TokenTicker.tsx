@@ -2,8 +2,10 @@
 
 import { useState, useRef, useEffect } from "react";
 import { EarnModal } from "./EarnModal";
+import { useTickerPrice } from "@/hooks/useTokenPrices";
+import { siteConfig } from "@/lib/siteConfig";
 
-const CA = "7Epmyp9dMD5SzUtxczbuWwsVARyWdzLFAkzxnvZWpump";
+const CA = siteConfig.newsTokenMint;
 const PUMP_URL = `https://pump.fun/coin/${CA}`;
 
 export function TokenTicker() {
@@ -11,6 +13,7 @@ export function TokenTicker() {
   const [earnOpen, setEarnOpen] = useState(false);
   const [cotdUrl, setCotdUrl] = useState<string | null>(null);
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const newsPrice = useTickerPrice("NEWS");
 
   // Clean up timer on unmount
   useEffect(() => {
@@ -60,6 +63,15 @@ export function TokenTicker() {
           />
           $NEWS
         </a>
+        {newsPrice && (
+          <span
+            className={`token-ticker-change ${newsPrice.priceChange24h >= 0 ? "token-ticker-change--up" : "token-ticker-change--down"}`}
+            title="24h price change"
+          >
+            {newsPrice.priceChange24h >= 0 ? "+" : ""}
+            {newsPrice.priceChange24h.toFixed(1)}%
+          </span>
+        )}
         {/* CA + copy button hidden for now
         <span className="token-ticker-ca">
           {CA.slice(0, 6)}...{CA.slice(-4)}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useTokenPrices } from "@/hooks/useTokenPrices";
+import { siteConfig } from "@/lib/siteConfig";
 
 export function TopCoinsRibbon() {
   const prices = useTokenPrices();
@@ -8,6 +9,7 @@ export function TopCoinsRibbon() {
   // Sort tokens by 24h price change descending (top performers first), limit to 20
   const topCoins = Object.values(prices)
     .filter((t) => t.ticker && typeof t.priceChange24h === "number")
+    .filter((t) => t.mintAddress !== siteConfig.newsTokenMint)
     .sort((a, b) => b.priceChange24h - a.priceChange24h)
     .slice(0, 20);
 
@@ -72,8 +72,9 @@ export function TopEarners() {
       ) : (
         <div className="space-y-2">
           {earners.map((earner, index) => (
-            <div
+            <a
               key={earner.telegram_user_id}
+              href={`/earnings/${earner.sol_address}`}
               className="flex items-center gap-3 p-3 rounded-lg bg-dark-100/50 border border-dark-200/30 hover:border-neon-cyan/20 transition-colors"
             >
               {/* Rank */}
@@ -113,7 +114,7 @@ export function TopEarners() {
                 </p>
                 <p className="text-[10px] text-gray-500 uppercase">SOL earned</p>
               </div>
-            </div>
+            </a>
           ))}
         </div>
       )}
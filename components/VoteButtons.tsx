@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { UpArrowIcon, DownArrowIcon } from "./Icons";
+import { useLiveEvent } from "@/hooks/useLiveEvents";
 
 interface VoteButtonsProps {
   headlineId: number;
@@ -84,6 +85,12 @@ export function VoteButtons({ headlineId, compact = false, headlineTitle }: Vote
       });
   }, [headlineId]);
 
+  // Keep counts current as other readers vote
+  useLiveEvent("votes", ({ headline_id, wagmi, ngmi }) => {
+    if (headline_id !== headlineId) return;
+    setState(prev => ({ ...prev, wagmi, ngmi }));
+  });
+
   const castVote = useCallback(async (voteType: "wagmi" | "ngmi") => {
     if (state.voted || loading) return;
     setLoading(true);
@@ -1,6 +1,8 @@
 "use client";
 
-import { useState, useEffect, useRef, type ReactNode } from "react";
+import { useState, useEffect, type ReactNode } from "react";
+import { useLiveEvent, useLiveConnected } from "@/hooks/useLiveEvents";
+import type { ActivityEvent, ActivityStats } from "@/lib/types";
 import {
   InboxIcon,
   SearchIcon,
@@ -12,21 +14,6 @@ import {
   ClipboardIcon,
 } from "./Icons";
 
-interface ActivityEvent {
-  id: number;
-  event_type: string;
-  message: string;
-  metadata: string | null;
-  created_at: string;
-}
-
-interface WarRoomStats {
-  submissionsToday: number;
-  tokensLaunchedToday: number;
-  votesToday: number;
-  approvalRate: number;
-}
-
 const EVENT_CONFIG: Record<string, { icon: ReactNode; color: string }> = {
   submission_received: { icon: <InboxIcon />, color: "#00D3FF" },
   validation_started: { icon: <SearchIcon />, color: "#f59e0b" },
@@ -48,47 +35,36 @@ function formatTime(dateStr: string): string {
   });
 }
 
+/** Merge events newest-first, dropping duplicates (live events can race the initial fetch). */
+function mergeEvents(current: ActivityEvent[], incoming: ActivityEvent[]): ActivityEvent[] {
+  const byId = new Map<number, ActivityEvent>();
+  for (const event of [...incoming, ...current]) byId.set(event.id, event);
+  return [...byId.values()].sort((a, b) => b.id - a.id).slice(0, 50);
+}
+
 export function WarRoomFeed() {
   const [events, setEvents] = useState<ActivityEvent[]>([]);
-  const [stats, setStats] = useState<WarRoomStats | null>(null);
-  const [connected, setConnected] = useState(false);
-  const lastIdRef = useRef<number>(0);
+  const [stats, setStats] = useState<ActivityStats | null>(null);
+  const connected = useLiveConnected();
 
+  // Initial backlog; everything after arrives over the live connection
   useEffect(() => {
-    const fetchEvents = async () => {
-      try {
-        const url = lastIdRef.current > 0
-          ? `/api/war-room?after=${lastIdRef.current}&limit=20`
-          : "/api/war-room?limit=20";
-        
-        const res = await fetch(url);
-        const data = await res.json();
-
-        if (data.events && data.events.length > 0) {
-          const newEvents = data.events.filter(
-            (e: ActivityEvent) => e.id > lastIdRef.current
-          );
-          
-          if (newEvents.length > 0) {
-            setEvents(prev => [...newEvents, ...prev].slice(0, 50));
-            const maxId = Math.max(...newEvents.map((e: ActivityEvent) => e.id));
-            if (maxId > lastIdRef.current) {
-              lastIdRef.current = maxId;
-            }
-          }
+    fetch("/api/war-room?limit=20")
+      .then(res => res.json())
+      .then(data => {
+        if (Array.isArray(data.events)) {
+          setEvents(prev => mergeEvents(prev, data.events));
         }
+        if (data.stats) setStats(prev => prev ?? data.stats);
+      })
+      .catch(() => {});
+  }, []);
 
-        if (data.stats) setStats(data.stats);
-        setConnected(true);
-      } catch {
-        setConnected(false);
-      }
-    };
+  useLiveEvent("activity", (event) => {
+    setEvents(prev => mergeEvents(prev, [event]));
+  });
 
-    fetchEvents();
-    const interval = setInterval(fetchEvents, 5000);
-    return () => clearInterval(interval);
-  }, []);
+  useLiveEvent("stats", setStats);
 
   return (
     <div className="warroom-mini">
@@ -0,0 +1,20 @@
+import { dirname } from "path";
+import { fileURLToPath } from "url";
+import { FlatCompat } from "@eslint/eslintrc";
+
+const compat = new FlatCompat({
+  baseDirectory: dirname(fileURLToPath(import.meta.url)),
+});
+
+const eslintConfig = [
+  ...compat.extends("next/core-web-vitals", "next/typescript"),
+  {
+    rules: {
+      // Pages link to each other with plain anchors (full navigations are fine
+      // for this mostly server-rendered site)
+      "@next/next/no-html-link-for-pages": "off",
+    },
+  },
+];
+
+export default eslintConfig;
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import { LIVE_EVENT_TYPES, type LiveEventMap, type LiveEventType } from "@/lib/types";
+
+type LiveEventHandler<K extends LiveEventType> = (data: LiveEventMap[K]) => void;
+
+/**
+ * Global shared EventSource so every live component uses one /api/live
+ * connection. Opened when the first handler subscribes, closed after the last
+ * one unsubscribes. The browser reconnects on its own after network errors.
+ */
+let source: EventSource | null = null;
+let connected = false;
+const handlers = new Map<LiveEventType, Set<(data: unknown) => void>>();
+const connectionListeners: Set<() => void> = new Set();
+
+function handlerCount(): number {
+  let count = 0;
+  handlers.forEach((set) => (count += set.size));
+  return count;
+}
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  connectionListeners.forEach((fn) => fn());
+}
+
+function dispatch(type: LiveEventType, event: MessageEvent) {
+  let data: unknown;
+  try {
+    data = JSON.parse(event.data);
+  } catch {
+    console.warn(`[useLiveEvents] Bad ${type} payload`);
+    return;
+  }
+  handlers.get(type)?.forEach((handler) => handler(data));
+}
+
+function openSource() {
+  if (source || typeof EventSource === "undefined") return;
+
+  source = new EventSource("/api/live");
+  source.onopen = () => setConnected(true);
+  source.onerror = () => setConnected(false);
+  for (const type of LIVE_EVENT_TYPES) {
+    source.addEventListener(type, (event) => dispatch(type, event as MessageEvent));
+  }
+}
+
+function closeSource() {
+  if (!source) return;
+  source.close();
+  source = null;
+  setConnected(false);
+}
+
+/**
+ * Subscribe to one live event type outside React.
+ * Returns an unsubscribe function.
+ */
+export function subscribeLiveEvent<K extends LiveEventType>(
+  type: K,
+  handler: LiveEventHandler<K>
+): () => void {
+  const wrapped = handler as (data: unknown) => void;
+  if (!handlers.has(type)) handlers.set(type, new Set());
+  handlers.get(type)!.add(wrapped);
+  openSource();
+
+  return () => {
+    handlers.get(type)?.delete(wrapped);
+    if (handlerCount() === 0) {
+      closeSource();
+    }
+  };
+}
+
+/**
+ * Hook that calls `handler` for every live event of `type`.
+ * The latest handler is always used, so it may close over fresh state.
+ */
+export function useLiveEvent<K extends LiveEventType>(
+  type: K,
+  handler: LiveEventHandler<K>
+): void {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => subscribeLiveEvent(type, (data) => handlerRef.current(data)),
+    [type]
+  );
+}
+
+function subscribeConnection(onStoreChange: () => void): () => void {
+  connectionListeners.add(onStoreChange);
+  return () => {
+    connectionListeners.delete(onStoreChange);
+  };
+}
+
+/** Whether the shared live connection is currently open. */
+export function isLiveConnected(): boolean {
+  return connected;
+}
+
+/**
+ * Hook that returns whether the live connection is open.
+ * Does not open a connection by itself.
+ */
+export function useLiveConnected(): boolean {
+  return useSyncExternalStore(subscribeConnection, isLiveConnected, () => false);
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Headline } from "@/lib/types";
+import { useLiveEvent } from "./useLiveEvents";
+
+/**
+ * Hook that keeps a server-rendered list of sidebar headlines current.
+ * New headlines are prepended, edited ones (token deployed, McAfee take
+ * added) are replaced in place, and WAGMI counts follow live votes.
+ * The list is reset whenever the server sends a fresh `initial` list.
+ */
+export function useLiveHeadlines(initial: Headline[], limit: number = 72): Headline[] {
+  const [headlines, setHeadlines] = useState<Headline[]>(initial);
+
+  useEffect(() => {
+    setHeadlines(initial);
+  }, [initial]);
+
+  useLiveEvent("headline", (headline) => {
+    setHeadlines((prev) => {
+      const index = prev.findIndex((h) => h.id === headline.id);
+      if (index === -1) {
+        return [headline, ...prev].slice(0, limit);
+      }
+      const next = [...prev];
+      // Keep the locally tracked vote count; "votes" events are more recent
+      next[index] = { ...headline, wagmi_count: prev[index].wagmi_count };
+      return next;
+    });
+  });
+
+  useLiveEvent("votes", ({ headline_id, wagmi }) => {
+    setHeadlines((prev) => {
+      const index = prev.findIndex((h) => h.id === headline_id);
+      if (index === -1 || prev[index].wagmi_count === wagmi) return prev;
+      const next = [...prev];
+      next[index] = { ...prev[index], wagmi_count: wagmi };
+      return next;
+    });
+  });
+
+  return headlines;
+}
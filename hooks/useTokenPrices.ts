@@ -1,32 +1,23 @@
 "use client";
 
 import { useSyncExternalStore } from "react";
-
-interface TokenPrice {
-  mintAddress: string;
-  ticker: string;
-  price: number;
-  priceChange24h: number;
-  marketCap?: number;
-  volume24h?: number;
-  imageUrl?: string;
-  pumpUrl?: string;
-}
+import type { TokenPrice } from "@/lib/types";
+import { subscribeLiveEvent } from "./useLiveEvents";
 
 interface TokenPriceMap {
   [ticker: string]: TokenPrice;
 }
 
-const POLL_INTERVAL_MS = 30_000; // 30 seconds (reduced from 20s to cut network traffic)
+const PRICE_TICK_MS = 30_000; // Server pushes a price tick every 30 seconds
 
 /**
- * Global shared price store so all TokenBadge components share one poll.
+ * Global shared price store so all TokenBadge components share one feed.
+ * Prices arrive as "prices" events on the shared /api/live connection.
  * Uses useSyncExternalStore to prevent tearing in React 18+ concurrent mode.
  */
 let globalPrices: TokenPriceMap = {};
 let globalListeners: Set<() => void> = new Set();
-let pollTimer: ReturnType<typeof setInterval> | null = null;
-let isPolling = false;
+let unsubscribeLive: (() => void) | null = null;
 let lastFetchTimestamp: number = 0;
 let lastFetchError: string | null = null;
 
@@ -34,78 +25,37 @@ function notifyListeners() {
   globalListeners.forEach((fn) => fn());
 }
 
-async function fetchPrices() {
-  if (isPolling) return;
-  isPolling = true;
-
-  try {
-    const res = await fetch("/api/token-prices", { cache: "no-store" });
-    if (!res.ok) {
-      lastFetchError = `HTTP ${res.status}`;
-      return;
-    }
-    const json = await res.json();
-    if (!json.success || !Array.isArray(json.data)) {
-      lastFetchError = "Invalid response format";
-      return;
-    }
-
-    const newPrices: TokenPriceMap = {};
-    for (const token of json.data as TokenPrice[]) {
-      newPrices[token.ticker] = token;
-    }
-    globalPrices = newPrices;
-    lastFetchTimestamp = Date.now();
-    lastFetchError = null;
-    notifyListeners();
-  } catch (err) {
-    lastFetchError = err instanceof Error ? err.message : "Fetch failed";
-    // Don't wipe prices — keep stale data as fallback
-    console.warn("[useTokenPrices] Fetch failed:", lastFetchError);
-  } finally {
-    isPolling = false;
+function handlePrices(prices: TokenPrice[]) {
+  if (!Array.isArray(prices)) {
+    lastFetchError = "Invalid price payload";
+    return;
   }
-}
-
-function startPolling() {
-  if (pollTimer) return;
-  // Fetch immediately, then on interval
-  fetchPrices();
-  pollTimer = setInterval(fetchPrices, POLL_INTERVAL_MS);
-}
 
-function stopPolling() {
-  if (pollTimer) {
-    clearInterval(pollTimer);
-    pollTimer = null;
+  const newPrices: TokenPriceMap = {};
+  for (const token of prices) {
+    newPrices[token.ticker] = token;
   }
-}
-
-// Pause polling when tab is hidden to save battery and bandwidth
-if (typeof document !== "undefined") {
-  document.addEventListener("visibilitychange", () => {
-    if (document.hidden) {
-      stopPolling();
-    } else if (globalListeners.size > 0) {
-      startPolling();
-    }
-  });
+  globalPrices = newPrices;
+  lastFetchTimestamp = Date.now();
+  lastFetchError = null;
+  notifyListeners();
 }
 
 // useSyncExternalStore API: subscribe function
 function subscribe(onStoreChange: () => void): () => void {
   globalListeners.add(onStoreChange);
 
-  // Start polling when first listener subscribes
+  // Listen for price ticks when first listener subscribes
   if (globalListeners.size === 1) {
-    startPolling();
+    unsubscribeLive = subscribeLiveEvent("prices", handlePrices);
   }
 
   return () => {
     globalListeners.delete(onStoreChange);
-    // Stop polling when last listener unsubscribes
-    if (globalListeners.size === 0) {
-      stopPolling();
+    // Stop listening when last listener unsubscribes
+    if (globalListeners.size === 0 && unsubscribeLive) {
+      unsubscribeLive();
+      unsubscribeLive = null;
     }
   };
 }
@@ -124,8 +74,8 @@ function getServerSnapshot(): TokenPriceMap {
 }
 
 /**
- * Hook that returns live token prices from a shared global poller.
- * All components using this hook share a single fetch interval.
+ * Hook that returns live token prices from the shared live connection.
+ * All components using this hook share a single price feed.
  * Uses useSyncExternalStore to prevent tearing in React concurrent mode.
  */
 export function useTokenPrices(): TokenPriceMap {
@@ -149,10 +99,10 @@ export function usePriceStaleness(): {
   isStale: boolean;
   error: string | null;
 } {
-  const prices = useTokenPrices(); // subscribe to updates
+  useTokenPrices(); // subscribe to updates
   return {
     lastUpdated: lastFetchTimestamp,
-    isStale: lastFetchTimestamp > 0 && Date.now() - lastFetchTimestamp > POLL_INTERVAL_MS * 3,
+    isStale: lastFetchTimestamp > 0 && Date.now() - lastFetchTimestamp > PRICE_TICK_MS * 3,
     error: lastFetchError,
   };
 }
@@ -0,0 +1,10 @@
+/**
+ * Next.js startup hook. Refuses to serve against a database at an
+ * unexpected schema version (see lib/migrations.ts).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { assertSchemaVersion } = await import("./lib/migrations");
+  assertSchemaVersion();
+}
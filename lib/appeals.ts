@@ -0,0 +1,111 @@
+/**
+ * Submission Appeals — lets submitters ask an editor to re-review a rejected
+ * submission (including stories that lost a publishing window).
+ *
+ * Approved appeals go back into the 'approved' queue and compete in the next
+ * publishing window; denied appeals return to 'rejected' for good (one
+ * appeal per submission). Duplicate rejections that carry new facts can be
+ * approved as story updates (see lib/story-clusters.ts).
+ *
+ * Configuration via environment variables:
+ *   APPEAL_LIMIT_PER_DAY – Max appeals a user can file per rolling 24h (default: 2)
+ */
+
+import {
+  getSubmissionById,
+  getAppealById,
+  getAppealBySubmissionId,
+  getRecentAppealCountByUser,
+  createAppeal,
+  resolveAppeal,
+} from "./db";
+import { notifySubmitterAppealResolved } from "./telegram-notifier";
+import type { SubmissionAppeal } from "./types";
+
+const MAX_REASON_LENGTH = 500;
+
+function getAppealLimitPerDay(): number {
+  const limit = parseInt(process.env.APPEAL_LIMIT_PER_DAY || "2", 10);
+  return isNaN(limit) || limit < 0 ? 2 : limit;
+}
+
+export interface FileAppealResult {
+  success: boolean;
+  appeal?: SubmissionAppeal;
+  error?: string;
+}
+
+/**
+ * File an appeal on behalf of a submitter. Only the owner of a rejected
+ * submission can appeal it, once, within their daily appeal limit.
+ */
+export function fileAppeal(
+  submissionId: number,
+  telegramUserId: string,
+  reason?: string
+): FileAppealResult {
+  const submission = getSubmissionById(submissionId);
+  if (!submission || submission.telegram_user_id !== telegramUserId) {
+    return { success: false, error: `Submission #${submissionId} not found.` };
+  }
+
+  if (getAppealBySubmissionId(submissionId)) {
+    return { success: false, error: `Submission #${submissionId} has already been appealed.` };
+  }
+
+  if (submission.status !== "rejected") {
+    return { success: false, error: `Only rejected submissions can be appealed.` };
+  }
+
+  const limit = getAppealLimitPerDay();
+  if (getRecentAppealCountByUser(telegramUserId, 24) >= limit) {
+    return {
+      success: false,
+      error: `Appeal limit reached (${limit} per 24 hours). Try again later.`,
+    };
+  }
+
+  const trimmedReason = reason?.trim().slice(0, MAX_REASON_LENGTH);
+  const appeal = createAppeal(submissionId, telegramUserId, trimmedReason || undefined);
+  if (!appeal) {
+    // Lost a race with another appeal or a status change
+    return { success: false, error: `Submission #${submissionId} can no longer be appealed.` };
+  }
+
+  console.log(`[Appeals] User ${telegramUserId} appealed submission #${submissionId}`);
+  return { success: true, appeal };
+}
+
+/**
+ * Approve or deny a pending appeal and notify the submitter.
+ * `asStoryUpdate` approves a duplicate-rejected submission as an update to a
+ * developing story (it joins the original's story cluster when published).
+ * Returns false if the appeal doesn't exist or was already resolved.
+ */
+export async function reviewAppeal(
+  appealId: number,
+  reviewerId: string,
+  approve: boolean,
+  asStoryUpdate: boolean = false
+): Promise<boolean> {
+  if (!resolveAppeal(appealId, approve, reviewerId, approve && asStoryUpdate)) {
+    return false;
+  }
+
+  const appeal = getAppealById(appealId)!;
+  const outcome = !approve ? "denied" : asStoryUpdate ? "approved as story update" : "approved";
+  console.log(
+    `[Appeals] Appeal #${appealId} (submission #${appeal.submission_id}) ${outcome} by ${reviewerId}`
+  );
+
+  await notifySubmitterAppealResolved({
+    telegramUserId: appeal.telegram_user_id,
+    submissionId: appeal.submission_id,
+    approved: approve,
+    storyUpdate: approve && asStoryUpdate,
+  }).catch((err) =>
+    console.warn(`[Appeals] Failed to notify submitter for appeal #${appealId}:`, err)
+  );
+
+  return true;
+}
@@ -0,0 +1,356 @@
+/**
+ * Buy-and-Burn — spend the creator's share of fees on $NEWS and burn it.
+ *
+ * When enabled, every creator share (per-token revenue events and bulk
+ * claims) earmarks BUY_BURN_SHARE of itself in the ledger's burn_reserve
+ * account instead of being retained. A scheduled run then:
+ * 1. Burns tokens bought by an earlier run whose burn did not land.
+ * 2. Quotes the reserve (capped at MAX_TX_SOL) through the configured swap
+ *    adapter (swap-adapter.ts) once it has reached BUY_BURN_MIN_SOL, so
+ *    small shares are batched into one swap.
+ * 3. Refuses quotes with more than BUY_BURN_MAX_PRICE_IMPACT_PCT price impact
+ *    and swaps with BUY_BURN_SLIPPAGE_BPS slippage protection, after the
+ *    daily-outflow guardrail allows it.
+ * 4. Burns exactly what the swap bought and marks waiting revenue events
+ *    burned.
+ *
+ * A swap whose outcome is unknown stays "pending" and blocks further runs
+ * until an operator resolves it (`npx tsx scripts/buy-burn.ts resolve`).
+ *
+ * Configuration via environment variables:
+ *   BUY_BURN_ENABLED                – "true" to earmark and burn (default: false)
+ *   NEWS_TOKEN_MINT                 – Mint to buy and burn (required)
+ *   BUY_BURN_SHARE                  – Fraction of each creator share earmarked (default: 1)
+ *   BUY_BURN_MIN_SOL                – Reserve needed before a run swaps (default: 0.05)
+ *   BUY_BURN_SLIPPAGE_BPS           – Max slippage in basis points (default: 100)
+ *   BUY_BURN_MAX_PRICE_IMPACT_PCT   – Max quoted price impact (default: 2)
+ *
+ * Runs every 12 hours via the scheduler cron.
+ */
+
+import { LAMPORTS_PER_SOL, PublicKey, Transaction } from "@solana/web3.js";
+import { Token } from "@solana/spl-token";
+import {
+  getConnection,
+  getMasterWallet,
+  getMasterWalletAddress,
+  getMasterWalletBalance,
+  getMasterTokenHolding,
+  confirmTransactionPolling,
+} from "./solana-wallet";
+import { isSimulatedSolana, simulateTokenBurn } from "./solana-sim";
+import { checkOperation, logBuyBurn } from "./secure-wallet";
+import { getGuardrailStatus } from "./wallet-guardrails";
+import { SwapUnconfirmedError, getSwapAdapter, type SwapQuote, type SwapResult } from "./swap-adapter";
+import {
+  createBuyBurn,
+  getBuyBurnById,
+  getPendingBuyBurns,
+  getSwappedBuyBurns,
+  markBuyBurnBurned,
+  markBuyBurnError,
+  markBuyBurnSwapped,
+  setBuyBurnSignature,
+} from "./db";
+import { LEDGER_ACCOUNTS, getLedgerAccountBalance, recordBurnAccrual, recordBuyBurn } from "./ledger";
+import { notifyAdmins } from "./telegram-notifier";
+import { getPausedError } from "./emergency-pause";
+import type { BuyBurn } from "./types";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** pump.fun tokens (including $NEWS) use 6 decimals. */
+export const NEWS_TOKEN_DECIMALS = 6;
+
+export function isBuyBurnEnabled(): boolean {
+  return process.env.BUY_BURN_ENABLED === "true";
+}
+
+function getNewsMint(): string | null {
+  return process.env.NEWS_TOKEN_MINT || null;
+}
+
+function getBurnShare(): number {
+  const raw = parseFloat(process.env.BUY_BURN_SHARE || "1");
+  return isNaN(raw) ? 1 : Math.max(0, Math.min(1, raw));
+}
+
+function getMinBurnLamports(): number {
+  const raw = parseFloat(process.env.BUY_BURN_MIN_SOL || "0.05");
+  return Math.floor((isNaN(raw) || raw < 0 ? 0.05 : raw) * LAMPORTS_PER_SOL);
+}
+
+function getSlippageBps(): number {
+  const raw = parseInt(process.env.BUY_BURN_SLIPPAGE_BPS || "100", 10);
+  return isNaN(raw) ? 100 : Math.max(1, Math.min(1_000, raw));
+}
+
+function getMaxPriceImpactPct(): number {
+  const raw = parseFloat(process.env.BUY_BURN_MAX_PRICE_IMPACT_PCT || "2");
+  return isNaN(raw) || raw < 0 ? 2 : raw;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BuyBurnRunResult {
+  /** Runs whose tokens were burned (including retried burns). */
+  burned: number;
+  burnedAmount: number;
+  spentLamports: number;
+  /** SOL this run swapped (or would swap, on a dry run). */
+  plannedLamports: number;
+  quote?: SwapQuote;
+  /** Set when the run did not swap (disabled, below threshold, blocked…). */
+  skippedReason?: string;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Accrual
+// ---------------------------------------------------------------------------
+
+/**
+ * Earmark BUY_BURN_SHARE of a creator share for the next burn run.
+ * Returns the lamports earmarked (0 when buy-and-burn is disabled).
+ */
+export function accrueBurnShare(reference: string, creatorShareLamports: number, tokenId?: number): number {
+  if (!isBuyBurnEnabled() || !getNewsMint()) return 0;
+
+  const lamports = Math.floor(creatorShareLamports * getBurnShare());
+  if (lamports <= 0) return 0;
+
+  recordBurnAccrual(reference, lamports, tokenId);
+  return lamports;
+}
+
+// ---------------------------------------------------------------------------
+// Burning
+// ---------------------------------------------------------------------------
+
+/**
+ * Burn `amount` raw units of a mint held by the master wallet.
+ * Returns the signature and the SOL the burn cost.
+ */
+async function burnTokens(mintAddress: string, amount: number): Promise<{ signature: string; spentLamports: number }> {
+  const solBefore = (await getMasterWalletBalance()).lamports;
+
+  let signature: string;
+  if (isSimulatedSolana()) {
+    signature = await simulateTokenBurn(getMasterWalletAddress(), mintAddress);
+  } else {
+    const holding = await getMasterTokenHolding(mintAddress);
+    if (!holding || holding.amount < amount) {
+      throw new Error(`Master wallet holds ${holding?.amount ?? 0} of ${mintAddress}, cannot burn ${amount}`);
+    }
+
+    const connection = getConnection();
+    const wallet = getMasterWallet();
+    const transaction = new Transaction().add(
+      Token.createBurnInstruction(
+        holding.programId,
+        new PublicKey(mintAddress),
+        holding.account,
+        wallet.publicKey,
+        [],
+        amount
+      )
+    );
+
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash("confirmed");
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = wallet.publicKey;
+    transaction.sign(wallet);
+
+    signature = await connection.sendRawTransaction(transaction.serialize(), {
+      preflightCommitment: "confirmed",
+    });
+    await confirmTransactionPolling(connection, signature, blockhash, lastValidBlockHeight, "confirmed");
+  }
+
+  const solAfter = (await getMasterWalletBalance()).lamports;
+  return { signature, spentLamports: Math.max(0, solBefore - solAfter) };
+}
+
+/**
+ * Burn what a swapped run bought. On failure the run stays "swapped" and is
+ * retried by the next run.
+ */
+async function burnSwapped(run: BuyBurn, result: BuyBurnRunResult): Promise<void> {
+  const amount = run.bought_amount ?? 0;
+  if (amount <= 0) {
+    markBuyBurnError(run.id, "Swap returned no tokens to burn");
+    return;
+  }
+
+  try {
+    const burn = await burnTokens(run.mint_address, amount);
+    markBuyBurnBurned(run.id, burn.signature, amount);
+    recordBuyBurn(`buy_burn:${run.id}:burn`, 0, burn.spentLamports, burn.signature);
+    result.burned++;
+    result.burnedAmount += amount;
+    console.log(
+      `[BuyBurn] Run #${run.id}: burned ${amount / 10 ** NEWS_TOKEN_DECIMALS} tokens (tx: ${burn.signature})`
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    markBuyBurnError(run.id, `Burn failed: ${message}`);
+    console.error(`[BuyBurn] Run #${run.id} burn failed: ${message}`);
+    await notifyAdmins(`⚠️ Buy-and-burn #${run.id} bought tokens but the burn failed: ${message}\nIt will be retried next run.`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+/**
+ * Swap the burn reserve for $NEWS and burn it, if it has reached the threshold.
+ */
+export async function runBuyAndBurn(options: { dryRun?: boolean } = {}): Promise<BuyBurnRunResult> {
+  const result: BuyBurnRunResult = { burned: 0, burnedAmount: 0, spentLamports: 0, plannedLamports: 0 };
+
+  const mint = getNewsMint();
+  if (!isBuyBurnEnabled() || !mint) {
+    result.skippedReason = "Buy-and-burn is disabled (set BUY_BURN_ENABLED=true and NEWS_TOKEN_MINT)";
+    return result;
+  }
+
+  const pausedError = getPausedError();
+  if (pausedError) {
+    result.skippedReason = pausedError;
+    return result;
+  }
+
+  const unresolved = getPendingBuyBurns();
+  if (unresolved.length > 0) {
+    result.skippedReason =
+      `${unresolved.length} buy-and-burn run(s) awaiting resolution: ` +
+      unresolved.map((r) => `#${r.id}`).join(", ");
+    console.warn(`[BuyBurn] Skipping run — ${result.skippedReason}`);
+    return result;
+  }
+
+  // Finish burns whose swap already landed
+  if (!options.dryRun) {
+    for (const run of getSwappedBuyBurns()) {
+      await burnSwapped(run, result);
+    }
+  }
+
+  const reserve = getLedgerAccountBalance(LEDGER_ACCOUNTS.burnReserve);
+  if (reserve < getMinBurnLamports() || reserve <= 0) {
+    result.skippedReason =
+      `Burn reserve ${reserve / LAMPORTS_PER_SOL} SOL is below BUY_BURN_MIN_SOL ` +
+      `(${getMinBurnLamports() / LAMPORTS_PER_SOL} SOL)`;
+    return result;
+  }
+
+  // Anything above the per-transaction cap carries over to the next run
+  const maxTxLamports = Math.floor(getGuardrailStatus().maxTxSol * LAMPORTS_PER_SOL);
+  const amount = Math.min(reserve, maxTxLamports);
+  result.plannedLamports = amount;
+
+  const guard = checkOperation(amount, "buy-burn");
+  if (!guard.allowed) {
+    result.skippedReason = guard.reason;
+    return result;
+  }
+
+  const adapter = getSwapAdapter();
+  let quote: SwapQuote;
+  try {
+    quote = await adapter.quote(mint, amount, getSlippageBps());
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    console.error(`[BuyBurn] Quote failed: ${result.error}`);
+    return result;
+  }
+  result.quote = quote;
+
+  if (quote.priceImpactPct > getMaxPriceImpactPct()) {
+    result.skippedReason =
+      `Price impact ${quote.priceImpactPct.toFixed(2)}% exceeds BUY_BURN_MAX_PRICE_IMPACT_PCT (${getMaxPriceImpactPct()}%)`;
+    console.warn(`[BuyBurn] Skipping run — ${result.skippedReason}`);
+    return result;
+  }
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  const run = createBuyBurn({
+    adapter: adapter.name,
+    mintAddress: mint,
+    inputLamports: amount,
+    quotedAmount: quote.outAmount,
+    minAmount: quote.minOutAmount,
+    slippageBps: quote.slippageBps,
+    priceImpactPct: quote.priceImpactPct,
+  });
+
+  let swap: SwapResult;
+  try {
+    swap = await adapter.swap(quote);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.error = message;
+    logBuyBurn({ caller: "buy-burn", success: false, amountLamports: amount, errorMessage: message });
+
+    if (error instanceof SwapUnconfirmedError) {
+      // Outcome unknown — leave pending so no later run spends the reserve twice
+      setBuyBurnSignature(run.id, error.signature);
+      await notifyAdmins(
+        `⚠️ Buy-and-burn #${run.id} (${amount / LAMPORTS_PER_SOL} SOL) was sent but not confirmed: ${error.signature}\n` +
+        `${message}\nBuy-and-burn is paused until it is resolved with scripts/buy-burn.ts.`
+      );
+    } else {
+      // Never sent, or sent and definitely not landed
+      markBuyBurnError(run.id, message);
+    }
+    console.error(`[BuyBurn] Run #${run.id} swap failed: ${message}`);
+    return result;
+  }
+
+  markBuyBurnSwapped(run.id, swap.signature, swap.outAmount);
+  logBuyBurn({ caller: "buy-burn", success: true, amountLamports: amount, txSignature: swap.signature });
+  recordBuyBurn(`buy_burn:${run.id}`, amount, swap.spentLamports, swap.signature);
+  result.spentLamports += amount;
+  console.log(
+    `[BuyBurn] Run #${run.id}: swapped ${amount / LAMPORTS_PER_SOL} SOL for ` +
+    `${swap.outAmount / 10 ** NEWS_TOKEN_DECIMALS} tokens via ${adapter.name} (tx: ${swap.signature})`
+  );
+
+  await burnSwapped({ ...run, status: "swapped", bought_amount: swap.outAmount }, result);
+  return result;
+}
+
+/**
+ * Resolve a run left pending by an unconfirmed swap, after checking the
+ * master wallet's history on an explorer. A landed swap is burned next run.
+ */
+export function resolveBuyBurn(
+  id: number,
+  outcome: "swapped" | "failed",
+  txSignature?: string,
+  boughtAmount?: number
+): void {
+  const run = getBuyBurnById(id);
+  if (!run || run.status !== "pending") {
+    throw new Error(`Buy-and-burn #${id} is not pending`);
+  }
+
+  if (outcome === "swapped") {
+    const signature = txSignature || run.swap_tx_signature;
+    if (!signature) {
+      throw new Error(`Pass the signature of the swap that landed for buy-and-burn #${id}`);
+    }
+    markBuyBurnSwapped(id, signature, boughtAmount ?? run.min_amount);
+    recordBuyBurn(`buy_burn:${id}`, run.input_lamports, run.input_lamports, signature);
+  } else {
+    markBuyBurnError(id, "Resolved as failed by operator");
+  }
+}
@@ -18,14 +18,16 @@
  * 3. Compute each token's activity delta since the last claim snapshot
  * 4. Split the bulk SOL proportionally (activity-weighted pro-rata)
  * 5. Apply the existing submitter/creator share split (default 50/50)
- * 6. Send each submitter's share via secureSendSol
- * 7. Record everything in claim_batches + claim_allocations for audit
+ * 6. Accrue each submitter's share to their ledger balance (no dust is
+ *    dropped — small shares carry over until the wallet reaches the payout
+ *    threshold; see submitter-payouts.ts for the batched payout run)
+ * 7. Earmark the creator share for buy-and-burn (see buy-burn.ts)
+ * 8. Record everything in claim_batches + claim_allocations for audit
  */
 
 import { LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { isValidSolanaAddress } from "./solana-wallet";
-import { secureSendSol } from "./secure-wallet";
-import {
+import db, {
   getActiveTokensForClaim,
   getClaimBatchByTxSignature,
   createClaimBatch,
@@ -36,7 +38,19 @@ import {
   getLastVolumeSnapshot,
   saveVolumeSnapshot,
   getTokenById,
+  getSkippedClaimAllocationsWithShare,
 } from "./db";
+import { isSimulatedSolana, getSimulatedBondingCurveVolume } from "./solana-sim";
+import {
+  getSubmitterAccrualAddress,
+  isLedgerTransactionPosted,
+  recordPayableTransfer,
+  recordSubmitterAccrual,
+} from "./ledger";
+import { isCoveredByOpeningBalances } from "./ledger-reconciler";
+import { resolvePayoutAddress } from "./payout-wallets";
+import { accrueBurnShare } from "./buy-burn";
+import { getPausedError } from "./emergency-pause";
 import type { Token } from "./types";
 
 // ---------------------------------------------------------------------------
@@ -46,9 +60,6 @@ import type { Token } from "./types";
 /** Minimum total claim to process (avoid processing dust). */
 const MIN_CLAIM_LAMPORTS = 10_000; // 0.00001 SOL
 
-/** Minimum per-token distribution (skip if below this). */
-const MIN_DISTRIBUTION_LAMPORTS = Math.floor(0.001 * LAMPORTS_PER_SOL);
-
 /** Submitter share percentage (mirrors revenue-distributor logic). */
 function getSubmitterSharePercent(): number {
   const raw = parseFloat(process.env.REVENUE_SUBMITTER_SHARE || "0.5");
@@ -78,6 +89,7 @@ export interface ProRataShare {
   tokenId: number;
   mintAddress: string;
   deployerSolAddress: string;
+  payoutAddress: string;       // Submitter's current payout wallet (resolved at distribution time)
   volumeDelta: number;
   sharePercent: number;        // 0–1 (proportion of total volume delta)
   totalAmountLamports: number; // This token's share of the bulk claim
@@ -88,6 +100,7 @@ export interface BulkClaimResult {
   success: boolean;
   batchId?: number;
   tokensCount?: number;
+  /** Submitter shares accrued to wallet balances (paid by the payout run). */
   distributedLamports?: number;
   error?: string;
   allocations?: ProRataShare[];
@@ -226,16 +239,31 @@ async function fetchBondingCurveVolume(
  */
 export async function fetchTokenVolumes(tokens: Token[]): Promise<TokenVolume[]> {
   const volumes: TokenVolume[] = [];
+  const simulated = isSimulatedSolana();
   const heliusAvailable = !!process.env.HELIUS_API_KEY;
 
   console.log(
     `[ClaimDistributor] Fetching activity data for ${tokens.length} token(s) ` +
-    `(source: ${heliusAvailable ? "Helius trade history" : "pump.fun market cap fallback"})`
+    `(source: ${simulated ? "simulated chain" : heliusAvailable ? "Helius trade history" : "pump.fun market cap fallback"})`
   );
 
   for (const token of tokens) {
     if (!token.mint_address) continue;
 
+    if (simulated) {
+      // Simulated bonding-curve volume stands in for Helius trade data
+      const currentVolume = getSimulatedBondingCurveVolume(token.mint_address) / LAMPORTS_PER_SOL;
+      const previousVolume = getLastVolumeSnapshot(token.id)?.cumulative_volume ?? 0;
+      volumes.push({
+        tokenId: token.id,
+        mintAddress: token.mint_address,
+        currentVolume,
+        previousVolume,
+        volumeDelta: Math.max(0, currentVolume - previousVolume),
+      });
+      continue;
+    }
+
     // Step 1: Fetch pump.fun coin data (always needed for bonding curve address)
     const coinData = await fetchPumpCoinData(token.mint_address);
 
@@ -315,6 +343,7 @@ export function calculateProRataShares(
       tokenId: vol.tokenId,
       mintAddress: vol.mintAddress,
       deployerSolAddress: token.deployer_sol_address,
+      payoutAddress: resolvePayoutAddress(token),
       volumeDelta: vol.volumeDelta,
       sharePercent,
       totalAmountLamports,
@@ -346,6 +375,12 @@ export async function distributeBulkClaim(
     `(tx: ${txSignature.slice(0, 12)}…)${dryRun ? " [DRY RUN]" : ""}`
   );
 
+  // Guard: paused (the claim can be re-run by tx signature once resumed)
+  const pausedError = dryRun ? null : getPausedError();
+  if (pausedError) {
+    return { success: false, error: pausedError };
+  }
+
   // Guard: minimum amount
   if (totalLamports < MIN_CLAIM_LAMPORTS) {
     return { success: false, error: `Claim too small: ${totalLamports} lamports` };
@@ -403,7 +438,7 @@ export async function distributeBulkClaim(
   console.log(`[ClaimDistributor] Created batch #${batch.id}`);
   updateClaimBatchStatus(batch.id, "distributing");
 
-  // Create allocation records and distribute
+  // Create allocation records and accrue submitter shares
   let distributedLamports = 0;
 
   for (const share of shares) {
@@ -413,61 +448,56 @@ export async function distributeBulkClaim(
       saveVolumeSnapshot(share.tokenId, vol.currentVolume, "pump_api");
     }
 
-    // Create allocation record
-    const allocation = createClaimAllocation(
-      batch.id,
-      share.tokenId,
-      vol?.currentVolume ?? 0,
-      share.sharePercent,
-      share.totalAmountLamports,
-      share.submitterLamports
-    );
-
-    // Skip if submitter share is below dust threshold
-    if (share.submitterLamports < MIN_DISTRIBUTION_LAMPORTS) {
-      console.log(
-        `[ClaimDistributor] Skipping ${share.mintAddress.slice(0, 8)}… ` +
-        `(${share.submitterLamports / LAMPORTS_PER_SOL} SOL below minimum)`
+    // Create the allocation and accrue its share together, so no allocation
+    // is left pending with nothing owed behind it
+    const accrued = db.transaction(() => {
+      const allocation = createClaimAllocation(
+        batch.id,
+        share.tokenId,
+        vol?.currentVolume ?? 0,
+        share.sharePercent,
+        share.totalAmountLamports,
+        share.submitterLamports
       );
-      updateClaimAllocationStatus(allocation.id, "skipped");
-      continue;
-    }
 
-    // Validate recipient address
-    if (!isValidSolanaAddress(share.deployerSolAddress)) {
-      console.error(`[ClaimDistributor] Invalid address for token #${share.tokenId}: ${share.deployerSolAddress}`);
-      updateClaimAllocationStatus(allocation.id, "failed");
-      continue;
-    }
+      if (share.submitterLamports <= 0) {
+        updateClaimAllocationStatus(allocation.id, "skipped");
+        return false;
+      }
 
-    // Send SOL to submitter
-    try {
-      const result = await secureSendSol(
-        share.deployerSolAddress,
+      // Accrue to the submitter's balance; the allocation stays "pending"
+      // until a payout batch pays that wallet
+      const posted = recordSubmitterAccrual(
+        `claim_allocation:${allocation.id}`,
+        share.payoutAddress,
         share.submitterLamports,
-        "claim-distributor"
+        share.tokenId
       );
+      if (posted === null) {
+        // retryFailedAllocations accrues it later
+        console.error(`[ClaimDistributor] Could not accrue allocation #${allocation.id} for token #${share.tokenId}`);
+        updateClaimAllocationStatus(allocation.id, "failed");
+        return false;
+      }
 
-      if (result.success) {
-        updateClaimAllocationStatus(allocation.id, "paid", result.signature);
-        distributedLamports += share.submitterLamports;
-        console.log(
-          `[ClaimDistributor] Paid ${share.submitterLamports / LAMPORTS_PER_SOL} SOL ` +
-          `to ${share.deployerSolAddress.slice(0, 8)}… (tx: ${result.signature?.slice(0, 12)}…)`
-        );
-      } else {
-        console.error(`[ClaimDistributor] Payment failed for token #${share.tokenId}: ${result.error}`);
+      // Payout runs skip unpayable addresses; flag them for a manual retry
+      if (!isValidSolanaAddress(share.payoutAddress)) {
+        console.error(`[ClaimDistributor] Invalid address for token #${share.tokenId}: ${share.payoutAddress}`);
         updateClaimAllocationStatus(allocation.id, "failed");
       }
-    } catch (err) {
-      console.error(`[ClaimDistributor] Error paying token #${share.tokenId}:`, err);
-      updateClaimAllocationStatus(allocation.id, "failed");
-    }
+      return true;
+    })();
 
-    // Small delay between transfers
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    if (accrued) {
+      distributedLamports += share.submitterLamports;
+    }
   }
 
+  // The rest of the claim is the creator share: earmark it for buy-and-burn
+  // (a no-op unless BUY_BURN_ENABLED)
+  const creatorShare = totalLamports - shares.reduce((sum, s) => sum + s.submitterLamports, 0);
+  accrueBurnShare(`claim_batch:${batch.id}`, creatorShare);
+
   // Finalize batch
   const allAllocations = getClaimAllocationsByBatch(batch.id);
   const anyFailed = allAllocations.some((a) => a.status === "failed");
@@ -477,7 +507,7 @@ export async function distributeBulkClaim(
 
   console.log(
     `[ClaimDistributor] Batch #${batch.id} ${finalStatus}: ` +
-    `distributed ${distributedLamports / LAMPORTS_PER_SOL} SOL across ${shares.length} token(s)`
+    `accrued ${distributedLamports / LAMPORTS_PER_SOL} SOL across ${shares.length} token(s)`
   );
 
   return {
@@ -494,13 +524,18 @@ export async function distributeBulkClaim(
 // ---------------------------------------------------------------------------
 
 /**
- * Retry failed allocations within an existing batch.
+ * Retry failed allocations within an existing batch. An allocation fails
+ * when its payout address is invalid or its share could not be accrued;
+ * once the submitter's payout address resolves to a valid wallet, the share
+ * is moved there from the address it was accrued to (or accrued there now)
+ * and the allocation goes back to "pending" for the next payout run. No SOL
+ * is sent here.
  */
-export async function retryFailedAllocations(batchId: number): Promise<{
+export function retryFailedAllocations(batchId: number): {
   retried: number;
   succeeded: number;
   failed: number;
-}> {
+} {
   const allocations = getClaimAllocationsByBatch(batchId);
   const failedAllocations = allocations.filter((a) => a.status === "failed");
 
@@ -516,30 +551,83 @@ export async function retryFailedAllocations(batchId: number): Promise<{
       continue;
     }
 
-    if (!isValidSolanaAddress(token.deployer_sol_address)) {
+    const payoutAddress = resolvePayoutAddress(token);
+    if (!isValidSolanaAddress(payoutAddress)) {
       failed++;
       continue;
     }
 
-    try {
-      const result = await secureSendSol(
-        token.deployer_sol_address,
-        allocation.submitter_lamports,
-        "claim-distributor-retry"
-      );
+    const reference = `claim_allocation:${allocation.id}`;
+    const transferReference = `${reference}:retry`;
+    let accruedTo = getSubmitterAccrualAddress(reference);
 
-      if (result.success) {
-        updateClaimAllocationStatus(allocation.id, "paid", result.signature);
-        succeeded++;
+    if (!accruedTo) {
+      // From before shares were accrued: the opening balances booked it
+      // under the deployer address. Otherwise it was never accrued.
+      if (isCoveredByOpeningBalances(allocation.created_at)) {
+        accruedTo = token.deployer_sol_address;
       } else {
+        recordSubmitterAccrual(reference, payoutAddress, allocation.submitter_lamports, token.id);
+        if (!isLedgerTransactionPosted("submitter_accrual", reference)) {
+          failed++;
+          continue;
+        }
+        accruedTo = payoutAddress;
+      }
+    }
+
+    if (accruedTo !== payoutAddress && !isLedgerTransactionPosted("payable_transfer", transferReference)) {
+      const posted = recordPayableTransfer(
+        transferReference,
+        accruedTo,
+        payoutAddress,
+        allocation.submitter_lamports
+      );
+      if (posted === null) {
         failed++;
+        continue;
       }
-    } catch {
-      failed++;
     }
 
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    updateClaimAllocationStatus(allocation.id, "pending");
+    succeeded++;
+    console.log(
+      `[ClaimDistributor] Allocation #${allocation.id}: ${allocation.submitter_lamports / LAMPORTS_PER_SOL} SOL ` +
+      `now owed to ${payoutAddress}`
+    );
   }
 
   return { retried, succeeded, failed };
 }
+
+/**
+ * Accrue submitter shares that were skipped as dust before shares were
+ * accrued (they fell under the old per-transfer minimum), so they carry
+ * over like any other balance. Each goes back to "pending", or "failed"
+ * if its payout address is invalid. Safe to run repeatedly.
+ */
+export function accrueSkippedAllocations(): { accrued: number; accruedLamports: number } {
+  let accrued = 0;
+  let accruedLamports = 0;
+
+  for (const allocation of getSkippedClaimAllocationsWithShare()) {
+    const token = getTokenById(allocation.token_id);
+    if (!token) continue;
+
+    const reference = `claim_allocation:${allocation.id}`;
+    const payoutAddress = resolvePayoutAddress(token);
+    recordSubmitterAccrual(reference, payoutAddress, allocation.submitter_lamports, token.id);
+    if (!isLedgerTransactionPosted("submitter_accrual", reference)) continue;
+
+    updateClaimAllocationStatus(allocation.id, isValidSolanaAddress(payoutAddress) ? "pending" : "failed");
+    accrued++;
+    accruedLamports += allocation.submitter_lamports;
+  }
+
+  if (accrued > 0) {
+    console.log(
+      `[ClaimDistributor] Accrued ${accrued} skipped allocation(s): ${accruedLamports / LAMPORTS_PER_SOL} SOL`
+    );
+  }
+  return { accrued, accruedLamports };
+}
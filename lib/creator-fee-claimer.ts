@@ -23,6 +23,9 @@ import {
   secureGetBalance,
 } from "./secure-wallet";
 import { logWalletOperation } from "./wallet-audit";
+import { recordCreatorFeeClaim } from "./ledger";
+import { isSimulatedSolana, simulateCollectCreatorFee } from "./solana-sim";
+import { getPausedError } from "./emergency-pause";
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -62,6 +65,12 @@ export interface ClaimCycleResult {
  * Called every 30 minutes by the scheduler.
  */
 export async function claimAllCreatorFees(): Promise<ClaimCycleResult> {
+  const pausedError = getPausedError();
+  if (pausedError) {
+    console.log(`[FeeClaimer] Skipping claim — ${pausedError}`);
+    return { processed: 0, claimed: 0, failed: 0, totalClaimedLamports: 0, results: [] };
+  }
+
   const connection = getConnection();
   const masterWallet = secureGetWallet("fee-claimer");
 
@@ -78,6 +87,9 @@ export async function claimAllCreatorFees(): Promise<ClaimCycleResult> {
     const claimedLamports = Math.max(0, balanceAfter.lamports - balanceBefore.lamports);
 
     console.log(`[FeeClaimer] Claimed: ${claimedLamports / LAMPORTS_PER_SOL} SOL`);
+    if (claimedLamports > 0) {
+      recordCreatorFeeClaim(signature, claimedLamports);
+    }
 
     logWalletOperation({
       operation: "claim_creator_fee",
@@ -122,11 +134,16 @@ export async function claimAllCreatorFees(): Promise<ClaimCycleResult> {
 /**
  * Call PumpPortal's collectCreatorFee Local Transaction API.
  * Returns the confirmed transaction signature.
+ * With SOLANA_MODE=simulated, claims from the simulated ledger instead.
  */
 export async function callCollectCreatorFee(
   connection: Connection,
   wallet: Keypair
 ): Promise<string> {
+  if (isSimulatedSolana()) {
+    return simulateCollectCreatorFee(wallet.publicKey.toBase58());
+  }
+
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 30_000);
 
@@ -17,13 +17,42 @@ import type {
   VoteCounts,
   ActivityEvent,
   ActivityEventType,
+  ActivityStats,
   ClaimBatch,
   ClaimBatchStatus,
   ClaimAllocation,
   ClaimAllocationStatus,
   TokenVolumeSnapshot,
+  PayoutBatch,
+  PayoutBatchItem,
+  PayoutWallet,
+  BuyBurn,
+  TransferApproval,
+  TransferApprovalVote,
+  WalletAnomaly,
+  WalletAnomalyKind,
+  IngestionSource,
+  IngestionSourceKind,
+  PublishReview,
+  ReputationStats,
+  SourceDomain,
+  SourceDomainTier,
+  ValidationRejectionKind,
+  HeadlineRevision,
+  HeadlineRevisionKind,
   PoolWallet,
   PoolStats,
+  StoredWalletKey,
+  SimTransaction,
+  SimTransactionKind,
+  SimMint,
+  SubmissionValidation,
+  ValidationResult,
+  SubmissionAppeal,
+  StoryCluster,
+  StoryTimelineEntry,
+  HeadlineSearchFilters,
+  HeadlineSearchResult,
 } from "./types";
 
 // Database path
@@ -43,312 +72,24 @@ db.pragma("journal_mode = WAL");
 // Set busy timeout to handle concurrent writes from multiple processes (web, bot, scheduler)
 db.pragma("busy_timeout = 5000");
 
-// Initialize tables
-db.exec(`
-  -- Headlines table (FIFO queue)
-  CREATE TABLE IF NOT EXISTS headlines (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    title TEXT NOT NULL,
-    url TEXT NOT NULL,
-    column TEXT DEFAULT 'left' CHECK(column IN ('left', 'right', 'center')),
-    image_url TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Main headline (single row, updated in place)
-  CREATE TABLE IF NOT EXISTS main_headline (
-    id INTEGER PRIMARY KEY CHECK (id = 1),
-    title TEXT NOT NULL,
-    url TEXT NOT NULL,
-    subtitle TEXT,
-    image_url TEXT,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Coin of the day (single row, updated in place)
-  CREATE TABLE IF NOT EXISTS coin_of_the_day (
-    id INTEGER PRIMARY KEY CHECK (id = 1),
-    title TEXT NOT NULL,
-    url TEXT NOT NULL,
-    description TEXT,
-    image_url TEXT,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Whitelist table for Telegram users
-  CREATE TABLE IF NOT EXISTS whitelist (
-    telegram_id TEXT PRIMARY KEY,
-    username TEXT,
-    added_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- User submissions queue
-  CREATE TABLE IF NOT EXISTS submissions (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    telegram_user_id TEXT NOT NULL,
-    telegram_username TEXT,
-    sol_address TEXT NOT NULL,
-    url TEXT NOT NULL,
-    content_type TEXT DEFAULT 'other' CHECK(content_type IN ('article', 'tweet', 'youtube', 'tiktok', 'other')),
-    status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'validating', 'approved', 'rejected', 'published')),
-    rejection_reason TEXT,
-    content_hash TEXT,
-    embedding TEXT,
-    cached_content TEXT,
-    custom_token_name TEXT,
-    custom_ticker TEXT,
-    published_at DATETIME,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Token tracking
-  CREATE TABLE IF NOT EXISTS tokens (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    headline_id INTEGER REFERENCES headlines(id),
-    submission_id INTEGER REFERENCES submissions(id),
-    token_name TEXT NOT NULL,
-    ticker TEXT NOT NULL,
-    image_url TEXT,
-    mint_address TEXT,
-    pump_url TEXT,
-    deployer_sol_address TEXT NOT NULL,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Revenue tracking
-  CREATE TABLE IF NOT EXISTS revenue_events (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    token_id INTEGER NOT NULL REFERENCES tokens(id),
-    amount_lamports INTEGER NOT NULL,
-    submitter_share_lamports INTEGER NOT NULL,
-    burn_share_lamports INTEGER NOT NULL,
-    submitter_tx_signature TEXT,
-    burn_tx_signature TEXT,
-    status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'submitter_paid', 'burned', 'completed', 'failed')),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Votes table (WAGMI/NGMI community voting)
-  CREATE TABLE IF NOT EXISTS votes (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    headline_id INTEGER NOT NULL REFERENCES headlines(id),
-    vote_type TEXT NOT NULL CHECK(vote_type IN ('wagmi', 'ngmi')),
-    voter_hash TEXT NOT NULL,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE(headline_id, voter_hash)
-  );
-
-  -- Activity log (War Room feed)
-  CREATE TABLE IF NOT EXISTS activity_log (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    event_type TEXT NOT NULL,
-    message TEXT NOT NULL,
-    metadata TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Create indexes for better query performance
-  CREATE INDEX IF NOT EXISTS idx_headlines_column ON headlines(column);
-  CREATE INDEX IF NOT EXISTS idx_headlines_created_at ON headlines(created_at DESC);
-  CREATE INDEX IF NOT EXISTS idx_submissions_status ON submissions(status);
-  CREATE INDEX IF NOT EXISTS idx_submissions_created_at ON submissions(created_at DESC);
-  CREATE INDEX IF NOT EXISTS idx_submissions_url ON submissions(url);
-  CREATE INDEX IF NOT EXISTS idx_submissions_user ON submissions(telegram_user_id);
-  CREATE INDEX IF NOT EXISTS idx_tokens_headline_id ON tokens(headline_id);
-  CREATE INDEX IF NOT EXISTS idx_tokens_submission_id ON tokens(submission_id);
-  CREATE INDEX IF NOT EXISTS idx_revenue_events_token_id ON revenue_events(token_id);
-  CREATE INDEX IF NOT EXISTS idx_revenue_events_status ON revenue_events(status);
-  CREATE INDEX IF NOT EXISTS idx_votes_headline_id ON votes(headline_id);
-  CREATE INDEX IF NOT EXISTS idx_votes_voter_hash ON votes(voter_hash);
-  CREATE INDEX IF NOT EXISTS idx_activity_log_created_at ON activity_log(created_at DESC);
-  CREATE INDEX IF NOT EXISTS idx_activity_log_event_type ON activity_log(event_type);
-
-  -- Claim batches: tracks each bulk pump.fun claim event
-  CREATE TABLE IF NOT EXISTS claim_batches (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    tx_signature TEXT UNIQUE NOT NULL,
-    total_lamports INTEGER NOT NULL,
-    tokens_count INTEGER NOT NULL,
-    distributed_lamports INTEGER DEFAULT 0,
-    status TEXT DEFAULT 'pending' CHECK(status IN ('pending','distributing','completed','failed')),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Per-token allocation within a claim batch
-  CREATE TABLE IF NOT EXISTS claim_allocations (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    batch_id INTEGER NOT NULL REFERENCES claim_batches(id),
-    token_id INTEGER NOT NULL REFERENCES tokens(id),
-    volume_snapshot REAL NOT NULL,
-    share_percent REAL NOT NULL,
-    amount_lamports INTEGER NOT NULL,
-    submitter_lamports INTEGER NOT NULL,
-    submitter_tx_signature TEXT,
-    status TEXT DEFAULT 'pending' CHECK(status IN ('pending','paid','failed','skipped')),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Volume snapshots for delta calculation between claims
-  CREATE TABLE IF NOT EXISTS token_volume_snapshots (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    token_id INTEGER NOT NULL REFERENCES tokens(id),
-    cumulative_volume REAL NOT NULL,
-    snapshot_source TEXT DEFAULT 'pump_api',
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE INDEX IF NOT EXISTS idx_claim_batches_status ON claim_batches(status);
-  CREATE INDEX IF NOT EXISTS idx_claim_batches_tx ON claim_batches(tx_signature);
-  CREATE INDEX IF NOT EXISTS idx_claim_allocations_batch ON claim_allocations(batch_id);
-  CREATE INDEX IF NOT EXISTS idx_claim_allocations_token ON claim_allocations(token_id);
-  CREATE INDEX IF NOT EXISTS idx_volume_snapshots_token ON token_volume_snapshots(token_id);
-  CREATE INDEX IF NOT EXISTS idx_volume_snapshots_created ON token_volume_snapshots(created_at DESC);
-
-  -- Comments on articles
-  CREATE TABLE IF NOT EXISTS comments (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    headline_id INTEGER NOT NULL REFERENCES headlines(id),
-    telegram_user_id TEXT NOT NULL,
-    telegram_username TEXT,
-    telegram_first_name TEXT,
-    content TEXT NOT NULL,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-  CREATE INDEX IF NOT EXISTS idx_comments_headline ON comments(headline_id, created_at DESC);
-
-  -- App-wide settings (key-value store for admin toggles)
-  CREATE TABLE IF NOT EXISTS settings (
-    key TEXT PRIMARY KEY,
-    value TEXT NOT NULL,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  -- Pre-funded deployer wallet pool (breaks on-chain funding trail)
-  CREATE TABLE IF NOT EXISTS deployer_pool (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    address TEXT NOT NULL UNIQUE,
-    encrypted_key TEXT NOT NULL,
-    funded_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    funded_lamports INTEGER NOT NULL,
-    status TEXT DEFAULT 'ready' CHECK(status IN ('ready', 'reserved', 'used', 'failed')),
-    reserved_at DATETIME,
-    used_at DATETIME,
-    token_id INTEGER REFERENCES tokens(id),
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
+// Schema is managed by versioned migrations in lib/migrations.ts
+// (apply with `npm run migrate`).
 
-  -- Page view tracking (deduped per visitor per path per day)
-  CREATE TABLE IF NOT EXISTS page_views (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    page_path TEXT NOT NULL,
-    visitor_hash TEXT NOT NULL,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-  CREATE INDEX IF NOT EXISTS idx_page_views_created_at ON page_views(created_at DESC);
-  CREATE INDEX IF NOT EXISTS idx_page_views_path ON page_views(page_path);
-`);
-
-// Migration: Add image_url column if it doesn't exist
-try {
-  db.exec(`ALTER TABLE headlines ADD COLUMN image_url TEXT`);
-} catch {
-  // Column already exists
-}
-try {
-  db.exec(`ALTER TABLE main_headline ADD COLUMN image_url TEXT`);
-} catch {
-  // Column already exists
-}
-// Migration: Add token_id to headlines
-try {
-  db.exec(`ALTER TABLE headlines ADD COLUMN token_id INTEGER REFERENCES tokens(id)`);
-} catch {
-  // Column already exists
-}
-// Migration: Add cached_content to submissions
-try {
-  db.exec(`ALTER TABLE submissions ADD COLUMN cached_content TEXT`);
-} catch {
-  // Column already exists
-}
-// Migration: Add importance_score to headlines (for Breaking Siren)
-try {
-  db.exec(`ALTER TABLE headlines ADD COLUMN importance_score INTEGER DEFAULT 0`);
-} catch {
-  // Column already exists
-}
-// Migration: Add mcafee_take to headlines (for AI McAfee Commentary)
-try {
-  db.exec(`ALTER TABLE headlines ADD COLUMN mcafee_take TEXT`);
-} catch {
-  // Column already exists
-}
-// Migration: Add summary to headlines (for COTD full project summaries)
-try {
-  db.exec(`ALTER TABLE headlines ADD COLUMN summary TEXT`);
-} catch {
-  // Column already exists
-}
-// Migration: Add ephemeral deployer wallet columns to tokens
-try {
-  db.exec(`ALTER TABLE tokens ADD COLUMN creator_wallet_address TEXT`);
-} catch {
-  // Column already exists
-}
-try {
-  db.exec(`ALTER TABLE tokens ADD COLUMN creator_wallet_encrypted_key TEXT`);
-} catch {
-  // Column already exists
-}
-try {
-  db.exec(`ALTER TABLE tokens ADD COLUMN last_fee_claim_at DATETIME`);
-} catch {
-  // Column already exists
-}
-try {
-  db.exec(`ALTER TABLE tokens ADD COLUMN theme TEXT`);
-} catch {
-  // Column already exists
-}
-// Migration: Add custom token name/ticker to submissions
-try {
-  db.exec(`ALTER TABLE submissions ADD COLUMN custom_token_name TEXT`);
-} catch {
-  // Column already exists
-}
-try {
-  db.exec(`ALTER TABLE submissions ADD COLUMN custom_ticker TEXT`);
-} catch {
-  // Column already exists
-}
-
-// Migration: dedup index for page_views (expression index, safe to retry)
-try {
-  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_page_views_dedup ON page_views(page_path, visitor_hash, date(created_at))`);
-} catch {
-  // Index already exists or table not yet created
-}
-
-// Insert default main headline if none exists
-const mainHeadlineExists = db
-  .prepare("SELECT COUNT(*) as count FROM main_headline")
-  .get() as { count: number };
-
-if (mainHeadlineExists.count === 0) {
-  db.prepare(
-    `INSERT INTO main_headline (id, title, url, subtitle) VALUES (1, ?, ?, ?)`
-  ).run(
-    "WELCOME TO AINTIVIRUS",
-    "#",
-    "The Drudge Report of Crypto"
-  );
+/**
+ * A statement prepared on first use. Modules that keep statements at module
+ * scope use this, so importing them never touches the schema — entry points
+ * check the schema version only after their imports have loaded.
+ */
+export function lazyStatement(sql: string): () => Database.Statement {
+  let stmt: Database.Statement | undefined;
+  return () => (stmt ??= db.prepare(sql));
 }
 
 // ============= HEADLINES CRUD =============
 
 /**
  * Get headlines for a specific column, ordered by newest first (FIFO display)
- * Includes token data if available
+ * Includes token data if available. Archived headlines are excluded.
  */
 export function getHeadlines(
   column: "left" | "right" | "center",
@@ -363,7 +104,7 @@ export function getHeadlines(
     FROM headlines h
     LEFT JOIN tokens t ON h.token_id = t.id
     LEFT JOIN votes v ON v.headline_id = h.id
-    WHERE h.column = ?
+    WHERE h.column = ? AND h.archived_at IS NULL
     GROUP BY h.id
     ORDER BY h.created_at DESC
     LIMIT ?
@@ -392,6 +133,7 @@ export function getHeadlines(
 /**
  * Get all sidebar headlines (left + right) in a single sorted list.
  * Used to distribute headlines evenly across both columns at display time.
+ * Archived headlines are excluded.
  */
 export function getSidebarHeadlines(limit: number = 72): Headline[] {
   const stmt = db.prepare(`
@@ -403,7 +145,7 @@ export function getSidebarHeadlines(limit: number = 72): Headline[] {
     FROM headlines h
     LEFT JOIN tokens t ON h.token_id = t.id
     LEFT JOIN votes v ON v.headline_id = h.id
-    WHERE h.column IN ('left', 'right')
+    WHERE h.column IN ('left', 'right') AND h.archived_at IS NULL
     GROUP BY h.id
     ORDER BY h.created_at DESC
     LIMIT ?
@@ -429,9 +171,50 @@ export function getSidebarHeadlines(limit: number = 72): Headline[] {
   }));
 }
 
+/**
+ * Get homepage sidebar headlines published in the last N minutes, with vote
+ * counts. Polled by the live event stream to push new and newly enriched
+ * (token, McAfee take) headlines.
+ */
+export function getRecentSidebarHeadlines(minutes: number = 15): Headline[] {
+  const stmt = db.prepare(`
+    SELECT 
+      h.id, h.title, h.url, h.column, h.image_url, h.token_id, h.created_at,
+      h.importance_score, h.mcafee_take,
+      t.ticker, t.pump_url, t.image_url as token_image_url,
+      COALESCE(SUM(CASE WHEN v.vote_type = 'wagmi' THEN 1 ELSE 0 END), 0) as wagmi_count
+    FROM headlines h
+    LEFT JOIN tokens t ON h.token_id = t.id
+    LEFT JOIN votes v ON v.headline_id = h.id
+    WHERE h.column IN ('left', 'right') AND h.archived_at IS NULL
+    AND h.created_at > datetime('now', '-' || ? || ' minutes')
+    GROUP BY h.id
+    ORDER BY h.created_at ASC
+  `);
+  const rows = stmt.all(minutes) as Array<Headline & { ticker?: string; pump_url?: string; token_image_url?: string; wagmi_count: number }>;
+
+  return rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    url: row.url,
+    column: row.column,
+    image_url: row.image_url,
+    token_id: row.token_id,
+    created_at: row.created_at,
+    importance_score: row.importance_score || 0,
+    mcafee_take: row.mcafee_take || null,
+    wagmi_count: row.wagmi_count || 0,
+    token: row.ticker ? {
+      ticker: row.ticker,
+      pump_url: row.pump_url || "",
+      image_url: row.token_image_url || undefined,
+    } : undefined
+  }));
+}
+
 /**
  * Get all headlines across all columns
- * Includes token data if available
+ * Includes token data if available. Archived headlines are included (feed, sitemap).
  */
 export function getAllHeadlines(limit: number = 100): Headline[] {
   const stmt = db.prepare(`
@@ -465,6 +248,111 @@ export function getAllHeadlines(limit: number = 100): Headline[] {
   }));
 }
 
+// SQL mirror of detectContentType() for filtering headlines by URL
+const HEADLINE_CONTENT_TYPE_SQL = `
+  CASE
+    WHEN lower(h.url) LIKE '%twitter.com%' OR lower(h.url) LIKE '%x.com%' THEN 'tweet'
+    WHEN lower(h.url) LIKE '%youtube.com%' OR lower(h.url) LIKE '%youtu.be%' THEN 'youtube'
+    WHEN lower(h.url) LIKE '%tiktok.com%' THEN 'tiktok'
+    ELSE 'article'
+  END
+`;
+
+/**
+ * Turn free-form user input into a safe FTS5 MATCH expression: every word
+ * becomes a quoted prefix term, so operators and punctuation are ignored.
+ * Returns null when nothing searchable is left.
+ */
+function toFtsQuery(input: string): string | null {
+  const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return terms.slice(0, 12).map((term) => `"${term}"*`).join(" ");
+}
+
+/**
+ * Full-text search over headline titles, McAfee takes, summaries and token
+ * tickers. Results are ranked by relevance (newest first without a query).
+ */
+export function searchHeadlines(
+  filters: HeadlineSearchFilters
+): { results: HeadlineSearchResult[]; total: number } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  const match = filters.query ? toFtsQuery(filters.query) : null;
+  if (filters.query && !match) {
+    return { results: [], total: 0 };
+  }
+  if (match) {
+    conditions.push("headline_search MATCH ?");
+    params.push(match);
+  }
+  if (filters.from) {
+    conditions.push("date(h.created_at) >= ?");
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push("date(h.created_at) <= ?");
+    params.push(filters.to);
+  }
+  if (filters.contentType) {
+    conditions.push(`${HEADLINE_CONTENT_TYPE_SQL} = ?`);
+    params.push(filters.contentType);
+  }
+  if (filters.hasToken !== undefined) {
+    conditions.push(filters.hasToken ? "h.token_id IS NOT NULL" : "h.token_id IS NULL");
+  }
+
+  const from = match
+    ? "headline_search JOIN headlines h ON h.id = headline_search.rowid"
+    : "headlines h";
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const orderBy = match
+    ? "bm25(headline_search, 10.0, 2.0, 2.0, 5.0), h.created_at DESC"
+    : "h.created_at DESC";
+
+  const { total } = db.prepare(`
+    SELECT COUNT(*) as total FROM ${from} ${where}
+  `).get(...params) as { total: number };
+
+  const rows = db.prepare(`
+    SELECT
+      h.id, h.title, h.url, h.column, h.image_url, h.token_id, h.created_at,
+      h.importance_score, h.mcafee_take, h.summary,
+      ${HEADLINE_CONTENT_TYPE_SQL} as content_type,
+      t.ticker, t.pump_url, t.image_url as token_image_url
+    FROM ${from}
+    LEFT JOIN tokens t ON h.token_id = t.id
+    ${where}
+    ORDER BY ${orderBy}
+    LIMIT ? OFFSET ?
+  `).all(...params, filters.limit, filters.offset) as Array<
+    HeadlineSearchResult & { ticker?: string; pump_url?: string; token_image_url?: string }
+  >;
+
+  const results = rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    url: row.url,
+    column: row.column,
+    image_url: row.image_url,
+    token_id: row.token_id,
+    created_at: row.created_at,
+    importance_score: row.importance_score || 0,
+    mcafee_take: row.mcafee_take || null,
+    summary: row.summary || null,
+    content_type: row.content_type,
+    wagmi_count: 0,
+    token: row.ticker ? {
+      ticker: row.ticker,
+      pump_url: row.pump_url || "",
+      image_url: row.token_image_url || undefined,
+    } : undefined
+  }));
+
+  return { results, total };
+}
+
 /**
  * Get recent headline titles (for duplicate detection against published stories).
  */
@@ -485,14 +373,15 @@ export function addHeadline(
   url: string,
   column: "left" | "right" = "left",
   imageUrl?: string,
-  tokenId?: number
+  tokenId?: number,
+  submissionId?: number
 ): Headline {
   const stmt = db.prepare(`
-    INSERT INTO headlines (title, url, column, image_url, token_id)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO headlines (title, url, column, image_url, token_id, submission_id)
+    VALUES (?, ?, ?, ?, ?, ?)
     RETURNING id, title, url, column, image_url, token_id, created_at
   `);
-  return stmt.get(title, url, column, imageUrl || null, tokenId || null) as Headline;
+  return stmt.get(title, url, column, imageUrl || null, tokenId || null, submissionId || null) as Headline;
 }
 
 /**
@@ -505,8 +394,9 @@ export function addHeadline(
  */
 export function removeHeadline(id: number): boolean {
   const txn = db.transaction(() => {
-    // Delete votes referencing this headline
+    // Delete votes and edit history referencing this headline
     db.prepare("DELETE FROM votes WHERE headline_id = ?").run(id);
+    db.prepare("DELETE FROM headline_revisions WHERE headline_id = ?").run(id);
 
     // Find tokens linked to this headline and clean up their revenue events
     const tokens = db.prepare("SELECT id FROM tokens WHERE headline_id = ?").all(id) as { id: number }[];
@@ -591,7 +481,18 @@ export function getHeadlineWithDetails(id: number): (Headline & {
     LEFT JOIN submissions s ON t.submission_id = s.id
     WHERE h.id = ?
   `);
-  const row = stmt.get(id) as any;
+  const row = stmt.get(id) as (Headline & {
+    ticker?: string;
+    pump_url?: string;
+    token_name?: string;
+    mint_address?: string;
+    token_image_url?: string;
+    submitter_username?: string;
+    submitter_wallet?: string;
+    submission_created_at?: string;
+    cached_content?: string;
+    summary?: string;
+  }) | undefined;
   if (!row) return undefined;
   
   return {
@@ -621,6 +522,97 @@ export function getHeadlineWithDetails(id: number): (Headline & {
   };
 }
 
+// ============= HEADLINE REVISIONS =============
+
+/**
+ * Apply an edit to a headline and record it as a revision, in one
+ * transaction. Only fields that actually change are stored; returns
+ * undefined if the headline does not exist or nothing changed.
+ */
+export function reviseHeadline(
+  id: number,
+  changes: { title?: string; imageUrl?: string; summary?: string },
+  kind: HeadlineRevisionKind,
+  note: string | null,
+  editedBy: string
+): HeadlineRevision | undefined {
+  const txn = db.transaction(() => {
+    const current = db.prepare(`SELECT title, image_url, summary FROM headlines WHERE id = ?`).get(id) as
+      | { title: string; image_url: string | null; summary: string | null }
+      | undefined;
+    if (!current) return undefined;
+
+    const title = changes.title !== undefined && changes.title !== current.title ? changes.title : null;
+    const imageUrl = changes.imageUrl !== undefined && changes.imageUrl !== current.image_url ? changes.imageUrl : null;
+    const summary = changes.summary !== undefined && changes.summary !== current.summary ? changes.summary : null;
+    if (title === null && imageUrl === null && summary === null) return undefined;
+
+    db.prepare(`
+      UPDATE headlines
+      SET title = COALESCE(?, title), image_url = COALESCE(?, image_url), summary = COALESCE(?, summary)
+      WHERE id = ?
+    `).run(title, imageUrl, summary, id);
+
+    return db.prepare(`
+      INSERT INTO headline_revisions (
+        headline_id, kind, old_title, new_title, old_image_url, new_image_url,
+        old_summary, new_summary, note, edited_by
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `).get(
+      id,
+      kind,
+      title !== null ? current.title : null,
+      title,
+      imageUrl !== null ? current.image_url : null,
+      imageUrl,
+      summary !== null ? current.summary : null,
+      summary,
+      note,
+      editedBy
+    ) as HeadlineRevision;
+  });
+
+  return txn();
+}
+
+/**
+ * A headline's edit history, oldest first.
+ */
+export function getHeadlineRevisions(headlineId: number): HeadlineRevision[] {
+  const stmt = db.prepare(`
+    SELECT * FROM headline_revisions
+    WHERE headline_id = ?
+    ORDER BY id ASC
+  `);
+  return stmt.all(headlineId) as HeadlineRevision[];
+}
+
+/**
+ * The latest revision of each of the given headlines (for feeds), keyed by
+ * headline ID. Headlines never edited are absent.
+ */
+export function getLatestHeadlineRevisions(headlineIds: number[]): Map<number, HeadlineRevision> {
+  const latest = new Map<number, HeadlineRevision>();
+  if (headlineIds.length === 0) return latest;
+
+  const placeholders = headlineIds.map(() => "?").join(", ");
+  const rows = db.prepare(`
+    SELECT r.* FROM headline_revisions r
+    WHERE r.id IN (
+      SELECT MAX(id) FROM headline_revisions
+      WHERE headline_id IN (${placeholders})
+      GROUP BY headline_id
+    )
+  `).all(...headlineIds) as HeadlineRevision[];
+
+  for (const row of rows) {
+    latest.set(row.headline_id, row);
+  }
+  return latest;
+}
+
 // ============= MAIN HEADLINE =============
 
 /**
@@ -783,6 +775,80 @@ export function getSubmissionsByStatus(status: SubmissionStatus, limit: number =
   return stmt.all(status, limit) as Submission[];
 }
 
+// Unscored approved rows (pre-ranking) sort as a neutral 50
+const BACKLOG_ORDER = `COALESCE(queue_score, 50) DESC, created_at ASC, id ASC`;
+
+// Winners held for editor review leave the backlog until they are decided
+const NOT_IN_REVIEW = `id NOT IN (SELECT submission_id FROM publish_reviews WHERE status IN ('pending', 'approved'))`;
+
+/**
+ * Enter a freshly approved submission into the ranked backlog with its
+ * initial newsworthiness score (0-100).
+ */
+export function enterApprovedBacklog(id: number, newsworthinessScore: number): boolean {
+  const stmt = db.prepare(`
+    UPDATE submissions
+    SET newsworthiness_score = ?, queue_score = ?, carryover_count = 0, approved_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'approved'
+  `);
+  const result = stmt.run(newsworthinessScore, newsworthinessScore, id);
+  return result.changes > 0;
+}
+
+/**
+ * Get the approved backlog, ranked by decayed newsworthiness (FIFO tiebreaker).
+ */
+export function getApprovedBacklog(limit: number = 100): Submission[] {
+  const stmt = db.prepare(`
+    SELECT * FROM submissions
+    WHERE status = 'approved' AND ${NOT_IN_REVIEW}
+    ORDER BY ${BACKLOG_ORDER}
+    LIMIT ?
+  `);
+  return stmt.all(limit) as Submission[];
+}
+
+/**
+ * Carry a non-selected submission over to the next window: decay its queue
+ * score by the given factor and bump its carry-over count.
+ */
+export function carryOverSubmission(id: number, decay: number): Submission | undefined {
+  const stmt = db.prepare(`
+    UPDATE submissions
+    SET queue_score = COALESCE(queue_score, 50) * ?,
+        carryover_count = COALESCE(carryover_count, 0) + 1
+    WHERE id = ? AND status = 'approved'
+    RETURNING *
+  `);
+  return stmt.get(decay, id) as Submission | undefined;
+}
+
+/**
+ * Get approved submissions that have sat in the backlog longer than the
+ * freshness ceiling (measured from approval, or creation for older rows).
+ */
+export function getStaleApprovedSubmissions(maxHours: number): Submission[] {
+  const stmt = db.prepare(`
+    SELECT * FROM submissions
+    WHERE status = 'approved' AND ${NOT_IN_REVIEW}
+    AND COALESCE(approved_at, created_at) < datetime('now', '-' || ? || ' hours')
+    ORDER BY created_at ASC
+  `);
+  return stmt.all(maxHours) as Submission[];
+}
+
+/**
+ * 1-based position of an approved submission in the ranked backlog,
+ * or null if it isn't in the backlog.
+ */
+export function getApprovedQueuePosition(id: number): number | null {
+  const ids = db
+    .prepare(`SELECT id FROM submissions WHERE status = 'approved' AND ${NOT_IN_REVIEW} ORDER BY ${BACKLOG_ORDER}`)
+    .all() as { id: number }[];
+  const index = ids.findIndex((row) => row.id === id);
+  return index === -1 ? null : index + 1;
+}
+
 /**
  * Get pending submissions count
  */
@@ -1061,96 +1127,301 @@ export function getRecentTokenLaunches(period: string = "all", limit: number = 2
   }>;
 }
 
-// ============= TOKENS CRUD =============
+// ============= SUBMISSION VALIDATIONS (Audit Trail) =============
 
 /**
- * Create a new token
+ * Persist the per-layer audit of a validation run.
  */
-export function createToken(
-  tokenName: string,
-  ticker: string,
-  deployerSolAddress: string,
-  headlineId?: number,
-  submissionId?: number,
-  imageUrl?: string,
-  mintAddress?: string,
-  pumpUrl?: string,
-  theme?: string
-): Token {
+export function recordSubmissionValidation(
+  submissionId: number,
+  result: ValidationResult
+): SubmissionValidation {
+  const audit = result.audit;
   const stmt = db.prepare(`
-    INSERT INTO tokens (headline_id, submission_id, token_name, ticker, image_url, mint_address, pump_url, deployer_sol_address, theme)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO submission_validations (
+      submission_id, is_valid, rejection_reason,
+      fact_score, fact_reason, fact_model, fact_latency_ms,
+      freshness_hours, published_at, published_at_source, freshness_model, freshness_latency_ms,
+      duplicate_layer, duplicate_of, similarity, embedding_model, duplicate_model, duplicate_latency_ms,
+      total_latency_ms
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     RETURNING *
   `);
   return stmt.get(
-    headlineId || null,
-    submissionId || null,
-    tokenName,
-    ticker,
-    imageUrl || null,
-    mintAddress || null,
-    pumpUrl || null,
-    deployerSolAddress,
-    theme || null
-  ) as Token;
+    submissionId,
+    result.isValid ? 1 : 0,
+    result.rejectionReason || null,
+    audit?.factScore ?? result.factScore,
+    audit?.factReason ?? null,
+    audit?.factModel ?? null,
+    audit?.factLatencyMs ?? null,
+    audit?.freshnessHours ?? result.freshnessHours,
+    audit?.publishedAt ?? null,
+    audit?.publishedAtSource ?? null,
+    audit?.freshnessModel ?? null,
+    audit?.freshnessLatencyMs ?? null,
+    audit?.duplicateLayer ?? null,
+    audit?.duplicateOf ?? result.duplicateOf ?? null,
+    audit?.similarity ?? null,
+    audit?.embeddingModel ?? null,
+    audit?.duplicateModel ?? null,
+    audit?.duplicateLatencyMs ?? null,
+    audit?.totalLatencyMs ?? 0
+  ) as SubmissionValidation;
 }
 
 /**
- * Get token by ID
+ * Get all validation runs for a submission (newest first).
  */
-export function getTokenById(id: number): Token | undefined {
-  const stmt = db.prepare(`SELECT * FROM tokens WHERE id = ?`);
-  return stmt.get(id) as Token | undefined;
+export function getSubmissionValidations(submissionId: number): SubmissionValidation[] {
+  const stmt = db.prepare(`
+    SELECT * FROM submission_validations
+    WHERE submission_id = ?
+    ORDER BY created_at DESC, id DESC
+  `);
+  return stmt.all(submissionId) as SubmissionValidation[];
 }
 
 /**
- * Get token by headline ID
+ * Get the most recent validation run for a submission.
  */
-export function getTokenByHeadlineId(headlineId: number): Token | undefined {
-  const stmt = db.prepare(`SELECT * FROM tokens WHERE headline_id = ?`);
-  return stmt.get(headlineId) as Token | undefined;
+export function getLatestSubmissionValidation(submissionId: number): SubmissionValidation | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM submission_validations
+    WHERE submission_id = ?
+    ORDER BY created_at DESC, id DESC
+    LIMIT 1
+  `);
+  return stmt.get(submissionId) as SubmissionValidation | undefined;
 }
 
 /**
- * Get token by mint address
+ * Get recent validation runs across all submissions, optionally only failures.
  */
-export function getTokenByMintAddress(mintAddress: string): Token | undefined {
-  const stmt = db.prepare(`SELECT * FROM tokens WHERE mint_address = ?`);
-  return stmt.get(mintAddress) as Token | undefined;
+export function getRecentSubmissionValidations(
+  limit: number = 50,
+  onlyRejected: boolean = false
+): SubmissionValidation[] {
+  const stmt = db.prepare(`
+    SELECT * FROM submission_validations
+    ${onlyRejected ? "WHERE is_valid = 0" : ""}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ?
+  `);
+  return stmt.all(limit) as SubmissionValidation[];
 }
 
+// ============= SUBMISSION APPEALS =============
+
 /**
- * Update token with deployment info
+ * File an appeal: moves the submission from 'rejected' to 'appealed' and
+ * records the appeal atomically. Returns null if the submission is no longer
+ * rejected or has already been appealed.
  */
-export function updateTokenDeployment(
-  id: number,
-  mintAddress: string,
-  pumpUrl: string
-): boolean {
-  const stmt = db.prepare(`
-    UPDATE tokens 
-    SET mint_address = ?, pump_url = ?
-    WHERE id = ?
+export function createAppeal(
+  submissionId: number,
+  telegramUserId: string,
+  reason?: string
+): SubmissionAppeal | null {
+  const markAppealed = db.prepare(`
+    UPDATE submissions SET status = 'appealed'
+    WHERE id = ? AND status = 'rejected'
+      AND NOT EXISTS (SELECT 1 FROM submission_appeals WHERE submission_id = ?)
   `);
-  const result = stmt.run(mintAddress, pumpUrl, id);
-  return result.changes > 0;
+  const insertAppeal = db.prepare(`
+    INSERT INTO submission_appeals (submission_id, telegram_user_id, reason)
+    VALUES (?, ?, ?)
+    RETURNING *
+  `);
+
+  return db.transaction(() => {
+    const result = markAppealed.run(submissionId, submissionId);
+    if (result.changes === 0) return null;
+    return insertAppeal.get(submissionId, telegramUserId, reason || null) as SubmissionAppeal;
+  })();
 }
 
 /**
- * Link token to headline.
- * Uses a transaction to ensure both updates succeed or neither does.
+ * Get an appeal by ID
  */
-export function linkTokenToHeadline(tokenId: number, headlineId: number): boolean {
-  const txn = db.transaction(() => {
-    // Update token's headline_id
-    const stmt1 = db.prepare(`UPDATE tokens SET headline_id = ? WHERE id = ?`);
-    stmt1.run(headlineId, tokenId);
-    
-    // Update headline's token_id
-    const stmt2 = db.prepare(`UPDATE headlines SET token_id = ? WHERE id = ?`);
-    const result = stmt2.run(tokenId, headlineId);
-    return result.changes > 0;
-  });
+export function getAppealById(id: number): SubmissionAppeal | undefined {
+  const stmt = db.prepare(`SELECT * FROM submission_appeals WHERE id = ?`);
+  return stmt.get(id) as SubmissionAppeal | undefined;
+}
+
+/**
+ * Get the appeal filed against a submission, if any
+ */
+export function getAppealBySubmissionId(submissionId: number): SubmissionAppeal | undefined {
+  const stmt = db.prepare(`SELECT * FROM submission_appeals WHERE submission_id = ?`);
+  return stmt.get(submissionId) as SubmissionAppeal | undefined;
+}
+
+/**
+ * Get appeals awaiting editor review (oldest first)
+ */
+export function getPendingAppeals(limit: number = 20): SubmissionAppeal[] {
+  const stmt = db.prepare(`
+    SELECT * FROM submission_appeals
+    WHERE status = 'pending'
+    ORDER BY created_at ASC
+    LIMIT ?
+  `);
+  return stmt.all(limit) as SubmissionAppeal[];
+}
+
+/**
+ * Count appeals filed by a user in the last N hours (for appeal limits).
+ */
+export function getRecentAppealCountByUser(
+  telegramUserId: string,
+  hours: number = 24
+): number {
+  const stmt = db.prepare(`
+    SELECT COUNT(*) as count FROM submission_appeals
+    WHERE telegram_user_id = ?
+    AND created_at > datetime('now', '-' || ? || ' hours')
+  `);
+  const result = stmt.get(telegramUserId, hours) as { count: number };
+  return result.count;
+}
+
+/**
+ * Resolve a pending appeal. Approval puts the submission back in the
+ * publishing queue ('approved', rejection reason cleared); denial returns
+ * it to 'rejected'. Uses optimistic locking on both rows — returns false if
+ * another editor already resolved it.
+ */
+export function resolveAppeal(
+  appealId: number,
+  approve: boolean,
+  reviewerId: string,
+  asStoryUpdate: boolean = false
+): boolean {
+  const updateAppeal = db.prepare(`
+    UPDATE submission_appeals
+    SET status = ?, reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'pending'
+  `);
+  // Approved appeals re-enter the backlog fresh: ranking and carry-over reset
+  const approveSubmission = db.prepare(`
+    UPDATE submissions
+    SET status = 'approved', rejection_reason = NULL, queue_score = newsworthiness_score,
+        carryover_count = 0, approved_at = CURRENT_TIMESTAMP, story_update = ?
+    WHERE id = ? AND status = 'appealed'
+  `);
+  const denySubmission = db.prepare(`
+    UPDATE submissions SET status = 'rejected'
+    WHERE id = ? AND status = 'appealed'
+  `);
+
+  return db.transaction(() => {
+    const appeal = getAppealById(appealId);
+    if (!appeal) return false;
+
+    const appealResult = updateAppeal.run(approve ? "approved" : "denied", reviewerId, appealId);
+    if (appealResult.changes === 0) return false;
+
+    if (approve) {
+      approveSubmission.run(asStoryUpdate ? 1 : 0, appeal.submission_id);
+    } else {
+      denySubmission.run(appeal.submission_id);
+    }
+    return true;
+  })();
+}
+
+// ============= TOKENS CRUD =============
+
+/**
+ * Create a new token
+ */
+export function createToken(
+  tokenName: string,
+  ticker: string,
+  deployerSolAddress: string,
+  headlineId?: number,
+  submissionId?: number,
+  imageUrl?: string,
+  mintAddress?: string,
+  pumpUrl?: string,
+  theme?: string
+): Token {
+  const stmt = db.prepare(`
+    INSERT INTO tokens (headline_id, submission_id, token_name, ticker, image_url, mint_address, pump_url, deployer_sol_address, theme)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `);
+  return stmt.get(
+    headlineId || null,
+    submissionId || null,
+    tokenName,
+    ticker,
+    imageUrl || null,
+    mintAddress || null,
+    pumpUrl || null,
+    deployerSolAddress,
+    theme || null
+  ) as Token;
+}
+
+/**
+ * Get token by ID
+ */
+export function getTokenById(id: number): Token | undefined {
+  const stmt = db.prepare(`SELECT * FROM tokens WHERE id = ?`);
+  return stmt.get(id) as Token | undefined;
+}
+
+/**
+ * Get token by headline ID
+ */
+export function getTokenByHeadlineId(headlineId: number): Token | undefined {
+  const stmt = db.prepare(`SELECT * FROM tokens WHERE headline_id = ?`);
+  return stmt.get(headlineId) as Token | undefined;
+}
+
+/**
+ * Get token by mint address
+ */
+export function getTokenByMintAddress(mintAddress: string): Token | undefined {
+  const stmt = db.prepare(`SELECT * FROM tokens WHERE mint_address = ?`);
+  return stmt.get(mintAddress) as Token | undefined;
+}
+
+/**
+ * Update token with deployment info
+ */
+export function updateTokenDeployment(
+  id: number,
+  mintAddress: string,
+  pumpUrl: string
+): boolean {
+  const stmt = db.prepare(`
+    UPDATE tokens 
+    SET mint_address = ?, pump_url = ?
+    WHERE id = ?
+  `);
+  const result = stmt.run(mintAddress, pumpUrl, id);
+  return result.changes > 0;
+}
+
+/**
+ * Link token to headline.
+ * Uses a transaction to ensure both updates succeed or neither does.
+ */
+export function linkTokenToHeadline(tokenId: number, headlineId: number): boolean {
+  const txn = db.transaction(() => {
+    // Update token's headline_id
+    const stmt1 = db.prepare(`UPDATE tokens SET headline_id = ? WHERE id = ?`);
+    stmt1.run(headlineId, tokenId);
+    
+    // Update headline's token_id
+    const stmt2 = db.prepare(`UPDATE headlines SET token_id = ? WHERE id = ?`);
+    const result = stmt2.run(tokenId, headlineId);
+    return result.changes > 0;
+  });
 
   return txn();
 }
@@ -1185,14 +1456,15 @@ export function tickerExists(ticker: string): boolean {
 export function saveCreatorWalletKey(
   tokenId: number,
   walletAddress: string,
-  encryptedKey: string
+  encryptedKey: string,
+  keyVersion: number
 ): boolean {
   const stmt = db.prepare(`
     UPDATE tokens
-    SET creator_wallet_address = ?, creator_wallet_encrypted_key = ?
+    SET creator_wallet_address = ?, creator_wallet_encrypted_key = ?, creator_wallet_key_version = ?
     WHERE id = ?
   `);
-  const result = stmt.run(walletAddress, encryptedKey, tokenId);
+  const result = stmt.run(walletAddress, encryptedKey, keyVersion, tokenId);
   return result.changes > 0;
 }
 
@@ -1251,6 +1523,16 @@ export function isKnownCreatorWallet(address: string): boolean {
   return stmt.get(address) !== undefined;
 }
 
+/**
+ * Get the token whose legacy ephemeral creator wallet has this address.
+ */
+export function getTokenByCreatorWallet(address: string): Token | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM tokens WHERE creator_wallet_address = ? LIMIT 1
+  `);
+  return stmt.get(address) as Token | undefined;
+}
+
 // ============= REVENUE EVENTS CRUD =============
 
 // Revenue split — single source of truth (configurable via env)
@@ -1297,6 +1579,19 @@ export function getPendingRevenueEvents(limit: number = 50): RevenueEvent[] {
   return stmt.all(limit) as RevenueEvent[];
 }
 
+/**
+ * Submitter shares of all pending revenue events, per token
+ */
+export function getPendingRevenueSharesByToken(): Array<{ token_id: number; submitter_share_lamports: number }> {
+  const stmt = db.prepare(`
+    SELECT token_id, SUM(submitter_share_lamports) as submitter_share_lamports
+    FROM revenue_events
+    WHERE status = 'pending'
+    GROUP BY token_id
+  `);
+  return stmt.all() as Array<{ token_id: number; submitter_share_lamports: number }>;
+}
+
 /**
  * Update revenue event status
  */
@@ -1344,58 +1639,170 @@ export function getRevenueStats(): { total: number; distributed: number; burned:
 // ============= UTILITY =============
 
 /**
- * Clean up old headlines (optional maintenance function).
- * Uses a transaction to safely remove headlines and all their child records
- * (votes, revenue events, tokens) to avoid FK constraint errors.
+ * Archive headlines beyond the newest `keepCount` per column (FIFO rotation).
+ * Archived headlines drop off the homepage columns but keep their article
+ * pages, tokens, votes and comments. Returns the number newly archived.
  */
-export function cleanupOldHeadlines(keepCount: number = 100): number {
-  const txn = db.transaction(() => {
-    // Find IDs that will be deleted.
-    // Each branch must be wrapped in a subquery because SQLite does not
-    // allow ORDER BY inside individual UNION ALL branches.
-    const toDelete = db.prepare(`
-      SELECT id FROM headlines
-      WHERE id NOT IN (
-        SELECT id FROM (SELECT id FROM headlines WHERE "column" = 'left' ORDER BY created_at DESC LIMIT ?)
-        UNION ALL
-        SELECT id FROM (SELECT id FROM headlines WHERE "column" = 'right' ORDER BY created_at DESC LIMIT ?)
-        UNION ALL
-        SELECT id FROM (SELECT id FROM headlines WHERE "column" = 'center' ORDER BY created_at DESC LIMIT ?)
-      )
-    `).all(keepCount, keepCount, keepCount) as { id: number }[];
+export function archiveOldHeadlines(keepCount: number = 100): number {
+  // Each branch must be wrapped in a subquery because SQLite does not
+  // allow ORDER BY inside individual UNION ALL branches.
+  const result = db.prepare(`
+    UPDATE headlines SET archived_at = CURRENT_TIMESTAMP
+    WHERE archived_at IS NULL
+    AND id NOT IN (
+      SELECT id FROM (SELECT id FROM headlines WHERE "column" = 'left' ORDER BY created_at DESC LIMIT ?)
+      UNION ALL
+      SELECT id FROM (SELECT id FROM headlines WHERE "column" = 'right' ORDER BY created_at DESC LIMIT ?)
+      UNION ALL
+      SELECT id FROM (SELECT id FROM headlines WHERE "column" = 'center' ORDER BY created_at DESC LIMIT ?)
+    )
+  `).run(keepCount, keepCount, keepCount);
+  return result.changes;
+}
 
-    if (toDelete.length === 0) return 0;
+// ============= ARCHIVE =============
 
-    for (const { id } of toDelete) {
-      // Delete comments referencing this headline
-      db.prepare("DELETE FROM comments WHERE headline_id = ?").run(id);
+/**
+ * Get all headlines published on a given UTC day (YYYY-MM-DD), newest first,
+ * including archived ones. Used by the /archive/[date] pages.
+ */
+export function getHeadlinesByDay(
+  day: string,
+  limit: number = 50,
+  offset: number = 0
+): { headlines: Headline[]; total: number } {
+  const { total } = db.prepare(`
+    SELECT COUNT(*) as total FROM headlines
+    WHERE created_at >= ? AND created_at < date(?, '+1 day')
+  `).get(day, day) as { total: number };
 
-      // Delete votes
-      db.prepare("DELETE FROM votes WHERE headline_id = ?").run(id);
+  const rows = db.prepare(`
+    SELECT 
+      h.id, h.title, h.url, h.column, h.image_url, h.token_id, h.created_at,
+      h.importance_score, h.mcafee_take,
+      t.ticker, t.pump_url, t.image_url as token_image_url,
+      COALESCE(SUM(CASE WHEN v.vote_type = 'wagmi' THEN 1 ELSE 0 END), 0) as wagmi_count
+    FROM headlines h
+    LEFT JOIN tokens t ON h.token_id = t.id
+    LEFT JOIN votes v ON v.headline_id = h.id
+    WHERE h.created_at >= ? AND h.created_at < date(?, '+1 day')
+    GROUP BY h.id
+    ORDER BY h.created_at DESC
+    LIMIT ? OFFSET ?
+  `).all(day, day, limit, offset) as Array<Headline & { ticker?: string; pump_url?: string; token_image_url?: string; wagmi_count: number }>;
 
-      // Delete revenue events, claim allocations, and volume snapshots for tokens linked to this headline
-      const tokens = db.prepare("SELECT id FROM tokens WHERE headline_id = ?").all(id) as { id: number }[];
-      for (const token of tokens) {
-        db.prepare("DELETE FROM claim_allocations WHERE token_id = ?").run(token.id);
-        db.prepare("DELETE FROM token_volume_snapshots WHERE token_id = ?").run(token.id);
-        db.prepare("DELETE FROM revenue_events WHERE token_id = ?").run(token.id);
-      }
+  const headlines = rows.map(row => ({
+    id: row.id,
+    title: row.title,
+    url: row.url,
+    column: row.column,
+    image_url: row.image_url,
+    token_id: row.token_id,
+    created_at: row.created_at,
+    importance_score: row.importance_score || 0,
+    mcafee_take: row.mcafee_take || null,
+    wagmi_count: row.wagmi_count || 0,
+    token: row.ticker ? {
+      ticker: row.ticker,
+      pump_url: row.pump_url || "",
+      image_url: row.token_image_url || undefined,
+    } : undefined
+  }));
 
-      // Clear the headline's FK reference to its token
-      db.prepare("UPDATE headlines SET token_id = NULL WHERE id = ?").run(id);
+  return { headlines, total };
+}
 
-      // Delete tokens linked to this headline
-      db.prepare("DELETE FROM tokens WHERE headline_id = ?").run(id);
-    }
+/**
+ * Nearest earlier and later UTC days (YYYY-MM-DD) that have headlines,
+ * for previous/next navigation between archive pages.
+ */
+export function getAdjacentHeadlineDays(day: string): { previous: string | null; next: string | null } {
+  const previous = db.prepare(`
+    SELECT date(created_at) as day FROM headlines
+    WHERE created_at < ? ORDER BY created_at DESC LIMIT 1
+  `).get(day) as { day: string } | undefined;
+  const next = db.prepare(`
+    SELECT date(created_at) as day FROM headlines
+    WHERE created_at >= date(?, '+1 day') ORDER BY created_at ASC LIMIT 1
+  `).get(day) as { day: string } | undefined;
+  return { previous: previous?.day ?? null, next: next?.day ?? null };
+}
 
-    // Now safely delete the headlines
-    const ids = toDelete.map((r) => r.id);
-    const placeholders = ids.map(() => "?").join(", ");
-    const result = db.prepare(`DELETE FROM headlines WHERE id IN (${placeholders})`).run(...ids);
-    return result.changes;
-  });
+/**
+ * Get every UTC day that has headlines, newest first (for the sitemap).
+ */
+export function getHeadlineDays(limit: number = 365): { day: string; count: number }[] {
+  const stmt = db.prepare(`
+    SELECT date(created_at) as day, COUNT(*) as count FROM headlines
+    GROUP BY date(created_at)
+    ORDER BY day DESC
+    LIMIT ?
+  `);
+  return stmt.all(limit) as { day: string; count: number }[];
+}
 
-  return txn();
+// ============= STORY CLUSTERS =============
+
+/**
+ * Recently published headlines with their source submission's embedding,
+ * for matching a new headline to a developing story.
+ */
+export function getStoryClusterCandidates(
+  days: number,
+  excludeHeadlineId: number
+): { headline_id: number; title: string; cluster_id: number | null; embedding: string }[] {
+  const stmt = db.prepare(`
+    SELECT h.id as headline_id, h.title, h.cluster_id, s.embedding
+    FROM headlines h
+    JOIN submissions s ON s.id = h.submission_id
+    WHERE h.created_at > datetime('now', '-' || ? || ' days')
+    AND h.id != ?
+    AND s.embedding IS NOT NULL
+    ORDER BY h.created_at DESC
+  `);
+  return stmt.all(days, excludeHeadlineId) as {
+    headline_id: number;
+    title: string;
+    cluster_id: number | null;
+    embedding: string;
+  }[];
+}
+
+/**
+ * Start a new story cluster, titled after the headline that began it.
+ */
+export function createStoryCluster(title: string): StoryCluster {
+  const stmt = db.prepare(`
+    INSERT INTO story_clusters (title) VALUES (?)
+    RETURNING *
+  `);
+  return stmt.get(title) as StoryCluster;
+}
+
+/**
+ * Add a headline to a story cluster and bump the cluster's updated_at.
+ */
+export function setHeadlineCluster(headlineId: number, clusterId: number): void {
+  db.transaction(() => {
+    db.prepare(`UPDATE headlines SET cluster_id = ? WHERE id = ?`).run(clusterId, headlineId);
+    db.prepare(`UPDATE story_clusters SET updated_at = CURRENT_TIMESTAMP WHERE id = ?`).run(clusterId);
+  })();
+}
+
+/**
+ * Get the developing-story timeline a headline belongs to, oldest first.
+ * Returns an empty list for headlines that aren't part of a story cluster.
+ */
+export function getStoryTimeline(headlineId: number): StoryTimelineEntry[] {
+  const stmt = db.prepare(`
+    SELECT h.id, h.title, h.created_at, COALESCE(s.story_update, 0) as is_update
+    FROM headlines h
+    LEFT JOIN submissions s ON s.id = h.submission_id
+    WHERE h.cluster_id = (SELECT cluster_id FROM headlines WHERE id = ?)
+    ORDER BY h.created_at ASC
+  `);
+  const rows = stmt.all(headlineId) as Array<Omit<StoryTimelineEntry, "is_update"> & { is_update: number }>;
+  return rows.map(row => ({ ...row, is_update: row.is_update === 1 }));
 }
 
 /**
@@ -1446,9 +1853,32 @@ export function updateHeadlineSummary(id: number, summary: string): boolean {
   return result.changes > 0;
 }
 
+/**
+ * Flag a headline as breaking (published via the fast lane). Flagged
+ * headlines take precedence in getBreakingHeadline.
+ */
+export function markHeadlineBreaking(id: number): boolean {
+  const stmt = db.prepare(`UPDATE headlines SET breaking_at = CURRENT_TIMESTAMP WHERE id = ?`);
+  const result = stmt.run(id);
+  return result.changes > 0;
+}
+
+/**
+ * Count headlines published via the breaking-news fast lane in the last N hours.
+ */
+export function getBreakingPublishedCount(hours: number = 1): number {
+  const stmt = db.prepare(`
+    SELECT COUNT(*) as count FROM headlines
+    WHERE breaking_at > datetime('now', '-' || ? || ' hours')
+  `);
+  const result = stmt.get(hours) as { count: number };
+  return result.count;
+}
+
 /**
  * Get the most important breaking headline from the last N hours.
- * Returns the headline with the highest importance_score >= threshold.
+ * Fast-lane headlines (breaking_at set) win; otherwise returns the headline
+ * with the highest importance_score >= threshold.
  */
 export function getBreakingHeadline(
   hours: number = 2,
@@ -1461,9 +1891,10 @@ export function getBreakingHeadline(
       t.ticker, t.pump_url, t.image_url as token_image_url
     FROM headlines h
     LEFT JOIN tokens t ON h.token_id = t.id
-    WHERE h.importance_score >= ?
+    WHERE (h.importance_score >= ? OR h.breaking_at IS NOT NULL)
     AND h.created_at > datetime('now', '-' || ? || ' hours')
-    ORDER BY h.importance_score DESC, h.created_at DESC
+    AND h.archived_at IS NULL
+    ORDER BY (h.breaking_at IS NOT NULL) DESC, h.importance_score DESC, h.created_at DESC
     LIMIT 1
   `);
   const row = stmt.get(threshold, hours) as (Headline & { ticker?: string; pump_url?: string; token_image_url?: string }) | undefined;
@@ -1490,7 +1921,8 @@ export function getBreakingHeadline(
 
 /**
  * Get related headlines for an article (for "You might also like" section).
- * Returns recent headlines excluding the current one, ordered by recency.
+ * Returns recent headlines excluding the current one and its developing-story
+ * cluster (shown in the timeline instead), ordered by recency.
  */
 export function getRelatedHeadlines(excludeId: number, limit: number = 6): Headline[] {
   const stmt = db.prepare(`
@@ -1501,10 +1933,11 @@ export function getRelatedHeadlines(excludeId: number, limit: number = 6): Headl
     FROM headlines h
     LEFT JOIN tokens t ON h.token_id = t.id
     WHERE h.id != ?
+    AND (h.cluster_id IS NULL OR h.cluster_id != COALESCE((SELECT cluster_id FROM headlines WHERE id = ?), -1))
     ORDER BY h.created_at DESC
     LIMIT ?
   `);
-  const rows = stmt.all(excludeId, limit) as Array<Headline & { ticker?: string; pump_url?: string; token_image_url?: string }>;
+  const rows = stmt.all(excludeId, excludeId, limit) as Array<Headline & { ticker?: string; pump_url?: string; token_image_url?: string }>;
 
   return rows.map(row => ({
     id: row.id,
@@ -1563,6 +1996,36 @@ export function getVoteCounts(headlineId: number): VoteCounts {
   return stmt.get(headlineId) as VoteCounts;
 }
 
+/**
+ * Highest vote ID so far (0 if none). Cursor for getVoteCountsSince.
+ */
+export function getLatestVoteId(): number {
+  const row = db.prepare(`SELECT MAX(id) as id FROM votes`).get() as { id: number | null };
+  return row.id ?? 0;
+}
+
+/**
+ * Current vote totals for every headline that received a vote after the
+ * given vote ID, plus the new cursor.
+ */
+export function getVoteCountsSince(
+  afterVoteId: number
+): { counts: Array<VoteCounts & { headline_id: number }>; lastId: number } {
+  const lastId = getLatestVoteId();
+  if (lastId <= afterVoteId) return { counts: [], lastId: afterVoteId };
+
+  const counts = db.prepare(`
+    SELECT 
+      headline_id,
+      COALESCE(SUM(CASE WHEN vote_type = 'wagmi' THEN 1 ELSE 0 END), 0) as wagmi,
+      COALESCE(SUM(CASE WHEN vote_type = 'ngmi' THEN 1 ELSE 0 END), 0) as ngmi
+    FROM votes
+    WHERE headline_id IN (SELECT DISTINCT headline_id FROM votes WHERE id > ? AND id <= ?)
+    GROUP BY headline_id
+  `).all(afterVoteId, lastId) as Array<VoteCounts & { headline_id: number }>;
+  return { counts, lastId };
+}
+
 /**
  * Get global sentiment across all headlines.
  */
@@ -1644,12 +2107,7 @@ export function getActivityLog(
 /**
  * Get activity stats for the War Room dashboard.
  */
-export function getActivityStats(): {
-  submissionsToday: number;
-  tokensLaunchedToday: number;
-  votesToday: number;
-  approvalRate: number;
-} {
+export function getActivityStats(): ActivityStats {
   const submissionsToday = db.prepare(`
     SELECT COUNT(*) as count FROM submissions
     WHERE date(created_at) = date('now')
@@ -1819,6 +2277,19 @@ export function getClaimAllocationsByBatch(batchId: number): ClaimAllocation[] {
   return stmt.all(batchId) as ClaimAllocation[];
 }
 
+/**
+ * Get allocations skipped with a non-zero submitter share, oldest first
+ * (dust under the old per-transfer minimum, never accrued).
+ */
+export function getSkippedClaimAllocationsWithShare(): ClaimAllocation[] {
+  const stmt = db.prepare(`
+    SELECT * FROM claim_allocations
+    WHERE status = 'skipped' AND submitter_lamports > 0
+    ORDER BY id ASC
+  `);
+  return stmt.all() as ClaimAllocation[];
+}
+
 /**
  * Get the most recent volume snapshot for a token.
  */
@@ -1923,12 +2394,1100 @@ export function getUndistrbutedClaimTotal(): { lamports: number; claimCount: num
   return { lamports: row.total, claimCount: row.cnt, since };
 }
 
-// ============= COMMENTS =============
+// ============= SUBMITTER PAYOUTS =============
 
-export interface CommentRow {
-  id: number;
-  headline_id: number;
-  telegram_user_id: string;
+/**
+ * Create a pending payout batch with one item per recipient.
+ */
+export function createPayoutBatch(items: Array<{ address: string; lamports: number }>): PayoutBatch {
+  const insertBatch = db.prepare(`
+    INSERT INTO payout_batches (total_lamports, recipients_count)
+    VALUES (?, ?)
+    RETURNING *
+  `);
+  const insertItem = db.prepare(`
+    INSERT INTO payout_batch_items (batch_id, sol_address, amount_lamports)
+    VALUES (?, ?, ?)
+  `);
+
+  return db.transaction(() => {
+    const total = items.reduce((sum, item) => sum + item.lamports, 0);
+    const batch = insertBatch.get(total, items.length) as PayoutBatch;
+    for (const item of items) {
+      insertItem.run(batch.id, item.address, item.lamports);
+    }
+    return batch;
+  })();
+}
+
+/**
+ * Mark a payout batch as sent and its recipients' claim allocations paid
+ * with the same signature.
+ *
+ * Each item pays the pending allocations of tokens paying out to its
+ * address (their deployer address or their submitter's current payout
+ * wallet), oldest first, for as long as its amount — plus whatever earlier
+ * payouts to that address left unallocated — covers them. A capped payout
+ * therefore leaves the rest pending, and allocations that were never
+ * accrued to the ledger are never marked paid by a payout run.
+ */
+export function markPayoutBatchSent(id: number, txSignature: string): boolean {
+  const markSent = db.prepare(`
+    UPDATE payout_batches
+    SET status = 'sent', tx_signature = ?, error_message = NULL, completed_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'pending'
+  `);
+  // Accrued: under the allocation's own reference, or booked with the
+  // opening balances (which covered every allocation then outstanding)
+  const selectPendingAllocations = db.prepare(`
+    SELECT ca.id, ca.submitter_lamports
+    FROM claim_allocations ca
+    JOIN tokens t ON t.id = ca.token_id
+    LEFT JOIN submissions s ON s.id = t.submission_id
+    WHERE ca.status = 'pending'
+      AND ? IN (
+        t.deployer_sol_address,
+        (
+          SELECT pw.sol_address FROM payout_wallets pw
+          WHERE pw.telegram_user_id = s.telegram_user_id
+            AND pw.status IN ('pending', 'active')
+            AND pw.effective_at <= datetime('now')
+          ORDER BY pw.effective_at DESC, pw.id DESC
+          LIMIT 1
+        )
+      )
+      AND (
+        EXISTS (
+          SELECT 1 FROM ledger_transactions lt
+          WHERE lt.kind = 'submitter_accrual' AND lt.reference = 'claim_allocation:' || ca.id
+        )
+        OR ca.created_at <= (
+          SELECT lt.created_at FROM ledger_transactions lt
+          WHERE lt.kind = 'opening_balance' AND lt.reference = 'opening'
+        )
+      )
+    ORDER BY ca.id ASC
+  `);
+  const selectUnallocated = db.prepare(`
+    SELECT COALESCE(SUM(pi.unallocated_lamports), 0) as total
+    FROM payout_batch_items pi
+    JOIN payout_batches pb ON pb.id = pi.batch_id
+    WHERE pi.sol_address = ? AND pb.status = 'sent' AND pi.batch_id != ?
+  `);
+  const clearUnallocated = db.prepare(`
+    UPDATE payout_batch_items SET unallocated_lamports = 0
+    WHERE sol_address = ? AND batch_id != ?
+      AND batch_id IN (SELECT id FROM payout_batches WHERE status = 'sent')
+  `);
+  const setUnallocated = db.prepare(`
+    UPDATE payout_batch_items SET unallocated_lamports = ? WHERE id = ?
+  `);
+  const markAllocationPaid = db.prepare(`
+    UPDATE claim_allocations
+    SET status = 'paid', submitter_tx_signature = ?, payout_batch_id = ?
+    WHERE id = ?
+  `);
+
+  return db.transaction(() => {
+    if (markSent.run(txSignature, id).changes === 0) return false;
+
+    for (const item of getPayoutBatchItems(id)) {
+      const carried = (selectUnallocated.get(item.sol_address, id) as { total: number }).total;
+      let available = item.amount_lamports + carried;
+
+      const allocations = selectPendingAllocations.all(item.sol_address) as Array<{
+        id: number;
+        submitter_lamports: number;
+      }>;
+      for (const allocation of allocations) {
+        if (allocation.submitter_lamports > available) break;
+        markAllocationPaid.run(txSignature, id, allocation.id);
+        available -= allocation.submitter_lamports;
+      }
+
+      clearUnallocated.run(item.sol_address, id);
+      setUnallocated.run(available, item.id);
+    }
+    return true;
+  })();
+}
+
+/**
+ * Record the signature of a sent payout batch whose outcome is not yet known.
+ */
+export function setPayoutBatchSignature(id: number, txSignature: string): boolean {
+  const stmt = db.prepare(`
+    UPDATE payout_batches SET tx_signature = ? WHERE id = ? AND status = 'pending'
+  `);
+  return stmt.run(txSignature, id).changes > 0;
+}
+
+/**
+ * Mark a payout batch as failed (recipients keep their accrued balance).
+ */
+export function markPayoutBatchFailed(id: number, errorMessage: string): boolean {
+  const stmt = db.prepare(`
+    UPDATE payout_batches
+    SET status = 'failed', error_message = ?, completed_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'pending'
+  `);
+  return stmt.run(errorMessage, id).changes > 0;
+}
+
+/**
+ * Delete a payout batch that was never sent (its transfer was held, not
+ * attempted). Returns false unless the batch was still pending.
+ */
+export function deletePayoutBatch(id: number): boolean {
+  const deleteItems = db.prepare(`
+    DELETE FROM payout_batch_items
+    WHERE batch_id = ? AND batch_id IN (SELECT id FROM payout_batches WHERE status = 'pending')
+  `);
+  const deleteBatch = db.prepare(`DELETE FROM payout_batches WHERE id = ? AND status = 'pending'`);
+  return db.transaction(() => {
+    deleteItems.run(id);
+    return deleteBatch.run(id).changes > 0;
+  })();
+}
+
+/**
+ * Get payout batch by ID.
+ */
+export function getPayoutBatchById(id: number): PayoutBatch | undefined {
+  const stmt = db.prepare(`SELECT * FROM payout_batches WHERE id = ?`);
+  return stmt.get(id) as PayoutBatch | undefined;
+}
+
+/**
+ * Get the recipients of a payout batch, largest first.
+ */
+export function getPayoutBatchItems(batchId: number): PayoutBatchItem[] {
+  const stmt = db.prepare(`
+    SELECT * FROM payout_batch_items
+    WHERE batch_id = ?
+    ORDER BY amount_lamports DESC
+  `);
+  return stmt.all(batchId) as PayoutBatchItem[];
+}
+
+/**
+ * Get payout batches still marked pending — a send was started but its
+ * outcome was never recorded (e.g. the process died mid-send).
+ */
+export function getPendingPayoutBatches(): PayoutBatch[] {
+  const stmt = db.prepare(`
+    SELECT * FROM payout_batches
+    WHERE status = 'pending'
+    ORDER BY created_at ASC
+  `);
+  return stmt.all() as PayoutBatch[];
+}
+
+/**
+ * Get the most recent payout batches, newest first.
+ */
+export function getRecentPayoutBatches(limit: number = 20): PayoutBatch[] {
+  const stmt = db.prepare(`
+    SELECT * FROM payout_batches
+    ORDER BY created_at DESC, id DESC
+    LIMIT ?
+  `);
+  return stmt.all(limit) as PayoutBatch[];
+}
+
+// ============= PAYOUT WALLETS =============
+
+/**
+ * The payout wallet in effect for a user: the newest registration whose
+ * cooldown has passed. A due registration counts even before
+ * activatePayoutWallet has run, so payments never wait on the job.
+ */
+export function getEffectivePayoutWallet(telegramUserId: string): PayoutWallet | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM payout_wallets
+    WHERE telegram_user_id = ?
+      AND status IN ('pending', 'active')
+      AND effective_at <= datetime('now')
+    ORDER BY effective_at DESC, id DESC
+    LIMIT 1
+  `);
+  return stmt.get(telegramUserId) as PayoutWallet | undefined;
+}
+
+/**
+ * A user's registration that is still in its cooldown, if any.
+ */
+export function getScheduledPayoutWallet(telegramUserId: string): PayoutWallet | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM payout_wallets
+    WHERE telegram_user_id = ?
+      AND status = 'pending'
+      AND effective_at > datetime('now')
+    ORDER BY id DESC
+    LIMIT 1
+  `);
+  return stmt.get(telegramUserId) as PayoutWallet | undefined;
+}
+
+/**
+ * Every registration still in its cooldown, soonest first.
+ */
+export function getScheduledPayoutWallets(): PayoutWallet[] {
+  const stmt = db.prepare(`
+    SELECT * FROM payout_wallets
+    WHERE status = 'pending' AND effective_at > datetime('now')
+    ORDER BY effective_at ASC
+  `);
+  return stmt.all() as PayoutWallet[];
+}
+
+/**
+ * Register a verified payout wallet that takes effect after `cooldownHours`.
+ * Replaces any registration of the user still in its cooldown.
+ */
+export function createPayoutWallet(
+  telegramUserId: string,
+  solAddress: string,
+  message: string,
+  signature: string,
+  cooldownHours: number
+): PayoutWallet {
+  return db.transaction(() => {
+    cancelScheduledPayoutWallet(telegramUserId);
+    return db.prepare(`
+      INSERT INTO payout_wallets (telegram_user_id, sol_address, message, signature, effective_at)
+      VALUES (?, ?, ?, ?, datetime('now', ?))
+      RETURNING *
+    `).get(telegramUserId, solAddress, message, signature, `+${cooldownHours} hours`) as PayoutWallet;
+  })();
+}
+
+/**
+ * Cancel a user's registration that is still in its cooldown.
+ * Returns the cancelled registration, if there was one.
+ */
+export function cancelScheduledPayoutWallet(telegramUserId: string): PayoutWallet | undefined {
+  const stmt = db.prepare(`
+    UPDATE payout_wallets
+    SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP
+    WHERE telegram_user_id = ?
+      AND status = 'pending'
+      AND effective_at > datetime('now')
+    RETURNING *
+  `);
+  return stmt.get(telegramUserId) as PayoutWallet | undefined;
+}
+
+/**
+ * Registrations whose cooldown has passed but that are not yet active.
+ */
+export function getDuePayoutWallets(): PayoutWallet[] {
+  const stmt = db.prepare(`
+    SELECT * FROM payout_wallets
+    WHERE status = 'pending' AND effective_at <= datetime('now')
+    ORDER BY effective_at ASC, id ASC
+  `);
+  return stmt.all() as PayoutWallet[];
+}
+
+/**
+ * Make a due registration the user's active payout wallet, superseding the
+ * wallets it replaces.
+ */
+export function activatePayoutWallet(id: number): boolean {
+  return db.transaction(() => {
+    const wallet = db.prepare(`
+      SELECT * FROM payout_wallets WHERE id = ? AND status = 'pending'
+    `).get(id) as PayoutWallet | undefined;
+    if (!wallet) return false;
+
+    db.prepare(`
+      UPDATE payout_wallets
+      SET status = 'superseded'
+      WHERE telegram_user_id = ?
+        AND id != ?
+        AND status IN ('pending', 'active')
+        AND effective_at <= ?
+    `).run(wallet.telegram_user_id, wallet.id, wallet.effective_at);
+
+    db.prepare(`
+      UPDATE payout_wallets
+      SET status = 'active', activated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(wallet.id);
+    return true;
+  })();
+}
+
+/**
+ * Every address a user has been paid to: the addresses on their
+ * submissions plus their earlier payout wallets.
+ */
+export function getUserPayoutAddresses(telegramUserId: string): string[] {
+  const rows = db.prepare(`
+    SELECT sol_address FROM submissions WHERE telegram_user_id = ?
+    UNION
+    SELECT sol_address FROM payout_wallets
+    WHERE telegram_user_id = ? AND status IN ('active', 'superseded')
+  `).all(telegramUserId, telegramUserId) as Array<{ sol_address: string }>;
+  return rows.map((r) => r.sol_address);
+}
+
+/**
+ * Telegram users who have submitted with, or registered, an address.
+ */
+export function getPayoutAddressUsers(solAddress: string): string[] {
+  const rows = db.prepare(`
+    SELECT telegram_user_id FROM submissions WHERE sol_address = ?
+    UNION
+    SELECT telegram_user_id FROM payout_wallets WHERE sol_address = ? AND status != 'cancelled'
+  `).all(solAddress, solAddress) as Array<{ telegram_user_id: string }>;
+  return rows.map((r) => r.telegram_user_id);
+}
+
+/**
+ * Addresses paid in the last `sinceHours` that `minUsers` or more Telegram
+ * users have submitted with or registered.
+ */
+export function getSharedPayoutAddresses(
+  minUsers: number,
+  sinceHours: number
+): Array<{ address: string; users: number }> {
+  const stmt = db.prepare(`
+    WITH paid AS (
+      SELECT DISTINCT destination AS address FROM wallet_audit_log
+      WHERE operation = 'send_sol' AND success = 1 AND destination IS NOT NULL
+        AND timestamp >= datetime('now', ?)
+    ),
+    owners AS (
+      SELECT sol_address AS address, telegram_user_id FROM submissions
+      UNION
+      SELECT sol_address, telegram_user_id FROM payout_wallets WHERE status != 'cancelled'
+    )
+    SELECT o.address AS address, COUNT(DISTINCT o.telegram_user_id) AS users
+    FROM owners o
+    JOIN paid p ON p.address = o.address
+    GROUP BY o.address
+    HAVING users >= ?
+    ORDER BY users DESC
+  `);
+  return stmt.all(`-${sinceHours} hours`, minUsers) as Array<{ address: string; users: number }>;
+}
+
+// ============= BUY AND BURN =============
+
+/**
+ * Record a quoted buy-and-burn before its swap is sent.
+ */
+export function createBuyBurn(params: {
+  adapter: string;
+  mintAddress: string;
+  inputLamports: number;
+  quotedAmount: number;
+  minAmount: number;
+  slippageBps: number;
+  priceImpactPct: number;
+}): BuyBurn {
+  const stmt = db.prepare(`
+    INSERT INTO buy_burns (adapter, mint_address, input_lamports, quoted_amount, min_amount, slippage_bps, price_impact_pct)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    RETURNING *
+  `);
+  return stmt.get(
+    params.adapter,
+    params.mintAddress,
+    params.inputLamports,
+    params.quotedAmount,
+    params.minAmount,
+    params.slippageBps,
+    params.priceImpactPct
+  ) as BuyBurn;
+}
+
+/**
+ * Record the signature of a sent swap whose outcome is not yet known.
+ */
+export function setBuyBurnSignature(id: number, txSignature: string): boolean {
+  const stmt = db.prepare(`
+    UPDATE buy_burns SET swap_tx_signature = ? WHERE id = ? AND status = 'pending'
+  `);
+  return stmt.run(txSignature, id).changes > 0;
+}
+
+/**
+ * The swap landed; the bought tokens still have to be burned.
+ */
+export function markBuyBurnSwapped(id: number, txSignature: string, boughtAmount: number): boolean {
+  const stmt = db.prepare(`
+    UPDATE buy_burns
+    SET status = 'swapped', swap_tx_signature = ?, bought_amount = ?
+    WHERE id = ? AND status = 'pending'
+  `);
+  return stmt.run(txSignature, boughtAmount, id).changes > 0;
+}
+
+/**
+ * The bought tokens were burned. Revenue events waiting on a burn (creator
+ * share earmarked, submitter already paid) are marked burned with the same
+ * signature.
+ */
+export function markBuyBurnBurned(id: number, txSignature: string, burnedAmount: number): boolean {
+  return db.transaction(() => {
+    const result = db.prepare(`
+      UPDATE buy_burns
+      SET status = 'burned', burn_tx_signature = ?, burned_amount = ?, error_message = NULL,
+          completed_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'swapped'
+    `).run(txSignature, burnedAmount, id);
+    if (result.changes === 0) return false;
+
+    db.prepare(`
+      UPDATE revenue_events
+      SET status = 'burned', burn_tx_signature = ?
+      WHERE status = 'submitter_paid'
+    `).run(txSignature);
+    return true;
+  })();
+}
+
+/**
+ * Record why a buy-and-burn stopped. A pending run becomes failed; a swapped
+ * run keeps its status so the next run retries the burn.
+ */
+export function markBuyBurnError(id: number, errorMessage: string): boolean {
+  const stmt = db.prepare(`
+    UPDATE buy_burns
+    SET status = CASE WHEN status = 'pending' THEN 'failed' ELSE status END,
+        error_message = ?,
+        completed_at = CASE WHEN status = 'pending' THEN CURRENT_TIMESTAMP ELSE completed_at END
+    WHERE id = ? AND status IN ('pending', 'swapped')
+  `);
+  return stmt.run(errorMessage, id).changes > 0;
+}
+
+/**
+ * Get buy-and-burn run by ID.
+ */
+export function getBuyBurnById(id: number): BuyBurn | undefined {
+  const stmt = db.prepare(`SELECT * FROM buy_burns WHERE id = ?`);
+  return stmt.get(id) as BuyBurn | undefined;
+}
+
+/**
+ * Runs whose swap landed but whose tokens are not burned yet, oldest first.
+ */
+export function getSwappedBuyBurns(): BuyBurn[] {
+  const stmt = db.prepare(`
+    SELECT * FROM buy_burns WHERE status = 'swapped' ORDER BY created_at ASC, id ASC
+  `);
+  return stmt.all() as BuyBurn[];
+}
+
+/**
+ * Runs still marked pending — a swap was started but its outcome was never
+ * recorded.
+ */
+export function getPendingBuyBurns(): BuyBurn[] {
+  const stmt = db.prepare(`
+    SELECT * FROM buy_burns WHERE status = 'pending' ORDER BY created_at ASC, id ASC
+  `);
+  return stmt.all() as BuyBurn[];
+}
+
+/**
+ * Get recent buy-and-burn runs, newest first.
+ */
+export function getRecentBuyBurns(limit: number = 50): BuyBurn[] {
+  const stmt = db.prepare(`
+    SELECT * FROM buy_burns ORDER BY created_at DESC, id DESC LIMIT ?
+  `);
+  return stmt.all(limit) as BuyBurn[];
+}
+
+/**
+ * Lifetime buy-and-burn totals over completed runs.
+ */
+export function getBuyBurnTotals(): { burns: number; spentLamports: number; burnedAmount: number } {
+  const row = db.prepare(`
+    SELECT
+      COUNT(*) AS burns,
+      COALESCE(SUM(input_lamports), 0) AS spent,
+      COALESCE(SUM(burned_amount), 0) AS burned
+    FROM buy_burns
+    WHERE status = 'burned'
+  `).get() as { burns: number; spent: number; burned: number };
+  return { burns: row.burns, spentLamports: row.spent, burnedAmount: row.burned };
+}
+
+// ============= TRANSFER APPROVALS =============
+
+/**
+ * Park an outbound transfer until enough admins approve it.
+ */
+export function createTransferApproval(params: {
+  caller: string;
+  transfersKey: string;
+  transfers: Array<{ address: string; lamports: number }>;
+  totalLamports: number;
+  reason: string;
+  approvalsRequired: number;
+  windowHours: number;
+}): TransferApproval {
+  const stmt = db.prepare(`
+    INSERT INTO transfer_approvals (caller, transfers_key, transfers, total_lamports, reason, approvals_required, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, datetime('now', ?))
+    RETURNING *
+  `);
+  return stmt.get(
+    params.caller,
+    params.transfersKey,
+    JSON.stringify(params.transfers),
+    params.totalLamports,
+    params.reason,
+    params.approvalsRequired,
+    `+${params.windowHours} hours`
+  ) as TransferApproval;
+}
+
+export function getTransferApprovalById(id: number): TransferApproval | undefined {
+  const stmt = db.prepare(`SELECT * FROM transfer_approvals WHERE id = ?`);
+  return stmt.get(id) as TransferApproval | undefined;
+}
+
+/**
+ * The live request (pending, approved or rejected, not yet expired) for
+ * exactly these transfers from this caller, if any.
+ */
+export function findOpenTransferApproval(caller: string, transfersKey: string): TransferApproval | undefined {
+  const stmt = db.prepare(`
+    SELECT * FROM transfer_approvals
+    WHERE caller = ? AND transfers_key = ?
+      AND status IN ('pending', 'approved', 'rejected')
+      AND expires_at > datetime('now')
+    ORDER BY id DESC
+    LIMIT 1
+  `);
+  return stmt.get(caller, transfersKey) as TransferApproval | undefined;
+}
+
+/**
+ * A caller's live requests (pending, approved or rejected, not yet
+ * expired), oldest first.
+ */
+export function getLiveTransferApprovals(caller: string): TransferApproval[] {
+  const stmt = db.prepare(`
+    SELECT * FROM transfer_approvals
+    WHERE caller = ?
+      AND status IN ('pending', 'approved', 'rejected')
+      AND expires_at > datetime('now')
+    ORDER BY id ASC
+  `);
+  return stmt.all(caller) as TransferApproval[];
+}
+
+/**
+ * Requests still waiting on votes or on their approved transfer, oldest first.
+ */
+export function getOpenTransferApprovals(): TransferApproval[] {
+  const stmt = db.prepare(`
+    SELECT * FROM transfer_approvals
+    WHERE status IN ('pending', 'approved') AND expires_at > datetime('now')
+    ORDER BY id ASC
+  `);
+  return stmt.all() as TransferApproval[];
+}
+
+/**
+ * Expire requests whose approval window (or approved-execution window) has
+ * passed. Returns the number expired.
+ */
+export function expireTransferApprovals(): number {
+  const stmt = db.prepare(`
+    UPDATE transfer_approvals
+    SET status = 'expired', resolved_at = COALESCE(resolved_at, CURRENT_TIMESTAMP)
+    WHERE status IN ('pending', 'approved') AND expires_at <= datetime('now')
+  `);
+  return stmt.run().changes;
+}
+
+export function getTransferApprovalVotes(approvalId: number): TransferApprovalVote[] {
+  const stmt = db.prepare(`
+    SELECT * FROM transfer_approval_votes WHERE approval_id = ? ORDER BY created_at ASC
+  `);
+  return stmt.all(approvalId) as TransferApprovalVote[];
+}
+
+/**
+ * Record an admin's vote on a pending request. Each admin votes once; a
+ * single rejection rejects the request, and the approval that reaches
+ * approvals_required approves it and gives it `windowHours` to execute.
+ * Returns undefined when the request is missing, expired or already decided.
+ */
+export function recordTransferApprovalVote(
+  approvalId: number,
+  adminTelegramId: string,
+  decision: "approve" | "reject",
+  windowHours: number
+): { approval: TransferApproval; approvals: number; duplicate: boolean } | undefined {
+  return db.transaction(() => {
+    const approval = db.prepare(`
+      SELECT * FROM transfer_approvals
+      WHERE id = ? AND status = 'pending' AND expires_at > datetime('now')
+    `).get(approvalId) as TransferApproval | undefined;
+    if (!approval) return undefined;
+
+    const inserted = db.prepare(`
+      INSERT OR IGNORE INTO transfer_approval_votes (approval_id, admin_telegram_id, decision)
+      VALUES (?, ?, ?)
+    `).run(approvalId, adminTelegramId, decision).changes > 0;
+
+    const { approvals } = db.prepare(`
+      SELECT COUNT(*) AS approvals FROM transfer_approval_votes
+      WHERE approval_id = ? AND decision = 'approve'
+    `).get(approvalId) as { approvals: number };
+
+    if (!inserted) {
+      return { approval, approvals, duplicate: true };
+    }
+
+    if (decision === "reject") {
+      db.prepare(`
+        UPDATE transfer_approvals SET status = 'rejected', resolved_at = CURRENT_TIMESTAMP WHERE id = ?
+      `).run(approvalId);
+    } else if (approvals >= approval.approvals_required) {
+      db.prepare(`
+        UPDATE transfer_approvals
+        SET status = 'approved', resolved_at = CURRENT_TIMESTAMP, expires_at = datetime('now', ?)
+        WHERE id = ?
+      `).run(`+${windowHours} hours`, approvalId);
+    }
+
+    return {
+      approval: getTransferApprovalById(approvalId)!,
+      approvals,
+      duplicate: false,
+    };
+  })();
+}
+
+/**
+ * Claim an approved request for execution. Returns false if another caller
+ * already claimed it or it expired, so an approval pays out once.
+ */
+export function claimTransferApproval(id: number): boolean {
+  const stmt = db.prepare(`
+    UPDATE transfer_approvals
+    SET status = 'executed', executed_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'approved' AND expires_at > datetime('now')
+  `);
+  return stmt.run(id).changes > 0;
+}
+
+/**
+ * Hand a claimed request back after its send failed outright, so the
+ * caller's retry can still use the approval.
+ */
+export function releaseTransferApproval(id: number): void {
+  db.prepare(`
+    UPDATE transfer_approvals SET status = 'approved', executed_at = NULL
+    WHERE id = ? AND status = 'executed' AND tx_signature IS NULL
+  `).run(id);
+}
+
+export function setTransferApprovalSignature(id: number, txSignature: string): void {
+  db.prepare(`UPDATE transfer_approvals SET tx_signature = ? WHERE id = ?`).run(txSignature, id);
+}
+
+// ============= WALLET ANOMALIES =============
+
+export function recordWalletAnomaly(
+  kind: WalletAnomalyKind,
+  subject: string,
+  message: string,
+  frozeWallet: boolean
+): WalletAnomaly {
+  const stmt = db.prepare(`
+    INSERT INTO wallet_anomalies (kind, subject, message, froze_wallet)
+    VALUES (?, ?, ?, ?)
+    RETURNING *
+  `);
+  return stmt.get(kind, subject, message, frozeWallet ? 1 : 0) as WalletAnomaly;
+}
+
+/**
+ * Whether the same anomaly was already flagged in the last `hours`.
+ */
+export function wasWalletAnomalyFlagged(kind: WalletAnomalyKind, subject: string, hours: number): boolean {
+  const row = db.prepare(`
+    SELECT 1 FROM wallet_anomalies
+    WHERE kind = ? AND subject = ? AND created_at >= datetime('now', ?)
+    LIMIT 1
+  `).get(kind, subject, `-${hours} hours`);
+  return row !== undefined;
+}
+
+export function getRecentWalletAnomalies(limit: number = 20): WalletAnomaly[] {
+  const stmt = db.prepare(`
+    SELECT * FROM wallet_anomalies ORDER BY id DESC LIMIT ?
+  `);
+  return stmt.all(limit) as WalletAnomaly[];
+}
+
+// ============= INGESTION SOURCES =============
+
+export function addIngestionSource(
+  url: string,
+  kind: IngestionSourceKind,
+  name: string | null,
+  addedBy: string
+): IngestionSource {
+  const stmt = db.prepare(`
+    INSERT INTO ingestion_sources (url, kind, name, added_by)
+    VALUES (?, ?, ?, ?)
+    RETURNING *
+  `);
+  return stmt.get(url, kind, name, addedBy) as IngestionSource;
+}
+
+export function getIngestionSourceById(id: number): IngestionSource | undefined {
+  const stmt = db.prepare(`SELECT * FROM ingestion_sources WHERE id = ?`);
+  return stmt.get(id) as IngestionSource | undefined;
+}
+
+export function getIngestionSourceByUrl(url: string): IngestionSource | undefined {
+  const stmt = db.prepare(`SELECT * FROM ingestion_sources WHERE url = ?`);
+  return stmt.get(url) as IngestionSource | undefined;
+}
+
+export function getIngestionSources(enabledOnly: boolean = false): IngestionSource[] {
+  const stmt = db.prepare(`
+    SELECT * FROM ingestion_sources
+    ${enabledOnly ? "WHERE enabled = 1" : ""}
+    ORDER BY id ASC
+  `);
+  return stmt.all() as IngestionSource[];
+}
+
+export function setIngestionSourceEnabled(id: number, enabled: boolean): boolean {
+  const stmt = db.prepare(`
+    UPDATE ingestion_sources
+    SET enabled = ?, consecutive_failures = CASE WHEN ? = 1 THEN 0 ELSE consecutive_failures END
+    WHERE id = ?
+  `);
+  return stmt.run(enabled ? 1 : 0, enabled ? 1 : 0, id).changes > 0;
+}
+
+/**
+ * Record a poll's outcome: clears or counts failures and adds the number of
+ * submissions it created.
+ */
+export function recordIngestionPoll(id: number, error: string | null, submitted: number): IngestionSource | undefined {
+  const stmt = db.prepare(`
+    UPDATE ingestion_sources
+    SET last_polled_at = CURRENT_TIMESTAMP,
+        last_error = ?,
+        consecutive_failures = CASE WHEN ? IS NULL THEN 0 ELSE consecutive_failures + 1 END,
+        items_submitted = items_submitted + ?
+    WHERE id = ?
+    RETURNING *
+  `);
+  return stmt.get(error, error, submitted, id) as IngestionSource | undefined;
+}
+
+/** Whether an item URL has already been seen by any source. */
+export function isItemIngested(itemUrl: string): boolean {
+  const row = db.prepare(`SELECT 1 FROM ingested_items WHERE item_url = ? LIMIT 1`).get(itemUrl);
+  return row !== undefined;
+}
+
+/**
+ * Remember an item URL, with the submission it became (null if skipped).
+ */
+export function recordIngestedItem(
+  sourceId: number,
+  itemUrl: string,
+  submissionId: number | null,
+  publishedAt: string | null
+): void {
+  db.prepare(`
+    INSERT OR IGNORE INTO ingested_items (source_id, item_url, submission_id, published_at)
+    VALUES (?, ?, ?, ?)
+  `).run(sourceId, itemUrl, submissionId, publishedAt);
+}
+
+// ============= PUBLISH REVIEWS =============
+
+export function createPublishReview(data: {
+  submissionId: number;
+  headline: string;
+  summary: string | null;
+  tokenName: string | null;
+  ticker: string | null;
+  tokenDescription: string | null;
+  imageUrl: string | null;
+  bannerUrl: string | null;
+  timeoutMinutes: number;
+}): PublishReview {
+  const stmt = db.prepare(`
+    INSERT INTO publish_reviews (
+      submission_id, headline, summary, token_name, ticker, token_description,
+      image_url, banner_url, expires_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now', ?))
+    RETURNING *
+  `);
+  return stmt.get(
+    data.submissionId,
+    data.headline,
+    data.summary,
+    data.tokenName,
+    data.ticker,
+    data.tokenDescription,
+    data.imageUrl,
+    data.bannerUrl,
+    `+${data.timeoutMinutes} minutes`
+  ) as PublishReview;
+}
+
+export function getPublishReviewById(id: number): PublishReview | undefined {
+  const stmt = db.prepare(`SELECT * FROM publish_reviews WHERE id = ?`);
+  return stmt.get(id) as PublishReview | undefined;
+}
+
+/**
+ * Reviews still holding a publishing slot: awaiting an editor, or decided
+ * and waiting for the worker to publish them.
+ */
+export function getOpenPublishReviews(): PublishReview[] {
+  const stmt = db.prepare(`
+    SELECT * FROM publish_reviews
+    WHERE status IN ('pending', 'approved')
+    ORDER BY id ASC
+  `);
+  return stmt.all() as PublishReview[];
+}
+
+/**
+ * Approve every pending review past its deadline (the timeout fallback).
+ * Returns the reviews approved.
+ */
+export function expirePublishReviews(): PublishReview[] {
+  const stmt = db.prepare(`
+    UPDATE publish_reviews
+    SET status = 'approved', decided_by = 'timeout', decided_at = CURRENT_TIMESTAMP
+    WHERE status = 'pending' AND expires_at <= datetime('now')
+    RETURNING *
+  `);
+  return stmt.all() as PublishReview[];
+}
+
+/**
+ * Record an editor's approve/skip decision on a pending review.
+ * Returns undefined if the review is no longer pending.
+ */
+export function decidePublishReview(
+  id: number,
+  decision: "approved" | "skipped",
+  editorTelegramId: string
+): PublishReview | undefined {
+  const stmt = db.prepare(`
+    UPDATE publish_reviews
+    SET status = ?, decided_by = ?, decided_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'pending'
+    RETURNING *
+  `);
+  return stmt.get(decision, editorTelegramId, id) as PublishReview | undefined;
+}
+
+/**
+ * Replace the headline and/or token name and ticker of a pending review.
+ */
+export function editPublishReview(
+  id: number,
+  changes: { headline?: string; tokenName?: string; ticker?: string },
+  editorTelegramId: string
+): PublishReview | undefined {
+  const stmt = db.prepare(`
+    UPDATE publish_reviews
+    SET headline = COALESCE(?, headline),
+        token_name = CASE WHEN token_name IS NULL THEN NULL ELSE COALESCE(?, token_name) END,
+        ticker = CASE WHEN ticker IS NULL THEN NULL ELSE COALESCE(?, ticker) END,
+        edited_by = ?
+    WHERE id = ? AND status = 'pending'
+    RETURNING *
+  `);
+  return stmt.get(
+    changes.headline ?? null,
+    changes.tokenName ?? null,
+    changes.ticker ?? null,
+    editorTelegramId,
+    id
+  ) as PublishReview | undefined;
+}
+
+/**
+ * Claim an approved review for publishing. Only one caller can win.
+ */
+export function claimPublishReview(id: number): boolean {
+  const stmt = db.prepare(`
+    UPDATE publish_reviews SET status = 'published'
+    WHERE id = ? AND status = 'approved'
+  `);
+  return stmt.run(id).changes > 0;
+}
+
+/**
+ * Mark a claimed review as failed; its submission stays in the backlog.
+ */
+export function failPublishReview(id: number): void {
+  db.prepare(`UPDATE publish_reviews SET status = 'failed' WHERE id = ?`).run(id);
+}
+
+// ============= SUBMITTER REPUTATION =============
+
+/**
+ * A submitter's track record: submission outcomes, duplicates, votes on
+ * their published headlines and creator fees earned by their tokens.
+ */
+export function getReputationStats(telegramUserId: string): ReputationStats {
+  const submissions = db.prepare(`
+    SELECT
+      COUNT(*) as total,
+      COALESCE(SUM(CASE WHEN s.status = 'published' THEN 1 ELSE 0 END), 0) as published,
+      COALESCE(SUM(CASE WHEN s.status = 'rejected' AND NOT EXISTS (
+        SELECT 1 FROM submission_validations v WHERE v.submission_id = s.id AND v.is_valid = 1
+      ) THEN 1 ELSE 0 END), 0) as rejected,
+      COALESCE(SUM(CASE WHEN EXISTS (
+        SELECT 1 FROM submission_validations v WHERE v.submission_id = s.id AND v.duplicate_of IS NOT NULL
+      ) THEN 1 ELSE 0 END), 0) as duplicates
+    FROM submissions s
+    WHERE s.telegram_user_id = ?
+  `).get(telegramUserId) as { total: number; published: number; rejected: number; duplicates: number };
+
+  const votes = db.prepare(`
+    SELECT
+      COALESCE(SUM(CASE WHEN v.vote_type = 'wagmi' THEN 1 ELSE 0 END), 0) as wagmi_votes,
+      COALESCE(SUM(CASE WHEN v.vote_type = 'ngmi' THEN 1 ELSE 0 END), 0) as ngmi_votes
+    FROM votes v
+    JOIN headlines h ON h.id = v.headline_id
+    JOIN submissions s ON s.id = h.submission_id
+    WHERE s.telegram_user_id = ?
+  `).get(telegramUserId) as { wagmi_votes: number; ngmi_votes: number };
+
+  const tokens = db.prepare(`
+    SELECT
+      COUNT(DISTINCT t.id) as tokens,
+      COALESCE(SUM(r.amount_lamports), 0) as token_fee_lamports
+    FROM tokens t
+    JOIN submissions s ON s.id = t.submission_id
+    LEFT JOIN revenue_events r ON r.token_id = t.id
+    WHERE s.telegram_user_id = ? AND t.mint_address IS NOT NULL
+  `).get(telegramUserId) as { tokens: number; token_fee_lamports: number };
+
+  return { ...submissions, ...votes, ...tokens };
+}
+
+/**
+ * Average creator fees per deployed token across all submitters.
+ */
+export function getAverageTokenFeeLamports(): number {
+  const row = db.prepare(`
+    SELECT
+      (SELECT COUNT(*) FROM tokens WHERE mint_address IS NOT NULL) as tokens,
+      (SELECT COALESCE(SUM(amount_lamports), 0) FROM revenue_events) as fees
+  `).get() as { tokens: number; fees: number };
+  return row.tokens > 0 ? row.fees / row.tokens : 0;
+}
+
+// ============= SOURCE DOMAINS =============
+
+/**
+ * Registry entries for the given domains (a host and its parent domains).
+ */
+export function getSourceDomains(domains: string[]): SourceDomain[] {
+  if (domains.length === 0) return [];
+  const placeholders = domains.map(() => "?").join(", ");
+  const stmt = db.prepare(`SELECT * FROM source_domains WHERE domain IN (${placeholders})`);
+  return stmt.all(...domains) as SourceDomain[];
+}
+
+/**
+ * List registry entries: blocked and trusted first, then by volume.
+ */
+export function listSourceDomains(tier?: SourceDomainTier, limit: number = 30): SourceDomain[] {
+  const stmt = db.prepare(`
+    SELECT * FROM source_domains
+    ${tier ? "WHERE tier = ?" : ""}
+    ORDER BY
+      CASE tier WHEN 'blocked' THEN 0 WHEN 'trusted' THEN 1 ELSE 2 END,
+      approved_count + rejected_count DESC,
+      domain ASC
+    LIMIT ?
+  `);
+  return (tier ? stmt.all(tier, limit) : stmt.all(limit)) as SourceDomain[];
+}
+
+/**
+ * Set a domain's trust tier, creating the entry if needed.
+ */
+export function setSourceDomainTier(
+  domain: string,
+  tier: SourceDomainTier,
+  note: string | null,
+  setBy: string
+): SourceDomain {
+  const stmt = db.prepare(`
+    INSERT INTO source_domains (domain, tier, note, tier_set_by, tier_set_at)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(domain) DO UPDATE SET
+      tier = excluded.tier,
+      note = excluded.note,
+      tier_set_by = excluded.tier_set_by,
+      tier_set_at = excluded.tier_set_at
+    RETURNING *
+  `);
+  return stmt.get(domain, tier, note, setBy) as SourceDomain;
+}
+
+const REJECTION_COLUMNS: Record<ValidationRejectionKind, string | null> = {
+  fact: "fact_rejections",
+  stale: "stale_rejections",
+  duplicate: "duplicate_rejections",
+  blocked_domain: "blocked_rejections",
+  error: null,
+};
+
+/**
+ * Count a validation outcome against a domain, creating the entry if needed.
+ * A rejection kind of null records an approval.
+ */
+export function recordSourceDomainOutcome(
+  domain: string,
+  rejectionKind: ValidationRejectionKind | null,
+  rejectionReason: string | null
+): void {
+  const column = rejectionKind ? REJECTION_COLUMNS[rejectionKind] : null;
+  const approved = rejectionKind ? 0 : 1;
+  const rejected = rejectionKind ? 1 : 0;
+
+  db.prepare(`
+    INSERT INTO source_domains (domain, approved_count, rejected_count, last_rejection_reason, last_seen_at${column ? `, ${column}` : ""})
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP${column ? ", 1" : ""})
+    ON CONFLICT(domain) DO UPDATE SET
+      approved_count = approved_count + excluded.approved_count,
+      rejected_count = rejected_count + excluded.rejected_count,
+      last_rejection_reason = COALESCE(excluded.last_rejection_reason, last_rejection_reason),
+      last_seen_at = CURRENT_TIMESTAMP${column ? `,
+      ${column} = ${column} + 1` : ""}
+  `).run(domain, approved, rejected, rejectionReason);
+}
+
+// ============= COMMENTS =============
+
+export interface CommentRow {
+  id: number;
+  headline_id: number;
+  telegram_user_id: string;
   telegram_username: string | null;
   telegram_first_name: string | null;
   content: string;
@@ -2061,6 +3620,123 @@ export function getTopEarners(period: string = "all", limit: number = 15): TopEa
   return stmt.all(limit) as TopEarner[];
 }
 
+// ============= SUBMITTER EARNINGS =============
+
+export interface EarningsToken {
+  id: number;
+  token_name: string;
+  ticker: string;
+  mint_address: string | null;
+  pump_url: string | null;
+  image_url: string | null;
+  headline_id: number | null;
+  created_at: string;
+}
+
+/** One submitter share: a bulk-claim allocation or a per-token revenue event. */
+export interface EarningsEntry {
+  source: "claim_allocation" | "revenue_event";
+  id: number;
+  token_id: number;
+  submitter_lamports: number;
+  status: "paid" | "pending" | "failed" | "skipped";
+  tx_signature: string | null;
+  created_at: string;
+}
+
+export interface EarningsPayout {
+  batch_id: number;
+  amount_lamports: number;
+  status: PayoutBatch["status"];
+  tx_signature: string | null;
+  created_at: string;
+}
+
+export interface SubmitterEarnings {
+  sol_address: string;
+  tokens: EarningsToken[];
+  entries: EarningsEntry[];
+  payouts: EarningsPayout[];
+  totals: {
+    paid_lamports: number;
+    pending_lamports: number;
+    failed_lamports: number;
+    skipped_lamports: number;
+    lifetime_lamports: number;
+  };
+  /** All-time position on the top earners leaderboard (null if not ranked). */
+  rank: number | null;
+}
+
+/**
+ * Everything a submitter wallet has earned: the tokens it launched, every
+ * claim allocation and revenue event share (newest first), batched payouts
+ * and paid/pending/failed/skipped totals. Lifetime excludes skipped shares.
+ */
+export function getSubmitterEarnings(solAddress: string): SubmitterEarnings {
+  const tokens = db.prepare(`
+    SELECT id, token_name, ticker, mint_address, pump_url, image_url, headline_id, created_at
+    FROM tokens
+    WHERE deployer_sol_address = ?
+    ORDER BY created_at DESC
+  `).all(solAddress) as EarningsToken[];
+
+  // Revenue event statuses map onto the allocation vocabulary
+  const entries = db.prepare(`
+    SELECT 'claim_allocation' as source, ca.id, ca.token_id, ca.submitter_lamports,
+           ca.status, ca.submitter_tx_signature as tx_signature, ca.created_at
+    FROM claim_allocations ca
+    JOIN tokens t ON ca.token_id = t.id
+    WHERE t.deployer_sol_address = ?
+
+    UNION ALL
+
+    SELECT 'revenue_event', re.id, re.token_id, re.submitter_share_lamports,
+           CASE
+             WHEN re.status IN ('submitter_paid', 'completed', 'burned') THEN 'paid'
+             WHEN re.status = 'failed' THEN 'failed'
+             ELSE 'pending'
+           END,
+           re.submitter_tx_signature, re.created_at
+    FROM revenue_events re
+    JOIN tokens t ON re.token_id = t.id
+    WHERE t.deployer_sol_address = ?
+
+    ORDER BY created_at DESC, id DESC
+  `).all(solAddress, solAddress) as EarningsEntry[];
+
+  const payouts = db.prepare(`
+    SELECT pb.id as batch_id, pi.amount_lamports, pb.status, pb.tx_signature, pb.created_at
+    FROM payout_batch_items pi
+    JOIN payout_batches pb ON pi.batch_id = pb.id
+    WHERE pi.sol_address = ?
+    ORDER BY pb.created_at DESC, pb.id DESC
+  `).all(solAddress) as EarningsPayout[];
+
+  const sum = (status: EarningsEntry["status"]) =>
+    entries.filter((e) => e.status === status).reduce((total, e) => total + e.submitter_lamports, 0);
+  const paid = sum("paid");
+  const pending = sum("pending");
+  const failed = sum("failed");
+
+  const rankIndex = getTopEarners("all", 100).findIndex((e) => e.sol_address === solAddress);
+
+  return {
+    sol_address: solAddress,
+    tokens,
+    entries,
+    payouts,
+    totals: {
+      paid_lamports: paid,
+      pending_lamports: pending,
+      failed_lamports: failed,
+      skipped_lamports: sum("skipped"),
+      lifetime_lamports: paid + pending + failed,
+    },
+    rank: rankIndex >= 0 ? rankIndex + 1 : null,
+  };
+}
+
 // ============= DEPLOYER POOL =============
 
 /**
@@ -2069,13 +3745,14 @@ export function getTopEarners(period: string = "all", limit: number = 15): TopEa
 export function addPoolWallet(
   address: string,
   encryptedKey: string,
+  keyVersion: number,
   fundedLamports: number
 ): PoolWallet {
   const stmt = db.prepare(`
-    INSERT INTO deployer_pool (address, encrypted_key, funded_lamports, funded_at)
-    VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    INSERT INTO deployer_pool (address, encrypted_key, key_version, funded_lamports, funded_at)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
   `);
-  const result = stmt.run(address, encryptedKey, fundedLamports);
+  const result = stmt.run(address, encryptedKey, keyVersion, fundedLamports);
   return getPoolWalletById(result.lastInsertRowid as number)!;
 }
 
@@ -2212,6 +3889,212 @@ export function markPoolWalletSwept(id: number): boolean {
   return result.changes > 0;
 }
 
+// ============= WALLET KEY ROTATION =============
+
+/**
+ * Every encrypted wallet key in the database: deployer pool wallets and
+ * ephemeral creator wallets.
+ */
+export function getStoredWalletKeys(): StoredWalletKey[] {
+  return db.prepare(`
+    SELECT 'deployer_pool' AS source, id, address, encrypted_key, key_version
+    FROM deployer_pool
+    UNION ALL
+    SELECT 'tokens' AS source, id, creator_wallet_address AS address,
+           creator_wallet_encrypted_key AS encrypted_key, creator_wallet_key_version AS key_version
+    FROM tokens
+    WHERE creator_wallet_encrypted_key IS NOT NULL
+    ORDER BY source, id
+  `).all() as StoredWalletKey[];
+}
+
+/**
+ * Replace re-encrypted wallet keys in one transaction. Each row is only
+ * updated if it still holds the ciphertext it was read with; if any row
+ * changed in the meantime nothing is written and this throws.
+ */
+export function replaceStoredWalletKeys(
+  updates: Array<{ key: StoredWalletKey; encryptedKey: string; keyVersion: number }>
+): number {
+  const updatePool = db.prepare(`
+    UPDATE deployer_pool SET encrypted_key = ?, key_version = ?
+    WHERE id = ? AND encrypted_key = ?
+  `);
+  const updateToken = db.prepare(`
+    UPDATE tokens SET creator_wallet_encrypted_key = ?, creator_wallet_key_version = ?
+    WHERE id = ? AND creator_wallet_encrypted_key = ?
+  `);
+
+  db.transaction(() => {
+    for (const { key, encryptedKey, keyVersion } of updates) {
+      const stmt = key.source === "deployer_pool" ? updatePool : updateToken;
+      const result = stmt.run(encryptedKey, keyVersion, key.id, key.encrypted_key);
+      if (result.changes !== 1) {
+        throw new Error(`${key.source} #${key.id} changed during rotation`);
+      }
+    }
+  })();
+
+  return updates.length;
+}
+
+// ============= SIMULATED CHAIN (SOLANA_MODE=simulated) =============
+
+/**
+ * Balance of a simulated account in lamports (0 if it has never been used).
+ */
+export function getSimBalance(address: string): number {
+  const row = db.prepare(`SELECT lamports FROM sim_accounts WHERE address = ?`).get(address) as
+    | { lamports: number }
+    | undefined;
+  return row?.lamports ?? 0;
+}
+
+/**
+ * Whether a simulated account has any transaction history.
+ */
+export function hasSimTransactions(address: string): boolean {
+  const row = db.prepare(`
+    SELECT 1 FROM sim_transactions WHERE from_address = ? OR to_address = ? LIMIT 1
+  `).get(address, address);
+  return !!row;
+}
+
+/**
+ * Atomically move lamports between simulated accounts and record the
+ * transaction. A null sender mints the lamports (airdrops, pump.fun fee
+ * payouts); a null recipient burns them (deploy costs). The sender pays
+ * `lamports + feeLamports` and the transfer fails if it can't cover both.
+ */
+export function recordSimTransfer(params: {
+  signature: string;
+  kind: SimTransactionKind;
+  from: string | null;
+  to: string | null;
+  lamports: number;
+  feeLamports?: number;
+  mintAddress?: string;
+}): void {
+  const fee = params.feeLamports ?? 0;
+  const credit = db.prepare(`
+    INSERT INTO sim_accounts (address, lamports) VALUES (?, ?)
+    ON CONFLICT(address) DO UPDATE SET
+      lamports = lamports + excluded.lamports,
+      updated_at = CURRENT_TIMESTAMP
+  `);
+
+  db.transaction(() => {
+    if (params.from) {
+      const balance = getSimBalance(params.from);
+      if (balance < params.lamports + fee) {
+        throw new Error(
+          `Insufficient simulated balance: ${params.from} has ${balance} lamports, needs ${params.lamports + fee}`
+        );
+      }
+      credit.run(params.from, -(params.lamports + fee));
+    }
+    if (params.to) {
+      credit.run(params.to, params.lamports);
+    }
+    db.prepare(`
+      INSERT INTO sim_transactions (signature, kind, from_address, to_address, lamports, fee_lamports, mint_address)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      params.signature,
+      params.kind,
+      params.from,
+      params.to,
+      params.lamports,
+      fee,
+      params.mintAddress ?? null
+    );
+  })();
+}
+
+/**
+ * Record several simulated transfers atomically — all legs land or none do
+ * (multi-transfer transactions).
+ */
+export function recordSimTransfers(legs: Array<Parameters<typeof recordSimTransfer>[0]>): void {
+  db.transaction(() => {
+    for (const leg of legs) {
+      recordSimTransfer(leg);
+    }
+  })();
+}
+
+/**
+ * Most recent simulated transactions involving an address.
+ */
+export function getSimTransactions(address: string, limit: number = 10): SimTransaction[] {
+  return db.prepare(`
+    SELECT * FROM sim_transactions
+    WHERE from_address = ? OR to_address = ?
+    ORDER BY id DESC
+    LIMIT ?
+  `).all(address, address, limit) as SimTransaction[];
+}
+
+/**
+ * Record a simulated pump.fun mint.
+ */
+export function createSimMint(
+  mintAddress: string,
+  creator: string,
+  name: string,
+  symbol: string,
+  metadataUri: string | null,
+  bondingCurve: string
+): void {
+  db.prepare(`
+    INSERT INTO sim_mints (mint_address, creator, name, symbol, metadata_uri, bonding_curve)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(mintAddress, creator, name, symbol, metadataUri, bondingCurve);
+}
+
+export function getSimMint(mintAddress: string): SimMint | undefined {
+  return db.prepare(`SELECT * FROM sim_mints WHERE mint_address = ?`).get(mintAddress) as
+    | SimMint
+    | undefined;
+}
+
+export function getSimMints(): SimMint[] {
+  return db.prepare(`SELECT * FROM sim_mints ORDER BY created_at ASC`).all() as SimMint[];
+}
+
+/**
+ * Add simulated bonding-curve trading to a mint: cumulative volume and the
+ * creator fees it generated.
+ */
+export function recordSimTrading(
+  mintAddress: string,
+  volumeLamports: number,
+  feeLamports: number
+): void {
+  db.prepare(`
+    UPDATE sim_mints
+    SET volume_lamports = volume_lamports + ?,
+        unclaimed_fee_lamports = unclaimed_fee_lamports + ?,
+        last_trade_at = CURRENT_TIMESTAMP
+    WHERE mint_address = ?
+  `).run(Math.floor(volumeLamports), Math.floor(feeLamports), mintAddress);
+}
+
+/**
+ * Atomically zero the unclaimed creator fees across every mint created by
+ * `creator` and return the total taken.
+ */
+export function takeSimUnclaimedFees(creator: string): number {
+  return db.transaction(() => {
+    const row = db.prepare(`
+      SELECT COALESCE(SUM(unclaimed_fee_lamports), 0) as total
+      FROM sim_mints WHERE creator = ?
+    `).get(creator) as { total: number };
+    db.prepare(`UPDATE sim_mints SET unclaimed_fee_lamports = 0 WHERE creator = ?`).run(creator);
+    return row.total;
+  })();
+}
+
 // ============= FINANCIAL STATISTICS =============
 
 export interface FinancialStats {
@@ -0,0 +1,80 @@
+/**
+ * Emergency Pause — a global kill switch for on-chain operations.
+ *
+ * While paused:
+ *   - secure-wallet refuses every send and every checkOperation() pre-check
+ *   - pump-deployer refuses deploys; the publishing scheduler keeps publishing
+ *     headlines without tokens
+ *   - creator-fee-claimer, pool-manager, claim-distributor, submitter payouts
+ *     and buy-and-burn skip their work
+ *
+ * Unlike the wallet freeze (wallet-guardrails.ts), which only stops sends and
+ * can be set automatically by the anomaly watcher, the pause is only ever set
+ * by an admin: /pause and /resume in the bot, or POST /api/admin/pause.
+ */
+
+import { getSetting, setSetting } from "./db";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface EmergencyPause {
+  reason: string;
+  /** Admin Telegram id, "api" or "cli". */
+  pausedBy: string;
+  pausedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+const PAUSE_SETTING = "emergency_pause";
+
+/**
+ * The active pause, or null when on-chain operations are allowed.
+ */
+export function getEmergencyPause(): EmergencyPause | null {
+  const raw = getSetting(PAUSE_SETTING);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as EmergencyPause;
+  } catch {
+    // Unreadable state must not resume operations
+    return { reason: "Unreadable pause state", pausedBy: "unknown", pausedAt: "" };
+  }
+}
+
+/**
+ * Error message for an operation refused by the pause, or null if not paused.
+ */
+export function getPausedError(): string | null {
+  const pause = getEmergencyPause();
+  return pause ? `On-chain operations are paused: ${pause.reason}` : null;
+}
+
+/**
+ * Stop all money movement. Keeps the original pause if already paused.
+ */
+export function pauseOperations(reason: string, pausedBy: string): EmergencyPause {
+  const existing = getEmergencyPause();
+  if (existing) return existing;
+
+  const pause: EmergencyPause = { reason, pausedBy, pausedAt: new Date().toISOString() };
+  setSetting(PAUSE_SETTING, JSON.stringify(pause));
+  console.warn(`[EmergencyPause] On-chain operations PAUSED by ${pausedBy}: ${reason}`);
+  return pause;
+}
+
+/**
+ * Lift the pause. Returns the pause that was lifted, if any.
+ */
+export function resumeOperations(resumedBy: string): EmergencyPause | null {
+  const existing = getEmergencyPause();
+  if (existing) {
+    setSetting(PAUSE_SETTING, "");
+    console.log(`[EmergencyPause] On-chain operations resumed by ${resumedBy}`);
+  }
+  return existing;
+}
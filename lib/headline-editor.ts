@@ -0,0 +1,149 @@
+/**
+ * Headline Editor — change a published headline's title, image or summary
+ * after the fact, with a public change history.
+ *
+ * Every edit (/edit in the bot, PATCH /api/headlines) is stored in
+ * headline_revisions. An edit is either:
+ *   - an update   – wording, a better image, a fuller summary; shown as "Updated"
+ *   - a correction – fixes a factual error; requires a note, shown as "Correction"
+ * The article page lists the history, the RSS/Atom feed carries the latest
+ * note, and the OG card URL includes the revision so shared cards refresh.
+ */
+
+import { getHeadlineById, reviseHeadline } from "./db";
+import type { HeadlineRevision } from "./types";
+
+const MAX_TITLE_LENGTH = 300;
+const MAX_SUMMARY_LENGTH = 5000;
+const MAX_NOTE_LENGTH = 500;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface HeadlineEdit {
+  title?: string;
+  imageUrl?: string;
+  summary?: string;
+  /** Public note; required for corrections. */
+  note?: string;
+  correction?: boolean;
+}
+
+export interface EditHeadlineResult {
+  success: boolean;
+  revision?: HeadlineRevision;
+  error?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Editing
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate and apply an edit. `editedBy` is an editor's Telegram ID or "api".
+ */
+export function editHeadline(headlineId: number, edit: HeadlineEdit, editedBy: string): EditHeadlineResult {
+  const title = edit.title?.trim();
+  const imageUrl = edit.imageUrl?.trim();
+  const summary = edit.summary?.trim();
+  const note = edit.note?.trim() || null;
+
+  if (title === undefined && imageUrl === undefined && summary === undefined) {
+    return { success: false, error: "Nothing to change: give a new title, image or summary." };
+  }
+  if (title !== undefined && (title.length === 0 || title.length > MAX_TITLE_LENGTH)) {
+    return { success: false, error: `Title must be 1-${MAX_TITLE_LENGTH} characters.` };
+  }
+  if (imageUrl !== undefined) {
+    try {
+      const parsed = new URL(imageUrl);
+      if (parsed.protocol !== "https:" && parsed.protocol !== "http:") throw new Error("protocol");
+    } catch {
+      return { success: false, error: "Image must be an http(s) URL." };
+    }
+  }
+  if (summary !== undefined && (summary.length === 0 || summary.length > MAX_SUMMARY_LENGTH)) {
+    return { success: false, error: `Summary must be 1-${MAX_SUMMARY_LENGTH} characters.` };
+  }
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return { success: false, error: `Note must be ${MAX_NOTE_LENGTH} characters or less.` };
+  }
+  if (edit.correction && !note) {
+    return { success: false, error: "A correction needs a note saying what was wrong." };
+  }
+
+  if (!getHeadlineById(headlineId)) {
+    return { success: false, error: `Headline #${headlineId} not found.` };
+  }
+
+  const revision = reviseHeadline(
+    headlineId,
+    { title, imageUrl, summary },
+    edit.correction ? "correction" : "update",
+    note,
+    editedBy
+  );
+  if (!revision) {
+    return { success: false, error: "Nothing changed: the new values match the current ones." };
+  }
+
+  console.log(`[HeadlineEditor] ${editedBy} ${revision.kind === "correction" ? "corrected" : "updated"} headline #${headlineId}`);
+  return { success: true, revision };
+}
+
+/**
+ * Parse an editor's /edit message: one "field: value" per line, fields
+ * title, image, summary, note and correction (a correction's note).
+ */
+export function parseHeadlineEdit(text: string): HeadlineEdit {
+  const edit: HeadlineEdit = {};
+  for (const line of text.split("\n")) {
+    const match = line.match(/^\s*(title|image|summary|note|correction)\s*:\s*(.+)$/i);
+    if (!match) continue;
+    const value = match[2].trim();
+    switch (match[1].toLowerCase()) {
+      case "title":
+        edit.title = value;
+        break;
+      case "image":
+        edit.imageUrl = value;
+        break;
+      case "summary":
+        edit.summary = value;
+        break;
+      case "note":
+        edit.note = value;
+        break;
+      case "correction":
+        edit.correction = true;
+        edit.note = value;
+        break;
+    }
+  }
+  return edit;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Public one-line note for a revision, e.g. "Correction: the amount was
+ * $2M, not $20M" or "Updated".
+ */
+export function formatRevisionNote(revision: HeadlineRevision): string {
+  const label = revision.kind === "correction" ? "Correction" : "Updated";
+  return revision.note ? `${label}: ${revision.note}` : label;
+}
+
+/**
+ * Fields a revision changed, for the change history.
+ */
+export function describeRevisionChanges(revision: HeadlineRevision): string[] {
+  const changed: string[] = [];
+  if (revision.new_title !== null) changed.push("headline");
+  if (revision.new_image_url !== null) changed.push("image");
+  if (revision.new_summary !== null) changed.push("summary");
+  return changed;
+}
@@ -0,0 +1,73 @@
+/**
+ * Headline Search — parses and validates search query parameters shared by
+ * GET /api/search and the /search page. The search itself is
+ * db.searchHeadlines (SQLite FTS5 index maintained by migration 6).
+ */
+
+import { clampInt } from "./auth";
+import type { ContentType, HeadlineSearchFilters } from "./types";
+
+export const SEARCH_PAGE_SIZE = 20;
+export const SEARCH_MAX_PAGE_SIZE = 50;
+const MAX_QUERY_LENGTH = 200;
+
+const SEARCH_CONTENT_TYPES: ContentType[] = ["article", "tweet", "youtube", "tiktok"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ParsedHeadlineSearch {
+  filters: HeadlineSearchFilters;
+  page: number;
+  limit: number;
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+/**
+ * Parse search parameters (q, from, to, type, token, page, limit).
+ * Returns an error message for malformed filters instead of ignoring them.
+ */
+export function parseHeadlineSearchParams(
+  get: (name: string) => string | null | undefined
+): ParsedHeadlineSearch | { error: string } {
+  const query = (get("q") || "").trim().slice(0, MAX_QUERY_LENGTH);
+  const from = get("from") || undefined;
+  const to = get("to") || undefined;
+  const type = get("type") || undefined;
+  const token = get("token") || undefined;
+
+  if (from && !isValidDate(from)) {
+    return { error: "Invalid from date. Use YYYY-MM-DD" };
+  }
+  if (to && !isValidDate(to)) {
+    return { error: "Invalid to date. Use YYYY-MM-DD" };
+  }
+  if (type && !SEARCH_CONTENT_TYPES.includes(type as ContentType)) {
+    return { error: `Invalid type. Use: ${SEARCH_CONTENT_TYPES.join(", ")}` };
+  }
+  if (token && token !== "true" && token !== "false") {
+    return { error: "Invalid token filter. Use: true, false" };
+  }
+
+  const page = clampInt(parseInt(get("page") || "1", 10), 1, 1000);
+  const limit = clampInt(
+    parseInt(get("limit") || String(SEARCH_PAGE_SIZE), 10),
+    1,
+    SEARCH_MAX_PAGE_SIZE
+  );
+
+  return {
+    filters: {
+      query: query || undefined,
+      from,
+      to,
+      contentType: type as ContentType | undefined,
+      hasToken: token === undefined ? undefined : token === "true",
+      limit,
+      offset: (page - 1) * limit,
+    },
+    page,
+    limit,
+  };
+}
@@ -0,0 +1,402 @@
+/**
+ * Ingestion — RSS/Atom feeds and sitemaps as a submission channel.
+ *
+ * Admins register sources with /sources add (bot) or scripts/ingest.ts. A
+ * scheduler job polls every enabled source through safeFetchText and turns
+ * new items into ordinary submissions from the house "newsroom" submitter,
+ * paid to NEWSROOM_SOL_ADDRESS. They are validated, ranked and published like
+ * any community submission.
+ *
+ * Ingestion only tops the queue up: a run adds nothing while pending, validating
+ * and approved submissions already number INGESTION_QUEUE_TARGET, so community
+ * submissions keep priority and the newsroom fills quiet hours.
+ *
+ * Every item URL seen is remembered in ingested_items, submitted or not, so an
+ * item is only considered once. Items older than MAX_NEWS_AGE_HOURS and URLs
+ * already submitted by someone else are skipped. Undated items (common in
+ * sitemaps) count as published when first seen; those already listed when a
+ * source is registered are marked seen then, so its backlog is not submitted.
+ *
+ * Configuration via environment variables:
+ *   NEWSROOM_SOL_ADDRESS          – Payout wallet of newsroom submissions (ingestion is off without it)
+ *   INGESTION_QUEUE_TARGET        – Queue size ingestion tops up to (default: 3)
+ *   INGESTION_MAX_PER_RUN         – Submissions created per run, all sources together (default: 3)
+ *   INGESTION_DISABLE_AFTER       – Consecutive failed polls before a source is disabled (default: 10)
+ *   MAX_NEWS_AGE_HOURS            – Oldest item that is submitted (default: 6)
+ *
+ * Runs every 20 minutes via the scheduler cron.
+ */
+
+import {
+  addIngestionSource,
+  createSubmission,
+  detectContentType,
+  getIngestionSourceByUrl,
+  getIngestionSources,
+  getRecentSubmissionByUrl,
+  getSubmissionCountByStatus,
+  isItemIngested,
+  recordIngestedItem,
+  recordIngestionPoll,
+  setIngestionSourceEnabled,
+} from "./db";
+import { isUrlSafe, safeFetchText } from "./url-validator";
+import { isValidSolanaAddress } from "./solana-wallet";
+import { notifyAdmins } from "./telegram-notifier";
+import type { IngestionSource, IngestionSourceKind } from "./types";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** telegram_user_id / telegram_username of newsroom submissions. */
+export const NEWSROOM_USER_ID = "newsroom";
+
+/**
+ * Payout wallet for newsroom submissions, or null if unset or invalid.
+ */
+export function getNewsroomAddress(): string | null {
+  const address = process.env.NEWSROOM_SOL_ADDRESS?.trim();
+  return address && isValidSolanaAddress(address) ? address : null;
+}
+
+function getQueueTarget(): number {
+  const raw = parseInt(process.env.INGESTION_QUEUE_TARGET || "3", 10);
+  return isNaN(raw) || raw < 0 ? 3 : raw;
+}
+
+function getMaxPerRun(): number {
+  const raw = parseInt(process.env.INGESTION_MAX_PER_RUN || "3", 10);
+  return isNaN(raw) || raw < 1 ? 3 : Math.min(raw, 20);
+}
+
+function getDisableAfter(): number {
+  const raw = parseInt(process.env.INGESTION_DISABLE_AFTER || "10", 10);
+  return isNaN(raw) || raw < 1 ? 10 : raw;
+}
+
+function getMaxItemAgeHours(): number {
+  const raw = parseFloat(process.env.MAX_NEWS_AGE_HOURS || "6");
+  return isNaN(raw) || raw <= 0 ? 6 : raw;
+}
+
+const FETCH_TIMEOUT_MS = 10_000;
+const FETCH_MAX_BYTES = 5 * 1024 * 1024; // sitemaps can be large
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface FeedItem {
+  url: string;
+  publishedAt: Date | null;
+}
+
+export interface IngestionRunResult {
+  polled: number;
+  submitted: number;
+  /** Items seen for the first time and skipped (too old, undated, duplicate, unsafe). */
+  skipped: number;
+  errors: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/** Inner text of the first of `tags` present in `xml`. */
+function tagText(xml: string, ...tags: string[]): string | null {
+  for (const tag of tags) {
+    const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, "i"));
+    if (match && match[1].trim()) return decodeXml(match[1]);
+  }
+  return null;
+}
+
+function blocks(xml: string, tag: string): string[] {
+  return xml.match(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, "gi")) || [];
+}
+
+function attr(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, "i"));
+  return match ? decodeXml(match[1]) : null;
+}
+
+function parseDate(raw: string | null): Date | null {
+  if (!raw) return null;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isHttpUrl(raw: string | null): raw is string {
+  if (!raw) return false;
+  try {
+    const url = new URL(raw);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Tell an RSS feed, Atom feed and sitemap apart. Throws for anything else,
+ * including sitemap indexes (register one of their sitemaps instead).
+ */
+export function detectSourceKind(xml: string): IngestionSourceKind {
+  if (/<sitemapindex[\s>]/i.test(xml)) {
+    throw new Error("This is a sitemap index — register one of the sitemaps it lists");
+  }
+  if (/<urlset[\s>]/i.test(xml)) return "sitemap";
+  if (/<feed[\s>]/i.test(xml)) return "atom";
+  if (/<rss[\s>]/i.test(xml) || /<rdf:RDF[\s>]/i.test(xml)) return "rss";
+  throw new Error("Not an RSS feed, Atom feed or sitemap");
+}
+
+function parseItems(xml: string, kind: IngestionSourceKind): FeedItem[] {
+  const items: FeedItem[] = [];
+
+  if (kind === "rss") {
+    for (const item of blocks(xml, "item")) {
+      const guid = item.match(/<guid\b([^>]*)>([\s\S]*?)<\/guid>/i);
+      const guidUrl = guid && !/isPermaLink\s*=\s*["']false["']/i.test(guid[1]) ? decodeXml(guid[2]) : null;
+      const link = tagText(item, "link") || guidUrl;
+      if (isHttpUrl(link)) {
+        items.push({ url: link, publishedAt: parseDate(tagText(item, "pubDate", "dc:date")) });
+      }
+    }
+  } else if (kind === "atom") {
+    for (const entry of blocks(xml, "entry")) {
+      const links = entry.match(/<link\b[^>]*>/gi) || [];
+      const alternate = links.find((l) => {
+        const rel = attr(l, "rel");
+        return !rel || rel === "alternate";
+      });
+      const href = alternate ? attr(alternate, "href") : null;
+      if (isHttpUrl(href)) {
+        items.push({ url: href, publishedAt: parseDate(tagText(entry, "published", "updated")) });
+      }
+    }
+  } else {
+    for (const url of blocks(xml, "url")) {
+      const loc = tagText(url, "loc");
+      if (isHttpUrl(loc)) {
+        items.push({ url: loc, publishedAt: parseDate(tagText(url, "news:publication_date", "lastmod")) });
+      }
+    }
+  }
+
+  // Newest first; undated items last
+  return items.sort((a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0));
+}
+
+async function fetchSource(url: string): Promise<string> {
+  return safeFetchText(url, {
+    timeoutMs: FETCH_TIMEOUT_MS,
+    maxBytes: FETCH_MAX_BYTES,
+    headers: { Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml;q=0.9, */*;q=0.5" },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Sources
+// ---------------------------------------------------------------------------
+
+/**
+ * Register a feed or sitemap. Fetches it once to detect its kind and make
+ * sure it parses, and marks the undated items it already lists as seen.
+ */
+export async function registerIngestionSource(
+  url: string,
+  name: string | null,
+  addedBy: string
+): Promise<{ success: boolean; source?: IngestionSource; items?: number; undated?: number; error?: string }> {
+  if (!isHttpUrl(url)) {
+    return { success: false, error: "Invalid URL." };
+  }
+
+  const urlCheck = isUrlSafe(url);
+  if (!urlCheck.safe) {
+    return { success: false, error: `URL not allowed: ${urlCheck.reason}` };
+  }
+
+  const existing = getIngestionSourceByUrl(url);
+  if (existing) {
+    return { success: false, source: existing, error: `Already registered as source #${existing.id}.` };
+  }
+
+  let kind: IngestionSourceKind;
+  let items: FeedItem[];
+  try {
+    const xml = await fetchSource(url);
+    kind = detectSourceKind(xml);
+    items = parseItems(xml, kind);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const source = addIngestionSource(url, kind, name, addedBy);
+  const undated = items.filter((item) => !item.publishedAt);
+  for (const item of undated) {
+    recordIngestedItem(source.id, item.url, null, null);
+  }
+  console.log(
+    `[Ingestion] Source #${source.id} added by ${addedBy}: ${kind} ${url} ` +
+    `(${items.length} items, ${undated.length} undated)`
+  );
+  return { success: true, source, items: items.length, undated: undated.length };
+}
+
+
+// ---------------------------------------------------------------------------
+// Polling
+// ---------------------------------------------------------------------------
+
+/**
+ * Submissions still ahead of publishing (pending, validating or approved).
+ */
+function getQueueSize(): number {
+  return (
+    getSubmissionCountByStatus("pending") +
+    getSubmissionCountByStatus("validating") +
+    getSubmissionCountByStatus("approved")
+  );
+}
+
+/**
+ * Submit up to `budget` new items from one source. Returns how many were
+ * submitted and skipped.
+ */
+async function pollSource(
+  source: IngestionSource,
+  budget: number,
+  newsroomAddress: string
+): Promise<{ submitted: number; skipped: number }> {
+  const xml = await fetchSource(source.url);
+  const items = parseItems(xml, source.kind);
+  const cutoff = Date.now() - getMaxItemAgeHours() * 60 * 60 * 1000;
+  let submitted = 0;
+  let skipped = 0;
+
+  for (const item of items) {
+    if (submitted >= budget) break;
+    if (isItemIngested(item.url)) continue;
+
+    // Undated: new to us, so taken as published now
+    const publishedAt = item.publishedAt ? item.publishedAt.toISOString() : null;
+    const tooOld = !!item.publishedAt && item.publishedAt.getTime() < cutoff;
+    if (tooOld || getRecentSubmissionByUrl(item.url) || !isUrlSafe(item.url).safe) {
+      recordIngestedItem(source.id, item.url, null, publishedAt);
+      skipped++;
+      continue;
+    }
+
+    const submission = createSubmission(
+      NEWSROOM_USER_ID,
+      newsroomAddress,
+      item.url,
+      detectContentType(item.url),
+      NEWSROOM_USER_ID
+    );
+    recordIngestedItem(source.id, item.url, submission.id, publishedAt);
+    submitted++;
+    console.log(`[Ingestion] Submission #${submission.id} from source #${source.id}: ${item.url}`);
+  }
+
+  return { submitted, skipped };
+}
+
+/**
+ * Poll enabled sources, least recently polled first, until the queue is
+ * topped up. Never throws; per-source failures are recorded on the source.
+ */
+export async function pollIngestionSources(): Promise<IngestionRunResult> {
+  const result: IngestionRunResult = { polled: 0, submitted: 0, skipped: 0, errors: [] };
+
+  const sources = getIngestionSources(true);
+  if (sources.length === 0) return result;
+
+  const newsroomAddress = getNewsroomAddress();
+  if (!newsroomAddress) {
+    result.errors.push("NEWSROOM_SOL_ADDRESS is not set to a valid Solana address");
+    console.warn("[Ingestion] NEWSROOM_SOL_ADDRESS not set — skipping ingestion");
+    return result;
+  }
+
+  let budget = Math.min(getMaxPerRun(), getQueueTarget() - getQueueSize());
+  if (budget <= 0) {
+    console.log("[Ingestion] Submission queue is full enough — skipping ingestion");
+    return result;
+  }
+
+  sources.sort((a, b) => (a.last_polled_at ?? "").localeCompare(b.last_polled_at ?? ""));
+
+  for (const source of sources) {
+    if (budget <= 0) break;
+    result.polled++;
+
+    try {
+      const { submitted, skipped } = await pollSource(source, budget, newsroomAddress);
+      recordIngestionPoll(source.id, null, submitted);
+      result.submitted += submitted;
+      result.skipped += skipped;
+      budget -= submitted;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      result.errors.push(`Source #${source.id}: ${msg}`);
+      console.error(`[Ingestion] Source #${source.id} (${source.url}) failed: ${msg}`);
+
+      const updated = recordIngestionPoll(source.id, msg.slice(0, 500), 0);
+      if (updated && updated.consecutive_failures >= getDisableAfter()) {
+        setIngestionSourceEnabled(source.id, false);
+        await notifyAdmins(
+          `📡 Ingestion source #${source.id} (${source.kind}) disabled after ${updated.consecutive_failures} failed polls. ` +
+          `Use /sources enable ${source.id} once it is fixed.`
+        );
+      }
+    }
+  }
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Plain-text one-source summary (bot and CLI).
+ */
+export function formatIngestionSource(source: IngestionSource): string {
+  let line = `#${source.id} ${source.enabled ? "" : "[disabled] "}${source.kind} — ${source.name || source.url}\n`;
+  if (source.name) line += `  ${source.url}\n`;
+  line += `  ${source.items_submitted} submitted, last polled ${source.last_polled_at ?? "never"}`;
+  if (source.last_error) {
+    line += `\n  Last error (${source.consecutive_failures}x): ${source.last_error}`;
+  }
+  return line;
+}
+
+/**
+ * How undated items of a newly registered source are handled, for the
+ * registration reply (bot and CLI). Empty if it had none.
+ */
+export function describeUndatedItems(undated: number): string {
+  if (undated === 0) return "";
+  return (
+    `${undated} undated item(s) already listed were marked as seen and will not be submitted. ` +
+    `Undated items that appear later count as published when first seen.`
+  );
+}
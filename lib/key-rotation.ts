@@ -0,0 +1,161 @@
+/**
+ * Key Rotation — re-encrypt stored wallet keys under a new
+ * WALLET_ENCRYPTION_KEY version.
+ *
+ * Rotation procedure:
+ * 1. Generate a new key (scripts/rotate-keys.ts generate).
+ * 2. Move the old key into WALLET_ENCRYPTION_KEYS_PREVIOUS ("1:<old hex>"),
+ *    set WALLET_ENCRYPTION_KEY to the new key and bump
+ *    WALLET_ENCRYPTION_KEY_VERSION; restart the app, bot and scheduler.
+ *    Rows encrypted under either version now decrypt; new rows use the new one.
+ * 3. Run scripts/rotate-keys.ts rotate. Every pool and creator wallet key not
+ *    on the current version is decrypted, re-encrypted, checked against its
+ *    address, and written back in a single transaction — all rows or none.
+ * 4. Once status shows nothing left on the old version, drop it from
+ *    WALLET_ENCRYPTION_KEYS_PREVIOUS.
+ *
+ * With WALLET_SECRET_PROVIDER=encrypted, MASTER_WALLET_ENCRYPTED_KEY lives in
+ * the environment rather than the database; reencryptMasterWalletKey() prints
+ * its replacement (set MASTER_WALLET_KEY_VERSION until it is swapped in).
+ */
+
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { getStoredWalletKeys, replaceStoredWalletKeys } from "./db";
+import {
+  decryptWalletKey,
+  encryptWalletKey,
+  getCurrentKeyVersion,
+  getEncryptionKeys,
+  getMasterWalletKeyVersion,
+} from "./secrets-provider";
+import type { StoredWalletKey } from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface KeyRotationStatus {
+  currentVersion: number;
+  /** Versions with a configured key. */
+  configuredVersions: number[];
+  /** Stored wallet keys per key version. */
+  keysByVersion: Record<number, number>;
+  /** Stored keys not yet on the current version. */
+  pending: number;
+  /** Stored keys whose version has no configured key (cannot be decrypted). */
+  missingKey: number;
+}
+
+export interface KeyRotationResult {
+  /** Keys re-encrypted (or that would be, on a dry run). */
+  rotated: number;
+  /** Keys already on the current version. */
+  alreadyCurrent: number;
+  /** Per-key failures. Any failure means nothing was written. */
+  errors: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+
+export function getKeyRotationStatus(): KeyRotationStatus {
+  const currentVersion = getCurrentKeyVersion();
+  const configured = getEncryptionKeys();
+  const keysByVersion: Record<number, number> = {};
+  let pending = 0;
+  let missingKey = 0;
+
+  for (const key of getStoredWalletKeys()) {
+    keysByVersion[key.key_version] = (keysByVersion[key.key_version] || 0) + 1;
+    if (key.key_version !== currentVersion) pending++;
+    if (!configured.has(key.key_version)) missingKey++;
+  }
+
+  return {
+    currentVersion,
+    configuredVersions: Array.from(configured.keys()).sort((a, b) => a - b),
+    keysByVersion,
+    pending,
+    missingKey,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rotation
+// ---------------------------------------------------------------------------
+
+/**
+ * Decrypt a stored key and check it really is the key of its wallet, so a
+ * wrong key for a version cannot slip through as garbage.
+ */
+function decryptAndVerify(key: StoredWalletKey): string {
+  const base58Key = decryptWalletKey(key.encrypted_key, key.key_version);
+  const address = Keypair.fromSecretKey(bs58.decode(base58Key)).publicKey.toBase58();
+  if (key.address && address !== key.address) {
+    throw new Error(`decrypted key belongs to ${address}, not ${key.address}`);
+  }
+  return base58Key;
+}
+
+/**
+ * Re-encrypt every stored wallet key that is not on the current key version.
+ * Every key is decrypted and verified before anything is written; the writes
+ * then happen in one transaction.
+ */
+export function rotateWalletKeys(options: { dryRun?: boolean } = {}): KeyRotationResult {
+  const currentVersion = getCurrentKeyVersion();
+  const result: KeyRotationResult = { rotated: 0, alreadyCurrent: 0, errors: [] };
+  const updates: Array<{ key: StoredWalletKey; encryptedKey: string; keyVersion: number }> = [];
+
+  for (const key of getStoredWalletKeys()) {
+    if (key.key_version === currentVersion) {
+      result.alreadyCurrent++;
+      continue;
+    }
+
+    try {
+      const base58Key = decryptAndVerify(key);
+      const { encrypted, keyVersion } = encryptWalletKey(base58Key);
+      if (decryptWalletKey(encrypted, keyVersion) !== base58Key) {
+        throw new Error("re-encrypted key does not decrypt back to the original");
+      }
+      updates.push({ key, encryptedKey: encrypted, keyVersion });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      result.errors.push(`${key.source} #${key.id} (v${key.key_version}): ${msg}`);
+    }
+  }
+
+  if (result.errors.length > 0) {
+    console.error(`[KeyRotation] ${result.errors.length} key(s) failed — nothing was rotated`);
+    return result;
+  }
+
+  if (options.dryRun || updates.length === 0) {
+    result.rotated = updates.length;
+    return result;
+  }
+
+  try {
+    result.rotated = replaceStoredWalletKeys(updates);
+    console.log(`[KeyRotation] Re-encrypted ${result.rotated} wallet key(s) under key version ${currentVersion}`);
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  return result;
+}
+
+/**
+ * Re-encrypt MASTER_WALLET_ENCRYPTED_KEY under the current key version, for
+ * pasting back into the environment. Returns null if it is not set.
+ */
+export function reencryptMasterWalletKey(): { encrypted: string; keyVersion: number } | null {
+  const encryptedKey = process.env.MASTER_WALLET_ENCRYPTED_KEY;
+  if (!encryptedKey) return null;
+
+  const base58Key = decryptWalletKey(encryptedKey, getMasterWalletKeyVersion());
+  return encryptWalletKey(base58Key);
+}
@@ -0,0 +1,277 @@
+/**
+ * Ledger Reconciler — compares the revenue ledger's asset accounts against
+ * on-chain balances and flags drift to admins.
+ *
+ * Checked accounts:
+ *   master_wallet             vs the master wallet balance
+ *   pool                      vs the summed balance of recoverable pool wallets
+ *   creator_wallet:<tokenId>  vs each legacy per-token creator wallet
+ *
+ * Every run stores one row per account in ledger_reconciliations. Admins are
+ * notified when an account drifts past LEDGER_DRIFT_TOLERANCE_SOL and the
+ * drift is new (or has changed) since the previous run, so a standing
+ * discrepancy does not page every hour.
+ *
+ * Runs hourly via the scheduler cron; `npx tsx scripts/ledger.ts reconcile`
+ * runs it on demand.
+ */
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { getRecoverablePoolWallets, lazyStatement } from "./db";
+import { getMasterWalletAddress, getAddressBalance } from "./solana-wallet";
+import {
+  LEDGER_ACCOUNTS,
+  creatorWalletAccount,
+  getLedgerAccountBalance,
+  isLedgerTransactionPosted,
+  postLedgerTransaction,
+  submitterPayableAccount,
+  type LedgerLine,
+} from "./ledger";
+import { notifyAdmins } from "./telegram-notifier";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Drift (either direction) tolerated before an account is flagged. */
+function getDriftToleranceLamports(): number {
+  const raw = parseFloat(process.env.LEDGER_DRIFT_TOLERANCE_SOL || "0.001");
+  return Math.floor((isNaN(raw) ? 0.001 : Math.max(0, raw)) * LAMPORTS_PER_SOL);
+}
+
+/** Reference of the one-time opening balance transaction. */
+const OPENING_REFERENCE = "opening";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ReconciliationLine {
+  accountCode: string;
+  ledgerLamports: number;
+  chainLamports: number;
+  /** ledger − chain: positive means the ledger thinks we hold more than we do. */
+  driftLamports: number;
+  flagged: boolean;
+}
+
+export interface ReconciliationResult {
+  lines: ReconciliationLine[];
+  flagged: number;
+  /** Flagged accounts whose drift is new since the last run (admins were notified). */
+  newlyFlagged: number;
+}
+
+interface ChainAccount {
+  accountCode: string;
+  /** Addresses whose summed balance backs this account. */
+  addresses: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Prepared statements
+// ---------------------------------------------------------------------------
+
+const selectCreatorWalletsStmt = lazyStatement(`
+  SELECT id, creator_wallet_address FROM tokens
+  WHERE creator_wallet_address IS NOT NULL
+  ORDER BY id ASC
+`);
+
+const insertReconciliationStmt = lazyStatement(`
+  INSERT INTO ledger_reconciliations
+    (account_code, ledger_lamports, chain_lamports, drift_lamports, flagged)
+  VALUES (?, ?, ?, ?, ?)
+`);
+
+const selectLastReconciliationStmt = lazyStatement(`
+  SELECT drift_lamports, flagged FROM ledger_reconciliations
+  WHERE account_code = ?
+  ORDER BY id DESC
+  LIMIT 1
+`);
+
+const selectOpeningTimeStmt = lazyStatement(`
+  SELECT created_at FROM ledger_transactions
+  WHERE kind = 'opening_balance' AND reference = ?
+`);
+
+const selectLegacyPayablesStmt = lazyStatement(`
+  SELECT 'claim_allocation:' || ca.id as reference, t.id as token_id,
+         t.deployer_sol_address as address, ca.submitter_lamports as lamports
+  FROM claim_allocations ca
+  JOIN tokens t ON t.id = ca.token_id
+  WHERE ca.status IN ('pending', 'failed')
+  UNION ALL
+  SELECT 'revenue_event:' || re.id, t.id, t.deployer_sol_address, re.submitter_share_lamports
+  FROM revenue_events re
+  JOIN tokens t ON t.id = re.token_id
+  WHERE re.status IN ('pending', 'failed')
+`);
+
+// ---------------------------------------------------------------------------
+// Chain side
+// ---------------------------------------------------------------------------
+
+function getChainAccounts(): ChainAccount[] {
+  const creatorWallets = selectCreatorWalletsStmt().all() as Array<{ id: number; creator_wallet_address: string }>;
+
+  return [
+    { accountCode: LEDGER_ACCOUNTS.masterWallet, addresses: [getMasterWalletAddress()] },
+    { accountCode: LEDGER_ACCOUNTS.pool, addresses: getRecoverablePoolWallets().map((w) => w.address) },
+    ...creatorWallets.map((t) => ({
+      accountCode: creatorWalletAccount(t.id),
+      addresses: [t.creator_wallet_address],
+    })),
+  ];
+}
+
+async function getChainBalance(addresses: string[]): Promise<number> {
+  let total = 0;
+  for (const address of addresses) {
+    total += (await getAddressBalance(address)).lamports;
+  }
+  return total;
+}
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare ledger balances with on-chain balances, record the results and
+ * notify admins about new drift.
+ */
+export async function reconcileLedger(): Promise<ReconciliationResult> {
+  const tolerance = getDriftToleranceLamports();
+  const lines: ReconciliationLine[] = [];
+  const alerts: string[] = [];
+
+  for (const account of getChainAccounts()) {
+    const chainLamports = await getChainBalance(account.addresses);
+    const ledgerLamports = getLedgerAccountBalance(account.accountCode);
+    const driftLamports = ledgerLamports - chainLamports;
+    const flagged = Math.abs(driftLamports) > tolerance;
+
+    const previous = selectLastReconciliationStmt().get(account.accountCode) as
+      | { drift_lamports: number; flagged: number }
+      | undefined;
+    const isNew = flagged && (!previous || !previous.flagged || previous.drift_lamports !== driftLamports);
+
+    insertReconciliationStmt().run(account.accountCode, ledgerLamports, chainLamports, driftLamports, flagged ? 1 : 0);
+    lines.push({ accountCode: account.accountCode, ledgerLamports, chainLamports, driftLamports, flagged });
+
+    if (isNew) {
+      alerts.push(
+        `• ${account.accountCode}: ledger ${(ledgerLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL, ` +
+        `chain ${(chainLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL ` +
+        `(drift ${(driftLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL)`
+      );
+    }
+  }
+
+  if (alerts.length > 0) {
+    console.warn(`[LedgerReconciler] Drift on ${alerts.length} account(s):\n${alerts.join("\n")}`);
+    await notifyAdmins(`⚠️ Ledger drift detected\n\n${alerts.join("\n")}`);
+  }
+
+  const flaggedCount = lines.filter((l) => l.flagged).length;
+  console.log(
+    `[LedgerReconciler] Checked ${lines.length} account(s): ${flaggedCount} flagged, ${alerts.length} new`
+  );
+
+  return { lines, flagged: flaggedCount, newlyFlagged: alerts.length };
+}
+
+// ---------------------------------------------------------------------------
+// Opening balances
+// ---------------------------------------------------------------------------
+
+/**
+ * Seed the ledger from the current state of the world. Run once when the
+ * ledger is introduced on an existing deployment:
+ *
+ * - Books submitter shares that are still pending/failed in claim_allocations
+ *   and revenue_events as payables (skipping any already accrued).
+ * - Brings every asset account to its on-chain balance against equity.
+ *
+ * Returns false if opening balances were already posted.
+ */
+export async function postOpeningBalances(): Promise<boolean> {
+  if (isLedgerTransactionPosted("opening_balance", OPENING_REFERENCE)) {
+    return false;
+  }
+
+  const legacy = selectLegacyPayablesStmt().all() as Array<{
+    reference: string;
+    token_id: number;
+    address: string;
+    lamports: number;
+  }>;
+
+  const lines: LedgerLine[] = [];
+  let payablesLamports = 0;
+
+  for (const row of legacy) {
+    if (isLedgerTransactionPosted("submitter_accrual", row.reference)) continue;
+    lines.push({ account: submitterPayableAccount(row.address), amountLamports: -row.lamports, tokenId: row.token_id });
+    payablesLamports += row.lamports;
+  }
+
+  for (const account of getChainAccounts()) {
+    const chainLamports = await getChainBalance(account.addresses);
+    const adjustment = chainLamports - getLedgerAccountBalance(account.accountCode);
+    lines.push({ account: account.accountCode, amountLamports: adjustment });
+  }
+
+  // Whatever is left balances against equity
+  const sum = lines.reduce((total, l) => total + l.amountLamports, 0);
+  lines.push({ account: LEDGER_ACCOUNTS.equity, amountLamports: -sum });
+
+  const posted = postLedgerTransaction({
+    kind: "opening_balance",
+    reference: OPENING_REFERENCE,
+    description: `Opening balances (${legacy.length} outstanding payable(s), ${payablesLamports / LAMPORTS_PER_SOL} SOL)`,
+    lines,
+  });
+
+  return posted !== null;
+}
+
+/**
+ * Whether a record created at `createdAt` predates the opening balances, so
+ * its outstanding share (if any) was booked by them under the deployer address.
+ */
+export function isCoveredByOpeningBalances(createdAt: string): boolean {
+  const row = selectOpeningTimeStmt().get(OPENING_REFERENCE) as { created_at: string } | undefined;
+  return !!row && createdAt <= row.created_at;
+}
+
+/**
+ * Post an equity adjustment that brings one asset account back in line with
+ * its on-chain balance (after the cause of the drift has been investigated).
+ * Returns the adjustment in lamports (0 if nothing to do).
+ */
+export async function postDriftAdjustment(accountCode: string, note?: string): Promise<number> {
+  const account = getChainAccounts().find((a) => a.accountCode === accountCode);
+  if (!account) {
+    throw new Error(`Not a reconciled account: ${accountCode}`);
+  }
+
+  const chainLamports = await getChainBalance(account.addresses);
+  const adjustment = chainLamports - getLedgerAccountBalance(accountCode);
+  if (adjustment === 0) return 0;
+
+  const posted = postLedgerTransaction({
+    kind: "adjustment",
+    reference: `${accountCode}:${Date.now()}`,
+    description: note || `Reconciliation adjustment for ${accountCode}`,
+    lines: [
+      { account: accountCode, amountLamports: adjustment },
+      { account: LEDGER_ACCOUNTS.equity, amountLamports: -adjustment },
+    ],
+  });
+
+  return posted === null ? 0 : adjustment;
+}
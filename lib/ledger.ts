@@ -0,0 +1,565 @@
+/**
+ * Revenue Ledger — double-entry bookkeeping for every SOL movement.
+ *
+ * Each claim, payout, deploy cost, pool funding and sweep posts one balanced
+ * transaction: its entries sum to zero, with debits stored as positive
+ * lamports and credits as negative. Account balances are therefore a single
+ * SUM over ledger_entries instead of ad hoc joins across revenue_events,
+ * claim_allocations, wallet_audit_log and deployer_pool.
+ *
+ * Accounts (created on first use):
+ *   master_wallet                – asset: SOL held by the master wallet
+ *   pool                         – asset: SOL held by deployer pool wallets
+ *   creator_wallet:<tokenId>     – asset: SOL held by a legacy per-token creator wallet
+ *   submitter_payable:<address>  – liability: SOL owed to a submitter
+ *   burn_reserve                 – liability: SOL earmarked for buying and burning $NEWS
+ *   creator_fees                 – revenue: pump.fun creator fees claimed
+ *   submitter_share              – expense: submitters' cut of creator fees
+ *   network_fees                 – expense: Solana transaction fees
+ *   deploy_costs                 – expense: token deployment costs
+ *   buy_burn                     – expense: creator fees committed to buy-and-burn
+ *   equity                       – equity: top-ups, opening balances, adjustments
+ *
+ * When a submitter's new payout wallet takes effect, what their old address
+ * was still owed moves to the new address's payable (payable_transfer).
+ *
+ * Posting is idempotent per (kind, reference) and, like the wallet audit
+ * log, never throws into the money flow that called it.
+ * The reconciliation job lives in ledger-reconciler.ts.
+ */
+
+import db, { lazyStatement } from "./db";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LedgerAccountType = "asset" | "liability" | "revenue" | "expense" | "equity";
+
+export type LedgerTransactionKind =
+  | "opening_balance"
+  | "creator_fee_claim"
+  | "revenue_received"
+  | "submitter_accrual"
+  | "submitter_payout"
+  | "payable_transfer"
+  | "burn_accrual"
+  | "buy_burn"
+  | "deploy_cost"
+  | "pool_funding"
+  | "pool_sweep"
+  | "creator_wallet_sweep"
+  | "deposit"
+  | "adjustment";
+
+/** One side of a posting. Positive = debit, negative = credit. */
+export interface LedgerLine {
+  account: string;
+  amountLamports: number;
+  tokenId?: number;
+}
+
+export interface LedgerAccountBalance {
+  code: string;
+  type: LedgerAccountType;
+  /** Balance in the account's normal direction (e.g. liabilities owed are positive). */
+  balanceLamports: number;
+}
+
+export interface SubmitterPayable {
+  address: string;
+  accruedLamports: number;
+  paidLamports: number;
+  owedLamports: number;
+}
+
+// ---------------------------------------------------------------------------
+// Accounts
+// ---------------------------------------------------------------------------
+
+export const LEDGER_ACCOUNTS = {
+  masterWallet: "master_wallet",
+  pool: "pool",
+  creatorFees: "creator_fees",
+  submitterShare: "submitter_share",
+  networkFees: "network_fees",
+  deployCosts: "deploy_costs",
+  burnReserve: "burn_reserve",
+  buyBurn: "buy_burn",
+  equity: "equity",
+} as const;
+
+/** Standard fee of a single-signature transfer, posted with every send. */
+export const NETWORK_FEE_LAMPORTS = 5_000;
+
+export function creatorWalletAccount(tokenId: number): string {
+  return `creator_wallet:${tokenId}`;
+}
+
+export function submitterPayableAccount(address: string): string {
+  return `submitter_payable:${address}`;
+}
+
+function accountType(code: string): LedgerAccountType {
+  if (code === LEDGER_ACCOUNTS.masterWallet || code === LEDGER_ACCOUNTS.pool) return "asset";
+  if (code.startsWith("creator_wallet:")) return "asset";
+  if (code.startsWith("submitter_payable:")) return "liability";
+  if (code === LEDGER_ACCOUNTS.burnReserve) return "liability";
+  if (code === LEDGER_ACCOUNTS.creatorFees) return "revenue";
+  if (code === LEDGER_ACCOUNTS.equity) return "equity";
+  if (
+    code === LEDGER_ACCOUNTS.submitterShare ||
+    code === LEDGER_ACCOUNTS.networkFees ||
+    code === LEDGER_ACCOUNTS.deployCosts ||
+    code === LEDGER_ACCOUNTS.buyBurn
+  ) {
+    return "expense";
+  }
+  throw new Error(`Unknown ledger account: ${code}`);
+}
+
+/** Assets and expenses grow with debits; everything else with credits. */
+function normalSign(type: LedgerAccountType): 1 | -1 {
+  return type === "asset" || type === "expense" ? 1 : -1;
+}
+
+// ---------------------------------------------------------------------------
+// Prepared statements
+// ---------------------------------------------------------------------------
+
+const insertAccountStmt = lazyStatement(`
+  INSERT INTO ledger_accounts (code, type) VALUES (?, ?)
+  ON CONFLICT(code) DO NOTHING
+`);
+
+const selectAccountIdStmt = lazyStatement(`SELECT id FROM ledger_accounts WHERE code = ?`);
+
+const insertTransactionStmt = lazyStatement(`
+  INSERT INTO ledger_transactions (kind, reference, description, tx_signature)
+  VALUES (?, ?, ?, ?)
+  ON CONFLICT(kind, reference) DO NOTHING
+`);
+
+const insertEntryStmt = lazyStatement(`
+  INSERT INTO ledger_entries (transaction_id, account_id, amount_lamports, token_id)
+  VALUES (?, ?, ?, ?)
+`);
+
+const selectBalancesStmt = lazyStatement(`
+  SELECT a.code, a.type, COALESCE(SUM(e.amount_lamports), 0) as total
+  FROM ledger_accounts a
+  LEFT JOIN ledger_entries e ON e.account_id = a.id
+  GROUP BY a.id
+  ORDER BY a.code ASC
+`);
+
+const selectAccountTotalStmt = lazyStatement(`
+  SELECT COALESCE(SUM(e.amount_lamports), 0) as total
+  FROM ledger_entries e
+  JOIN ledger_accounts a ON a.id = e.account_id
+  WHERE a.code = ?
+`);
+
+const selectPayablesStmt = lazyStatement(`
+  SELECT
+    substr(a.code, length('submitter_payable:') + 1) as address,
+    COALESCE(SUM(CASE WHEN e.amount_lamports < 0 THEN -e.amount_lamports ELSE 0 END), 0) as accrued,
+    COALESCE(SUM(CASE WHEN e.amount_lamports > 0 THEN e.amount_lamports ELSE 0 END), 0) as paid
+  FROM ledger_accounts a
+  JOIN ledger_entries e ON e.account_id = a.id
+  WHERE a.code LIKE 'submitter_payable:%'
+  GROUP BY a.id
+  ORDER BY accrued - paid DESC
+`);
+
+const selectTrialBalanceStmt = lazyStatement(`
+  SELECT
+    COALESCE(SUM(CASE WHEN amount_lamports > 0 THEN amount_lamports ELSE 0 END), 0) as debits,
+    COALESCE(SUM(CASE WHEN amount_lamports < 0 THEN -amount_lamports ELSE 0 END), 0) as credits
+  FROM ledger_entries
+`);
+
+const selectTransactionExistsStmt = lazyStatement(`
+  SELECT 1 FROM ledger_transactions WHERE kind = ? AND reference = ?
+`);
+
+const selectAccrualPayableStmt = lazyStatement(`
+  SELECT substr(a.code, length('submitter_payable:') + 1) as address
+  FROM ledger_transactions t
+  JOIN ledger_entries e ON e.transaction_id = t.id
+  JOIN ledger_accounts a ON a.id = e.account_id
+  WHERE t.kind = 'submitter_accrual' AND t.reference = ? AND a.code LIKE 'submitter_payable:%'
+`);
+
+function getAccountId(code: string): number {
+  insertAccountStmt().run(code, accountType(code));
+  return (selectAccountIdStmt().get(code) as { id: number }).id;
+}
+
+// ---------------------------------------------------------------------------
+// Posting
+// ---------------------------------------------------------------------------
+
+/**
+ * Post a balanced transaction. Zero-amount lines are dropped.
+ * Returns the transaction ID, or null if it was already posted (same kind +
+ * reference), is empty, or failed — failures are logged, never thrown.
+ */
+export function postLedgerTransaction(params: {
+  kind: LedgerTransactionKind;
+  reference: string;
+  description?: string;
+  txSignature?: string;
+  lines: LedgerLine[];
+}): number | null {
+  const lines = params.lines
+    .map((l) => ({ ...l, amountLamports: Math.round(l.amountLamports) }))
+    .filter((l) => l.amountLamports !== 0);
+  if (lines.length === 0) return null;
+
+  const sum = lines.reduce((total, l) => total + l.amountLamports, 0);
+  if (sum !== 0) {
+    console.error(
+      `[Ledger] Refusing unbalanced ${params.kind} ${params.reference}: entries sum to ${sum} lamports`
+    );
+    return null;
+  }
+
+  try {
+    return db.transaction(() => {
+      const result = insertTransactionStmt().run(
+        params.kind,
+        params.reference,
+        params.description ?? null,
+        params.txSignature ?? null
+      );
+      if (result.changes === 0) return null; // already posted
+
+      const transactionId = result.lastInsertRowid as number;
+      for (const line of lines) {
+        insertEntryStmt().run(transactionId, getAccountId(line.account), line.amountLamports, line.tokenId ?? null);
+      }
+      return transactionId;
+    })();
+  } catch (error) {
+    // Bookkeeping must never crash the money flow — reconciliation will surface the gap.
+    console.error(`[Ledger] Failed to post ${params.kind} ${params.reference}:`, error);
+    return null;
+  }
+}
+
+/** Whether a transaction of this kind + reference has been posted. */
+export function isLedgerTransactionPosted(kind: LedgerTransactionKind, reference: string): boolean {
+  return !!selectTransactionExistsStmt().get(kind, reference);
+}
+
+/** The submitter address an accrual was booked to (null if never posted). */
+export function getSubmitterAccrualAddress(reference: string): string | null {
+  const row = selectAccrualPayableStmt().get(reference) as { address: string } | undefined;
+  return row?.address ?? null;
+}
+
+/**
+ * Creator fees claimed from pump.fun into the master wallet.
+ */
+export function recordCreatorFeeClaim(txSignature: string, lamports: number): void {
+  postLedgerTransaction({
+    kind: "creator_fee_claim",
+    reference: txSignature,
+    txSignature,
+    description: "pump.fun creator fee claim",
+    lines: [
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: lamports },
+      { account: LEDGER_ACCOUNTS.creatorFees, amountLamports: -lamports },
+    ],
+  });
+}
+
+/**
+ * Revenue attributed to one token arriving in the master wallet.
+ */
+export function recordRevenueReceived(reference: string, tokenId: number, lamports: number): void {
+  postLedgerTransaction({
+    kind: "revenue_received",
+    reference,
+    description: `Creator fees for token #${tokenId}`,
+    lines: [
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: lamports, tokenId },
+      { account: LEDGER_ACCOUNTS.creatorFees, amountLamports: -lamports, tokenId },
+    ],
+  });
+}
+
+/**
+ * A submitter's share becomes owed (revenue event or claim allocation).
+ * Returns the transaction ID, or null if it was not posted.
+ */
+export function recordSubmitterAccrual(
+  reference: string,
+  submitterAddress: string,
+  lamports: number,
+  tokenId?: number
+): number | null {
+  return postLedgerTransaction({
+    kind: "submitter_accrual",
+    reference,
+    description: tokenId ? `Submitter share for token #${tokenId}` : "Submitter share",
+    lines: [
+      { account: LEDGER_ACCOUNTS.submitterShare, amountLamports: lamports, tokenId },
+      { account: submitterPayableAccount(submitterAddress), amountLamports: -lamports, tokenId },
+    ],
+  });
+}
+
+/**
+ * A submitter was paid from the master wallet (plus the network fee).
+ */
+export function recordSubmitterPayout(
+  reference: string,
+  submitterAddress: string,
+  lamports: number,
+  txSignature?: string,
+  tokenId?: number
+): void {
+  postLedgerTransaction({
+    kind: "submitter_payout",
+    reference,
+    txSignature,
+    description: `Payout to ${submitterAddress}`,
+    lines: [
+      { account: submitterPayableAccount(submitterAddress), amountLamports: lamports, tokenId },
+      { account: LEDGER_ACCOUNTS.networkFees, amountLamports: NETWORK_FEE_LAMPORTS },
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: -(lamports + NETWORK_FEE_LAMPORTS) },
+    ],
+  });
+}
+
+/**
+ * Several submitters were paid in one multi-transfer transaction (one network fee).
+ */
+export function recordSubmitterBatchPayout(
+  reference: string,
+  payouts: Array<{ address: string; lamports: number }>,
+  txSignature: string
+): number | null {
+  const total = payouts.reduce((sum, p) => sum + p.lamports, 0);
+  return postLedgerTransaction({
+    kind: "submitter_payout",
+    reference,
+    txSignature,
+    description: `Batch payout to ${payouts.length} submitter(s)`,
+    lines: [
+      ...payouts.map((p) => ({ account: submitterPayableAccount(p.address), amountLamports: p.lamports })),
+      { account: LEDGER_ACCOUNTS.networkFees, amountLamports: NETWORK_FEE_LAMPORTS },
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: -(total + NETWORK_FEE_LAMPORTS) },
+    ],
+  });
+}
+
+/**
+ * Move a balance owed to one submitter address onto another (no SOL moves).
+ */
+export function recordPayableTransfer(
+  reference: string,
+  fromAddress: string,
+  toAddress: string,
+  lamports: number
+): number | null {
+  return postLedgerTransaction({
+    kind: "payable_transfer",
+    reference,
+    description: `Payable moved from ${fromAddress} to ${toAddress}`,
+    lines: [
+      { account: submitterPayableAccount(fromAddress), amountLamports: lamports },
+      { account: submitterPayableAccount(toAddress), amountLamports: -lamports },
+    ],
+  });
+}
+
+/**
+ * Earmark part of a creator share for buying and burning $NEWS.
+ */
+export function recordBurnAccrual(reference: string, lamports: number, tokenId?: number): void {
+  postLedgerTransaction({
+    kind: "burn_accrual",
+    reference,
+    description: tokenId ? `Buy-and-burn share for token #${tokenId}` : "Buy-and-burn share",
+    lines: [
+      { account: LEDGER_ACCOUNTS.buyBurn, amountLamports: lamports, tokenId },
+      { account: LEDGER_ACCOUNTS.burnReserve, amountLamports: -lamports, tokenId },
+    ],
+  });
+}
+
+/**
+ * The master wallet spent reserved SOL on a $NEWS swap or burn. `spentLamports`
+ * is the wallet's actual outflow; anything above `reserveLamports` (network
+ * and priority fees, token account rent) is booked as network fees.
+ */
+export function recordBuyBurn(
+  reference: string,
+  reserveLamports: number,
+  spentLamports: number,
+  txSignature?: string
+): number | null {
+  const fees = Math.max(0, spentLamports - reserveLamports);
+  return postLedgerTransaction({
+    kind: "buy_burn",
+    reference,
+    txSignature,
+    description: `Buy-and-burn ${reference}`,
+    lines: [
+      { account: LEDGER_ACCOUNTS.burnReserve, amountLamports: reserveLamports },
+      { account: LEDGER_ACCOUNTS.networkFees, amountLamports: fees },
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: -(reserveLamports + fees) },
+    ],
+  });
+}
+
+/**
+ * SOL the master wallet spent deploying a token (create + priority fees).
+ */
+export function recordDeployCost(
+  mintAddress: string,
+  lamports: number,
+  txSignature?: string,
+  tokenId?: number
+): void {
+  postLedgerTransaction({
+    kind: "deploy_cost",
+    reference: mintAddress,
+    txSignature,
+    description: `Deploy ${mintAddress}`,
+    lines: [
+      { account: LEDGER_ACCOUNTS.deployCosts, amountLamports: lamports, tokenId },
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: -lamports, tokenId },
+    ],
+  });
+}
+
+/**
+ * Master wallet funded a deployer pool wallet.
+ */
+export function recordPoolFunding(poolAddress: string, lamports: number, txSignature: string): void {
+  postLedgerTransaction({
+    kind: "pool_funding",
+    reference: txSignature,
+    txSignature,
+    description: `Fund pool wallet ${poolAddress}`,
+    lines: [
+      { account: LEDGER_ACCOUNTS.pool, amountLamports: lamports },
+      { account: LEDGER_ACCOUNTS.networkFees, amountLamports: NETWORK_FEE_LAMPORTS },
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: -(lamports + NETWORK_FEE_LAMPORTS) },
+    ],
+  });
+}
+
+/**
+ * A deployer pool wallet was swept back to the master wallet (it paid the fee).
+ */
+export function recordPoolSweep(poolAddress: string, lamports: number, txSignature: string): void {
+  postLedgerTransaction({
+    kind: "pool_sweep",
+    reference: txSignature,
+    txSignature,
+    description: `Sweep pool wallet ${poolAddress}`,
+    lines: [
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: lamports },
+      { account: LEDGER_ACCOUNTS.networkFees, amountLamports: NETWORK_FEE_LAMPORTS },
+      { account: LEDGER_ACCOUNTS.pool, amountLamports: -(lamports + NETWORK_FEE_LAMPORTS) },
+    ],
+  });
+}
+
+/**
+ * A legacy per-token creator wallet sent SOL to the master wallet.
+ * `transferIndex` tells apart several transfers in one transaction.
+ */
+export function recordCreatorWalletSweep(
+  tokenId: number,
+  lamports: number,
+  txSignature: string,
+  transferIndex: number
+): void {
+  postLedgerTransaction({
+    kind: "creator_wallet_sweep",
+    reference: `${txSignature}:${transferIndex}`,
+    txSignature,
+    description: `Sweep creator wallet of token #${tokenId}`,
+    lines: [
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: lamports, tokenId },
+      { account: creatorWalletAccount(tokenId), amountLamports: -lamports, tokenId },
+    ],
+  });
+}
+
+/**
+ * An operator topped up the master wallet.
+ * `transferIndex` tells apart several transfers in one transaction.
+ */
+export function recordDeposit(
+  fromAddress: string,
+  lamports: number,
+  txSignature: string,
+  transferIndex: number
+): void {
+  postLedgerTransaction({
+    kind: "deposit",
+    reference: `${txSignature}:${transferIndex}`,
+    txSignature,
+    description: `Top-up from ${fromAddress}`,
+    lines: [
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: lamports },
+      { account: LEDGER_ACCOUNTS.equity, amountLamports: -lamports },
+    ],
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Balances
+// ---------------------------------------------------------------------------
+
+/**
+ * Every account's balance in its normal direction.
+ */
+export function getLedgerBalances(): LedgerAccountBalance[] {
+  const rows = selectBalancesStmt().all() as Array<{ code: string; type: LedgerAccountType; total: number }>;
+  return rows.map((r) => ({
+    code: r.code,
+    type: r.type,
+    balanceLamports: r.total * normalSign(r.type),
+  }));
+}
+
+/**
+ * One account's balance in its normal direction (0 if it has no entries).
+ */
+export function getLedgerAccountBalance(code: string): number {
+  const row = selectAccountTotalStmt().get(code) as { total: number };
+  return row.total * normalSign(accountType(code));
+}
+
+/**
+ * Accrued, paid and still-owed totals per submitter address, most owed first.
+ */
+export function getSubmitterPayables(): SubmitterPayable[] {
+  const rows = selectPayablesStmt().all() as Array<{ address: string; accrued: number; paid: number }>;
+  return rows.map((r) => ({
+    address: r.address,
+    accruedLamports: r.accrued,
+    paidLamports: r.paid,
+    owedLamports: r.accrued - r.paid,
+  }));
+}
+
+/**
+ * Total debits vs credits across the whole ledger (must be equal).
+ */
+export function getTrialBalance(): { debitsLamports: number; creditsLamports: number; balanced: boolean } {
+  const row = selectTrialBalanceStmt().get() as { debits: number; credits: number };
+  return {
+    debitsLamports: row.debits,
+    creditsLamports: row.credits,
+    balanced: row.debits === row.credits,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Live Events — one server-side poller that fans homepage updates out to
+ * every connected /api/live (Server-Sent Events) client.
+ *
+ * The bot and scheduler write to SQLite from separate processes, so changes
+ * are picked up by polling the database once per interval for all clients
+ * instead of every browser polling its own set of endpoints. The poller only
+ * runs while at least one client is connected.
+ *
+ * Configuration via environment variables:
+ *   LIVE_POLL_INTERVAL_MS  – Database poll interval (default: 2000)
+ *   LIVE_PRICE_INTERVAL_MS – Token price tick interval (default: 30000)
+ */
+
+import {
+  getRecentSidebarHeadlines,
+  getActivityLog,
+  getActivityStats,
+  getLatestVoteId,
+  getVoteCountsSince,
+  getBreakingHeadline,
+  getAllTokens,
+} from "./db";
+import { getTokenPrices } from "./token-prices";
+import { siteConfig } from "./siteConfig";
+import type { LiveEventMap, LiveEventType, TokenPrice } from "./types";
+
+export type LiveEventListener = <K extends LiveEventType>(type: K, data: LiveEventMap[K]) => void;
+
+// Headlines keep changing for a while after insert (token deploy, AI take)
+const HEADLINE_WATCH_MINUTES = 15;
+
+function getPollIntervalMs(): number {
+  const ms = parseInt(process.env.LIVE_POLL_INTERVAL_MS || "2000", 10);
+  return isNaN(ms) || ms < 500 ? 2000 : ms;
+}
+
+function getPriceIntervalMs(): number {
+  const ms = parseInt(process.env.LIVE_PRICE_INTERVAL_MS || "30000", 10);
+  return isNaN(ms) || ms < 5000 ? 30000 : ms;
+}
+
+const listeners = new Set<LiveEventListener>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let priceTimer: ReturnType<typeof setInterval> | null = null;
+let isFetchingPrices = false;
+
+// Poll cursors — reset whenever the poller starts so only changes made while
+// clients are connected are pushed
+let headlineSignatures = new Map<number, string>();
+let lastActivityId = 0;
+let lastVoteId = 0;
+let sirenHeadlineId: number | null = null;
+let lastPrices: TokenPrice[] | null = null;
+
+function broadcast<K extends LiveEventType>(type: K, data: LiveEventMap[K]): void {
+  for (const listener of listeners) {
+    try {
+      listener(type, data);
+    } catch (error) {
+      console.warn(`[LiveEvents] Listener failed for ${type}:`, error);
+    }
+  }
+}
+
+/** Fingerprint of the headline fields that change after publishing. */
+function headlineSignature(headline: LiveEventMap["headline"]): string {
+  return `${headline.token?.ticker ?? ""}|${headline.mcafee_take ?? ""}|${headline.importance_score}`;
+}
+
+function pollHeadlines(emit: boolean): void {
+  const seen = new Map<number, string>();
+  for (const headline of getRecentSidebarHeadlines(HEADLINE_WATCH_MINUTES)) {
+    const signature = headlineSignature(headline);
+    seen.set(headline.id, signature);
+    if (emit && headlineSignatures.get(headline.id) !== signature) {
+      broadcast("headline", headline);
+    }
+  }
+  headlineSignatures = seen;
+}
+
+function pollActivity(emit: boolean): void {
+  const events = getActivityLog(50, lastActivityId || undefined);
+  if (events.length === 0) return;
+
+  lastActivityId = Math.max(lastActivityId, ...events.map((e) => e.id));
+  if (!emit) return;
+
+  // getActivityLog returns newest first; deliver in chronological order
+  for (const event of [...events].reverse()) {
+    broadcast("activity", event);
+  }
+  broadcast("stats", getActivityStats());
+}
+
+function pollVotes(): void {
+  const { counts, lastId } = getVoteCountsSince(lastVoteId);
+  lastVoteId = lastId;
+  for (const count of counts) {
+    broadcast("votes", count);
+  }
+}
+
+function pollSiren(emit: boolean): void {
+  const headline = getBreakingHeadline(2, 80) ?? null;
+  const id = headline?.id ?? null;
+  if (id === sirenHeadlineId) return;
+
+  sirenHeadlineId = id;
+  if (emit) broadcast("siren", { headline });
+}
+
+function poll(emit: boolean = true): void {
+  try {
+    pollHeadlines(emit);
+    pollActivity(emit);
+    pollVotes();
+    pollSiren(emit);
+  } catch (error) {
+    console.error("[LiveEvents] Poll failed:", error);
+  }
+}
+
+async function tickPrices(): Promise<void> {
+  if (isFetchingPrices) return;
+  isFetchingPrices = true;
+
+  try {
+    const tokens = getAllTokens(50)
+      .filter((t) => t.mint_address)
+      .map((t) => ({
+        mintAddress: t.mint_address!,
+        ticker: t.ticker,
+        imageUrl: t.image_url || undefined,
+        pumpUrl: t.pump_url || undefined,
+      }));
+    tokens.push({
+      mintAddress: siteConfig.newsTokenMint,
+      ticker: "NEWS",
+      imageUrl: undefined,
+      pumpUrl: `https://pump.fun/coin/${siteConfig.newsTokenMint}`,
+    });
+
+    lastPrices = await getTokenPrices(tokens);
+    broadcast("prices", lastPrices);
+  } catch (error) {
+    console.warn("[LiveEvents] Price tick failed:", error);
+  } finally {
+    isFetchingPrices = false;
+  }
+}
+
+function start(): void {
+  headlineSignatures = new Map();
+  lastActivityId = 0;
+  lastVoteId = getLatestVoteId();
+  sirenHeadlineId = null;
+
+  // Prime cursors without emitting — clients already have the current state
+  poll(false);
+  pollTimer = setInterval(() => poll(), getPollIntervalMs());
+
+  tickPrices();
+  priceTimer = setInterval(tickPrices, getPriceIntervalMs());
+}
+
+function stop(): void {
+  if (pollTimer) clearInterval(pollTimer);
+  if (priceTimer) clearInterval(priceTimer);
+  pollTimer = null;
+  priceTimer = null;
+}
+
+/**
+ * Subscribe to live events. The listener immediately receives the current
+ * siren, War Room stats and last price tick, then every change after that.
+ * Returns an unsubscribe function.
+ */
+export function subscribeLiveEvents(listener: LiveEventListener): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) {
+    start();
+  }
+
+  try {
+    listener("siren", { headline: getBreakingHeadline(2, 80) ?? null });
+    listener("stats", getActivityStats());
+    if (lastPrices) listener("prices", lastPrices);
+  } catch (error) {
+    console.warn("[LiveEvents] Failed to send initial state:", error);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      stop();
+    }
+  };
+}
+
+/** Number of connected live-event clients. */
+export function getLiveListenerCount(): number {
+  return listeners.size;
+}
@@ -2,7 +2,7 @@
  * AI McAfee Ghost Commentary Generator.
  *
  * Generates witty, provocative one-liner hot takes in John McAfee's voice
- * for every published headline. Uses gpt-4o-mini for cost efficiency.
+ * for every published headline. Routed to the "commentary" model (see llm-provider).
  *
  * Also generates clean headlines and summaries for tweet-sourced articles.
  *
@@ -10,19 +10,9 @@
  * candidates in a single prompt and picks the most newsworthy one to publish.
  */
 
-import OpenAI from "openai";
 import type { PageContent } from "./types";
 import { sanitizeForPrompt } from "./url-validator";
-
-// Lazy-init so the client isn't created until first use
-// (avoids crash when imported before env vars are loaded, e.g. from the bot)
-let _openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!_openai) {
-    _openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return _openai;
-}
+import { chatCompletion } from "./llm-provider";
 
 const MCAFEE_SYSTEM_PROMPT = `You are the ghost of John McAfee — the legendary antivirus pioneer turned crypto provocateur. You are commenting on crypto/tech news headlines from beyond the grave.
 
@@ -61,8 +51,7 @@ export async function generateMcAfeeTake(
     : "";
 
   try {
-    const response = await getOpenAI().chat.completions.create({
-      model: "gpt-4o-mini",
+    const response = await chatCompletion("commentary", {
       messages: [
         { role: "system", content: MCAFEE_SYSTEM_PROMPT + positiveHint },
         {
@@ -70,13 +59,13 @@ export async function generateMcAfeeTake(
           content: `Give your hot take on this headline:\n\nHeadline: ${safeHeadline}\n${safeDescription ? `Context: ${safeDescription}` : ""}`,
         },
       ],
-      max_tokens: 150,
+      maxTokens: 150,
       temperature: 1.0,
     });
 
-    const take = response.choices[0]?.message?.content?.trim();
+    const take = response.content?.trim();
     if (!take) {
-      throw new Error("Empty response from OpenAI");
+      throw new Error("Empty response from LLM");
     }
 
     console.log(`[McAfee] Generated take: "${take}"`);
@@ -101,8 +90,7 @@ export async function scoreHeadlineImportance(
     : "";
 
   try {
-    const response = await getOpenAI().chat.completions.create({
-      model: "gpt-4o-mini",
+    const response = await chatCompletion("commentary", {
       messages: [
         {
           role: "system",
@@ -122,11 +110,11 @@ Respond with ONLY a number between 0 and 100. Nothing else.`,
           content: `Rate importance:\n\nHeadline: ${safeHeadline}\n${safeDescription ? `Context: ${safeDescription}` : ""}`,
         },
       ],
-      max_tokens: 10,
+      maxTokens: 10,
       temperature: 0.3,
     });
 
-    const scoreText = response.choices[0]?.message?.content?.trim() || "50";
+    const scoreText = response.content?.trim() || "50";
     const parsed = parseInt(scoreText, 10);
     const didDefault = isNaN(parsed);
     const score = Math.min(100, Math.max(0, didDefault ? 50 : parsed));
@@ -158,8 +146,7 @@ export async function generateCoinSummary(
     : "";
 
   try {
-    const response = await getOpenAI().chat.completions.create({
-      model: "gpt-4o-mini",
+    const response = await chatCompletion("commentary", {
       messages: [
         {
           role: "system",
@@ -188,13 +175,13 @@ Style rules:
           content: `Write the Coin of the Day summary:\n\nHeadline: ${safeHeadline}\n${safeDescription ? `Description: ${safeDescription}\n` : ""}${safeContent ? `\nPage content:\n${safeContent}` : ""}`,
         },
       ],
-      max_tokens: 800,
+      maxTokens: 800,
       temperature: 0.9,
     });
 
-    let summary = response.choices[0]?.message?.content?.trim();
+    let summary = response.content?.trim();
     if (!summary) {
-      throw new Error("Empty response from OpenAI");
+      throw new Error("Empty response from LLM");
     }
 
     // Strip any markdown formatting that slipped through
@@ -233,8 +220,7 @@ export async function generateTweetHeadlineAndSummary(
   );
 
   try {
-    const response = await getOpenAI().chat.completions.create({
-      model: "gpt-4o-mini",
+    const response = await chatCompletion("commentary", {
       messages: [
         {
           role: "system",
@@ -254,12 +240,12 @@ Respond in this EXACT JSON format — no markdown, no code fences:
           content: `Tweet by ${safeAuthor}:\n\n${safeTweet}`,
         },
       ],
-      max_tokens: 300,
+      maxTokens: 300,
       temperature: 0.7,
     });
 
-    const raw = response.choices[0]?.message?.content?.trim();
-    if (!raw) throw new Error("Empty response from OpenAI");
+    const raw = response.content?.trim();
+    if (!raw) throw new Error("Empty response from LLM");
 
     // Parse JSON — strip code fences if the model wraps them anyway
     const jsonStr = raw.replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/i, "");
@@ -300,6 +286,10 @@ export interface HeadlineCandidate {
   id: number;
   headline: string;
   description: string;
+  /** Backlog newsworthiness (0-100, decayed); reused by the fallback scorer. */
+  score?: number;
+  /** Submitter reputation (0-100); only breaks ties between equal stories. */
+  reputation?: number;
 }
 
 /**
@@ -327,13 +317,13 @@ export async function pickMostImportantSubmission(
       const safeDesc = c.description
         ? sanitizeForPrompt(c.description, 200)
         : "";
-      return `${i + 1}. [ID=${c.id}] ${safeHeadline}${safeDesc ? `\n   Context: ${safeDesc}` : ""}`;
+      const rep = c.reputation !== undefined ? ` (submitter reputation ${c.reputation}/100)` : "";
+      return `${i + 1}. [ID=${c.id}] ${safeHeadline}${rep}${safeDesc ? `\n   Context: ${safeDesc}` : ""}`;
     })
     .join("\n\n");
 
   try {
-    const response = await getOpenAI().chat.completions.create({
-      model: "gpt-4o-mini",
+    const response = await chatCompletion("commentary", {
       messages: [
         {
           role: "system",
@@ -346,6 +336,8 @@ Selection criteria (in priority order):
 4. Novelty and surprise (unexpected developments over routine updates)
 5. Source credibility (official announcements over rumors)
 
+Submitter reputation is a tie-breaker ONLY: never prefer a less newsworthy story because of it, but when two stories are equally newsworthy pick the one from the higher-reputation submitter.
+
 You will be given a numbered list of candidate headlines with optional context.
 
 Respond in this EXACT JSON format — no markdown, no code fences:
@@ -356,12 +348,12 @@ Respond in this EXACT JSON format — no markdown, no code fences:
           content: `Pick the single most important headline to publish right now:\n\n${candidateList}`,
         },
       ],
-      max_tokens: 150,
+      maxTokens: 150,
       temperature: 0.2,
     });
 
-    const raw = response.choices[0]?.message?.content?.trim();
-    if (!raw) throw new Error("Empty response from OpenAI");
+    const raw = response.content?.trim();
+    if (!raw) throw new Error("Empty response from LLM");
 
     // Parse JSON — strip code fences if model wraps them
     const jsonStr = raw.replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/i, "");
@@ -396,14 +388,21 @@ Respond in this EXACT JSON format — no markdown, no code fences:
 
 /**
  * Fallback: score each candidate individually and pick the highest.
- * Uses scoreHeadlineImportance() for each, picks max. FIFO tiebreaker.
+ * Uses the candidate's backlog score when present, otherwise
+ * scoreHeadlineImportance(). Ties go to the higher submitter reputation,
+ * then FIFO.
  */
 async function fallbackScoring(
   candidates: HeadlineCandidate[]
 ): Promise<{ winnerId: number; reasoning: string }> {
-  const scored: { id: number; score: number }[] = [];
+  const scored: { id: number; score: number; reputation: number }[] = [];
 
   for (const c of candidates) {
+    const reputation = c.reputation ?? 0;
+    if (c.score !== undefined) {
+      scored.push({ id: c.id, score: c.score, reputation });
+      continue;
+    }
     const content: PageContent = {
       title: c.headline,
       description: c.description,
@@ -411,11 +410,11 @@ async function fallbackScoring(
       imageUrl: null,
     };
     const score = await scoreHeadlineImportance(c.headline, content);
-    scored.push({ id: c.id, score });
+    scored.push({ id: c.id, score, reputation });
   }
 
-  // Sort by score descending, FIFO tiebreaker (lower id = older = first)
-  scored.sort((a, b) => b.score - a.score || a.id - b.id);
+  // Sort by score descending, then reputation, then FIFO (lower id = older = first)
+  scored.sort((a, b) => b.score - a.score || b.reputation - a.reputation || a.id - b.id);
 
   const winner = scored[0];
   console.log(
@@ -0,0 +1,1089 @@
+/**
+ * Versioned schema migrations for the SQLite database.
+ *
+ * Each migration runs once, inside a transaction, and is recorded in the
+ * schema_migrations table. Processes (web, bot, scheduler) refuse to start
+ * unless the database is at exactly SCHEMA_VERSION — apply pending
+ * migrations with `npm run migrate` (see scripts/migrate.ts).
+ *
+ * Rules:
+ * - Append new migrations with the next version number; never edit or
+ *   reorder one that has shipped.
+ * - Migrations 1-5 predate versioning and may run against databases that
+ *   already have some of their changes, so they are written idempotently
+ *   (IF NOT EXISTS, addColumn, CHECK-constraint sniffing). New migrations
+ *   only ever run once and don't need to be.
+ * - A migration that rebuilds a table other tables reference (DROP + RENAME)
+ *   must set disableForeignKeys, or the DROP fails on any database with
+ *   referencing rows.
+ */
+
+import type Database from "better-sqlite3";
+import db from "./db";
+
+export interface Migration {
+  version: number;
+  name: string;
+  /**
+   * Run with foreign key enforcement off (for table rebuilds); violations
+   * are checked with PRAGMA foreign_key_check before the migration commits.
+   */
+  disableForeignKeys?: boolean;
+  up: (db: Database.Database) => void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Add a column unless it already exists (SQLite has no ADD COLUMN IF NOT EXISTS).
+ */
+function addColumn(
+  database: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some((c) => c.name === column)) return;
+  database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+/**
+ * Get the CREATE TABLE statement for a table (used to sniff CHECK constraints
+ * that need a table rebuild — SQLite doesn't support ALTER COLUMN).
+ */
+function getTableSql(database: Database.Database, table: string): string | undefined {
+  const row = database
+    .prepare("SELECT sql FROM sqlite_master WHERE type='table' AND name=?")
+    .get(table) as { sql: string } | undefined;
+  return row?.sql;
+}
+
+// ---------------------------------------------------------------------------
+// Migrations
+// ---------------------------------------------------------------------------
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    up: (db) => {
+      db.exec(`
+        -- Headlines table (FIFO queue)
+        CREATE TABLE IF NOT EXISTS headlines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          url TEXT NOT NULL,
+          column TEXT DEFAULT 'left' CHECK(column IN ('left', 'right', 'center')),
+          image_url TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Main headline (single row, updated in place)
+        CREATE TABLE IF NOT EXISTS main_headline (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          title TEXT NOT NULL,
+          url TEXT NOT NULL,
+          subtitle TEXT,
+          image_url TEXT,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Coin of the day (single row, updated in place)
+        CREATE TABLE IF NOT EXISTS coin_of_the_day (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          title TEXT NOT NULL,
+          url TEXT NOT NULL,
+          description TEXT,
+          image_url TEXT,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Whitelist table for Telegram users
+        CREATE TABLE IF NOT EXISTS whitelist (
+          telegram_id TEXT PRIMARY KEY,
+          username TEXT,
+          added_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- User submissions queue
+        CREATE TABLE IF NOT EXISTS submissions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          telegram_user_id TEXT NOT NULL,
+          telegram_username TEXT,
+          sol_address TEXT NOT NULL,
+          url TEXT NOT NULL,
+          content_type TEXT DEFAULT 'other' CHECK(content_type IN ('article', 'tweet', 'youtube', 'tiktok', 'other')),
+          status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'validating', 'approved', 'rejected', 'published')),
+          rejection_reason TEXT,
+          content_hash TEXT,
+          embedding TEXT,
+          cached_content TEXT,
+          custom_token_name TEXT,
+          custom_ticker TEXT,
+          published_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Token tracking
+        CREATE TABLE IF NOT EXISTS tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          headline_id INTEGER REFERENCES headlines(id),
+          submission_id INTEGER REFERENCES submissions(id),
+          token_name TEXT NOT NULL,
+          ticker TEXT NOT NULL,
+          image_url TEXT,
+          mint_address TEXT,
+          pump_url TEXT,
+          deployer_sol_address TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Revenue tracking
+        CREATE TABLE IF NOT EXISTS revenue_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          token_id INTEGER NOT NULL REFERENCES tokens(id),
+          amount_lamports INTEGER NOT NULL,
+          submitter_share_lamports INTEGER NOT NULL,
+          burn_share_lamports INTEGER NOT NULL,
+          submitter_tx_signature TEXT,
+          burn_tx_signature TEXT,
+          status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'submitter_paid', 'burned', 'completed', 'failed')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Votes table (WAGMI/NGMI community voting)
+        CREATE TABLE IF NOT EXISTS votes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          headline_id INTEGER NOT NULL REFERENCES headlines(id),
+          vote_type TEXT NOT NULL CHECK(vote_type IN ('wagmi', 'ngmi')),
+          voter_hash TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(headline_id, voter_hash)
+        );
+
+        -- Activity log (War Room feed)
+        CREATE TABLE IF NOT EXISTS activity_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          event_type TEXT NOT NULL,
+          message TEXT NOT NULL,
+          metadata TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Create indexes for better query performance
+        CREATE INDEX IF NOT EXISTS idx_headlines_column ON headlines(column);
+        CREATE INDEX IF NOT EXISTS idx_headlines_created_at ON headlines(created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_submissions_status ON submissions(status);
+        CREATE INDEX IF NOT EXISTS idx_submissions_created_at ON submissions(created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_submissions_url ON submissions(url);
+        CREATE INDEX IF NOT EXISTS idx_submissions_user ON submissions(telegram_user_id);
+        CREATE INDEX IF NOT EXISTS idx_tokens_headline_id ON tokens(headline_id);
+        CREATE INDEX IF NOT EXISTS idx_tokens_submission_id ON tokens(submission_id);
+        CREATE INDEX IF NOT EXISTS idx_revenue_events_token_id ON revenue_events(token_id);
+        CREATE INDEX IF NOT EXISTS idx_revenue_events_status ON revenue_events(status);
+        CREATE INDEX IF NOT EXISTS idx_votes_headline_id ON votes(headline_id);
+        CREATE INDEX IF NOT EXISTS idx_votes_voter_hash ON votes(voter_hash);
+        CREATE INDEX IF NOT EXISTS idx_activity_log_created_at ON activity_log(created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_activity_log_event_type ON activity_log(event_type);
+
+        -- Claim batches: tracks each bulk pump.fun claim event
+        CREATE TABLE IF NOT EXISTS claim_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tx_signature TEXT UNIQUE NOT NULL,
+          total_lamports INTEGER NOT NULL,
+          tokens_count INTEGER NOT NULL,
+          distributed_lamports INTEGER DEFAULT 0,
+          status TEXT DEFAULT 'pending' CHECK(status IN ('pending','distributing','completed','failed')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Per-token allocation within a claim batch
+        CREATE TABLE IF NOT EXISTS claim_allocations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          batch_id INTEGER NOT NULL REFERENCES claim_batches(id),
+          token_id INTEGER NOT NULL REFERENCES tokens(id),
+          volume_snapshot REAL NOT NULL,
+          share_percent REAL NOT NULL,
+          amount_lamports INTEGER NOT NULL,
+          submitter_lamports INTEGER NOT NULL,
+          submitter_tx_signature TEXT,
+          status TEXT DEFAULT 'pending' CHECK(status IN ('pending','paid','failed','skipped')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Volume snapshots for delta calculation between claims
+        CREATE TABLE IF NOT EXISTS token_volume_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          token_id INTEGER NOT NULL REFERENCES tokens(id),
+          cumulative_volume REAL NOT NULL,
+          snapshot_source TEXT DEFAULT 'pump_api',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_claim_batches_status ON claim_batches(status);
+        CREATE INDEX IF NOT EXISTS idx_claim_batches_tx ON claim_batches(tx_signature);
+        CREATE INDEX IF NOT EXISTS idx_claim_allocations_batch ON claim_allocations(batch_id);
+        CREATE INDEX IF NOT EXISTS idx_claim_allocations_token ON claim_allocations(token_id);
+        CREATE INDEX IF NOT EXISTS idx_volume_snapshots_token ON token_volume_snapshots(token_id);
+        CREATE INDEX IF NOT EXISTS idx_volume_snapshots_created ON token_volume_snapshots(created_at DESC);
+
+        -- Comments on articles
+        CREATE TABLE IF NOT EXISTS comments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          headline_id INTEGER NOT NULL REFERENCES headlines(id),
+          telegram_user_id TEXT NOT NULL,
+          telegram_username TEXT,
+          telegram_first_name TEXT,
+          content TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_comments_headline ON comments(headline_id, created_at DESC);
+
+        -- App-wide settings (key-value store for admin toggles)
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Pre-funded deployer wallet pool (breaks on-chain funding trail)
+        CREATE TABLE IF NOT EXISTS deployer_pool (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          address TEXT NOT NULL UNIQUE,
+          encrypted_key TEXT NOT NULL,
+          funded_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          funded_lamports INTEGER NOT NULL,
+          status TEXT DEFAULT 'ready' CHECK(status IN ('ready', 'reserved', 'used', 'failed')),
+          reserved_at DATETIME,
+          used_at DATETIME,
+          token_id INTEGER REFERENCES tokens(id),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        -- Page view tracking (deduped per visitor per path per day)
+        CREATE TABLE IF NOT EXISTS page_views (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          page_path TEXT NOT NULL,
+          visitor_hash TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_page_views_created_at ON page_views(created_at DESC);
+        CREATE INDEX IF NOT EXISTS idx_page_views_path ON page_views(page_path);
+      `);
+
+      addColumn(db, "headlines", "image_url", "TEXT");
+      addColumn(db, "main_headline", "image_url", "TEXT");
+      addColumn(db, "headlines", "token_id", "INTEGER REFERENCES tokens(id)");
+      addColumn(db, "submissions", "cached_content", "TEXT");
+      // importance_score feeds the Breaking Siren, mcafee_take the AI commentary,
+      // summary the COTD project write-ups
+      addColumn(db, "headlines", "importance_score", "INTEGER DEFAULT 0");
+      addColumn(db, "headlines", "mcafee_take", "TEXT");
+      addColumn(db, "headlines", "summary", "TEXT");
+      // Ephemeral deployer wallets
+      addColumn(db, "tokens", "creator_wallet_address", "TEXT");
+      addColumn(db, "tokens", "creator_wallet_encrypted_key", "TEXT");
+      addColumn(db, "tokens", "last_fee_claim_at", "DATETIME");
+      addColumn(db, "tokens", "theme", "TEXT");
+      addColumn(db, "submissions", "custom_token_name", "TEXT");
+      addColumn(db, "submissions", "custom_ticker", "TEXT");
+
+      // Dedup index for page_views (expression index). Fails if legacy
+      // duplicate rows exist — dedup is best-effort, so don't block the migration.
+      try {
+        db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_page_views_dedup ON page_views(page_path, visitor_hash, date(created_at))`);
+      } catch {
+        console.warn("[Migrations] Skipped idx_page_views_dedup (duplicate page_views rows)");
+      }
+
+      // Wallet audit log (previously initialised by lib/wallet-audit.ts on import)
+      const walletAuditColumns = `
+          id          INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp   DATETIME DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+          operation   TEXT NOT NULL CHECK(operation IN (
+            'send_sol', 'deploy_token', 'buy_burn', 'burn_tokens',
+            'balance_check', 'wallet_access', 'guardrail_block',
+            'claim_creator_fee'
+          )),
+          amount_lamports INTEGER DEFAULT 0,
+          destination     TEXT,
+          tx_signature    TEXT,
+          caller          TEXT NOT NULL,
+          success         INTEGER NOT NULL DEFAULT 1,
+          error_message   TEXT,
+          metadata        TEXT`;
+
+      const walletAuditSql = getTableSql(db, "wallet_audit_log");
+      if (!walletAuditSql) {
+        db.exec(`CREATE TABLE wallet_audit_log (${walletAuditColumns});`);
+      } else if (!walletAuditSql.includes("claim_creator_fee")) {
+        // Older CHECK constraint without 'claim_creator_fee' — rebuild
+        db.exec(`
+          CREATE TABLE wallet_audit_log_new (${walletAuditColumns});
+          INSERT INTO wallet_audit_log_new SELECT * FROM wallet_audit_log;
+          DROP TABLE wallet_audit_log;
+          ALTER TABLE wallet_audit_log_new RENAME TO wallet_audit_log;
+        `);
+      }
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_wallet_audit_timestamp ON wallet_audit_log(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_wallet_audit_operation ON wallet_audit_log(operation);
+      `);
+
+      // Default main headline
+      db.prepare(
+        `INSERT OR IGNORE INTO main_headline (id, title, url, subtitle) VALUES (1, ?, ?, ?)`
+      ).run(
+        "WELCOME TO AINTIVIRUS",
+        "#",
+        "The Drudge Report of Crypto"
+      );
+    },
+  },
+  {
+    version: 2,
+    name: "submission_validations",
+    up: (db) => {
+      // Validation audit trail (one row per validation run)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS submission_validations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          submission_id INTEGER NOT NULL REFERENCES submissions(id),
+          is_valid INTEGER NOT NULL,
+          rejection_reason TEXT,
+          fact_score INTEGER,
+          fact_reason TEXT,
+          fact_model TEXT,
+          fact_latency_ms INTEGER,
+          freshness_hours REAL,
+          published_at TEXT,
+          published_at_source TEXT,
+          freshness_model TEXT,
+          freshness_latency_ms INTEGER,
+          duplicate_layer TEXT CHECK(duplicate_layer IN ('hash', 'embedding', 'ai_title')),
+          duplicate_of INTEGER,
+          similarity REAL,
+          embedding_model TEXT,
+          duplicate_model TEXT,
+          duplicate_latency_ms INTEGER,
+          total_latency_ms INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_submission_validations_submission ON submission_validations(submission_id, created_at DESC);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: "submission_appeals",
+    // tokens and submission_validations reference submissions
+    disableForeignKeys: true,
+    up: (db) => {
+      // Allow the 'appealed' status: rebuild submissions with the new CHECK
+      // constraint (explicit column list — older databases have the
+      // ALTER-added columns in a different order).
+      const submissionsSql = getTableSql(db, "submissions");
+      if (submissionsSql && !submissionsSql.includes("'appealed'")) {
+        const columns = `id, telegram_user_id, telegram_username, sol_address, url, content_type, status,
+          rejection_reason, content_hash, embedding, cached_content, custom_token_name, custom_ticker,
+          published_at, created_at`;
+        db.exec(`
+          CREATE TABLE submissions_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            telegram_user_id TEXT NOT NULL,
+            telegram_username TEXT,
+            sol_address TEXT NOT NULL,
+            url TEXT NOT NULL,
+            content_type TEXT DEFAULT 'other' CHECK(content_type IN ('article', 'tweet', 'youtube', 'tiktok', 'other')),
+            status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'validating', 'approved', 'rejected', 'appealed', 'published')),
+            rejection_reason TEXT,
+            content_hash TEXT,
+            embedding TEXT,
+            cached_content TEXT,
+            custom_token_name TEXT,
+            custom_ticker TEXT,
+            published_at DATETIME,
+            created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+          );
+
+          INSERT INTO submissions_new (${columns})
+            SELECT ${columns} FROM submissions;
+
+          DROP TABLE submissions;
+
+          ALTER TABLE submissions_new RENAME TO submissions;
+
+          CREATE INDEX IF NOT EXISTS idx_submissions_status ON submissions(status);
+          CREATE INDEX IF NOT EXISTS idx_submissions_created_at ON submissions(created_at DESC);
+          CREATE INDEX IF NOT EXISTS idx_submissions_url ON submissions(url);
+          CREATE INDEX IF NOT EXISTS idx_submissions_user ON submissions(telegram_user_id);
+        `);
+      }
+
+      // Appeals against rejected submissions (one per submission)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS submission_appeals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          submission_id INTEGER NOT NULL UNIQUE REFERENCES submissions(id),
+          telegram_user_id TEXT NOT NULL,
+          reason TEXT,
+          status TEXT DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'denied')),
+          reviewed_by TEXT,
+          reviewed_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        CREATE INDEX IF NOT EXISTS idx_submission_appeals_status ON submission_appeals(status, created_at);
+        CREATE INDEX IF NOT EXISTS idx_submission_appeals_user ON submission_appeals(telegram_user_id, created_at DESC);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "approved_backlog",
+    up: (db) => {
+      // Ranked backlog for carry-over of non-selected submissions
+      addColumn(db, "submissions", "newsworthiness_score", "REAL");
+      addColumn(db, "submissions", "queue_score", "REAL");
+      addColumn(db, "submissions", "carryover_count", "INTEGER DEFAULT 0");
+      addColumn(db, "submissions", "approved_at", "DATETIME");
+    },
+  },
+  {
+    version: 5,
+    name: "breaking_headlines",
+    up: (db) => {
+      // Set when a headline is published via the breaking-news fast lane
+      addColumn(db, "headlines", "breaking_at", "DATETIME");
+    },
+  },
+  {
+    version: 6,
+    name: "headline_search",
+    up: (db) => {
+      // Full-text index over headlines (rowid = headlines.id), kept in sync by
+      // triggers so every writer (web, bot, scheduler) stays indexed.
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS headline_search USING fts5(
+          title, mcafee_take, summary, ticker,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        INSERT INTO headline_search (rowid, title, mcafee_take, summary, ticker)
+        SELECT h.id, h.title, h.mcafee_take, h.summary, t.ticker
+        FROM headlines h
+        LEFT JOIN tokens t ON t.id = h.token_id;
+
+        CREATE TRIGGER IF NOT EXISTS headline_search_ai AFTER INSERT ON headlines BEGIN
+          INSERT INTO headline_search (rowid, title, mcafee_take, summary, ticker)
+          VALUES (new.id, new.title, new.mcafee_take, new.summary,
+                  (SELECT ticker FROM tokens WHERE id = new.token_id));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS headline_search_au
+        AFTER UPDATE OF title, mcafee_take, summary, token_id ON headlines BEGIN
+          DELETE FROM headline_search WHERE rowid = old.id;
+          INSERT INTO headline_search (rowid, title, mcafee_take, summary, ticker)
+          VALUES (new.id, new.title, new.mcafee_take, new.summary,
+                  (SELECT ticker FROM tokens WHERE id = new.token_id));
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS headline_search_ad AFTER DELETE ON headlines BEGIN
+          DELETE FROM headline_search WHERE rowid = old.id;
+        END;
+
+        -- Tickers live on tokens; reindex linked headlines when one changes
+        CREATE TRIGGER IF NOT EXISTS headline_search_token_au
+        AFTER UPDATE OF ticker ON tokens BEGIN
+          DELETE FROM headline_search
+          WHERE rowid IN (SELECT id FROM headlines WHERE token_id = new.id);
+          INSERT INTO headline_search (rowid, title, mcafee_take, summary, ticker)
+          SELECT id, title, mcafee_take, summary, new.ticker
+          FROM headlines WHERE token_id = new.id;
+        END;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "headline_archive",
+    up: (db) => {
+      // Rotated-out headlines are archived (hidden from the homepage columns)
+      // instead of deleted, so article links, tokens and votes stay intact
+      addColumn(db, "headlines", "archived_at", "DATETIME");
+    },
+  },
+  {
+    version: 8,
+    name: "story_clusters",
+    up: (db) => {
+      // Developing stories: published headlines grouped by embedding similarity
+      db.exec(`
+        CREATE TABLE story_clusters (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          title TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+      addColumn(db, "headlines", "cluster_id", "INTEGER REFERENCES story_clusters(id)");
+      // Direct link to the source submission (its embedding drives clustering)
+      addColumn(db, "headlines", "submission_id", "INTEGER REFERENCES submissions(id)");
+      // Set when an editor accepts a duplicate-rejected submission as a story update
+      addColumn(db, "submissions", "story_update", "INTEGER DEFAULT 0");
+      db.exec(`
+        CREATE INDEX idx_headlines_cluster_id ON headlines(cluster_id);
+        CREATE INDEX idx_headlines_submission_id ON headlines(submission_id);
+
+        UPDATE headlines
+        SET submission_id = (SELECT submission_id FROM tokens WHERE tokens.id = headlines.token_id)
+        WHERE token_id IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "simulated_chain",
+    up: (db) => {
+      // Fake ledger behind SOLANA_MODE=simulated: balances, signatures,
+      // mints and bonding-curve activity, so nothing touches a live RPC
+      db.exec(`
+        CREATE TABLE sim_accounts (
+          address TEXT PRIMARY KEY,
+          lamports INTEGER NOT NULL DEFAULT 0,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE sim_transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          signature TEXT NOT NULL UNIQUE,
+          kind TEXT NOT NULL,
+          from_address TEXT,
+          to_address TEXT,
+          lamports INTEGER NOT NULL DEFAULT 0,
+          fee_lamports INTEGER NOT NULL DEFAULT 0,
+          mint_address TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE sim_mints (
+          mint_address TEXT PRIMARY KEY,
+          creator TEXT NOT NULL,
+          name TEXT NOT NULL,
+          symbol TEXT NOT NULL,
+          metadata_uri TEXT,
+          bonding_curve TEXT NOT NULL,
+          volume_lamports INTEGER NOT NULL DEFAULT 0,
+          unclaimed_fee_lamports INTEGER NOT NULL DEFAULT 0,
+          last_trade_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_sim_transactions_from ON sim_transactions(from_address);
+        CREATE INDEX idx_sim_transactions_to ON sim_transactions(to_address);
+        CREATE INDEX idx_sim_mints_creator ON sim_mints(creator);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "revenue_ledger",
+    up: (db) => {
+      // Double-entry ledger: every money movement posts a balanced
+      // transaction (entries sum to zero; debits positive, credits negative)
+      db.exec(`
+        CREATE TABLE ledger_accounts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          code TEXT NOT NULL UNIQUE,
+          type TEXT NOT NULL CHECK(type IN ('asset', 'liability', 'revenue', 'expense', 'equity')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE ledger_transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          kind TEXT NOT NULL,
+          reference TEXT NOT NULL,
+          description TEXT,
+          tx_signature TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(kind, reference)
+        );
+
+        CREATE TABLE ledger_entries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          transaction_id INTEGER NOT NULL REFERENCES ledger_transactions(id),
+          account_id INTEGER NOT NULL REFERENCES ledger_accounts(id),
+          amount_lamports INTEGER NOT NULL,
+          token_id INTEGER REFERENCES tokens(id)
+        );
+
+        CREATE TABLE ledger_reconciliations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_code TEXT NOT NULL,
+          ledger_lamports INTEGER NOT NULL,
+          chain_lamports INTEGER NOT NULL,
+          drift_lamports INTEGER NOT NULL,
+          flagged INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_ledger_entries_transaction ON ledger_entries(transaction_id);
+        CREATE INDEX idx_ledger_entries_account ON ledger_entries(account_id);
+        CREATE INDEX idx_ledger_entries_token ON ledger_entries(token_id);
+        CREATE INDEX idx_ledger_reconciliations_account ON ledger_reconciliations(account_code, created_at);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "submitter_payouts",
+    up: (db) => {
+      // Scheduled payout runs: each batch pays several submitters' accrued
+      // balances in one multi-transfer transaction
+      db.exec(`
+        CREATE TABLE payout_batches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tx_signature TEXT,
+          total_lamports INTEGER NOT NULL,
+          recipients_count INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'sent', 'failed')),
+          error_message TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME
+        );
+
+        CREATE TABLE payout_batch_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          batch_id INTEGER NOT NULL REFERENCES payout_batches(id),
+          sol_address TEXT NOT NULL,
+          amount_lamports INTEGER NOT NULL
+        );
+
+        CREATE INDEX idx_payout_batches_status ON payout_batches(status);
+        CREATE INDEX idx_payout_batch_items_batch ON payout_batch_items(batch_id);
+        CREATE INDEX idx_payout_batch_items_address ON payout_batch_items(sol_address);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: "payout_wallets",
+    up: (db) => {
+      // Per-user payout address registered through the bot with a signed
+      // ownership proof; takes over from submissions.sol_address once
+      // effective_at (request time + cooldown) has passed
+      db.exec(`
+        CREATE TABLE payout_wallets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          telegram_user_id TEXT NOT NULL,
+          sol_address TEXT NOT NULL,
+          message TEXT NOT NULL,
+          signature TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'active', 'superseded', 'cancelled')),
+          effective_at DATETIME NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          activated_at DATETIME,
+          cancelled_at DATETIME
+        );
+
+        CREATE INDEX idx_payout_wallets_user ON payout_wallets(telegram_user_id, status);
+        CREATE INDEX idx_payout_wallets_address ON payout_wallets(sol_address);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: "buy_burns",
+    up: (db) => {
+      // Scheduled buy-and-burn runs: SOL from the burn reserve is swapped for
+      // $NEWS (swapped) and the tokens burned (burned). Token amounts are raw
+      // base units of the mint.
+      db.exec(`
+        CREATE TABLE buy_burns (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          adapter TEXT NOT NULL,
+          mint_address TEXT NOT NULL,
+          input_lamports INTEGER NOT NULL,
+          quoted_amount INTEGER NOT NULL,
+          min_amount INTEGER NOT NULL,
+          slippage_bps INTEGER NOT NULL,
+          price_impact_pct REAL NOT NULL DEFAULT 0,
+          bought_amount INTEGER,
+          burned_amount INTEGER,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'swapped', 'burned', 'failed')),
+          swap_tx_signature TEXT,
+          burn_tx_signature TEXT,
+          error_message TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME
+        );
+
+        CREATE INDEX idx_buy_burns_status ON buy_burns(status);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: "transfer_approvals",
+    up: (db) => {
+      // Outbound transfers over the approval threshold (or to a new
+      // destination) parked until enough distinct admins approve them.
+      // transfers_key is the canonical "address:lamports,..." list, so a
+      // caller retrying the same transfer finds its request
+      db.exec(`
+        CREATE TABLE transfer_approvals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          caller TEXT NOT NULL,
+          transfers_key TEXT NOT NULL,
+          transfers TEXT NOT NULL,
+          total_lamports INTEGER NOT NULL,
+          reason TEXT NOT NULL,
+          approvals_required INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'rejected', 'executed', 'expired')),
+          tx_signature TEXT,
+          expires_at DATETIME NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          resolved_at DATETIME,
+          executed_at DATETIME
+        );
+
+        CREATE INDEX idx_transfer_approvals_lookup ON transfer_approvals(caller, transfers_key, status);
+
+        CREATE TABLE transfer_approval_votes (
+          approval_id INTEGER NOT NULL REFERENCES transfer_approvals(id),
+          admin_telegram_id TEXT NOT NULL,
+          decision TEXT NOT NULL CHECK(decision IN ('approve', 'reject')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (approval_id, admin_telegram_id)
+        );
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: "wallet_anomalies",
+    up: (db) => {
+      // Anomalies flagged by the audit-log watcher. subject identifies what
+      // was flagged within a kind (an address, "master", ...) so the same
+      // anomaly is not re-alerted on every check
+      db.exec(`
+        CREATE TABLE wallet_anomalies (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          kind TEXT NOT NULL CHECK(kind IN ('outflow_spike', 'guardrail_blocks', 'shared_payout_address', 'deploy_failures', 'balance_drop')),
+          subject TEXT NOT NULL,
+          message TEXT NOT NULL,
+          froze_wallet INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_wallet_anomalies_subject ON wallet_anomalies(kind, subject, created_at);
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: "wallet_key_versions",
+    up: (db) => {
+      // Version of WALLET_ENCRYPTION_KEY each stored wallet key is encrypted
+      // under. Keys stored before versioning used the only key there was (1)
+      addColumn(db, "deployer_pool", "key_version", "INTEGER NOT NULL DEFAULT 1");
+      addColumn(db, "tokens", "creator_wallet_key_version", "INTEGER NOT NULL DEFAULT 1");
+    },
+  },
+  {
+    version: 17,
+    name: "ingestion_sources",
+    up: (db) => {
+      // RSS/Atom feeds and sitemaps polled for newsroom submissions.
+      // ingested_items remembers every item URL seen (submitted or skipped)
+      // so an item is only ever considered once, whichever feed lists it
+      db.exec(`
+        CREATE TABLE ingestion_sources (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          url TEXT NOT NULL UNIQUE,
+          kind TEXT NOT NULL CHECK(kind IN ('rss', 'atom', 'sitemap')),
+          name TEXT,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          added_by TEXT NOT NULL,
+          last_polled_at DATETIME,
+          last_error TEXT,
+          consecutive_failures INTEGER NOT NULL DEFAULT 0,
+          items_submitted INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE ingested_items (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          source_id INTEGER NOT NULL REFERENCES ingestion_sources(id),
+          item_url TEXT NOT NULL UNIQUE,
+          submission_id INTEGER REFERENCES submissions(id),
+          published_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_ingested_items_source ON ingested_items(source_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: "publish_reviews",
+    up: (db) => {
+      // Editor review of the publishing winner: the generated headline and
+      // token are held here until an editor approves, edits or skips them,
+      // or expires_at passes and they publish as generated. token_name is
+      // NULL when no token was generated (on-chain operations paused or
+      // generation failed)
+      db.exec(`
+        CREATE TABLE publish_reviews (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          submission_id INTEGER NOT NULL REFERENCES submissions(id),
+          headline TEXT NOT NULL,
+          summary TEXT,
+          token_name TEXT,
+          ticker TEXT,
+          token_description TEXT,
+          image_url TEXT,
+          banner_url TEXT,
+          status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'skipped', 'published', 'failed')),
+          edited_by TEXT,
+          decided_by TEXT,
+          decided_at DATETIME,
+          expires_at DATETIME NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_publish_reviews_status ON publish_reviews(status, expires_at);
+        CREATE INDEX idx_publish_reviews_submission ON publish_reviews(submission_id);
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: "headline_revisions",
+    up: (db) => {
+      // Every edit to a published headline (/edit, PATCH /api/headlines).
+      // A NULL new_* column means that field was left unchanged. Corrections
+      // fix a factual error and carry a public note; updates do not
+      db.exec(`
+        CREATE TABLE headline_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          headline_id INTEGER NOT NULL REFERENCES headlines(id),
+          kind TEXT NOT NULL CHECK(kind IN ('update', 'correction')),
+          old_title TEXT,
+          new_title TEXT,
+          old_image_url TEXT,
+          new_image_url TEXT,
+          old_summary TEXT,
+          new_summary TEXT,
+          note TEXT,
+          edited_by TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_headline_revisions_headline ON headline_revisions(headline_id, id);
+      `);
+    },
+  },
+  {
+    version: 20,
+    name: "source_domains",
+    up: (db) => {
+      // Source domain registry: an admin-set trust tier plus validation
+      // outcomes learned per domain. Domains are stored without "www."; a
+      // tier on example.com also covers its subdomains
+      db.exec(`
+        CREATE TABLE source_domains (
+          domain TEXT PRIMARY KEY,
+          tier TEXT NOT NULL DEFAULT 'neutral' CHECK(tier IN ('trusted', 'neutral', 'blocked')),
+          note TEXT,
+          tier_set_by TEXT,
+          tier_set_at DATETIME,
+          approved_count INTEGER NOT NULL DEFAULT 0,
+          rejected_count INTEGER NOT NULL DEFAULT 0,
+          fact_rejections INTEGER NOT NULL DEFAULT 0,
+          stale_rejections INTEGER NOT NULL DEFAULT 0,
+          duplicate_rejections INTEGER NOT NULL DEFAULT 0,
+          blocked_rejections INTEGER NOT NULL DEFAULT 0,
+          last_rejection_reason TEXT,
+          last_seen_at DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_source_domains_tier ON source_domains(tier);
+      `);
+    },
+  },
+  {
+    version: 21,
+    name: "payout_allocation_links",
+    up: (db) => {
+      // Claim allocations record the payout batch that paid them. A batch
+      // item's unallocated_lamports is the part of its payment not yet
+      // matched to an allocation (a capped payout covering part of one);
+      // later payouts to the same address use it up first
+      db.exec(`
+        ALTER TABLE claim_allocations ADD COLUMN payout_batch_id INTEGER REFERENCES payout_batches(id);
+        ALTER TABLE payout_batch_items ADD COLUMN unallocated_lamports INTEGER NOT NULL DEFAULT 0;
+
+        CREATE INDEX idx_claim_allocations_payout_batch ON claim_allocations(payout_batch_id);
+      `);
+    },
+  },
+];
+
+/** The schema version this build of the code expects. */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+/**
+ * Run fn with foreign key enforcement off, restoring the previous setting
+ * afterwards. The pragma is a no-op inside a transaction, so this has to
+ * wrap the transaction rather than run inside it.
+ */
+function withForeignKeysOff<T>(enabled: boolean, fn: () => T): T {
+  if (!enabled) return fn();
+  const previous = db.pragma("foreign_keys", { simple: true });
+  db.pragma("foreign_keys = OFF");
+  try {
+    return fn();
+  } finally {
+    db.pragma(`foreign_keys = ${previous ? "ON" : "OFF"}`);
+  }
+}
+
+/**
+ * Throw if any row references a missing parent (checked after a migration
+ * ran with foreign keys off).
+ */
+function assertForeignKeys(): void {
+  const violations = db.pragma("foreign_key_check") as { table: string; rowid: number; parent: string }[];
+  if (violations.length === 0) return;
+  const first = violations[0];
+  throw new Error(
+    `${violations.length} foreign key violation(s), e.g. ${first.table} row ${first.rowid} references a missing ${first.parent} row`
+  );
+}
+
+function ensureMigrationsTable(): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/**
+ * Get all applied migrations, oldest first.
+ */
+export function getAppliedMigrations(): AppliedMigration[] {
+  ensureMigrationsTable();
+  return db
+    .prepare(`SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC`)
+    .all() as AppliedMigration[];
+}
+
+/**
+ * Current database schema version (0 if no migrations have been applied).
+ */
+export function getSchemaVersion(): number {
+  ensureMigrationsTable();
+  const row = db.prepare(`SELECT MAX(version) as version FROM schema_migrations`).get() as {
+    version: number | null;
+  };
+  return row.version ?? 0;
+}
+
+/**
+ * Migrations defined in code but not yet applied to the database.
+ */
+export function getPendingMigrations(): Migration[] {
+  const applied = new Set(getAppliedMigrations().map((m) => m.version));
+  return MIGRATIONS.filter((m) => !applied.has(m.version));
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction. Stops at
+ * the first failure; earlier migrations stay applied.
+ *
+ * With dryRun, every pending migration runs inside one outer transaction
+ * (so SQL errors surface) which is then rolled back.
+ */
+export function applyMigrations(options: { dryRun?: boolean } = {}): Migration[] {
+  const pending = getPendingMigrations();
+  const record = db.prepare(`INSERT INTO schema_migrations (version, name) VALUES (?, ?)`);
+
+  const applyOne = (migration: Migration): void => {
+    try {
+      withForeignKeysOff(!!migration.disableForeignKeys, () =>
+        db.transaction(() => {
+          migration.up(db);
+          if (migration.disableForeignKeys) assertForeignKeys();
+          record.run(migration.version, migration.name);
+        })()
+      );
+    } catch (error) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    console.log(
+      `[Migrations] ${options.dryRun ? "Dry run OK" : "Applied"} ${migration.version} (${migration.name})`
+    );
+  };
+
+  if (!options.dryRun) {
+    pending.forEach(applyOne);
+    return pending;
+  }
+
+  try {
+    withForeignKeysOff(pending.some((m) => m.disableForeignKeys), () =>
+      db.transaction(() => {
+        pending.forEach(applyOne);
+        throw new DryRunRollback();
+      })()
+    );
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) throw error;
+  }
+  return pending;
+}
+
+/** Thrown inside a dry-run transaction to roll it back. */
+class DryRunRollback extends Error {}
+
+/**
+ * Startup check: throws unless the database is at exactly SCHEMA_VERSION.
+ * Called by the web app (instrumentation.ts), bot and scheduler before they
+ * touch the database.
+ */
+export function assertSchemaVersion(): void {
+  const current = getSchemaVersion();
+  if (current === SCHEMA_VERSION) return;
+
+  if (current < SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema is at version ${current}, code expects ${SCHEMA_VERSION}. ` +
+      `Run \`npm run migrate\` to apply ${SCHEMA_VERSION - current} pending migration(s).`
+    );
+  }
+
+  throw new Error(
+    `Database schema is at version ${current}, newer than this code (${SCHEMA_VERSION}). ` +
+    `Deploy the matching code version instead of running against a newer database.`
+  );
+}
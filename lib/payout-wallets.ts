@@ -0,0 +1,237 @@
+/**
+ * Payout Wallets — let submitters move their payouts to a wallet they prove
+ * they own.
+ *
+ * Each submission carries the sol_address typed at /submit time. With the
+ * bot's /wallet command a Telegram user registers one payout address for
+ * everything they have launched:
+ * 1. The bot issues a challenge naming the user and the address.
+ * 2. The user signs it with that wallet ("Sign message" in Phantom,
+ *    Solflare, Backpack…) and pastes the base58 signature back.
+ * 3. The ed25519 signature is checked against the address and the change is
+ *    scheduled PAYOUT_WALLET_COOLDOWN_HOURS ahead. Admins are notified, so a
+ *    hijacked Telegram account can be caught before any SOL moves.
+ *
+ * Distribution resolves the recipient at payment time (resolvePayoutAddress),
+ * so every claim and revenue share after the cooldown goes to the new wallet.
+ * activateDuePayoutWallets() then moves whatever the user's old addresses
+ * were still owed onto the new one — only for addresses no other user has
+ * submitted with or registered.
+ */
+
+import crypto from "crypto";
+import bs58 from "bs58";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { isValidSolanaAddress } from "./solana-wallet";
+import {
+  activatePayoutWallet,
+  cancelScheduledPayoutWallet,
+  createPayoutWallet,
+  getDuePayoutWallets,
+  getEffectivePayoutWallet,
+  getPayoutAddressUsers,
+  getScheduledPayoutWallet,
+  getSubmissionById,
+  getUserPayoutAddresses,
+} from "./db";
+import { getLedgerAccountBalance, recordPayableTransfer, submitterPayableAccount } from "./ledger";
+import { notifyAdmins, notifySubmitterPayoutWalletActive } from "./telegram-notifier";
+import type { PayoutWallet, Token } from "./types";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Hours between a verified registration and the wallet receiving payouts. */
+export function getPayoutWalletCooldownHours(): number {
+  const raw = parseFloat(process.env.PAYOUT_WALLET_COOLDOWN_HOURS || "48");
+  return isNaN(raw) || raw < 0 ? 48 : raw;
+}
+
+/** How long a challenge can be signed before it must be reissued. */
+const CHALLENGE_TTL_MS = 15 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Ownership proof
+// ---------------------------------------------------------------------------
+
+export interface PayoutWalletChallenge {
+  address: string;
+  message: string;
+  /** Epoch ms after which the challenge is rejected. */
+  expiresAt: number;
+}
+
+/**
+ * Build the message a user must sign with `address` to register it.
+ */
+export function createPayoutWalletChallenge(telegramUserId: string, address: string): PayoutWalletChallenge {
+  const message = [
+    "The McAfee Report payout wallet",
+    "",
+    `Send my submitter payouts to: ${address}`,
+    `Telegram user: ${telegramUserId}`,
+    `Nonce: ${crypto.randomBytes(16).toString("hex")}`,
+    `Issued: ${new Date().toISOString()}`,
+  ].join("\n");
+
+  return { address, message, expiresAt: Date.now() + CHALLENGE_TTL_MS };
+}
+
+/**
+ * Check a base58 ed25519 signature of `message` made by `address`.
+ */
+export function verifyWalletSignature(address: string, message: string, signature: string): boolean {
+  try {
+    const publicKey = bs58.decode(address);
+    const signatureBytes = bs58.decode(signature.trim());
+    if (publicKey.length !== 32 || signatureBytes.length !== 64) return false;
+
+    const key = crypto.createPublicKey({
+      key: { kty: "OKP", crv: "Ed25519", x: Buffer.from(publicKey).toString("base64url") },
+      format: "jwk",
+    });
+    return crypto.verify(null, Buffer.from(message, "utf8"), key, signatureBytes);
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify a signed challenge and schedule the wallet change.
+ * Replaces any change of the user still in its cooldown.
+ */
+export function registerPayoutWallet(
+  telegramUserId: string,
+  challenge: PayoutWalletChallenge,
+  signature: string
+): { success: boolean; wallet?: PayoutWallet; error?: string } {
+  if (Date.now() > challenge.expiresAt) {
+    return { success: false, error: "This challenge has expired. Start again with /wallet <address>." };
+  }
+
+  if (!isValidSolanaAddress(challenge.address)) {
+    return { success: false, error: "Invalid Solana address." };
+  }
+
+  if (!verifyWalletSignature(challenge.address, challenge.message, signature)) {
+    return { success: false, error: "Signature does not match the wallet. Sign the exact message and paste the base58 signature." };
+  }
+
+  const current = getEffectivePayoutWallet(telegramUserId);
+  const scheduled = getScheduledPayoutWallet(telegramUserId);
+  if (current?.sol_address === challenge.address && !scheduled) {
+    return { success: false, error: "That wallet is already your payout wallet." };
+  }
+
+  const wallet = createPayoutWallet(
+    telegramUserId,
+    challenge.address,
+    challenge.message,
+    signature.trim(),
+    getPayoutWalletCooldownHours()
+  );
+  console.log(
+    `[PayoutWallets] User ${telegramUserId} registered ${wallet.sol_address} (effective ${wallet.effective_at} UTC)`
+  );
+  return { success: true, wallet };
+}
+
+/**
+ * Cancel a wallet change that is still in its cooldown.
+ */
+export function cancelPayoutWalletChange(telegramUserId: string): PayoutWallet | undefined {
+  const cancelled = cancelScheduledPayoutWallet(telegramUserId);
+  if (cancelled) {
+    console.log(`[PayoutWallets] User ${telegramUserId} cancelled change to ${cancelled.sol_address}`);
+  }
+  return cancelled;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * The address a token's submitter share should be paid to right now: the
+ * submitter's effective payout wallet, else the address on the submission.
+ */
+export function resolvePayoutAddress(token: Token): string {
+  if (token.submission_id) {
+    const submission = getSubmissionById(token.submission_id);
+    if (submission) {
+      const wallet = getEffectivePayoutWallet(submission.telegram_user_id);
+      if (wallet) return wallet.sol_address;
+    }
+  }
+  return token.deployer_sol_address;
+}
+
+// ---------------------------------------------------------------------------
+// Activation
+// ---------------------------------------------------------------------------
+
+/**
+ * Activate every registration whose cooldown has passed and move what the
+ * user's previous addresses are still owed onto the new wallet. Addresses
+ * shared with another user keep their balance (it is not provably theirs).
+ *
+ * Must not run while a payout batch is unresolved — settling it later would
+ * debit a payable that has already been moved.
+ */
+export async function activateDuePayoutWallets(): Promise<{ activated: number; movedLamports: number }> {
+  let activated = 0;
+  let movedLamports = 0;
+
+  for (const wallet of getDuePayoutWallets()) {
+    if (!activatePayoutWallet(wallet.id)) continue;
+    activated++;
+
+    let moved = 0;
+    const kept: string[] = [];
+    for (const address of getUserPayoutAddresses(wallet.telegram_user_id)) {
+      if (address === wallet.sol_address) continue;
+
+      const owed = getLedgerAccountBalance(submitterPayableAccount(address));
+      if (owed <= 0) continue;
+
+      const users = getPayoutAddressUsers(address);
+      if (users.length !== 1 || users[0] !== wallet.telegram_user_id) {
+        kept.push(address);
+        continue;
+      }
+
+      const posted = recordPayableTransfer(
+        `payout_wallet:${wallet.id}:${address}`,
+        address,
+        wallet.sol_address,
+        owed
+      );
+      if (posted !== null) moved += owed;
+    }
+    movedLamports += moved;
+
+    console.log(
+      `[PayoutWallets] Activated #${wallet.id} for user ${wallet.telegram_user_id}: ${wallet.sol_address}` +
+      (moved > 0 ? ` (moved ${moved / LAMPORTS_PER_SOL} SOL owed)` : "")
+    );
+
+    let message =
+      `Payout wallet #${wallet.id} is now active for user ${wallet.telegram_user_id}\n` +
+      `Wallet: ${wallet.sol_address}`;
+    if (moved > 0) message += `\nMoved ${moved / LAMPORTS_PER_SOL} SOL owed from earlier addresses`;
+    if (kept.length > 0) message += `\nShared addresses kept their balance: ${kept.join(", ")}`;
+    await notifyAdmins(message);
+    await notifySubmitterPayoutWalletActive({
+      telegramUserId: wallet.telegram_user_id,
+      solAddress: wallet.sol_address,
+      movedLamports: moved,
+    });
+  }
+
+  return { activated, movedLamports };
+}
@@ -22,7 +22,7 @@ import {
   markPoolWalletSwept,
   resetStaleReservations,
 } from "./db";
-import { encryptPrivateKey } from "./secrets-provider";
+import { decryptWalletKey, encryptWalletKey } from "./secrets-provider";
 import {
   getConnection,
 } from "./solana-wallet";
@@ -32,10 +32,14 @@ import {
   checkOperation,
 } from "./secure-wallet";
 import { confirmTransactionPolling } from "./solana-wallet";
+import { getPausedError } from "./emergency-pause";
+import { isSimulatedSolana, getSimulatedBalance, simulateTransfer } from "./solana-sim";
 import {
+  PublicKey,
   Transaction,
   SystemProgram,
 } from "@solana/web3.js";
+import { recordPoolFunding, recordPoolSweep } from "./ledger";
 import type { PoolWallet, PoolStats } from "./types";
 
 // Funding amount per pool wallet (same as EPHEMERAL_FUND_SOL in pump-deployer)
@@ -68,13 +72,17 @@ export async function fundPoolWallets(
 ): Promise<FundResult> {
   const result: FundResult = { funded: 0, failed: 0, totalSolSpent: 0, errors: [] };
 
-  const encryptionKey = process.env.WALLET_ENCRYPTION_KEY;
-  if (!encryptionKey) {
+  const pausedError = getPausedError();
+  if (pausedError) {
+    result.errors.push(pausedError);
+    return result;
+  }
+
+  if (!process.env.WALLET_ENCRYPTION_KEY) {
     result.errors.push("WALLET_ENCRYPTION_KEY not set — cannot encrypt pool wallet keys");
     return result;
   }
 
-  const connection = getConnection();
   const masterWallet = secureGetWallet("pool-manager:fund");
 
   // Check master wallet balance upfront
@@ -117,36 +125,14 @@ export async function fundPoolWallets(
       }
 
       // Transfer SOL from master wallet
-      const tx = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: masterWallet.publicKey,
-          toPubkey: wallet.publicKey,
-          lamports: POOL_FUND_LAMPORTS,
-        })
-      );
-
-      const { blockhash, lastValidBlockHeight } =
-        await connection.getLatestBlockhash("confirmed");
-      tx.recentBlockhash = blockhash;
-      tx.feePayer = masterWallet.publicKey;
-      tx.sign(masterWallet);
-
-      const signature = await connection.sendRawTransaction(tx.serialize(), {
-        skipPreflight: false,
-        preflightCommitment: "confirmed",
-      });
-
-      await confirmTransactionPolling(
-        connection,
-        signature,
-        blockhash,
-        lastValidBlockHeight,
-        "confirmed"
-      );
+      const signature = isSimulatedSolana()
+        ? await simulateTransfer(masterWallet.publicKey.toBase58(), address, POOL_FUND_LAMPORTS)
+        : await sendFunding(masterWallet, wallet.publicKey, POOL_FUND_LAMPORTS);
 
       // Encrypt and store
-      const encryptedKey = encryptPrivateKey(base58Key, encryptionKey);
-      addPoolWallet(address, encryptedKey, POOL_FUND_LAMPORTS);
+      const { encrypted, keyVersion } = encryptWalletKey(base58Key);
+      addPoolWallet(address, encrypted, keyVersion, POOL_FUND_LAMPORTS);
+      recordPoolFunding(address, POOL_FUND_LAMPORTS, signature);
 
       result.funded++;
       result.totalSolSpent += POOL_FUND_SOL;
@@ -187,8 +173,13 @@ export async function sweepPoolWallets(
 ): Promise<SweepResult> {
   const result: SweepResult = { swept: 0, failed: 0, totalSolRecovered: 0, errors: [] };
 
-  const encryptionKey = process.env.WALLET_ENCRYPTION_KEY;
-  if (!encryptionKey) {
+  const pausedError = getPausedError();
+  if (pausedError) {
+    result.errors.push(pausedError);
+    return result;
+  }
+
+  if (!process.env.WALLET_ENCRYPTION_KEY) {
     result.errors.push("WALLET_ENCRYPTION_KEY not set — cannot decrypt pool wallet keys");
     return result;
   }
@@ -223,12 +214,13 @@ export async function sweepPoolWallets(
   for (const poolWallet of wallets) {
     try {
       // Decrypt the private key
-      const { decryptPrivateKey } = await import("./secrets-provider");
-      const base58Key = decryptPrivateKey(poolWallet.encrypted_key, encryptionKey);
+      const base58Key = decryptWalletKey(poolWallet.encrypted_key, poolWallet.key_version);
       const wallet = Keypair.fromSecretKey(bs58.decode(base58Key));
 
       // Check on-chain balance
-      const balance = await connection.getBalance(wallet.publicKey);
+      const balance = isSimulatedSolana()
+        ? getSimulatedBalance(poolWallet.address)
+        : await connection.getBalance(wallet.publicKey);
       const fee = 5_000; // standard transaction fee
       const sweepAmount = balance - fee;
 
@@ -254,34 +246,12 @@ export async function sweepPoolWallets(
       }
 
       // Build and send sweep transaction
-      const tx = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: wallet.publicKey,
-          toPubkey: masterPubkey,
-          lamports: sweepAmount,
-        })
-      );
-
-      const { blockhash, lastValidBlockHeight } =
-        await connection.getLatestBlockhash("confirmed");
-      tx.recentBlockhash = blockhash;
-      tx.feePayer = wallet.publicKey;
-      tx.sign(wallet);
-
-      const signature = await connection.sendRawTransaction(tx.serialize(), {
-        skipPreflight: false,
-        preflightCommitment: "confirmed",
-      });
-
-      await confirmTransactionPolling(
-        connection,
-        signature,
-        blockhash,
-        lastValidBlockHeight,
-        "confirmed"
-      );
+      const signature = isSimulatedSolana()
+        ? await simulateTransfer(poolWallet.address, masterPubkey.toBase58(), sweepAmount)
+        : await sendFunding(wallet, masterPubkey, sweepAmount);
 
       markPoolWalletSwept(poolWallet.id);
+      recordPoolSweep(poolWallet.address, sweepAmount, signature);
       result.swept++;
       result.totalSolRecovered += solAmount;
       console.log(
@@ -301,6 +271,47 @@ export async function sweepPoolWallets(
   return result;
 }
 
+/**
+ * Send a plain SOL transfer signed and paid for by `from`.
+ * Returns the confirmed transaction signature.
+ */
+async function sendFunding(
+  from: Keypair,
+  toPubkey: PublicKey,
+  lamports: number
+): Promise<string> {
+  const connection = getConnection();
+
+  const tx = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: from.publicKey,
+      toPubkey,
+      lamports,
+    })
+  );
+
+  const { blockhash, lastValidBlockHeight } =
+    await connection.getLatestBlockhash("confirmed");
+  tx.recentBlockhash = blockhash;
+  tx.feePayer = from.publicKey;
+  tx.sign(from);
+
+  const signature = await connection.sendRawTransaction(tx.serialize(), {
+    skipPreflight: false,
+    preflightCommitment: "confirmed",
+  });
+
+  await confirmTransactionPolling(
+    connection,
+    signature,
+    blockhash,
+    lastValidBlockHeight,
+    "confirmed"
+  );
+
+  return signature;
+}
+
 /**
  * Get current pool stats (convenience re-export for scripts).
  */
@@ -0,0 +1,249 @@
+/**
+ * Publish Review — optional editor sign-off on each publishing winner.
+ *
+ * With editor review on (/review on in the bot), publishApprovedBatch no
+ * longer publishes its AI-selected winner straight away. It generates the
+ * headline and token (name, ticker, image) as usual, stores them in
+ * publish_reviews and sends them to every editor (admins and whitelisted
+ * users) with Approve / Edit / Skip buttons:
+ *   - Approve publishes the draft as shown within a minute (fast-lane cycle)
+ *   - Edit replaces the headline, token name or ticker, then asks again
+ *   - Skip rejects the submission (the submitter can appeal)
+ * If no editor decides within EDITOR_REVIEW_TIMEOUT_MINUTES, the draft
+ * publishes as generated. While a review is open no new winner is picked, so
+ * the publishing cadence is unchanged. Breaking-news fast-lane publishes are
+ * not held for review.
+ *
+ * Configuration via environment variables:
+ *   EDITOR_REVIEW_TIMEOUT_MINUTES – Time editors have before auto-publish (default: 20)
+ */
+
+import {
+  createPublishReview,
+  decidePublishReview,
+  editPublishReview,
+  getOpenPublishReviews,
+  getPublishReviewById,
+  getSetting,
+  getSubmissionById,
+  getWhitelist,
+  setSetting,
+  tickerExists,
+  updateSubmissionStatus,
+} from "./db";
+import { notifyEditorsPublishReview, notifySubmitterRejected } from "./telegram-notifier";
+import type { PublishDraft, PublishReview, Submission } from "./types";
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const REVIEW_SETTING = "editor_review";
+
+export function isEditorReviewEnabled(): boolean {
+  return getSetting(REVIEW_SETTING) === "on";
+}
+
+export function setEditorReviewEnabled(enabled: boolean): void {
+  setSetting(REVIEW_SETTING, enabled ? "on" : "off");
+}
+
+export function getReviewTimeoutMinutes(): number {
+  const raw = parseInt(process.env.EDITOR_REVIEW_TIMEOUT_MINUTES || "20", 10);
+  return isNaN(raw) || raw < 1 ? 20 : Math.min(raw, 720);
+}
+
+/** Admins and whitelisted users. */
+function getEditorIds(): string[] {
+  const adminIds = (process.env.ADMIN_TELEGRAM_IDS || "").split(",").filter(Boolean);
+  const whitelisted = getWhitelist().map((user) => user.telegram_id);
+  return Array.from(new Set([...adminIds, ...whitelisted]));
+}
+
+// ---------------------------------------------------------------------------
+// Requesting a review (called by the scheduler)
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a review is still holding the publishing slot.
+ */
+export function hasOpenPublishReview(): boolean {
+  return getOpenPublishReviews().length > 0;
+}
+
+/**
+ * Hold a publishing winner for editor review and ask the editors.
+ */
+export async function requestPublishReview(
+  submission: Submission,
+  draft: PublishDraft
+): Promise<PublishReview> {
+  const token = draft.tokenMetadata;
+  const review = createPublishReview({
+    submissionId: submission.id,
+    headline: draft.headline,
+    summary: draft.tweetSummary,
+    tokenName: token?.name ?? null,
+    ticker: token?.ticker ?? null,
+    tokenDescription: token?.description ?? null,
+    imageUrl: token?.imageUrl ?? null,
+    bannerUrl: token?.bannerUrl ?? null,
+    timeoutMinutes: getReviewTimeoutMinutes(),
+  });
+  console.log(`[PublishReview] Submission #${submission.id} held for editor review (#${review.id})`);
+
+  await notifyEditorsPublishReview(
+    getEditorIds(),
+    review.id,
+    `*Next story — editor review*\n─────────────────────\n\n${formatPublishReview(review)}`
+  );
+
+  return review;
+}
+
+// ---------------------------------------------------------------------------
+// Decisions (called by the bot)
+// ---------------------------------------------------------------------------
+
+/**
+ * Approve or skip a pending review. Skipping rejects the submission and
+ * tells the submitter, who can appeal.
+ */
+export async function decideOnPublishReview(
+  reviewId: number,
+  editorTelegramId: string,
+  decision: "approve" | "skip"
+): Promise<{ success: boolean; review?: PublishReview; error?: string }> {
+  const review = decidePublishReview(reviewId, decision === "approve" ? "approved" : "skipped", editorTelegramId);
+  if (!review) {
+    const existing = getPublishReviewById(reviewId);
+    return {
+      success: false,
+      review: existing,
+      error: existing ? `Review #${reviewId} is already ${existing.status}.` : "Review not found.",
+    };
+  }
+
+  console.log(`[PublishReview] Editor ${editorTelegramId} ${decision === "approve" ? "approved" : "skipped"} #${reviewId}`);
+
+  if (decision === "skip") {
+    const reason = "Skipped by an editor";
+    const submission = getSubmissionById(review.submission_id);
+    if (submission && updateSubmissionStatus(submission.id, "rejected", reason)) {
+      notifySubmitterRejected({
+        telegramUserId: submission.telegram_user_id,
+        submissionId: submission.id,
+        url: submission.url,
+        rejectionReason: reason,
+      }).catch((err) =>
+        console.warn(`[PublishReview] Failed to notify submitter of #${submission.id}:`, err)
+      );
+    }
+  }
+
+  return { success: true, review };
+}
+
+/**
+ * Parse an editor's edit message: one "field: value" per line, fields
+ * headline, name and ticker.
+ */
+export function parseReviewEdit(text: string): { headline?: string; tokenName?: string; ticker?: string } {
+  const changes: { headline?: string; tokenName?: string; ticker?: string } = {};
+  for (const line of text.split("\n")) {
+    const match = line.match(/^\s*(headline|name|ticker)\s*:\s*(.+)$/i);
+    if (!match) continue;
+    const value = match[2].trim();
+    const field = match[1].toLowerCase();
+    if (field === "headline") changes.headline = value;
+    else if (field === "name") changes.tokenName = value;
+    else changes.ticker = value.toUpperCase().replace(/^\$/, "");
+  }
+  return changes;
+}
+
+/**
+ * Apply an editor's changes to a pending review. Token names and tickers
+ * follow the /submit rules.
+ */
+export function applyReviewEdit(
+  reviewId: number,
+  editorTelegramId: string,
+  changes: { headline?: string; tokenName?: string; ticker?: string }
+): { success: boolean; review?: PublishReview; error?: string } {
+  if (!changes.headline && !changes.tokenName && !changes.ticker) {
+    return { success: false, error: "Nothing to change. Send lines like `headline: ...`, `name: ...`, `ticker: ...`" };
+  }
+  if (changes.headline !== undefined && (changes.headline.length < 10 || changes.headline.length > 200)) {
+    return { success: false, error: "Headline must be 10-200 characters." };
+  }
+  if (changes.tokenName !== undefined && (changes.tokenName.length < 1 || changes.tokenName.length > 30)) {
+    return { success: false, error: "Token name must be 1-30 characters." };
+  }
+  if (changes.ticker !== undefined) {
+    if (!/^[A-Z]{3,8}$/.test(changes.ticker)) {
+      return { success: false, error: "Ticker must be 3-8 uppercase letters (A-Z only)." };
+    }
+    if (tickerExists(changes.ticker)) {
+      return { success: false, error: `Ticker ${changes.ticker} is already taken.` };
+    }
+  }
+
+  const existing = getPublishReviewById(reviewId);
+  if (existing && !existing.token_name && (changes.tokenName || changes.ticker)) {
+    return { success: false, error: "This story publishes without a token; only the headline can change." };
+  }
+
+  const review = editPublishReview(reviewId, changes, editorTelegramId);
+  if (!review) {
+    return {
+      success: false,
+      review: existing,
+      error: existing ? `Review #${reviewId} is already ${existing.status}.` : "Review not found.",
+    };
+  }
+
+  console.log(`[PublishReview] Editor ${editorTelegramId} edited #${reviewId}`);
+  return { success: true, review };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/** Strip legacy-Markdown control characters from generated text. */
+function plain(text: string): string {
+  return text.replace(/[_*`[\]]/g, "");
+}
+
+/**
+ * Telegram (legacy Markdown) summary of a review.
+ */
+export function formatPublishReview(review: PublishReview): string {
+  const submission = getSubmissionById(review.submission_id);
+
+  let msg = `*Review #${review.id}* — submission \`#${review.submission_id}\`\n\n`;
+  msg += `*${plain(review.headline)}*\n`;
+  if (submission) {
+    msg += `${plain(submission.url)}\n`;
+  }
+  msg += `\n`;
+
+  if (review.token_name && review.ticker) {
+    msg += `Token: ${plain(review.token_name)} ($${review.ticker})\n`;
+    if (review.image_url) {
+      const imageUrl = review.image_url.startsWith("/") ? `${SITE_URL}${review.image_url}` : review.image_url;
+      msg += `Image: ${plain(imageUrl)}\n`;
+    }
+  } else {
+    msg += `Token: none (publishes without a token)\n`;
+  }
+
+  if (review.edited_by) {
+    msg += `Edited by ${review.edited_by}\n`;
+  }
+  msg += `_Publishes as shown at ${review.expires_at} UTC unless skipped_`;
+  return msg;
+}
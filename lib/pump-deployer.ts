@@ -36,6 +36,13 @@ import {
   getSetting,
 } from "./db";
 import { persistImage } from "./image-store";
+import { recordDeployCost } from "./ledger";
+import { getPausedError } from "./emergency-pause";
+import {
+  isSimulatedSolana,
+  simulateCreateToken,
+  getSimulatedMint,
+} from "./solana-sim";
 import type { TokenMetadata } from "./types";
 
 // Pump.fun API endpoints
@@ -483,6 +490,11 @@ export async function deployToken(
     `[PumpDeployer] Starting deployment for "${metadata.name}" (${metadata.ticker})`
   );
 
+  const pausedError = getPausedError();
+  if (pausedError) {
+    return { success: false, error: pausedError };
+  }
+
   try {
     const connection = getConnection();
     const masterWallet = secureGetWallet("pump-deployer");
@@ -541,8 +553,9 @@ export async function deployToken(
       persistedBannerUrl = persistedImageUrl;
     }
 
-    // Generate mint keypair (parallel vanity grind)
-    const mintKeypair = await generateMintKeypair();
+    // Generate mint keypair (parallel vanity grind; skipped when simulated)
+    const simulated = isSimulatedSolana();
+    const mintKeypair = simulated ? Keypair.generate() : await generateMintKeypair();
     const mintAddress = mintKeypair.publicKey.toBase58();
     console.log(`[PumpDeployer] Generated mint address: ${mintAddress}`);
 
@@ -552,13 +565,15 @@ export async function deployToken(
     const imageUrlForUpload = persistedImageUrl;
 
     // Upload metadata to IPFS (with retry)
-    const metadataUri = await uploadMetadataWithRetry(
-      metadata.name,
-      metadata.ticker,
-      description,
-      imageUrlForUpload,
-      sourceUrl
-    );
+    const metadataUri = simulated
+      ? `sim://metadata/${mintAddress}`
+      : await uploadMetadataWithRetry(
+          metadata.name,
+          metadata.ticker,
+          description,
+          imageUrlForUpload,
+          sourceUrl
+        );
 
     if (!metadataUri) {
       return {
@@ -576,32 +591,43 @@ export async function deployToken(
     }
 
     // Deploy directly from master wallet — no ephemeral wallet needed
+    const balanceBefore = await secureGetBalance("pump-deployer:before");
     let signature: string;
-    try {
-      const result = await createTokenViaPumpPortal(
-        connection,
-        masterWallet,
-        mintKeypair,
-        metadataUri,
-        metadata.name,
-        metadata.ticker,
-        mayhemEnabled
-      );
-      signature = result.signature;
-    } catch (portalError) {
-      console.warn(
-        `[PumpDeployer] PumpPortal failed, trying direct method:`,
-        portalError
-      );
-      const result = await createTokenDirect(
-        connection,
-        masterWallet,
-        mintKeypair,
+    if (simulated) {
+      signature = await simulateCreateToken(
+        masterWallet.publicKey.toBase58(),
+        mintAddress,
         metadata.name,
         metadata.ticker,
         metadataUri
       );
-      signature = result.signature;
+    } else {
+      try {
+        const result = await createTokenViaPumpPortal(
+          connection,
+          masterWallet,
+          mintKeypair,
+          metadataUri,
+          metadata.name,
+          metadata.ticker,
+          mayhemEnabled
+        );
+        signature = result.signature;
+      } catch (portalError) {
+        console.warn(
+          `[PumpDeployer] PumpPortal failed, trying direct method:`,
+          portalError
+        );
+        const result = await createTokenDirect(
+          connection,
+          masterWallet,
+          mintKeypair,
+          metadata.name,
+          metadata.ticker,
+          metadataUri
+        );
+        signature = result.signature;
+      }
     }
 
     // Create token record in database AFTER on-chain success
@@ -619,6 +645,13 @@ export async function deployToken(
 
     console.log(`[PumpDeployer] Created token record #${tokenRecord.id}`);
 
+    // Book the actual SOL spent (create + rent + priority fees) in the ledger
+    const balanceAfter = await secureGetBalance("pump-deployer:after");
+    const deployCostLamports = balanceBefore.lamports - balanceAfter.lamports;
+    if (deployCostLamports > 0) {
+      recordDeployCost(mintAddress, deployCostLamports, signature, tokenRecord.id);
+    }
+
     // Link to headline if provided
     if (headlineId) {
       linkTokenToHeadline(tokenRecord.id, headlineId);
@@ -677,6 +710,13 @@ export async function getTokenInfo(
   marketCap?: number;
   volume24h?: number;
 }> {
+  if (isSimulatedSolana()) {
+    const mint = getSimulatedMint(mintAddress);
+    return mint
+      ? { exists: true, volume24h: mint.volume_lamports / LAMPORTS_PER_SOL }
+      : { exists: false };
+  }
+
   for (const baseUrl of PUMP_COIN_API_URLS) {
     try {
       const controller = new AbortController();
@@ -724,15 +764,18 @@ export async function checkDeploymentConfig(): Promise<{
     );
   }
 
-  if (!process.env.SOLANA_RPC_URL) {
-    issues.push("SOLANA_RPC_URL not set (using default mainnet)");
-  }
+  // Simulated mode never touches the RPC
+  if (!isSimulatedSolana()) {
+    if (!process.env.SOLANA_RPC_URL) {
+      issues.push("SOLANA_RPC_URL not set (using default mainnet)");
+    }
 
-  try {
-    const connection = getConnection();
-    await connection.getLatestBlockhash();
-  } catch {
-    issues.push("Cannot connect to Solana RPC");
+    try {
+      const connection = getConnection();
+      await connection.getLatestBlockhash();
+    } catch {
+      issues.push("Cannot connect to Solana RPC");
+    }
   }
 
   if (issues.length === 0) {
@@ -0,0 +1,105 @@
+/**
+ * Submitter Reputation — a 0-100 score per Telegram user from their track
+ * record, computed on demand.
+ *
+ * The score blends four parts, each a smoothed ratio so that a user with no
+ * history sits at the neutral 50:
+ *   - outcomes    (50%) – published vs rejected at validation
+ *   - originality (15%) – submissions not flagged as duplicates
+ *   - votes       (20%) – WAGMI share of votes on their published headlines
+ *   - tokens      (15%) – creator fees per token vs the site-wide average
+ *
+ * It scales the hourly submission limit (half the base limit at 25, double
+ * at 100) and is a tie-breaker when the AI picks each window's winner.
+ * Shown in /mystatus and on the leaderboard.
+ *
+ * Configuration via environment variables:
+ *   SUBMISSION_LIMIT_PER_HOUR – Hourly submission limit at reputation 50 (default: 5)
+ */
+
+import { getAverageTokenFeeLamports, getReputationStats } from "./db";
+import type { UserReputation } from "./types";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const WEIGHTS = { outcomes: 0.5, originality: 0.15, votes: 0.2, tokens: 0.15 };
+
+/** The score at which a user gets exactly the base limit. */
+const NEUTRAL_SCORE = 50;
+
+function getBaseSubmissionLimit(): number {
+  const raw = parseInt(process.env.SUBMISSION_LIMIT_PER_HOUR || "5", 10);
+  return isNaN(raw) || raw < 1 ? 5 : Math.min(raw, 100);
+}
+
+// ---------------------------------------------------------------------------
+// Score
+// ---------------------------------------------------------------------------
+
+/** (good + 1) / (all + 2): 0.5 with no history, approaching the raw ratio. */
+function smoothedRatio(good: number, all: number): number {
+  return (good + 1) / (all + 2);
+}
+
+/**
+ * Compute a user's reputation. Pass the site-wide average fee per token when
+ * scoring many users at once to avoid recomputing it.
+ */
+export function getUserReputation(telegramUserId: string, averageTokenFeeLamports?: number): UserReputation {
+  const stats = getReputationStats(telegramUserId);
+  const averageFee = averageTokenFeeLamports ?? getAverageTokenFeeLamports();
+
+  const outcomes = smoothedRatio(stats.published, stats.published + stats.rejected);
+  const originality = smoothedRatio(stats.total - stats.duplicates, stats.total);
+  const votes = smoothedRatio(stats.wagmi_votes, stats.wagmi_votes + stats.ngmi_votes);
+
+  // Fees per token relative to the average, with one average token as the
+  // prior; twice the average or better is full marks
+  let tokens = 0.5;
+  if (averageFee > 0) {
+    const relative = (stats.token_fee_lamports + averageFee) / (stats.tokens + 1) / averageFee;
+    tokens = Math.min(1, relative / 2);
+  }
+
+  const score = Math.round(
+    100 *
+      (WEIGHTS.outcomes * outcomes +
+        WEIGHTS.originality * originality +
+        WEIGHTS.votes * votes +
+        WEIGHTS.tokens * tokens)
+  );
+
+  return { score, outcomes, originality, votes, tokens, stats };
+}
+
+/**
+ * Hourly submission limit for a reputation score: the base limit at 50,
+ * scaled linearly (at least 1, at most twice the base).
+ */
+export function getSubmissionLimitPerHour(score: number): number {
+  const scaled = getBaseSubmissionLimit() * Math.min(2, score / NEUTRAL_SCORE);
+  return Math.max(1, Math.round(scaled));
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * One-line summary for /mystatus, e.g. "72/100 (8/10 published, 1
+ * duplicate, 85% WAGMI)".
+ */
+export function formatReputation(reputation: UserReputation): string {
+  const { stats } = reputation;
+  const parts = [`${stats.published}/${stats.published + stats.rejected} published`];
+  if (stats.duplicates > 0) {
+    parts.push(`${stats.duplicates} duplicate${stats.duplicates === 1 ? "" : "s"}`);
+  }
+  const totalVotes = stats.wagmi_votes + stats.ngmi_votes;
+  if (totalVotes > 0) {
+    parts.push(`${Math.round((stats.wagmi_votes / totalVotes) * 100)}% WAGMI`);
+  }
+  return `${reputation.score}/100 (${parts.join(", ")})`;
+}
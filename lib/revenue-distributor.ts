@@ -14,6 +14,13 @@ import {
   getPendingRevenueEvents,
   getRevenueStats,
 } from "./db";
+import { resolvePayoutAddress } from "./payout-wallets";
+import { accrueBurnShare } from "./buy-burn";
+import {
+  recordRevenueReceived,
+  recordSubmitterAccrual,
+  recordSubmitterPayout,
+} from "./ledger";
 import type { RevenueEvent, Token } from "./types";
 
 // Configuration
@@ -25,7 +32,7 @@ const MIN_DISTRIBUTION_AMOUNT = 0.001 * LAMPORTS_PER_SOL; // Minimum 0.001 SOL t
 export interface DistributionResult {
   success: boolean;
   submitterTxSignature?: string;
-  /** Currently unused — buy-and-burn is disabled. Kept for API compatibility. */
+  /** Never set here — burns are batched by buy-burn.ts. Kept for API compatibility. */
   burnTxSignature?: string;
   error?: string;
 }
@@ -47,7 +54,10 @@ export async function recordAndDistributeRevenue(
     return { success: false, error: "Token not found" };
   }
   
-  if (!isValidSolanaAddress(token.deployer_sol_address)) {
+  // Pay the submitter's current payout wallet, not the address they
+  // submitted with
+  const payoutAddress = resolvePayoutAddress(token);
+  if (!isValidSolanaAddress(payoutAddress)) {
     return { success: false, error: "Invalid submitter address" };
   }
   
@@ -59,6 +69,10 @@ export async function recordAndDistributeRevenue(
   // Create revenue event record
   const revenueEvent = createRevenueEvent(tokenId, amountLamports);
   console.log(`[Revenue] Created revenue event #${revenueEvent.id}`);
+
+  const reference = `revenue_event:${revenueEvent.id}`;
+  recordRevenueReceived(reference, tokenId, amountLamports);
+  recordSubmitterAccrual(reference, payoutAddress, revenueEvent.submitter_share_lamports, tokenId);
   
   // Distribute the revenue
   return await distributeRevenue(revenueEvent, token);
@@ -73,17 +87,18 @@ async function distributeRevenue(
 ): Promise<DistributionResult> {
   const submitterShare = event.submitter_share_lamports;
   const creatorShare = event.burn_share_lamports;
+  const payoutAddress = resolvePayoutAddress(token);
   
   console.log(`[Revenue] Distributing event #${event.id}:`);
-  console.log(`  - Submitter: ${submitterShare / LAMPORTS_PER_SOL} SOL to ${token.deployer_sol_address}`);
-  console.log(`  - Creator wallet (retained): ${creatorShare / LAMPORTS_PER_SOL} SOL`);
+  console.log(`  - Submitter: ${submitterShare / LAMPORTS_PER_SOL} SOL to ${payoutAddress}`);
+  console.log(`  - Creator share: ${creatorShare / LAMPORTS_PER_SOL} SOL`);
   
   let submitterTxSignature: string | undefined;
   
   // Step 1: Send 50% to submitter (via secure wallet with guardrails)
   try {
     const submitterResult = await secureSendSol(
-      token.deployer_sol_address,
+      payoutAddress,
       submitterShare,
       "revenue-distributor"
     );
@@ -91,7 +106,19 @@ async function distributeRevenue(
     if (submitterResult.success) {
       submitterTxSignature = submitterResult.signature;
       updateRevenueEventStatus(event.id, "submitter_paid", submitterTxSignature);
+      recordSubmitterPayout(
+        `revenue_event:${event.id}`,
+        payoutAddress,
+        submitterShare,
+        submitterTxSignature,
+        token.id
+      );
       console.log(`[Revenue] Submitter paid: ${submitterTxSignature}`);
+    } else if (submitterResult.awaitingApproval || submitterResult.frozen || submitterResult.paused) {
+      // Leave the event pending: the next run retries it once admins have
+      // approved the transfer, unfrozen the wallet or resumed operations
+      console.warn(`[Revenue] Event #${event.id} held: ${submitterResult.error}`);
+      return { success: false, error: submitterResult.error };
     } else {
       console.error(`[Revenue] Failed to pay submitter: ${submitterResult.error}`);
       updateRevenueEventStatus(event.id, "failed");
@@ -103,8 +130,16 @@ async function distributeRevenue(
     return { success: false, error: "Failed to pay submitter" };
   }
   
-  // Step 2: Keep creator share in master wallet (buy-and-burn disabled)
-  // The creator share SOL is already in the master wallet — no transfer needed.
+  // Step 2: Earmark the creator share for the next buy-and-burn run. The
+  // event stays "submitter_paid" until that run marks it burned.
+  const earmarked = accrueBurnShare(`revenue_event:${event.id}`, creatorShare, token.id);
+  if (earmarked > 0) {
+    console.log(`[Revenue] ${earmarked / LAMPORTS_PER_SOL} SOL earmarked for buy-and-burn`);
+    return { success: true, submitterTxSignature };
+  }
+
+  // Buy-and-burn disabled: the creator share is already in the master
+  // wallet — no transfer needed
   console.log(`[Revenue] Creator share (${creatorShare / LAMPORTS_PER_SOL} SOL) retained in creator wallet`);
   updateRevenueEventStatus(event.id, "completed");
   
@@ -115,11 +150,8 @@ async function distributeRevenue(
 }
 
 // ---------------------------------------------------------------------------
-// Buy-and-burn functions (Jupiter swap + SPL burn) have been removed from the
-// hot path.  The creator's 50% share is now retained in the master wallet.
-// To re-enable buy-and-burn in the future, restore the buyAndBurnNews(),
-// getJupiterQuote(), executeJupiterSwap(), and burnTokens() functions from
-// git history and wire them back into distributeRevenue() Step 2.
+// Buy-and-burn is not done inline: creator shares are earmarked in the
+// ledger's burn reserve and swapped + burned in batches by buy-burn.ts.
 // ---------------------------------------------------------------------------
 
 /**
@@ -196,7 +228,8 @@ export function getRevenueStatistics(): {
  * Uses the same share percentage as db.createRevenueEvent (env-configurable).
  *
  * - submitterShare: sent to the headline submitter's wallet
- * - creatorShare: retained in the master/creator wallet (buy-and-burn disabled)
+ * - creatorShare: earmarked for buy-and-burn (BUY_BURN_ENABLED), else retained
+ *   in the master wallet
  */
 export function estimateDistribution(amountLamports: number): {
   submitterShare: number;
@@ -5,7 +5,15 @@
  * - Validates up to 10 pending submissions per cycle
  * - Publishes exactly 1 article per 10-minute cycle (6/hour, 144/day)
  * - AI competition: when multiple approved submissions exist, AI picks
- *   the most newsworthy one. Losers are rejected with a resubmit message.
+ *   the most newsworthy one. Losers stay approved in a ranked backlog with
+ *   a decaying newsworthiness score and compete again next window, until
+ *   they exceed the carry-over freshness ceiling.
+ * - Breaking-news fast lane: submissions scoring at or above
+ *   BREAKING_SCORE_THRESHOLD at validation publish immediately (no window,
+ *   no jitter), capped at BREAKING_MAX_PER_HOUR, and become the siren headline.
+ * - Editor review (optional, /review on): the winner's headline and token
+ *   are held for editors to approve, edit or skip; approved drafts publish
+ *   in the next fast-lane cycle, undecided ones when the review times out.
  * - Caches fetched content during validation to avoid double-fetch
  */
 
@@ -23,18 +31,35 @@ import {
   updateHeadlineSummary,
   detectContentType,
   purgeStaleSubmissions,
-  cleanupOldHeadlines,
+  archiveOldHeadlines,
+  recordSubmissionValidation,
+  enterApprovedBacklog,
+  getApprovedBacklog,
+  carryOverSubmission,
+  getStaleApprovedSubmissions,
+  markHeadlineBreaking,
+  getBreakingPublishedCount,
+  expirePublishReviews,
+  getOpenPublishReviews,
+  claimPublishReview,
+  failPublishReview,
+  getAverageTokenFeeLamports,
 } from "./db";
 import { validateSubmission, smartFetchContent } from "./ai-validator";
 import { generateTokenMetadata } from "./token-generator";
 import { deployToken } from "./pump-deployer";
-import { notifySubmitterPublished, notifySubmitterApproved, notifySubmitterRejected, notifySubmitterNotSelected } from "./telegram-notifier";
+import { getPausedError } from "./emergency-pause";
+import { notifySubmitterPublished, notifySubmitterApproved, notifySubmitterRejected, notifySubmitterNotSelected, notifySubmitterQueued, notifyAdmins } from "./telegram-notifier";
 import { tweetArticlePublished, isTwitterConfigured } from "./twitter-poster";
 import { generateMcAfeeTake, scoreHeadlineImportance, generateTweetHeadlineAndSummary, pickMostImportantSubmission } from "./mcafee-commentator";
 import type { HeadlineCandidate } from "./mcafee-commentator";
 import { ActivityLog } from "./activity-logger";
 import { ensureEnglish } from "./translator";
-import type { Submission, PageContent } from "./types";
+import { assignStoryCluster } from "./story-clusters";
+import { getUserReputation } from "./reputation";
+import { recordDomainValidation } from "./source-domains";
+import { isEditorReviewEnabled, hasOpenPublishReview, requestPublishReview } from "./publish-review";
+import type { Submission, PageContent, PublishDraft, PublishReview, TokenMetadata } from "./types";
 
 const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
 
@@ -43,6 +68,16 @@ const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
 const MAX_ARTICLES_PER_DAY = 144;
 const VALIDATION_BATCH_SIZE = 10;  // validate up to 10 per cycle
 
+// Carry-over: each lost window multiplies a submission's queue score by
+// CARRYOVER_DECAY; after CARRYOVER_MAX_HOURS in the backlog it ages out.
+const CARRYOVER_DECAY = parseFloat(process.env.CARRYOVER_DECAY || "0.85");
+const CARRYOVER_MAX_HOURS = parseInt(process.env.CARRYOVER_MAX_HOURS || "6", 10);
+
+// Breaking-news fast lane: newsworthiness at validation >= threshold publishes
+// immediately, outside the 10-minute window, up to N per rolling hour.
+const BREAKING_SCORE_THRESHOLD = parseInt(process.env.BREAKING_SCORE_THRESHOLD || "90", 10);
+const BREAKING_MAX_PER_HOUR = parseInt(process.env.BREAKING_MAX_PER_HOUR || "2", 10);
+
 /**
  * Process the validation queue – validate pending submissions.
  */
@@ -117,11 +152,38 @@ export async function processValidationQueue(): Promise<number> {
         content
       );
 
+      // Persist the per-layer audit so admins can answer "why?" later
+      try {
+        recordSubmissionValidation(submission.id, result);
+      } catch (auditError) {
+        console.warn(
+          `[Scheduler] Failed to record validation audit for #${submission.id}:`,
+          auditError
+        );
+      }
+
+      // Learn the source domain's track record
+      try {
+        recordDomainValidation(submission.url, result);
+      } catch (domainError) {
+        console.warn(`[Scheduler] Failed to record domain stats for #${submission.id}:`, domainError);
+      }
+
       if (result.isValid) {
         updateSubmissionStatus(submission.id, "approved");
         ActivityLog.approved(submission.id, content.title || "Untitled");
+
+        // Initial newsworthiness ranks the submission in the approved backlog
+        let newsworthiness = 50;
+        try {
+          newsworthiness = await scoreHeadlineImportance(content.title || "Untitled", content);
+        } catch (scoreError) {
+          console.warn(`[Scheduler] Newsworthiness scoring failed for #${submission.id}:`, scoreError);
+        }
+        enterApprovedBacklog(submission.id, newsworthiness);
+
         console.log(
-          `[Scheduler] Approved #${submission.id} (fact: ${result.factScore}, fresh: ${result.freshnessHours}h)`
+          `[Scheduler] Approved #${submission.id} (fact: ${result.factScore}, fresh: ${result.freshnessHours}h, news: ${newsworthiness})`
         );
 
         // Notify the submitter immediately — fire-and-forget
@@ -132,6 +194,10 @@ export async function processValidationQueue(): Promise<number> {
         }).catch((err) =>
           console.warn(`[Scheduler] Failed to send approval notification:`, err)
         );
+
+        if (newsworthiness >= BREAKING_SCORE_THRESHOLD) {
+          await publishBreaking(submission.id, newsworthiness);
+        }
       } else {
         updateSubmissionStatus(
           submission.id,
@@ -211,102 +277,146 @@ function parseCachedDescription(submission: Submission): string {
 }
 
 /**
- * Publish a single approved submission.
- * Extracted from the old publishNextApproved for reuse in the batch loop.
+ * Load a submission's page content: the copy cached at validation, or a
+ * fresh fetch if there is none.
  */
-async function publishOneSubmission(submission: Submission): Promise<Submission | null> {
-  console.log(`[Scheduler] Publishing submission #${submission.id}`);
-
-  try {
-    // Use cached content if available, otherwise re-fetch
-    let content: PageContent;
-    if (submission.cached_content) {
-      try {
-        const cached = JSON.parse(submission.cached_content);
-        content = {
-          title: cached.title || "",
-          description: cached.description || "",
-          content: cached.content || "",
-          imageUrl: cached.imageUrl || null,
-          publishedAt: cached.publishedAt
-            ? new Date(cached.publishedAt)
-            : undefined,
-        };
-        console.log(
-          `[Scheduler] Using cached content for submission #${submission.id}`
-        );
-      } catch {
-        console.warn(
-          `[Scheduler] Failed to parse cached content, re-fetching...`
-        );
-        content = await smartFetchContent(submission.url);
-      }
-    } else {
-      content = await smartFetchContent(submission.url);
+async function loadSubmissionContent(submission: Submission): Promise<PageContent> {
+  if (submission.cached_content) {
+    try {
+      const cached = JSON.parse(submission.cached_content);
+      console.log(
+        `[Scheduler] Using cached content for submission #${submission.id}`
+      );
+      return {
+        title: cached.title || "",
+        description: cached.description || "",
+        content: cached.content || "",
+        imageUrl: cached.imageUrl || null,
+        publishedAt: cached.publishedAt
+          ? new Date(cached.publishedAt)
+          : undefined,
+      };
+    } catch {
+      console.warn(
+        `[Scheduler] Failed to parse cached content, re-fetching...`
+      );
     }
+  }
+  return smartFetchContent(submission.url);
+}
+
+/**
+ * Generate everything a submission needs before its headline goes live:
+ * English content, the headline (AI-written for tweets) and the token
+ * metadata. Editor review shows this draft to editors before publishing.
+ */
+async function preparePublishDraft(submission: Submission): Promise<PublishDraft> {
+  const content = await loadSubmissionContent(submission);
 
-    // Translate non-English content to English
-    const translated = await ensureEnglish(
-      content.title || "",
-      content.description || ""
+  // Translate non-English content to English
+  const translated = await ensureEnglish(
+    content.title || "",
+    content.description || ""
+  );
+  if (translated.translated) {
+    console.log(
+      `[Scheduler] Translated from ${translated.detectedLanguage}: "${content.title}" → "${translated.title}"`
     );
-    if (translated.translated) {
-      console.log(
-        `[Scheduler] Translated from ${translated.detectedLanguage}: "${content.title}" → "${translated.title}"`
-      );
-      content.title = translated.title;
-      content.description = translated.description;
+    content.title = translated.title;
+    content.description = translated.description;
 
-      // Update cached content so article summary also shows English
-      try {
-        const updatedCache = {
-          title: content.title,
-          description: content.description,
-          content: content.content,
-          imageUrl: content.imageUrl,
-          publishedAt: content.publishedAt?.toISOString() || null,
-        };
-        updateSubmissionCachedContent(submission.id, JSON.stringify(updatedCache));
-      } catch {
-        // Non-fatal — headline will still be in English
-      }
+    // Update cached content so article summary also shows English
+    try {
+      const updatedCache = {
+        title: content.title,
+        description: content.description,
+        content: content.content,
+        imageUrl: content.imageUrl,
+        publishedAt: content.publishedAt?.toISOString() || null,
+      };
+      updateSubmissionCachedContent(submission.id, JSON.stringify(updatedCache));
+    } catch {
+      // Non-fatal — headline will still be in English
     }
+  }
 
-    // For tweets, use AI to generate a clean headline and summary
-    // instead of using the raw tweet text (which is messy with emoji, links, etc.)
-    let headline = content.title || "Breaking News";
-    let tweetSummary: string | null = null;
-    const contentType = detectContentType(submission.url);
+  // For tweets, use AI to generate a clean headline and summary
+  // instead of using the raw tweet text (which is messy with emoji, links, etc.)
+  let headline = content.title || "Breaking News";
+  let tweetSummary: string | null = null;
+  const contentType = detectContentType(submission.url);
 
-    if (contentType === "tweet" && content.content) {
-      try {
-        // Extract author info from the cached description (format: "Author (Handle): text")
-        const authorMatch = content.description?.match(/^(.+?)\s*\((@\w+)\):/);
-        const authorName = authorMatch?.[1] || "";
-        const authorHandle = authorMatch?.[2] || "";
+  if (contentType === "tweet" && content.content) {
+    try {
+      // Extract author info from the cached description (format: "Author (Handle): text")
+      const authorMatch = content.description?.match(/^(.+?)\s*\((@\w+)\):/);
+      const authorName = authorMatch?.[1] || "";
+      const authorHandle = authorMatch?.[2] || "";
 
-        console.log(
-          `[Scheduler] Generating AI headline/summary for tweet by ${authorName} ${authorHandle}`
-        );
+      console.log(
+        `[Scheduler] Generating AI headline/summary for tweet by ${authorName} ${authorHandle}`
+      );
 
-        const tweetAI = await generateTweetHeadlineAndSummary(
-          content.content,
-          authorName,
-          authorHandle,
-          content
-        );
+      const tweetAI = await generateTweetHeadlineAndSummary(
+        content.content,
+        authorName,
+        authorHandle,
+        content
+      );
 
-        headline = tweetAI.headline;
-        tweetSummary = tweetAI.summary;
+      headline = tweetAI.headline;
+      tweetSummary = tweetAI.summary;
 
-        console.log(
-          `[Scheduler] AI tweet headline: "${headline}"`
-        );
-      } catch (tweetAIError) {
-        console.warn(`[Scheduler] Tweet AI enrichment failed, using raw text:`, tweetAIError);
-        // Falls through to use content.title as headline
-      }
+      console.log(
+        `[Scheduler] AI tweet headline: "${headline}"`
+      );
+    } catch (tweetAIError) {
+      console.warn(`[Scheduler] Tweet AI enrichment failed, using raw text:`, tweetAIError);
+      // Falls through to use content.title as headline
+    }
+  }
+
+  // While on-chain operations are paused the headline is published without a token
+  let tokenMetadata: TokenMetadata | null = null;
+  const pausedError = getPausedError();
+  if (pausedError) {
+    console.log(`[Scheduler] No token for submission #${submission.id} — ${pausedError}`);
+  } else {
+    try {
+      console.log(
+        `[Scheduler] Generating token metadata for submission #${submission.id}`
+      );
+      const nameOverrides = submission.custom_token_name && submission.custom_ticker
+        ? { name: submission.custom_token_name, ticker: submission.custom_ticker }
+        : undefined;
+      tokenMetadata = await generateTokenMetadata(headline, content, nameOverrides);
+    } catch (tokenError) {
+      console.error(
+        `[Scheduler] Token generation error:`,
+        tokenError
+      );
     }
+  }
+
+  return { content, headline, tweetSummary, tokenMetadata };
+}
+
+/**
+ * Publish a single approved submission.
+ * Extracted from the old publishNextApproved for reuse in the batch loop.
+ * Breaking (fast-lane) submissions are flagged as the siren headline.
+ * Pass a draft to publish what editors reviewed instead of generating one.
+ */
+async function publishOneSubmission(
+  submission: Submission,
+  breaking: boolean = false,
+  reviewedDraft?: PublishDraft
+): Promise<Submission | null> {
+  console.log(`[Scheduler] Publishing submission #${submission.id}`);
+
+  try {
+    const draft = reviewedDraft ?? await preparePublishDraft(submission);
+    const { content, headline, tweetSummary } = draft;
 
     // Alternate left/right column based on ID
     const column = submission.id % 2 === 0 ? "left" : "right";
@@ -316,13 +426,26 @@ async function publishOneSubmission(submission: Submission): Promise<Submission
       headline,
       submission.url,
       column as "left" | "right",
-      content.imageUrl || undefined
+      content.imageUrl || undefined,
+      undefined,
+      submission.id
     );
 
     console.log(
       `[Scheduler] Created headline #${headlineRecord.id} for submission #${submission.id}`
     );
 
+    if (breaking) {
+      markHeadlineBreaking(headlineRecord.id);
+    }
+
+    // Group with related coverage into a developing story
+    try {
+      assignStoryCluster(headlineRecord.id, submission);
+    } catch (clusterError) {
+      console.warn(`[Scheduler] Story clustering failed (non-fatal):`, clusterError);
+    }
+
     // Save tweet summary if we generated one
     if (tweetSummary) {
       try {
@@ -333,52 +456,52 @@ async function publishOneSubmission(submission: Submission): Promise<Submission
       }
     }
 
-    // Generate token metadata then deploy + enrich
+    // Deploy the token, unless on-chain operations were paused since the draft
     let deployedTicker: string | undefined;
     let deployedPumpUrl: string | undefined;
     let deployedDescription: string | undefined;
     let deployedImageUrl: string | undefined;
 
-    try {
-      console.log(
-        `[Scheduler] Generating token metadata for headline #${headlineRecord.id}`
-      );
-      const nameOverrides = submission.custom_token_name && submission.custom_ticker
-        ? { name: submission.custom_token_name, ticker: submission.custom_ticker }
-        : undefined;
-      const tokenMetadata = await generateTokenMetadata(headline, content, nameOverrides);
-
-      console.log(
-        `[Scheduler] Deploying token: ${tokenMetadata.name} (${tokenMetadata.ticker})`
-      );
-      const deployResult = await deployToken(
-        tokenMetadata,
-        submission.sol_address,
-        headlineRecord.id,
-        submission.id,
-        `${SITE_URL}/article/${headlineRecord.id}`
-      );
-
-      if (deployResult.success) {
-        deployedTicker = tokenMetadata.ticker;
-        deployedPumpUrl = deployResult.pumpUrl;
-        deployedDescription = tokenMetadata.description;
-        deployedImageUrl = tokenMetadata.imageUrl;
-        ActivityLog.tokenMinted(tokenMetadata.ticker, headline, deployResult.mintAddress);
+    const tokenMetadata = draft.tokenMetadata;
+    const pausedError = getPausedError();
+    if (!tokenMetadata) {
+      console.log(`[Scheduler] Publishing headline #${headlineRecord.id} without a token`);
+    } else if (pausedError) {
+      console.log(`[Scheduler] Skipping token for headline #${headlineRecord.id} — ${pausedError}`);
+    } else {
+      try {
         console.log(
-          `[Scheduler] Token deployed: ${deployResult.mintAddress}`
+          `[Scheduler] Deploying token: ${tokenMetadata.name} (${tokenMetadata.ticker})`
         );
-        console.log(`[Scheduler] Pump.fun URL: ${deployResult.pumpUrl}`);
-      } else {
+        const deployResult = await deployToken(
+          tokenMetadata,
+          submission.sol_address,
+          headlineRecord.id,
+          submission.id,
+          `${SITE_URL}/article/${headlineRecord.id}`
+        );
+
+        if (deployResult.success) {
+          deployedTicker = tokenMetadata.ticker;
+          deployedPumpUrl = deployResult.pumpUrl;
+          deployedDescription = tokenMetadata.description;
+          deployedImageUrl = tokenMetadata.imageUrl;
+          ActivityLog.tokenMinted(tokenMetadata.ticker, headline, deployResult.mintAddress);
+          console.log(
+            `[Scheduler] Token deployed: ${deployResult.mintAddress}`
+          );
+          console.log(`[Scheduler] Pump.fun URL: ${deployResult.pumpUrl}`);
+        } else {
+          console.error(
+            `[Scheduler] Token deployment failed: ${deployResult.error}`
+          );
+        }
+      } catch (tokenError) {
         console.error(
-          `[Scheduler] Token deployment failed: ${deployResult.error}`
+          `[Scheduler] Token deployment error:`,
+          tokenError
         );
       }
-    } catch (tokenError) {
-      console.error(
-        `[Scheduler] Token generation/deployment error:`,
-        tokenError
-      );
     }
 
     // Generate AI importance score + McAfee commentary
@@ -451,13 +574,104 @@ async function publishOneSubmission(submission: Submission): Promise<Submission
 }
 
 /**
- * AI-powered competitive publishing: fetch ALL approved submissions,
- * let AI pick the single most newsworthy one, publish it, and reject
- * the rest with a friendly resubmit message.
+ * Breaking-news fast lane: publish a just-approved submission immediately,
+ * skipping the publishing window and jitter. Falls back to the normal
+ * backlog (where its high score ranks it first) when the hourly breaking
+ * cap or the daily limit is reached.
+ */
+async function publishBreaking(
+  submissionId: number,
+  score: number
+): Promise<Submission | null> {
+  const breakingThisHour = getBreakingPublishedCount(1);
+  if (breakingThisHour >= BREAKING_MAX_PER_HOUR) {
+    console.log(
+      `[Scheduler] Breaking cap reached (${breakingThisHour}/${BREAKING_MAX_PER_HOUR} this hour) — #${submissionId} waits for the next window`
+    );
+    return null;
+  }
+
+  if (getPublishedTodayCount() >= MAX_ARTICLES_PER_DAY) {
+    console.log(`[Scheduler] Daily limit reached — breaking #${submissionId} not fast-tracked`);
+    return null;
+  }
+
+  const submission = getSubmissionById(submissionId);
+  if (!submission || submission.status !== "approved") return null;
+
+  console.log(`[Scheduler] BREAKING fast lane: publishing #${submissionId} (news: ${score})`);
+  const published = await publishOneSubmission(submission, true);
+  if (!published) return null;
+
+  // Strip Markdown control characters from the user-supplied title
+  const safeTitle = parseCachedTitle(published).replace(/[_*`[\]]/g, "");
+  notifyAdmins(
+    `*Breaking news fast lane* 🚨\n` +
+    `─────────────────────\n\n` +
+    `Submission #${submissionId} scored ${score}/100 and was published immediately.\n` +
+    `${safeTitle}\n\n` +
+    `${SITE_URL}\n\n` +
+    `_${breakingThisHour + 1}/${BREAKING_MAX_PER_HOUR} breaking slots used this hour_`
+  ).catch((err) =>
+    console.warn(`[Scheduler] Failed to notify admins about breaking #${submissionId}:`, err)
+  );
+
+  return published;
+}
+
+/**
+ * Age out approved submissions that have waited in the backlog past the
+ * carry-over freshness ceiling. Returns the number expired.
+ */
+function expireStaleBacklog(): number {
+  const stale = getStaleApprovedSubmissions(CARRYOVER_MAX_HOURS);
+  let expired = 0;
+
+  for (const submission of stale) {
+    const title = parseCachedTitle(submission);
+    const reason = `Not selected within ${CARRYOVER_MAX_HOURS}h of approval — story is no longer fresh`;
+
+    try {
+      if (!updateSubmissionStatus(submission.id, "rejected", reason)) continue;
+      expired++;
+      ActivityLog.rejected(submission.id, reason);
+
+      // Notify the submitter — fire-and-forget
+      notifySubmitterNotSelected({
+        telegramUserId: submission.telegram_user_id,
+        submissionId: submission.id,
+        title,
+        windowsLost: submission.carryover_count || 0,
+      }).catch((err) =>
+        console.warn(`[Scheduler] Failed to notify not-selected #${submission.id}:`, err)
+      );
+    } catch (expireError) {
+      console.warn(`[Scheduler] Failed to expire stale #${submission.id}:`, expireError);
+    }
+  }
+
+  if (expired > 0) {
+    console.log(`[Scheduler] Aged out ${expired} stale approved submission(s)`);
+  }
+  return expired;
+}
+
+/**
+ * AI-powered competitive publishing: fetch the ranked approved backlog,
+ * let AI pick the single most newsworthy one, publish it, and carry the
+ * rest over to the next window with a decayed score and a queue-position
+ * notice.
  *
- * Max 1 per cycle (every 10 min = 6/hour, 144/day).
+ * Max 1 per cycle (every 10 min = 6/hour, 144/day). With editor review
+ * on, the winner is held for review instead of published.
  */
 export async function publishApprovedBatch(): Promise<Submission[]> {
+  // A winner awaiting editor review holds this window's slot
+  if (hasOpenPublishReview()) {
+    console.log("[Scheduler] Previous winner is still awaiting editor review");
+    return [];
+  }
+
   // Random jitter delay to break predictable launch timing
   // (bots detect fixed-cadence launchers and blacklist them)
   const jitterMax = parseInt(process.env.PUBLISH_JITTER_MAX_SECONDS || "180", 10);
@@ -477,8 +691,10 @@ export async function publishApprovedBatch(): Promise<Submission[]> {
     return [];
   }
 
-  // Fetch ALL approved submissions (no small limit — they all compete)
-  const approved = getSubmissionsByStatus("approved", 100);
+  // Drop stories that have waited too long, then fetch the ranked backlog
+  // (no small limit — they all compete)
+  expireStaleBacklog();
+  const approved = getApprovedBacklog(100);
   if (approved.length === 0) {
     console.log("[Scheduler] No approved submissions to publish");
     return [];
@@ -499,19 +715,30 @@ export async function publishApprovedBatch(): Promise<Submission[]> {
     winnerHeadline = parseCachedTitle(winner);
     console.log(`[Scheduler] Single candidate — auto-selecting #${winner.id}`);
   } else {
-    // Build candidate list for AI comparison
+    // Build candidate list for AI comparison (reputation breaks ties)
+    const averageTokenFee = getAverageTokenFeeLamports();
+    const reputations = new Map<string, number>();
+    const reputationOf = (telegramUserId: string): number => {
+      if (!reputations.has(telegramUserId)) {
+        reputations.set(telegramUserId, getUserReputation(telegramUserId, averageTokenFee).score);
+      }
+      return reputations.get(telegramUserId)!;
+    };
+
     const candidates: HeadlineCandidate[] = approved.map((s) => ({
       id: s.id,
       headline: parseCachedTitle(s),
       description: parseCachedDescription(s),
+      score: s.queue_score ?? undefined,
+      reputation: reputationOf(s.telegram_user_id),
     }));
 
     const { winnerId, reasoning } = await pickMostImportantSubmission(candidates);
     const found = approved.find((s) => s.id === winnerId);
 
     if (!found) {
-      // Defensive: AI returned an ID we don't recognize — fall back to first
-      console.warn(`[Scheduler] Winner ID #${winnerId} not found, falling back to oldest`);
+      // Defensive: AI returned an ID we don't recognize — fall back to top-ranked
+      console.warn(`[Scheduler] Winner ID #${winnerId} not found, falling back to top-ranked`);
       winner = approved[0];
     } else {
       winner = found;
@@ -522,35 +749,46 @@ export async function publishApprovedBatch(): Promise<Submission[]> {
       `[Scheduler] AI selected #${winner.id} ("${winnerHeadline.slice(0, 60)}") — ${reasoning}`
     );
 
-    // ── Reject losers ────────────────────────────────────────────
+    // ── Carry losers over ────────────────────────────────────────
     const losers = approved.filter((s) => s.id !== winner.id);
-    console.log(`[Scheduler] Rejecting ${losers.length} non-selected submission(s)`);
+    console.log(`[Scheduler] Carrying over ${losers.length} non-selected submission(s)`);
 
     for (const loser of losers) {
-      const loserTitle = parseCachedTitle(loser);
-
       try {
-        updateSubmissionStatus(
-          loser.id,
-          "rejected",
-          "A more urgent story was selected for this publishing window"
-        );
+        carryOverSubmission(loser.id, CARRYOVER_DECAY);
+        ActivityLog.notSelected(loser.id, parseCachedTitle(loser), winnerHeadline);
+      } catch (carryError) {
+        console.warn(`[Scheduler] Failed to carry over loser #${loser.id}:`, carryError);
+      }
+    }
 
-        ActivityLog.notSelected(loser.id, loserTitle, winnerHeadline);
+    // Tell first-time losers where they stand (re-ranked after decay, winner excluded).
+    // Later windows don't re-notify — /mystatus shows the live position.
+    const backlog = getApprovedBacklog(100).filter((s) => s.id !== winner.id);
+    backlog.forEach((queued, index) => {
+      if (queued.carryover_count !== 1) return;
+
+      notifySubmitterQueued({
+        telegramUserId: queued.telegram_user_id,
+        submissionId: queued.id,
+        title: parseCachedTitle(queued),
+        winnerHeadline,
+        position: index + 1,
+        queueSize: backlog.length,
+      }).catch((err) =>
+        console.warn(`[Scheduler] Failed to notify queued #${queued.id}:`, err)
+      );
+    });
+  }
 
-        // Notify the submitter — fire-and-forget
-        notifySubmitterNotSelected({
-          telegramUserId: loser.telegram_user_id,
-          submissionId: loser.id,
-          title: loserTitle,
-          winnerHeadline,
-        }).catch((err) =>
-          console.warn(`[Scheduler] Failed to notify not-selected #${loser.id}:`, err)
-        );
-      } catch (rejectError) {
-        console.warn(`[Scheduler] Failed to reject loser #${loser.id}:`, rejectError);
-      }
+  // ── Hold the winner for editor review ────────────────────────────
+  if (isEditorReviewEnabled()) {
+    try {
+      await requestPublishReview(winner, await preparePublishDraft(winner));
+    } catch (reviewError) {
+      console.error(`[Scheduler] Failed to request editor review for #${winner.id}:`, reviewError);
     }
+    return [];
   }
 
   // ── Publish the winner ───────────────────────────────────────────
@@ -563,6 +801,77 @@ export async function publishApprovedBatch(): Promise<Submission[]> {
   return [];
 }
 
+/**
+ * Rebuild the draft editors reviewed: their headline and token, the
+ * submission's content.
+ */
+async function draftFromReview(review: PublishReview, submission: Submission): Promise<PublishDraft> {
+  const content = await loadSubmissionContent(submission);
+  const tokenMetadata: TokenMetadata | null =
+    review.token_name && review.ticker
+      ? {
+          name: review.token_name,
+          ticker: review.ticker,
+          description: review.token_description || "",
+          imageUrl: review.image_url || "",
+          bannerUrl: review.banner_url || "",
+        }
+      : null;
+
+  return {
+    content,
+    headline: review.headline,
+    tweetSummary: review.summary,
+    tokenMetadata,
+  };
+}
+
+/**
+ * Publish drafts editors have approved, and drafts whose review timed out.
+ * A submission skipped or removed since its review was requested is dropped.
+ */
+export async function publishReviewedSubmissions(): Promise<Submission[]> {
+  const timedOut = expirePublishReviews();
+  for (const review of timedOut) {
+    console.log(`[Scheduler] Editor review #${review.id} timed out — auto-publishing #${review.submission_id}`);
+  }
+  if (timedOut.length > 0) {
+    await notifyAdmins(
+      `⏱ No editor decided on review${timedOut.length > 1 ? "s" : ""} ` +
+      `${timedOut.map((r) => `#${r.id}`).join(", ")} in time — publishing as generated.`
+    );
+  }
+
+  const published: Submission[] = [];
+  const approved = getOpenPublishReviews().filter((r) => r.status === "approved");
+
+  for (const review of approved) {
+    if (!claimPublishReview(review.id)) continue;
+
+    const submission = getSubmissionById(review.submission_id);
+    if (!submission || submission.status !== "approved") {
+      console.warn(`[Scheduler] Review #${review.id}: submission #${review.submission_id} is no longer approved`);
+      failPublishReview(review.id);
+      continue;
+    }
+
+    try {
+      const result = await publishOneSubmission(submission, false, await draftFromReview(review, submission));
+      if (result) {
+        console.log(`[Scheduler] Published reviewed submission #${submission.id} (review #${review.id})`);
+        published.push(result);
+      } else {
+        failPublishReview(review.id);
+      }
+    } catch (publishError) {
+      console.error(`[Scheduler] Failed to publish review #${review.id}:`, publishError);
+      failPublishReview(review.id);
+    }
+  }
+
+  return published;
+}
+
 /**
  * Backwards-compatible: publish a single submission (used by API trigger).
  */
@@ -596,6 +905,19 @@ export function getSchedulerStatus(): {
   };
 }
 
+/**
+ * Fast-lane cycle (every minute): validate pending submissions so breaking
+ * stories can be fast-tracked without waiting for the 10-minute window.
+ * Approved non-breaking stories still publish in the regular cycle, except
+ * drafts editors have signed off, which publish here.
+ */
+export async function runFastLaneCycle(): Promise<number> {
+  await publishReviewedSubmissions();
+
+  if (getSubmissionCountByStatus("pending") === 0) return 0;
+  return processValidationQueue();
+}
+
 /**
  * Fixed 10-minute interval between cycles.
  * Publishes 1 article per cycle = 6 per hour, 144 per day.
@@ -623,17 +945,20 @@ export async function runSchedulerCycle(): Promise<{
   }
 
   const validated = await processValidationQueue();
-  const published = await publishApprovedBatch();
+  const published = [
+    ...(await publishReviewedSubmissions()),
+    ...(await publishApprovedBatch()),
+  ];
 
-  // FIFO cleanup AFTER publishing so it can never block new articles.
-  // Keeps 50 headlines per column, removes oldest beyond that.
+  // FIFO rotation AFTER publishing so it can never block new articles.
+  // Keeps 50 headlines per column on the homepage, archives the rest.
   try {
-    const cleaned = cleanupOldHeadlines(50);
-    if (cleaned > 0) {
-      console.log(`[Scheduler] Cleaned up ${cleaned} old headline(s) (FIFO rotation)`);
+    const archived = archiveOldHeadlines(50);
+    if (archived > 0) {
+      console.log(`[Scheduler] Archived ${archived} old headline(s) (FIFO rotation)`);
     }
-  } catch (cleanupError) {
-    console.warn(`[Scheduler] Headline cleanup failed (non-fatal):`, cleanupError);
+  } catch (archiveError) {
+    console.warn(`[Scheduler] Headline archiving failed (non-fatal):`, archiveError);
   }
 
   console.log(
@@ -12,6 +12,19 @@
  *
  *   "env"       – Reads MASTER_WALLET_PRIVATE_KEY from the environment
  *                  (current behaviour). Logs a warning — only for local dev.
+ *
+ * WALLET_ENCRYPTION_KEY also encrypts the pool and ephemeral creator wallet
+ * keys stored in the database. It is versioned so it can be rotated:
+ *
+ *   WALLET_ENCRYPTION_KEY_VERSION   – Version number of WALLET_ENCRYPTION_KEY (default: 1)
+ *   WALLET_ENCRYPTION_KEYS_PREVIOUS – Older keys still needed for decryption,
+ *                                     as "<version>:<64-hex-key>,..." (rollover only)
+ *   MASTER_WALLET_KEY_VERSION       – Key version of MASTER_WALLET_ENCRYPTED_KEY
+ *                                     (default: the current version)
+ *
+ * Every stored key records the version it was encrypted under, so rows
+ * encrypted before and after a rotation both decrypt during rollover.
+ * scripts/rotate-keys.ts re-encrypts them all under the current version.
  */
 
 import { createDecipheriv } from "crypto";
@@ -135,7 +148,6 @@ export function decryptPrivateKey(
  */
 function decryptFromEnv(): string {
   const encryptedKey = process.env.MASTER_WALLET_ENCRYPTED_KEY;
-  const encryptionKey = process.env.WALLET_ENCRYPTION_KEY;
 
   if (!encryptedKey) {
     throw new Error(
@@ -143,7 +155,7 @@ function decryptFromEnv(): string {
     );
   }
 
-  return decryptPrivateKey(encryptedKey, encryptionKey || "");
+  return decryptWalletKey(encryptedKey, getMasterWalletKeyVersion());
 }
 
 // ---------------------------------------------------------------------------
@@ -296,3 +308,78 @@ export function encryptPrivateKey(
 
   return `${iv.toString("hex")}:${authTag.toString("hex")}:${encrypted.toString("hex")}`;
 }
+
+// ---------------------------------------------------------------------------
+// Versioned wallet encryption keys
+// ---------------------------------------------------------------------------
+
+/**
+ * Version number of WALLET_ENCRYPTION_KEY. New keys are always encrypted
+ * under this version.
+ */
+export function getCurrentKeyVersion(): number {
+  const raw = parseInt(process.env.WALLET_ENCRYPTION_KEY_VERSION || "1", 10);
+  return isNaN(raw) || raw < 1 ? 1 : raw;
+}
+
+/**
+ * Key version MASTER_WALLET_ENCRYPTED_KEY was encrypted under.
+ */
+export function getMasterWalletKeyVersion(): number {
+  const raw = parseInt(process.env.MASTER_WALLET_KEY_VERSION || "", 10);
+  return isNaN(raw) || raw < 1 ? getCurrentKeyVersion() : raw;
+}
+
+/**
+ * Every configured encryption key by version: WALLET_ENCRYPTION_KEY under the
+ * current version plus WALLET_ENCRYPTION_KEYS_PREVIOUS. Keys are not
+ * validated here; decryptPrivateKey() rejects malformed ones.
+ */
+export function getEncryptionKeys(): Map<number, string> {
+  const keys = new Map<number, string>();
+
+  for (const entry of (process.env.WALLET_ENCRYPTION_KEYS_PREVIOUS || "").split(",")) {
+    const [versionRaw, keyHex] = entry.trim().split(":");
+    const version = parseInt(versionRaw, 10);
+    if (!isNaN(version) && keyHex) {
+      keys.set(version, keyHex.trim());
+    }
+  }
+
+  const currentKey = process.env.WALLET_ENCRYPTION_KEY;
+  if (currentKey) {
+    keys.set(getCurrentKeyVersion(), currentKey);
+  }
+
+  return keys;
+}
+
+/**
+ * Encryption key for a version. Throws if that version is not configured.
+ */
+export function getEncryptionKey(version: number): string {
+  const key = getEncryptionKeys().get(version);
+  if (!key) {
+    throw new Error(
+      version === getCurrentKeyVersion()
+        ? "WALLET_ENCRYPTION_KEY not set"
+        : `No encryption key configured for key version ${version} (add it to WALLET_ENCRYPTION_KEYS_PREVIOUS)`
+    );
+  }
+  return key;
+}
+
+/**
+ * Encrypt a base58 wallet key under the current key version.
+ */
+export function encryptWalletKey(base58Key: string): { encrypted: string; keyVersion: number } {
+  const keyVersion = getCurrentKeyVersion();
+  return { encrypted: encryptPrivateKey(base58Key, getEncryptionKey(keyVersion)), keyVersion };
+}
+
+/**
+ * Decrypt a stored wallet key with the key of the version it was encrypted under.
+ */
+export function decryptWalletKey(encrypted: string, keyVersion: number): string {
+  return decryptPrivateKey(encrypted, getEncryptionKey(keyVersion));
+}
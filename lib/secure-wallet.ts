@@ -3,9 +3,12 @@
  *
  * Every caller (pump-deployer, revenue-distributor, etc.) imports from this
  * module instead of solana-wallet.ts directly.  Each operation:
- *   1. Checks guardrails (limits, allowlist, rate-limit)
- *   2. Delegates to the underlying solana-wallet function
- *   3. Logs the result to the audit trail
+ *   1. Refuses sends while on-chain operations are paused (emergency-pause.ts)
+ *      or the wallet is frozen (wallet-anomalies.ts, /freeze)
+ *   2. Checks guardrails (limits, allowlist, rate-limit); transfers that need
+ *      admin approval are held until approved (transfer-approvals.ts)
+ *   3. Delegates to the underlying solana-wallet function
+ *   4. Logs the result to the audit trail
  *
  * This ensures no wallet operation can bypass the safety layer.
  */
@@ -18,14 +21,20 @@ import {
   getMasterWalletAddress as _getMasterWalletAddress,
   getMasterWalletBalance as _getMasterWalletBalance,
   sendSol as _sendSol,
+  sendSolBatch as _sendSolBatch,
   isValidSolanaAddress,
   confirmTransactionPolling,
 } from "./solana-wallet";
 import { logWalletOperation } from "./wallet-audit";
 import {
   checkSendGuardrails,
+  checkBatchSendGuardrails,
   checkOperationGuardrails,
+  getWalletFreeze,
 } from "./wallet-guardrails";
+import { acquireTransferApproval } from "./transfer-approvals";
+import { getPausedError } from "./emergency-pause";
+import { releaseTransferApproval, setTransferApprovalSignature } from "./db";
 
 // Re-export utilities that don't need the security wrapper
 export { getConnection, isValidSolanaAddress, confirmTransactionPolling } from "./solana-wallet";
@@ -37,21 +46,43 @@ export { getConnection, isValidSolanaAddress, confirmTransactionPolling } from "
 /**
  * Send SOL with full guardrail checks and audit logging.
  * Drop-in replacement for solana-wallet's sendSol().
+ *
+ * A transfer that needs admin approval is not sent: the result carries
+ * awaitingApproval, and retrying the same transfer sends it once approved.
+ * Nothing is sent while operations are paused or the wallet is frozen (the
+ * result carries paused / frozen).
  */
 export async function secureSendSol(
   recipientAddress: string,
   lamports: number,
   caller: string,
   options: { maxRetries?: number; skipPreflight?: boolean } = {}
-): Promise<{ success: boolean; signature?: string; error?: string }> {
+): Promise<{ success: boolean; signature?: string; error?: string; awaitingApproval?: number; frozen?: boolean; paused?: boolean }> {
+  const halted = checkHalted(caller);
+  if (halted) return halted;
+
   // Pre-flight guardrail check
   const guardrailResult = checkSendGuardrails(recipientAddress, lamports, caller);
-  if (!guardrailResult.allowed) {
+  let approvalId: number | undefined;
+  if (guardrailResult.requiresApproval) {
+    const gate = await acquireTransferApproval(
+      caller,
+      [{ address: recipientAddress, lamports }],
+      guardrailResult.reason!
+    );
+    if (!gate.approved) {
+      return { success: false, error: gate.error, awaitingApproval: gate.approvalId };
+    }
+    approvalId = gate.approvalId;
+  } else if (!guardrailResult.allowed) {
     return { success: false, error: guardrailResult.reason };
   }
 
   // Delegate to the underlying wallet
   const result = await _sendSol(recipientAddress, lamports, options);
+  if (approvalId !== undefined) {
+    settleApproval(approvalId, result.signature);
+  }
 
   // Audit log
   logWalletOperation({
@@ -67,6 +98,82 @@ export async function secureSendSol(
   return result;
 }
 
+/**
+ * Pay several recipients in one transaction with guardrail checks and
+ * audit logging (one send_sol entry per recipient, sharing the signature).
+ */
+export async function secureSendSolBatch(
+  transfers: Array<{ address: string; lamports: number }>,
+  caller: string
+): Promise<{ success: boolean; signature?: string; error?: string; unconfirmed?: boolean; awaitingApproval?: number; frozen?: boolean; paused?: boolean }> {
+  const halted = checkHalted(caller);
+  if (halted) return halted;
+
+  const guardrailResult = checkBatchSendGuardrails(transfers, caller);
+  let approvalId: number | undefined;
+  if (guardrailResult.requiresApproval) {
+    const gate = await acquireTransferApproval(caller, transfers, guardrailResult.reason!);
+    if (!gate.approved) {
+      return { success: false, error: gate.error, awaitingApproval: gate.approvalId };
+    }
+    approvalId = gate.approvalId;
+  } else if (!guardrailResult.allowed) {
+    return { success: false, error: guardrailResult.reason };
+  }
+
+  const result = await _sendSolBatch(transfers);
+  if (approvalId !== undefined) {
+    settleApproval(approvalId, result.signature);
+  }
+
+  for (const transfer of transfers) {
+    logWalletOperation({
+      operation: "send_sol",
+      amountLamports: transfer.lamports,
+      destination: transfer.address,
+      txSignature: result.signature,
+      caller,
+      // An unconfirmed send may still land — count it toward the daily outflow
+      success: result.success || !!result.unconfirmed,
+      errorMessage: result.error,
+      metadata: { batchSize: transfers.length },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * The refusal to return while operations are paused or the wallet is
+ * frozen, or null.
+ */
+function checkHalted(
+  caller: string
+): { success: false; error: string; paused?: true; frozen?: true } | null {
+  const pausedError = getPausedError();
+  if (pausedError) {
+    console.warn(`[SecureWallet] Send by ${caller} refused — ${pausedError}`);
+    return { success: false, error: pausedError, paused: true };
+  }
+
+  const freeze = getWalletFreeze();
+  if (!freeze) return null;
+  console.warn(`[SecureWallet] Send by ${caller} refused — wallet frozen: ${freeze.reason}`);
+  return { success: false, error: `Wallet sends are frozen: ${freeze.reason}`, frozen: true };
+}
+
+/**
+ * Record what an approved transfer produced. A send that never produced a
+ * signature hands the approval back for the caller's retry.
+ */
+function settleApproval(approvalId: number, signature?: string): void {
+  if (signature) {
+    setTransferApprovalSignature(approvalId, signature);
+  } else {
+    releaseTransferApproval(approvalId);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Secure wallet access (for signing)
 // ---------------------------------------------------------------------------
@@ -125,6 +232,7 @@ export function secureGetWalletAddress(): string {
 /**
  * Pre-check for operations that spend SOL via fees (deploy, swap, burn).
  * Call this before executing the operation to ensure it won't exceed limits.
+ * Always refuses while on-chain operations are paused.
  *
  * @param estimatedLamports - Estimated SOL cost of the operation
  * @param caller - Module name for audit trail
@@ -134,6 +242,10 @@ export function checkOperation(
   estimatedLamports: number,
   caller: string
 ): { allowed: boolean; reason?: string } {
+  const pausedError = getPausedError();
+  if (pausedError) {
+    return { allowed: false, reason: pausedError };
+  }
   return checkOperationGuardrails(estimatedLamports, caller);
 }
 
@@ -166,7 +278,7 @@ export function logDeployment(params: {
 
 /**
  * Log a buy-and-burn operation result.
- * Called by revenue-distributor after a swap + burn.
+ * Called by buy-burn after a swap.
  */
 export function logBuyBurn(params: {
   caller: string;
@@ -9,6 +9,8 @@ export interface SiteConfig {
   navItems: MenuItem[];
   footerItems: MenuItem[];
   buyLink: string;
+  /** $NEWS token mint (shown in the homepage ticker). */
+  newsTokenMint: string;
 }
 
 export const siteConfig: SiteConfig = {
@@ -74,4 +76,5 @@ export const siteConfig: SiteConfig = {
   ],
   buyLink:
     'https://raydium.io/swap/?inputMint=BAezfVmia8UYLt4rst6PCU4dvL2i2qHzqn4wGhytpNJW&outputMint=sol',
+  newsTokenMint: '7Epmyp9dMD5SzUtxczbuWwsVARyWdzLFAkzxnvZWpump',
 };
@@ -0,0 +1,319 @@
+/**
+ * Simulated Solana / pump.fun backend.
+ *
+ * With SOLANA_MODE=simulated every on-chain operation — SOL transfers, token
+ * deploys, creator-fee claims, bonding-curve volume lookups, $NEWS swaps and
+ * burns — is served from
+ * a fake ledger in SQLite (sim_* tables) instead of a live RPC, PumpPortal or
+ * pump.fun. The scheduler, claim distributor and wallet guardrails run their
+ * normal code paths on top of it, so the whole publish → deploy → claim →
+ * distribute flow can be exercised in tests and staging without spending SOL.
+ *
+ * The simulated master wallet is a deterministic keypair derived from
+ * SIM_WALLET_SEED; the real MASTER_WALLET_* secrets are never read.
+ *
+ * Configuration via environment variables:
+ *   SOLANA_MODE              – "live" (default) or "simulated"
+ *   SIM_WALLET_SEED          – Seed for the simulated master wallet
+ *   SIM_INITIAL_BALANCE_SOL  – Airdropped to the master wallet on first use (default: 10)
+ *   SIM_VOLUME_SOL_PER_HOUR  – Average simulated trading volume per token (default: 5)
+ *   SIM_CREATOR_FEE_BPS      – Creator fee on simulated volume, in basis points (default: 30)
+ */
+
+import crypto from "crypto";
+import { Keypair, LAMPORTS_PER_SOL } from "@solana/web3.js";
+import bs58 from "bs58";
+import {
+  getSimBalance,
+  hasSimTransactions,
+  recordSimTransfer,
+  recordSimTransfers,
+  getSimTransactions,
+  createSimMint,
+  getSimMint,
+  getSimMints,
+  recordSimTrading,
+  takeSimUnclaimedFees,
+} from "./db";
+import type { SimMint, SimTransaction, SimTransactionKind } from "./types";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Network fee charged to the sender of every simulated transaction. */
+const SIM_TX_FEE_LAMPORTS = 5_000;
+
+/** SOL burned by a simulated pump.fun create (rent + program fees). */
+const SIM_CREATE_COST_LAMPORTS = Math.floor(0.02 * LAMPORTS_PER_SOL);
+
+/** Cap on how much trading time is simulated in one accrual pass. */
+const MAX_TRADING_HOURS = 24;
+
+export function isSimulatedSolana(): boolean {
+  return (process.env.SOLANA_MODE || "live").toLowerCase() === "simulated";
+}
+
+function getInitialBalanceLamports(): number {
+  const sol = parseFloat(process.env.SIM_INITIAL_BALANCE_SOL || "10");
+  return Math.floor((isNaN(sol) || sol < 0 ? 10 : sol) * LAMPORTS_PER_SOL);
+}
+
+function getVolumeLamportsPerHour(): number {
+  const sol = parseFloat(process.env.SIM_VOLUME_SOL_PER_HOUR || "5");
+  return (isNaN(sol) || sol < 0 ? 5 : sol) * LAMPORTS_PER_SOL;
+}
+
+function getCreatorFeeRate(): number {
+  const bps = parseFloat(process.env.SIM_CREATOR_FEE_BPS || "30");
+  return (isNaN(bps) || bps < 0 ? 30 : Math.min(bps, 10_000)) / 10_000;
+}
+
+// ---------------------------------------------------------------------------
+// Wallet
+// ---------------------------------------------------------------------------
+
+let simMasterWallet: Keypair | null = null;
+
+/**
+ * Deterministic keypair standing in for the master wallet.
+ * Funded with SIM_INITIAL_BALANCE_SOL the first time its balance is read.
+ */
+export function getSimulatedMasterWallet(): Keypair {
+  if (!simMasterWallet) {
+    const seed = crypto
+      .createHash("sha256")
+      .update(process.env.SIM_WALLET_SEED || "mcafee-report-simulated-master")
+      .digest();
+    simMasterWallet = Keypair.fromSeed(seed);
+  }
+  return simMasterWallet;
+}
+
+/** Random 64-byte base58 signature, shaped like a real one. */
+function simulatedSignature(): string {
+  return bs58.encode(crypto.randomBytes(64));
+}
+
+/**
+ * Simulated balance of any address in lamports.
+ */
+export function getSimulatedBalance(address: string): number {
+  const master = getSimulatedMasterWallet().publicKey.toBase58();
+  if (address === master && !hasSimTransactions(master)) {
+    simulateAirdrop(master, getInitialBalanceLamports());
+  }
+  return getSimBalance(address);
+}
+
+/**
+ * Credit an address out of thin air. Returns the signature.
+ */
+export function simulateAirdrop(address: string, lamports: number): string {
+  const signature = simulatedSignature();
+  recordSimTransfer({ signature, kind: "airdrop", from: null, to: address, lamports });
+  console.log(`[SimChain] Airdropped ${lamports / LAMPORTS_PER_SOL} SOL to ${address}`);
+  return signature;
+}
+
+/**
+ * Move SOL between simulated accounts. The sender also pays the network fee.
+ * Throws if the sender can't cover amount + fee. Returns the signature.
+ */
+export async function simulateTransfer(
+  fromAddress: string,
+  toAddress: string,
+  lamports: number,
+  kind: SimTransactionKind = "transfer"
+): Promise<string> {
+  getSimulatedBalance(fromAddress); // make sure the master wallet is funded
+  const signature = simulatedSignature();
+  recordSimTransfer({
+    signature,
+    kind,
+    from: fromAddress,
+    to: toAddress,
+    lamports,
+    feeLamports: SIM_TX_FEE_LAMPORTS,
+  });
+  return signature;
+}
+
+/**
+ * Pay several recipients in one simulated transaction (all-or-nothing).
+ * Recorded as one leg per recipient; the first leg carries the single network
+ * fee and its signature is returned for the whole transaction.
+ */
+export async function simulateBatchTransfer(
+  fromAddress: string,
+  transfers: Array<{ address: string; lamports: number }>
+): Promise<string> {
+  getSimulatedBalance(fromAddress); // make sure the master wallet is funded
+  const legs = transfers.map((transfer, i) => ({
+    signature: simulatedSignature(),
+    kind: "transfer" as const,
+    from: fromAddress,
+    to: transfer.address,
+    lamports: transfer.lamports,
+    feeLamports: i === 0 ? SIM_TX_FEE_LAMPORTS : 0,
+  }));
+  recordSimTransfers(legs);
+  return legs[0].signature;
+}
+
+/**
+ * Recent simulated transactions for an address, newest first.
+ */
+export function getSimulatedTransactions(address: string, limit: number = 10): SimTransaction[] {
+  return getSimTransactions(address, limit);
+}
+
+// ---------------------------------------------------------------------------
+// Swaps and burns
+// ---------------------------------------------------------------------------
+
+/**
+ * Simulate spending SOL on a token swap: the SOL (plus the network fee)
+ * leaves the wallet. Token balances are not tracked. Returns the signature.
+ */
+export async function simulateSwap(
+  fromAddress: string,
+  mintAddress: string,
+  lamports: number
+): Promise<string> {
+  getSimulatedBalance(fromAddress); // make sure the master wallet is funded
+  const signature = simulatedSignature();
+  recordSimTransfer({
+    signature,
+    kind: "swap",
+    from: fromAddress,
+    to: null,
+    lamports,
+    feeLamports: SIM_TX_FEE_LAMPORTS,
+    mintAddress,
+  });
+  return signature;
+}
+
+/**
+ * Simulate an SPL burn: only the network fee moves. Returns the signature.
+ */
+export async function simulateTokenBurn(ownerAddress: string, mintAddress: string): Promise<string> {
+  getSimulatedBalance(ownerAddress);
+  const signature = simulatedSignature();
+  recordSimTransfer({
+    signature,
+    kind: "burn_tokens",
+    from: ownerAddress,
+    to: null,
+    lamports: 0,
+    feeLamports: SIM_TX_FEE_LAMPORTS,
+    mintAddress,
+  });
+  return signature;
+}
+
+// ---------------------------------------------------------------------------
+// pump.fun
+// ---------------------------------------------------------------------------
+
+/**
+ * Simulate a pump.fun create: burns the create cost from the creator and
+ * registers the mint with a fresh bonding-curve address.
+ */
+export async function simulateCreateToken(
+  creatorAddress: string,
+  mintAddress: string,
+  name: string,
+  symbol: string,
+  metadataUri: string | null
+): Promise<string> {
+  getSimulatedBalance(creatorAddress);
+  const signature = simulatedSignature();
+  recordSimTransfer({
+    signature,
+    kind: "create_token",
+    from: creatorAddress,
+    to: null,
+    lamports: SIM_CREATE_COST_LAMPORTS,
+    feeLamports: SIM_TX_FEE_LAMPORTS,
+    mintAddress,
+  });
+  createSimMint(
+    mintAddress,
+    creatorAddress,
+    name,
+    symbol,
+    metadataUri,
+    Keypair.generate().publicKey.toBase58()
+  );
+  console.log(`[SimChain] Created ${symbol} (${mintAddress})`);
+  return signature;
+}
+
+/**
+ * Accrue simulated trading on every mint since its last trade: random volume
+ * around SIM_VOLUME_SOL_PER_HOUR, with SIM_CREATOR_FEE_BPS of it owed to the
+ * creator.
+ */
+export function simulateTrading(): void {
+  const perHour = getVolumeLamportsPerHour();
+  const feeRate = getCreatorFeeRate();
+  const now = Date.now();
+
+  for (const mint of getSimMints()) {
+    const lastTrade = new Date(mint.last_trade_at.replace(" ", "T") + "Z").getTime();
+    const hours = Math.min(MAX_TRADING_HOURS, Math.max(0, (now - lastTrade) / 3_600_000));
+    if (hours <= 0) continue;
+
+    const volume = hours * perHour * (0.5 + Math.random());
+    recordSimTrading(mint.mint_address, volume, volume * feeRate);
+  }
+}
+
+/**
+ * Simulate PumpPortal's collectCreatorFee: accrues trading, then pays every
+ * unclaimed creator fee for the wallet's mints in one transfer.
+ * Throws "No fees to claim" when there is nothing to collect.
+ */
+export async function simulateCollectCreatorFee(creatorAddress: string): Promise<string> {
+  simulateTrading();
+
+  const owed = takeSimUnclaimedFees(creatorAddress);
+  if (owed <= SIM_TX_FEE_LAMPORTS) {
+    throw new Error("No fees to claim");
+  }
+
+  const signature = simulatedSignature();
+  recordSimTransfer({
+    signature,
+    kind: "claim_creator_fee",
+    from: null,
+    to: creatorAddress,
+    lamports: owed - SIM_TX_FEE_LAMPORTS,
+  });
+  console.log(`[SimChain] Paid ${(owed - SIM_TX_FEE_LAMPORTS) / LAMPORTS_PER_SOL} SOL creator fees to ${creatorAddress}`);
+  return signature;
+}
+
+/**
+ * Cumulative simulated SOL volume through a mint's bonding curve, in lamports
+ * (stands in for the Helius trade history).
+ */
+export function getSimulatedBondingCurveVolume(mintAddress: string): number {
+  return getSimMint(mintAddress)?.volume_lamports ?? 0;
+}
+
+/**
+ * Simulated pump.fun coin data, or undefined for unknown mints.
+ */
+export function getSimulatedMint(mintAddress: string): SimMint | undefined {
+  return getSimMint(mintAddress);
+}
+
+/**
+ * Every simulated mint, oldest first.
+ */
+export function getSimulatedMints(): SimMint[] {
+  return getSimMints();
+}
@@ -5,9 +5,18 @@ import {
   Transaction,
   SystemProgram,
   LAMPORTS_PER_SOL,
+  type TransactionError,
 } from "@solana/web3.js";
 import bs58 from "bs58";
 import { getPrivateKeySync } from "./secrets-provider";
+import {
+  isSimulatedSolana,
+  getSimulatedMasterWallet,
+  getSimulatedBalance,
+  getSimulatedTransactions,
+  simulateTransfer,
+  simulateBatchTransfer,
+} from "./solana-sim";
 
 // Configuration
 const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com";
@@ -37,8 +46,15 @@ export function getConnection(): Connection {
  *
  * For AWS mode, `initializeKey()` from secrets-provider must be called
  * once at startup before this function is used.
+ *
+ * With SOLANA_MODE=simulated, returns the simulated master wallet instead and
+ * never reads the real key.
  */
 export function getMasterWallet(): Keypair {
+  if (isSimulatedSolana()) {
+    return getSimulatedMasterWallet();
+  }
+
   const base58Key = getPrivateKeySync();
 
   try {
@@ -60,10 +76,11 @@ export function getMasterWalletAddress(): string {
  * Check master wallet balance
  */
 export async function getMasterWalletBalance(): Promise<{ lamports: number; sol: number }> {
-  const connection = getConnection();
   const wallet = getMasterWallet();
   
-  const balance = await connection.getBalance(wallet.publicKey);
+  const balance = isSimulatedSolana()
+    ? getSimulatedBalance(wallet.publicKey.toBase58())
+    : await getConnection().getBalance(wallet.publicKey);
   
   return {
     lamports: balance,
@@ -71,6 +88,52 @@ export async function getMasterWalletBalance(): Promise<{ lamports: number; sol:
   };
 }
 
+/**
+ * Check the balance of any address (pool and creator wallets, reconciliation)
+ */
+export async function getAddressBalance(address: string): Promise<{ lamports: number; sol: number }> {
+  const balance = isSimulatedSolana()
+    ? getSimulatedBalance(address)
+    : await getConnection().getBalance(new PublicKey(address));
+
+  return {
+    lamports: balance,
+    sol: balance / LAMPORTS_PER_SOL,
+  };
+}
+
+/**
+ * The master wallet's token account for a mint: its address, the token
+ * program that owns it (SPL Token or Token-2022) and the raw balance.
+ * Returns null if the wallet holds no account for the mint. Token balances
+ * are not tracked with SOLANA_MODE=simulated, which always returns null.
+ */
+export async function getMasterTokenHolding(mintAddress: string): Promise<{
+  account: PublicKey;
+  programId: PublicKey;
+  amount: number;
+  decimals: number;
+} | null> {
+  if (isSimulatedSolana()) return null;
+
+  const { value } = await getConnection().getParsedTokenAccountsByOwner(
+    getMasterWallet().publicKey,
+    { mint: new PublicKey(mintAddress) }
+  );
+
+  // Prefer the account holding the most tokens (normally the only one, the ATA)
+  let best: { account: PublicKey; programId: PublicKey; amount: number; decimals: number } | null = null;
+  for (const { pubkey, account } of value) {
+    const info = account.data.parsed?.info?.tokenAmount;
+    if (!info) continue;
+    const amount = Number(info.amount);
+    if (!best || amount > best.amount) {
+      best = { account: pubkey, programId: account.owner, amount, decimals: info.decimals };
+    }
+  }
+  return best;
+}
+
 /**
  * Validate a Solana address
  */
@@ -98,6 +161,20 @@ export async function sendSol(
   if (!isValidSolanaAddress(recipientAddress)) {
     return { success: false, error: "Invalid recipient address" };
   }
+
+  if (isSimulatedSolana()) {
+    try {
+      const signature = await simulateTransfer(
+        getMasterWalletAddress(),
+        recipientAddress,
+        lamports
+      );
+      console.log(`[Wallet] Simulated transfer successful: ${signature}`);
+      return { success: true, signature };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
   
   const connection = getConnection();
   const masterWallet = getMasterWallet();
@@ -171,6 +248,102 @@ export async function sendSol(
   };
 }
 
+/**
+ * Send SOL from the master wallet to several recipients in one transaction
+ * (one SystemProgram.transfer per recipient, one network fee).
+ *
+ * Unlike sendSol this never re-signs and retries: a fresh blockhash could
+ * land a second copy and pay every recipient twice. If the transaction was
+ * sent but its outcome is unknown (anything but an on-chain error or an
+ * expired blockhash, e.g. a confirmation timeout or an RPC error while
+ * polling), `unconfirmed` is set and the signature returned so the caller
+ * can check it before paying again.
+ */
+export async function sendSolBatch(
+  transfers: Array<{ address: string; lamports: number }>,
+  options: { skipPreflight?: boolean } = {}
+): Promise<{ success: boolean; signature?: string; error?: string; unconfirmed?: boolean }> {
+  const total = transfers.reduce((sum, t) => sum + t.lamports, 0);
+  console.log(`[Wallet] Sending ${total / LAMPORTS_PER_SOL} SOL to ${transfers.length} recipient(s) in one transaction`);
+
+  if (transfers.length === 0) {
+    return { success: false, error: "No recipients" };
+  }
+  const invalid = transfers.find((t) => !isValidSolanaAddress(t.address));
+  if (invalid) {
+    return { success: false, error: `Invalid recipient address: ${invalid.address}` };
+  }
+
+  if (isSimulatedSolana()) {
+    try {
+      const signature = await simulateBatchTransfer(getMasterWalletAddress(), transfers);
+      console.log(`[Wallet] Simulated batch transfer successful: ${signature}`);
+      return { success: true, signature };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  const connection = getConnection();
+  const masterWallet = getMasterWallet();
+
+  // Informational pre-flight check (see sendSol)
+  const balance = await getMasterWalletBalance();
+  const estimatedFee = 10_000;
+  if (balance.lamports < total + estimatedFee) {
+    return {
+      success: false,
+      error: `Insufficient balance: ${balance.sol} SOL, need ${(total + estimatedFee) / LAMPORTS_PER_SOL} SOL`,
+    };
+  }
+
+  let sentSignature: string | undefined;
+  try {
+    const transaction = new Transaction();
+    for (const transfer of transfers) {
+      transaction.add(
+        SystemProgram.transfer({
+          fromPubkey: masterWallet.publicKey,
+          toPubkey: new PublicKey(transfer.address),
+          lamports: transfer.lamports,
+        })
+      );
+    }
+
+    const { blockhash, lastValidBlockHeight } =
+      await connection.getLatestBlockhash("confirmed");
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = masterWallet.publicKey;
+
+    transaction.sign(masterWallet);
+    const signature = await connection.sendRawTransaction(
+      transaction.serialize(),
+      {
+        skipPreflight: options.skipPreflight ?? false,
+        preflightCommitment: "confirmed",
+      }
+    );
+    sentSignature = signature;
+
+    await confirmTransactionPolling(
+      connection,
+      signature,
+      blockhash,
+      lastValidBlockHeight,
+      "confirmed"
+    );
+
+    console.log(`[Wallet] Batch transfer successful: ${signature}`);
+    return { success: true, signature };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Wallet] Batch transfer failed:`, message);
+    // Once sent, only an expired or errored transaction definitely did not move funds
+    const unconfirmed = !!sentSignature && !(error instanceof TransactionNotLandedError);
+    return { success: false, signature: sentSignature, error: message, unconfirmed };
+  }
+}
+
 /**
  * Get recent transactions for the master wallet
  */
@@ -178,8 +351,17 @@ export async function getRecentTransactions(limit: number = 10): Promise<Array<{
   signature: string;
   timestamp: number | null | undefined;
   slot: number;
-  err: any;
+  err: TransactionError | null;
 }>> {
+  if (isSimulatedSolana()) {
+    return getSimulatedTransactions(getMasterWalletAddress(), limit).map(tx => ({
+      signature: tx.signature,
+      timestamp: Math.floor(new Date(tx.created_at.replace(" ", "T") + "Z").getTime() / 1000),
+      slot: tx.id,
+      err: null,
+    }));
+  }
+
   const connection = getConnection();
   const wallet = getMasterWallet();
   
@@ -203,6 +385,11 @@ export async function getRecentTransactions(limit: number = 10): Promise<Array<{
 export function monitorWalletForIncoming(
   onTransaction: (signature: string, lamports: number) => void
 ): () => void {
+  if (isSimulatedSolana()) {
+    console.log("[Wallet] Simulated mode — incoming transaction monitoring disabled");
+    return () => {};
+  }
+
   const connection = getConnection();
   const wallet = getMasterWallet();
   
@@ -260,6 +447,13 @@ export function monitorWalletForIncoming(
 // is a security risk (they end up in logs, HTTP responses, error reports).
 // Use Solana CLI or a secure key management solution instead.
 
+/**
+ * Thrown by confirmTransactionPolling when a transaction definitely did not
+ * move funds: it errored on-chain or its blockhash expired. Any other error
+ * (timeout, RPC or network failure) leaves the outcome unknown.
+ */
+export class TransactionNotLandedError extends Error {}
+
 /**
  * Confirm a transaction using polling (getSignatureStatuses) instead of
  * WebSocket subscriptions.  The default public RPC does not support the
@@ -288,7 +482,7 @@ export async function confirmTransactionPolling(
 
     if (status) {
       if (status.err) {
-        throw new Error(
+        throw new TransactionNotLandedError(
           `Transaction ${signature} failed: ${JSON.stringify(status.err)}`
         );
       }
@@ -304,7 +498,7 @@ export async function confirmTransactionPolling(
     // Check if blockhash has expired
     const blockHeight = await connection.getBlockHeight();
     if (blockHeight > lastValidBlockHeight) {
-      throw new Error(
+      throw new TransactionNotLandedError(
         `Transaction ${signature} expired: block height ${blockHeight} > ${lastValidBlockHeight}`
       );
     }
@@ -332,10 +526,8 @@ export async function checkWalletConfig(): Promise<{
     const wallet = getMasterWallet();
     const address = wallet.publicKey.toBase58();
     
-    // Check connection
-    const connection = getConnection();
-    const balance = await connection.getBalance(wallet.publicKey);
-    const balanceSol = balance / LAMPORTS_PER_SOL;
+    // Check connection (simulated mode reads the fake ledger)
+    const { sol: balanceSol } = await getMasterWalletBalance();
     
     if (balanceSol < 0.01) {
       issues.push(`Low balance: ${balanceSol} SOL`);
@@ -0,0 +1,192 @@
+/**
+ * Source Domains — a registry of the sites submissions link to.
+ *
+ * Each domain has an admin-set trust tier (/domains in the bot):
+ *   - trusted – vouched-for outlet; the fact check is told so and its score
+ *               gets a small bonus
+ *   - neutral – the default; judged on the content alone
+ *   - blocked – rejected at validation without any AI calls
+ * A tier on example.com also covers news.example.com, unless the subdomain
+ * has its own entry.
+ *
+ * Validation outcomes are learned per domain (approved, and rejected by
+ * reason: fact check, stale, duplicate, blocked). A neutral domain's track
+ * record is shown to the fact check once it has enough history.
+ */
+
+import { getSourceDomains, recordSourceDomainOutcome, setSourceDomainTier } from "./db";
+import type { SourceDomain, SourceDomainTier, ValidationResult } from "./types";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Fact score points added for trusted domains (capped at 100). */
+export const TRUSTED_FACT_BONUS = 10;
+
+/** Validations needed before a neutral domain's history is shown to the fact check. */
+const MIN_HISTORY_FOR_FACT_CHECK = 5;
+
+const MAX_NOTE_LENGTH = 200;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DomainTrust {
+  /** The submission's host, without "www.". */
+  host: string;
+  /** The most specific admin-set entry covering the host, else the host's own (stats-only) entry. */
+  entry?: SourceDomain;
+  tier: SourceDomainTier;
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalize a URL or bare domain to a lowercase host without "www.".
+ * Returns null if it is not a usable domain.
+ */
+export function normalizeDomain(input: string): string | null {
+  const raw = input.trim().toLowerCase();
+  let host: string;
+  try {
+    host = new URL(raw.includes("://") ? raw : `https://${raw}`).hostname;
+  } catch {
+    return null;
+  }
+  host = host.replace(/^www\./, "").replace(/\.$/, "");
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : null;
+}
+
+/** The host and each parent domain, most specific first (a.b.com, b.com). */
+function domainCandidates(host: string): string[] {
+  const labels = host.split(".");
+  const candidates: string[] = [];
+  for (let i = 0; i < labels.length - 1; i++) {
+    candidates.push(labels.slice(i).join("."));
+  }
+  return candidates;
+}
+
+/**
+ * The trust tier that applies to a URL. Unknown domains are neutral.
+ */
+export function getDomainTrust(url: string): DomainTrust | null {
+  const host = normalizeDomain(url);
+  if (!host) return null;
+
+  // Entries only created by learned stats never set a tier
+  const candidates = domainCandidates(host);
+  const entries = getSourceDomains(candidates);
+  const entry = candidates
+    .map((domain) => entries.find((e) => e.domain === domain))
+    .find((e): e is SourceDomain => e !== undefined && e.tier_set_by !== null)
+    ?? entries.find((e) => e.domain === host);
+
+  return { host, entry, tier: entry?.tier_set_by ? entry.tier : "neutral" };
+}
+
+// ---------------------------------------------------------------------------
+// Validation hooks
+// ---------------------------------------------------------------------------
+
+/**
+ * Rejection reason for a blocked domain, or null if the URL may be validated.
+ */
+export function getBlockedDomainReason(trust: DomainTrust | null): string | null {
+  if (!trust || trust.tier !== "blocked") return null;
+  const note = trust.entry?.note ? `: ${trust.entry.note}` : "";
+  return `Submissions from ${trust.entry?.domain ?? trust.host} are not accepted${note}`;
+}
+
+/**
+ * Fact-check prompt guidance for a domain's tier and track record, or "".
+ */
+export function describeDomainForFactCheck(trust: DomainTrust | null): string {
+  if (!trust) return "";
+
+  if (trust.tier === "trusted") {
+    return `\n\nSOURCE TRUST: The editors list ${trust.entry?.domain ?? trust.host} as a TRUSTED source. Treat it as a legitimate outlet for criterion 1, but still judge the content itself — a trusted outlet's opinion piece, satire or advertorial is not news.`;
+  }
+
+  const entry = trust.entry;
+  const decided = entry ? entry.approved_count + entry.rejected_count : 0;
+  if (!entry || decided < MIN_HISTORY_FOR_FACT_CHECK) return "";
+
+  const rate = Math.round((entry.approved_count / decided) * 100);
+  return `\n\nSOURCE HISTORY: ${decided} earlier submissions from ${entry.domain}; ${rate}% passed validation (${entry.fact_rejections} failed the fact check). Use this as weak evidence about the source only.`;
+}
+
+/**
+ * Learn from a validation result. Technical errors are not held against
+ * the domain.
+ */
+export function recordDomainValidation(url: string, result: ValidationResult): void {
+  if (result.rejectionKind === "error") return;
+  const host = normalizeDomain(url);
+  if (!host) return;
+
+  // Count against the entry that set the tier, so a blocked parent domain
+  // collects its subdomains' blocks
+  const trust = getDomainTrust(url);
+  const domain = trust?.entry && trust.tier !== "neutral" ? trust.entry.domain : host;
+
+  recordSourceDomainOutcome(
+    domain,
+    result.isValid ? null : result.rejectionKind ?? "fact",
+    result.isValid ? null : result.rejectionReason ?? null
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Administration
+// ---------------------------------------------------------------------------
+
+/**
+ * Set a domain's tier (admin). Accepts a bare domain or a URL.
+ */
+export function setDomainTier(
+  input: string,
+  tier: SourceDomainTier,
+  note: string | null,
+  setBy: string
+): { success: boolean; domain?: SourceDomain; error?: string } {
+  const domain = normalizeDomain(input);
+  if (!domain) {
+    return { success: false, error: `"${input}" is not a valid domain.` };
+  }
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return { success: false, error: `Note must be ${MAX_NOTE_LENGTH} characters or less.` };
+  }
+
+  const entry = setSourceDomainTier(domain, tier, note || null, setBy);
+  console.log(`[SourceDomains] ${setBy} set ${domain} to ${tier}`);
+  return { success: true, domain: entry };
+}
+
+/**
+ * Plain-text summary of a registry entry for the bot.
+ */
+export function formatSourceDomain(entry: SourceDomain): string {
+  const decided = entry.approved_count + entry.rejected_count;
+  let line = `${entry.domain} — ${entry.tier.toUpperCase()}`;
+  if (entry.note) line += ` (${entry.note})`;
+  line += `\n  ${decided} validated`;
+  if (decided > 0) {
+    line += `, ${Math.round((entry.approved_count / decided) * 100)}% approved`;
+    const reasons = [
+      entry.fact_rejections > 0 ? `${entry.fact_rejections} fact` : "",
+      entry.stale_rejections > 0 ? `${entry.stale_rejections} stale` : "",
+      entry.duplicate_rejections > 0 ? `${entry.duplicate_rejections} duplicate` : "",
+      entry.blocked_rejections > 0 ? `${entry.blocked_rejections} blocked` : "",
+    ].filter(Boolean);
+    if (reasons.length > 0) line += ` — rejected: ${reasons.join(", ")}`;
+  }
+  if (entry.last_rejection_reason) {
+    line += `\n  Last rejection: ${entry.last_rejection_reason.slice(0, 120)}`;
+  }
+  return line;
+}
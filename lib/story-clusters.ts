@@ -0,0 +1,91 @@
+/**
+ * Story Clusters — groups related published headlines into developing
+ * stories using the submission embeddings stored by the duplicate checker.
+ *
+ * A newly published headline joins the cluster of the most similar headline
+ * published in the lookback window (starting a cluster if that headline had
+ * none). Submissions an editor accepted as a story update — follow-ups the
+ * duplicate checker rejected — join at the duplicate checker's "maybe" floor.
+ *
+ * Configuration via environment variables:
+ *   STORY_CLUSTER_THRESHOLD   – Embedding similarity to join a story (default: 0.72)
+ *   STORY_CLUSTER_WINDOW_DAYS – How far back to look for related headlines (default: 7)
+ */
+
+import {
+  getStoryClusterCandidates,
+  createStoryCluster,
+  setHeadlineCluster,
+} from "./db";
+import { cosineSimilarity, DUPLICATE_THRESHOLD_MAYBE } from "./ai-validator";
+import type { Submission } from "./types";
+
+function getClusterThreshold(): number {
+  const threshold = parseFloat(process.env.STORY_CLUSTER_THRESHOLD || "0.72");
+  return isNaN(threshold) || threshold <= 0 || threshold > 1 ? 0.72 : threshold;
+}
+
+function getClusterWindowDays(): number {
+  const days = parseInt(process.env.STORY_CLUSTER_WINDOW_DAYS || "7", 10);
+  return isNaN(days) || days < 1 ? 7 : days;
+}
+
+/**
+ * Attach a just-published headline to a developing story.
+ * Returns the cluster ID, or null if no related headline was close enough.
+ */
+export function assignStoryCluster(
+  headlineId: number,
+  submission: Submission
+): number | null {
+  if (!submission.embedding) return null;
+
+  let embedding: number[];
+  try {
+    embedding = JSON.parse(submission.embedding) as number[];
+  } catch {
+    return null;
+  }
+
+  const threshold = submission.story_update
+    ? Math.min(DUPLICATE_THRESHOLD_MAYBE, getClusterThreshold())
+    : getClusterThreshold();
+
+  let best: { headlineId: number; title: string; clusterId: number | null; similarity: number } | null = null;
+  for (const candidate of getStoryClusterCandidates(getClusterWindowDays(), headlineId)) {
+    try {
+      const similarity = cosineSimilarity(embedding, JSON.parse(candidate.embedding) as number[]);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = {
+          headlineId: candidate.headline_id,
+          title: candidate.title,
+          clusterId: candidate.cluster_id,
+          similarity,
+        };
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  if (!best) {
+    if (submission.story_update) {
+      console.warn(
+        `[StoryClusters] Story update #${submission.id} matched no recent headline — published standalone`
+      );
+    }
+    return null;
+  }
+
+  let clusterId = best.clusterId;
+  if (clusterId === null) {
+    clusterId = createStoryCluster(best.title).id;
+    setHeadlineCluster(best.headlineId, clusterId);
+  }
+  setHeadlineCluster(headlineId, clusterId);
+
+  console.log(
+    `[StoryClusters] Headline #${headlineId} joined story #${clusterId} via #${best.headlineId} (${(best.similarity * 100).toFixed(1)}%)`
+  );
+  return clusterId;
+}
@@ -0,0 +1,307 @@
+/**
+ * Submitter Payouts — scheduled, batched payment of accrued submitter balances.
+ *
+ * Claim distribution no longer sends SOL: each submitter's share is accrued
+ * to their submitter_payable ledger account (lib/ledger.ts), dust included.
+ * A payout run then pays every wallet whose balance has reached
+ * PAYOUT_MIN_SOL, grouping up to PAYOUT_BATCH_SIZE recipients into a single
+ * multi-transfer transaction so a batch costs one network fee.
+ *
+ * Safety:
+ * - Each recipient is capped at the per-transaction guardrail (MAX_TX_SOL);
+ *   anything above it carries over to the next run.
+ * - A batch whose transaction was sent but never confirmed stays "pending"
+ *   and blocks further runs until an operator resolves it
+ *   (`npx tsx scripts/payouts.ts resolve <id> sent|failed`), so nobody is
+ *   paid twice.
+ * - Nothing is paid while the wallet is frozen (wallet-guardrails.ts) or
+ *   on-chain operations are paused (emergency-pause.ts). A batch held by
+ *   either, or by an approval request, is not recorded at all: its wallets
+ *   simply stay owed.
+ * - A batch held for admin approval (transfer-approvals.ts) is approved for
+ *   its exact amounts: its recipients are left out of later plans while the
+ *   request is live, and once approved the batch is planned again exactly
+ *   as approved (if those wallets are still owed that much).
+ *
+ * Revenue shares are paid directly by revenue-distributor.ts: while a
+ * revenue event is pending its share is left out of the wallet's balance
+ * here, and only a share that failed to send is paid by a payout run.
+ *
+ * Payout wallet changes (payout-wallets.ts) are activated at the start of a
+ * run, once no batch is unresolved, and claim shares skipped as dust before
+ * shares were accrued are added to their wallets' balances.
+ *
+ * Runs every 6 hours via the scheduler cron.
+ */
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { isValidSolanaAddress } from "./solana-wallet";
+import { secureSendSolBatch } from "./secure-wallet";
+import { getGuardrailStatus, getWalletFreeze } from "./wallet-guardrails";
+import {
+  createPayoutBatch,
+  deletePayoutBatch,
+  getPayoutBatchById,
+  getPendingRevenueSharesByToken,
+  getTokenById,
+  getPayoutBatchItems,
+  getPendingPayoutBatches,
+  markPayoutBatchFailed,
+  markPayoutBatchSent,
+  setPayoutBatchSignature,
+} from "./db";
+import { getSubmitterPayables, recordSubmitterBatchPayout } from "./ledger";
+import { notifyAdmins } from "./telegram-notifier";
+import { activateDuePayoutWallets, resolvePayoutAddress } from "./payout-wallets";
+import { accrueSkippedAllocations } from "./claim-distributor";
+import { getPausedError } from "./emergency-pause";
+import { getLiveApprovalTransfers } from "./transfer-approvals";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/** Minimum accrued balance before a wallet is paid. */
+function getPayoutMinLamports(): number {
+  const raw = parseFloat(process.env.PAYOUT_MIN_SOL || "0.01");
+  return Math.floor((isNaN(raw) || raw < 0 ? 0.01 : raw) * LAMPORTS_PER_SOL);
+}
+
+/** Caller name for guardrails, the audit log and transfer approvals. */
+const PAYOUT_CALLER = "submitter-payouts";
+
+/** Recipients per transaction (a legacy transaction fits ~20 transfers). */
+function getPayoutBatchSize(): number {
+  const raw = parseInt(process.env.PAYOUT_BATCH_SIZE || "15", 10);
+  return isNaN(raw) ? 15 : Math.max(1, Math.min(20, raw));
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PlannedPayout {
+  address: string;
+  lamports: number;
+  /** Accrued balance before this payout. */
+  owedLamports: number;
+}
+
+export interface PayoutRunResult {
+  batches: number;
+  paidRecipients: number;
+  paidLamports: number;
+  failedBatches: number;
+  /** Batches not sent because admin approval, a freeze or a pause held them. */
+  heldBatches: number;
+  /** Why the last held batch was held. */
+  heldReason?: string;
+  /** Set when the run did not send anything (e.g. an unresolved batch). */
+  skippedReason?: string;
+  plan: PlannedPayout[][];
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/**
+ * Submitter shares of pending revenue events per payout wallet: accrued, but
+ * about to be sent by revenue-distributor.ts to the wallet it resolves now.
+ */
+function getPendingRevenueShares(): Map<string, number> {
+  const shares = new Map<string, number>();
+  for (const row of getPendingRevenueSharesByToken()) {
+    const token = getTokenById(row.token_id);
+    if (!token) continue;
+    const address = resolvePayoutAddress(token);
+    shares.set(address, (shares.get(address) ?? 0) + row.submitter_share_lamports);
+  }
+  return shares;
+}
+
+/**
+ * Wallets due a payout, grouped into transactions: admin-approved batches
+ * first (exactly as approved), then everyone else due, largest balance first.
+ * Recipients of a batch still awaiting (or refused) approval wait for it.
+ * Shares of pending revenue events are not counted as owed.
+ */
+export function planPayouts(): PlannedPayout[][] {
+  const minLamports = getPayoutMinLamports();
+  const maxTxLamports = Math.floor(getGuardrailStatus().maxTxSol * LAMPORTS_PER_SOL);
+  const batchSize = getPayoutBatchSize();
+
+  const pendingRevenue = getPendingRevenueShares();
+  const payables = getSubmitterPayables().map((p) => ({
+    ...p,
+    owedLamports: p.owedLamports - (pendingRevenue.get(p.address) ?? 0),
+  }));
+  const owed = new Map(payables.map((p) => [p.address, p.owedLamports]));
+
+  const batches: PlannedPayout[][] = [];
+  const held = new Set<string>();
+  for (const { approval, transfers } of getLiveApprovalTransfers(PAYOUT_CALLER)) {
+    for (const t of transfers) held.add(t.address);
+    if (approval.status !== "approved") continue;
+
+    // Balances only grow between runs, unless a payable moved to a new wallet
+    if (transfers.some((t) => (owed.get(t.address) ?? 0) < t.lamports)) {
+      console.warn(`[Payouts] Approved batch #${approval.id} exceeds what its wallets are owed now — not sending it`);
+      continue;
+    }
+    batches.push(transfers.map((t) => ({ ...t, owedLamports: owed.get(t.address)! })));
+  }
+
+  const due = payables
+    .filter((p) => !held.has(p.address))
+    .filter((p) => p.owedLamports >= minLamports && p.owedLamports > 0)
+    .filter((p) => isValidSolanaAddress(p.address))
+    .map((p) => ({
+      address: p.address,
+      lamports: Math.min(p.owedLamports, maxTxLamports),
+      owedLamports: p.owedLamports,
+    }))
+    .filter((p) => p.lamports > 0)
+    .sort((a, b) => b.owedLamports - a.owedLamports);
+
+  for (let i = 0; i < due.length; i += batchSize) {
+    batches.push(due.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+/**
+ * Book a confirmed payout batch: mark it sent (and the matching claim
+ * allocations paid) and debit the recipients' payables in the ledger.
+ */
+function settlePayoutBatch(batchId: number, txSignature: string): void {
+  markPayoutBatchSent(batchId, txSignature);
+
+  const items = getPayoutBatchItems(batchId).map((item) => ({
+    address: item.sol_address,
+    lamports: item.amount_lamports,
+  }));
+  const posted = recordSubmitterBatchPayout(`payout_batch:${batchId}`, items, txSignature);
+  if (posted === null) {
+    // Without the ledger debit these balances would be paid again next run
+    const message =
+      `🚨 Payout batch #${batchId} was sent (${txSignature}) but could not be posted to the ledger. ` +
+      `Payout runs may pay these ${items.length} wallet(s) again — investigate before the next run.`;
+    console.error(`[Payouts] ${message}`);
+    notifyAdmins(message).catch(() => {});
+  }
+}
+
+/**
+ * Pay every wallet whose accrued balance has reached the threshold.
+ */
+export async function runSubmitterPayouts(options: { dryRun?: boolean } = {}): Promise<PayoutRunResult> {
+  const result: PayoutRunResult = {
+    batches: 0,
+    paidRecipients: 0,
+    paidLamports: 0,
+    failedBatches: 0,
+    heldBatches: 0,
+    plan: [],
+  };
+
+  const freeze = getWalletFreeze();
+  const pausedError = getPausedError();
+  if (pausedError || freeze) {
+    result.skippedReason = pausedError || `Wallet sends are frozen: ${freeze!.reason}`;
+    console.warn(`[Payouts] Skipping run — ${result.skippedReason}`);
+    return result;
+  }
+
+  const unresolved = getPendingPayoutBatches();
+  if (unresolved.length > 0) {
+    result.skippedReason =
+      `${unresolved.length} payout batch(es) awaiting resolution: ` +
+      unresolved.map((b) => `#${b.id}`).join(", ");
+    console.warn(`[Payouts] Skipping run — ${result.skippedReason}`);
+    return result;
+  }
+
+  // Safe now that no batch is unresolved: move balances owed to replaced
+  // addresses onto wallet changes that just finished their cooldown
+  if (!options.dryRun) {
+    await activateDuePayoutWallets();
+    accrueSkippedAllocations();
+  }
+
+  result.plan = planPayouts();
+  if (result.plan.length === 0 || options.dryRun) {
+    return result;
+  }
+
+  for (const planned of result.plan) {
+    const transfers = planned.map((p) => ({ address: p.address, lamports: p.lamports }));
+    const batch = createPayoutBatch(transfers);
+    result.batches++;
+
+    const send = await secureSendSolBatch(transfers, PAYOUT_CALLER);
+
+    if (send.success && send.signature) {
+      settlePayoutBatch(batch.id, send.signature);
+      result.paidRecipients += transfers.length;
+      result.paidLamports += batch.total_lamports;
+      console.log(
+        `[Payouts] Batch #${batch.id}: paid ${batch.total_lamports / LAMPORTS_PER_SOL} SOL ` +
+        `to ${transfers.length} wallet(s) (tx: ${send.signature})`
+      );
+    } else if (send.unconfirmed && send.signature) {
+      // Outcome unknown — leave pending so no later run pays these wallets twice
+      setPayoutBatchSignature(batch.id, send.signature);
+      result.failedBatches++;
+      const message =
+        `⚠️ Payout batch #${batch.id} (${transfers.length} wallet(s), ` +
+        `${batch.total_lamports / LAMPORTS_PER_SOL} SOL) was sent but not confirmed: ${send.signature}\n` +
+        `Payouts are paused until it is resolved with scripts/payouts.ts.`;
+      console.error(`[Payouts] ${message}`);
+      await notifyAdmins(message);
+      break;
+    } else if (send.awaitingApproval || send.frozen || send.paused) {
+      // Nothing was sent: drop the batch record and keep the balances owed.
+      // A batch awaiting approval is planned again once it is approved.
+      deletePayoutBatch(batch.id);
+      result.batches--;
+      result.heldBatches++;
+      result.heldReason = send.error;
+      console.warn(`[Payouts] Batch of ${transfers.length} wallet(s) held: ${send.error}`);
+      if (!send.awaitingApproval) break;
+    } else {
+      markPayoutBatchFailed(batch.id, send.error || "Unknown error");
+      result.failedBatches++;
+      console.error(`[Payouts] Batch #${batch.id} failed: ${send.error}`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+
+  return result;
+}
+
+/**
+ * Resolve a payout batch left pending by an unconfirmed send, after checking
+ * its signature on an explorer.
+ */
+export function resolvePayoutBatch(batchId: number, outcome: "sent" | "failed", txSignature?: string): void {
+  const batch = getPayoutBatchById(batchId);
+  if (!batch || batch.status !== "pending") {
+    throw new Error(`Payout batch #${batchId} is not pending`);
+  }
+
+  if (outcome === "sent") {
+    const signature = txSignature || batch.tx_signature;
+    if (!signature) {
+      throw new Error(`Payout batch #${batchId} has no signature — pass the one that landed`);
+    }
+    settlePayoutBatch(batchId, signature);
+  } else {
+    markPayoutBatchFailed(batchId, "Resolved as failed by operator");
+  }
+}
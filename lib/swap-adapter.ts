@@ -0,0 +1,249 @@
+/**
+ * Pluggable swap backends for buying $NEWS with SOL (buy-and-burn).
+ *
+ *   - "jupiter" – Jupiter aggregator quote + swap APIs (default)
+ *   - "mock"    – fixed-price swaps on the simulated chain; always used with
+ *                 SOLANA_MODE=simulated and refused in live mode, so a
+ *                 misconfigured mock can never "buy" with real SOL
+ *
+ * Adapters only quote and execute. Slippage, price-impact and guardrail
+ * limits are enforced by the caller (buy-burn.ts); the quote's minimum output
+ * is part of the swap itself, so a fill beyond the slippage limit reverts.
+ *
+ * Configuration via environment variables:
+ *   SWAP_ADAPTER      – "jupiter" (default) or "mock"
+ *   JUPITER_API_URL   – Jupiter swap API base (default: https://lite-api.jup.ag/swap/v1)
+ *   SIM_NEWS_PER_SOL  – Mock price in whole tokens per SOL (default: 1000000)
+ */
+
+import { LAMPORTS_PER_SOL, VersionedTransaction } from "@solana/web3.js";
+import {
+  getConnection,
+  getMasterWallet,
+  getMasterWalletBalance,
+  getMasterTokenHolding,
+  confirmTransactionPolling,
+  TransactionNotLandedError,
+} from "./solana-wallet";
+import { isSimulatedSolana, simulateSwap } from "./solana-sim";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SwapQuote {
+  adapter: string;
+  outputMint: string;
+  inputLamports: number;
+  /** Raw output token units expected. */
+  outAmount: number;
+  /** Least the swap may return (outAmount less slippage). */
+  minOutAmount: number;
+  slippageBps: number;
+  priceImpactPct: number;
+  /** Adapter-specific payload needed to execute the quote. */
+  route?: unknown;
+}
+
+export interface SwapResult {
+  signature: string;
+  /** Raw output token units actually received. */
+  outAmount: number;
+  /** SOL the master wallet spent, fees and token account rent included. */
+  spentLamports: number;
+}
+
+/** A backend that can buy a token with SOL from the master wallet. */
+export interface SwapAdapter {
+  readonly name: string;
+  quote(outputMint: string, inputLamports: number, slippageBps: number): Promise<SwapQuote>;
+  /**
+   * Execute a quote. Throws SwapUnconfirmedError if the swap was sent but its
+   * outcome is unknown; any other error means no SOL was spent.
+   */
+  swap(quote: SwapQuote): Promise<SwapResult>;
+}
+
+/**
+ * A swap transaction was sent but not confirmed (timeout, RPC failure): it
+ * may still land. A swap that errored on-chain or expired throws
+ * TransactionNotLandedError instead.
+ */
+export class SwapUnconfirmedError extends Error {
+  constructor(message: string, readonly signature: string) {
+    super(message);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Jupiter
+// ---------------------------------------------------------------------------
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+interface JupiterQuoteResponse {
+  outAmount: string;
+  otherAmountThreshold: string;
+  /** Fraction, e.g. "0.0012" for 0.12%. */
+  priceImpactPct: string;
+}
+
+async function jupiterFetch<T>(url: string, init?: RequestInit): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 15_000);
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Jupiter API error: ${response.status} - ${await response.text()}`);
+    }
+    return (await response.json()) as T;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+class JupiterSwapAdapter implements SwapAdapter {
+  readonly name = "jupiter";
+  private readonly baseUrl = (process.env.JUPITER_API_URL || "https://lite-api.jup.ag/swap/v1").replace(/\/$/, "");
+
+  async quote(outputMint: string, inputLamports: number, slippageBps: number): Promise<SwapQuote> {
+    const params = new URLSearchParams({
+      inputMint: SOL_MINT,
+      outputMint,
+      amount: String(inputLamports),
+      slippageBps: String(slippageBps),
+    });
+    const route = await jupiterFetch<JupiterQuoteResponse>(`${this.baseUrl}/quote?${params}`);
+
+    return {
+      adapter: this.name,
+      outputMint,
+      inputLamports,
+      outAmount: Number(route.outAmount),
+      minOutAmount: Number(route.otherAmountThreshold),
+      slippageBps,
+      priceImpactPct: Math.abs(parseFloat(route.priceImpactPct) || 0) * 100,
+      route,
+    };
+  }
+
+  async swap(quote: SwapQuote): Promise<SwapResult> {
+    const connection = getConnection();
+    const wallet = getMasterWallet();
+
+    const tokensBefore = (await getMasterTokenHolding(quote.outputMint))?.amount ?? 0;
+    const solBefore = (await getMasterWalletBalance()).lamports;
+
+    const { swapTransaction, lastValidBlockHeight } = await jupiterFetch<{
+      swapTransaction: string;
+      lastValidBlockHeight: number;
+    }>(`${this.baseUrl}/swap`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        quoteResponse: quote.route,
+        userPublicKey: wallet.publicKey.toBase58(),
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+      }),
+    });
+
+    const tx = VersionedTransaction.deserialize(Buffer.from(swapTransaction, "base64"));
+    tx.sign([wallet]);
+
+    const signature = await connection.sendTransaction(tx, {
+      skipPreflight: false,
+      preflightCommitment: "confirmed",
+    });
+
+    try {
+      await confirmTransactionPolling(
+        connection,
+        signature,
+        tx.message.recentBlockhash,
+        lastValidBlockHeight,
+        "confirmed"
+      );
+
+      const tokensAfter = (await getMasterTokenHolding(quote.outputMint))?.amount ?? 0;
+      const solAfter = (await getMasterWalletBalance()).lamports;
+
+      return {
+        signature,
+        outAmount: tokensAfter - tokensBefore,
+        spentLamports: solBefore - solAfter,
+      };
+    } catch (error) {
+      if (error instanceof TransactionNotLandedError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new SwapUnconfirmedError(message, signature);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Mock (simulated chain)
+// ---------------------------------------------------------------------------
+
+/** pump.fun tokens use 6 decimals. */
+const MOCK_TOKEN_DECIMALS = 6;
+
+function getMockTokensPerSol(): number {
+  const raw = parseFloat(process.env.SIM_NEWS_PER_SOL || "1000000");
+  return isNaN(raw) || raw <= 0 ? 1_000_000 : raw;
+}
+
+class MockSwapAdapter implements SwapAdapter {
+  readonly name = "mock";
+
+  async quote(outputMint: string, inputLamports: number, slippageBps: number): Promise<SwapQuote> {
+    const outAmount = Math.floor(
+      (inputLamports / LAMPORTS_PER_SOL) * getMockTokensPerSol() * 10 ** MOCK_TOKEN_DECIMALS
+    );
+    return {
+      adapter: this.name,
+      outputMint,
+      inputLamports,
+      outAmount,
+      minOutAmount: Math.floor((outAmount * (10_000 - slippageBps)) / 10_000),
+      slippageBps,
+      priceImpactPct: 0,
+    };
+  }
+
+  async swap(quote: SwapQuote): Promise<SwapResult> {
+    const solBefore = (await getMasterWalletBalance()).lamports;
+    const signature = await simulateSwap(
+      getMasterWallet().publicKey.toBase58(),
+      quote.outputMint,
+      quote.inputLamports
+    );
+    const solAfter = (await getMasterWalletBalance()).lamports;
+
+    return { signature, outAmount: quote.outAmount, spentLamports: solBefore - solAfter };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Adapter selection
+// ---------------------------------------------------------------------------
+
+/** Get the configured swap backend. */
+export function getSwapAdapter(): SwapAdapter {
+  const name = (process.env.SWAP_ADAPTER || (isSimulatedSolana() ? "mock" : "jupiter")).toLowerCase();
+
+  if (isSimulatedSolana()) {
+    if (name !== "mock") {
+      console.warn(`[Swap] SWAP_ADAPTER=${name} ignored with SOLANA_MODE=simulated — using mock`);
+    }
+    return new MockSwapAdapter();
+  }
+
+  if (name === "mock") {
+    throw new Error("SWAP_ADAPTER=mock requires SOLANA_MODE=simulated");
+  }
+  if (name !== "jupiter") {
+    throw new Error(`Unknown SWAP_ADAPTER "${name}". Use: jupiter, mock`);
+  }
+  return new JupiterSwapAdapter();
+}
@@ -1,6 +1,6 @@
 /**
  * Sends Telegram DM notifications to users for all submission outcomes:
- * approved, rejected, and published.
+ * approved, rejected, published, and appeal decisions.
  * Runs within the scheduler worker process (which already has env vars loaded).
  */
 
@@ -13,6 +13,48 @@ function escapeTelegramMarkdown(text: string): string {
   return text.replace(/([_*`\[\]()~>#+\-=|{}.!])/g, "\\$1");
 }
 
+/** Telegram inline keyboard (subset of the Bot API reply_markup shape). */
+interface InlineKeyboardMarkup {
+  inline_keyboard: { text: string; callback_data: string }[][];
+}
+
+/**
+ * Inline "Appeal" button attached to rejection notices.
+ * Handled by the bot's callback_query handler (appeal_<submissionId>).
+ */
+function appealKeyboard(submissionId: number): InlineKeyboardMarkup {
+  return {
+    inline_keyboard: [[{ text: "Appeal", callback_data: `appeal_${submissionId}` }]],
+  };
+}
+
+/**
+ * Approve/Reject buttons attached to transfer approval requests.
+ * Handled by the bot's callback_query handler (transfer_approve_<id>).
+ */
+function transferApprovalKeyboard(approvalId: number): InlineKeyboardMarkup {
+  return {
+    inline_keyboard: [[
+      { text: "Approve", callback_data: `transfer_approve_${approvalId}` },
+      { text: "Reject", callback_data: `transfer_reject_${approvalId}` },
+    ]],
+  };
+}
+
+/**
+ * Approve/Edit/Skip buttons attached to publish reviews.
+ * Handled by the bot's callback_query handler (publish_approve_<id>).
+ */
+function publishReviewKeyboard(reviewId: number): InlineKeyboardMarkup {
+  return {
+    inline_keyboard: [[
+      { text: "Approve", callback_data: `publish_approve_${reviewId}` },
+      { text: "Edit", callback_data: `publish_edit_${reviewId}` },
+      { text: "Skip", callback_data: `publish_skip_${reviewId}` },
+    ]],
+  };
+}
+
 /**
  * Send a Telegram message to a specific user.
  * Reads BOT_TOKEN at call time (not module load time) to support env var loading after import.
@@ -20,7 +62,8 @@ function escapeTelegramMarkdown(text: string): string {
 async function sendTelegramMessage(
   chatId: string,
   text: string,
-  parseMode: "Markdown" | "HTML" = "Markdown"
+  parseMode: "Markdown" | "HTML" = "Markdown",
+  replyMarkup?: InlineKeyboardMarkup
 ): Promise<boolean> {
   const botToken = process.env.TELEGRAM_BOT_TOKEN;
 
@@ -49,6 +92,7 @@ async function sendTelegramMessage(
           text,
           parse_mode: parseMode,
           disable_web_page_preview: false,
+          ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
         }),
         signal: controller.signal,
       }
@@ -163,12 +207,13 @@ export async function notifySubmitterRejected(opts: {
     `─────────────────────\n\n` +
     `URL: \`${safeUrl}\`\n` +
     `Reason: ${safeReason}\n\n` +
-    `Don't worry — you can submit another link with /submit\\.\n\n` +
+    `Don't worry — you can submit another link with /submit\\.\n` +
+    `Think we got it wrong? Tap *Appeal* or send /appeal ${submissionId} \\[reason\\]\\.\n\n` +
     `_Submission \\#${submissionId}_\n\n` +
     `─────────────────────\n` +
     `_The McAfee Report is powered by [AIntivirus](https://aintivirus.ai)\\. Check out more products at [aintivirus\\.ai](https://aintivirus.ai)_`;
 
-  const sent = await sendTelegramMessage(telegramUserId, message);
+  const sent = await sendTelegramMessage(telegramUserId, message, "Markdown", appealKeyboard(submissionId));
   if (sent) {
     console.log(
       `[TelegramNotifier] Notified user ${telegramUserId} — rejected #${submissionId}`
@@ -177,17 +222,18 @@ export async function notifySubmitterRejected(opts: {
 }
 
 /**
- * Notify a submitter that their approved story was not selected this round
- * because a more urgent headline won the 10-minute publishing window.
- * Encourages them to resubmit for the next window.
+ * Notify a submitter that their approved story lost this publishing window
+ * but is carried over in the ranked backlog, with its queue position.
  */
-export async function notifySubmitterNotSelected(opts: {
+export async function notifySubmitterQueued(opts: {
   telegramUserId: string;
   submissionId: number;
   title: string;
   winnerHeadline: string;
+  position: number;
+  queueSize: number;
 }): Promise<void> {
-  const { telegramUserId, submissionId, title, winnerHeadline } = opts;
+  const { telegramUserId, submissionId, title, winnerHeadline, position, queueSize } = opts;
 
   const safeTitle = escapeTelegramMarkdown(title || "your article");
   const safeWinner = escapeTelegramMarkdown(
@@ -195,15 +241,48 @@ export async function notifySubmitterNotSelected(opts: {
   );
 
   const message =
-    `*Not Selected This Round* ⏳\n` +
+    `*Still in the Queue* ⏳\n` +
     `─────────────────────\n\n` +
     `${safeTitle}\n\n` +
-    `Your story was approved but a more urgent headline was selected for this publishing window:\n` +
+    `A more urgent headline was selected for this publishing window:\n` +
     `_"${safeWinner}"_\n\n` +
-    `If you think your news is important, feel free to resubmit with /submit for the next 10\\-minute window\\.\n\n` +
+    `Your story stays approved and will compete again in the next 10\\-minute window\\.\n` +
+    `Queue position: *${position}* of ${queueSize}\n\n` +
+    `No need to resubmit — check /mystatus for your current position\\.\n\n` +
     `_Submission \\#${submissionId}_`;
 
   const sent = await sendTelegramMessage(telegramUserId, message);
+  if (sent) {
+    console.log(
+      `[TelegramNotifier] Notified user ${telegramUserId} — queued #${submissionId} at position ${position}`
+    );
+  }
+}
+
+/**
+ * Notify a submitter that their approved story aged out of the backlog
+ * without winning a publishing window.
+ */
+export async function notifySubmitterNotSelected(opts: {
+  telegramUserId: string;
+  submissionId: number;
+  title: string;
+  windowsLost: number;
+}): Promise<void> {
+  const { telegramUserId, submissionId, title, windowsLost } = opts;
+
+  const safeTitle = escapeTelegramMarkdown(title || "your article");
+
+  const message =
+    `*Not Selected* ⏳\n` +
+    `─────────────────────\n\n` +
+    `${safeTitle}\n\n` +
+    `Your story was approved and competed in ${windowsLost} publishing window${windowsLost === 1 ? "" : "s"}, ` +
+    `but more urgent headlines were picked each time and it is no longer fresh enough to publish\\.\n\n` +
+    `If you think your news is important, tap *Appeal* \\(or send /appeal ${submissionId}\\) and an editor will review it\\.\n\n` +
+    `_Submission \\#${submissionId}_`;
+
+  const sent = await sendTelegramMessage(telegramUserId, message, "Markdown", appealKeyboard(submissionId));
   if (sent) {
     console.log(
       `[TelegramNotifier] Notified user ${telegramUserId} — not selected #${submissionId}`
@@ -211,6 +290,69 @@ export async function notifySubmitterNotSelected(opts: {
   }
 }
 
+/**
+ * Notify a submitter that an editor has reviewed their appeal.
+ * Approved appeals are back in the publishing queue for the next window.
+ */
+export async function notifySubmitterAppealResolved(opts: {
+  telegramUserId: string;
+  submissionId: number;
+  approved: boolean;
+  storyUpdate?: boolean;
+}): Promise<void> {
+  const { telegramUserId, submissionId, approved, storyUpdate } = opts;
+
+  const message = approved
+    ? `*Appeal Approved* ✅\n` +
+      `─────────────────────\n\n` +
+      (storyUpdate
+        ? `An editor accepted your story as an update to a developing story and put it back in the publishing queue\\.\n`
+        : `An editor reviewed your appeal and put your story back in the publishing queue\\.\n`) +
+      `It will compete for the next 10\\-minute window\\.\n\n` +
+      `_Submission \\#${submissionId}_`
+    : `*Appeal Denied* ❌\n` +
+      `─────────────────────\n\n` +
+      `An editor reviewed your appeal and upheld the original decision\\.\n` +
+      `You can submit another link with /submit\\.\n\n` +
+      `_Submission \\#${submissionId}_`;
+
+  const sent = await sendTelegramMessage(telegramUserId, message);
+  if (sent) {
+    console.log(
+      `[TelegramNotifier] Notified user ${telegramUserId} — appeal ${approved ? "approved" : "denied"} #${submissionId}`
+    );
+  }
+}
+
+/**
+ * Notify a submitter that their new payout wallet has finished its cooldown
+ * and now receives their payouts.
+ */
+export async function notifySubmitterPayoutWalletActive(opts: {
+  telegramUserId: string;
+  solAddress: string;
+  movedLamports: number;
+}): Promise<void> {
+  const { telegramUserId, solAddress, movedLamports } = opts;
+
+  let message =
+    `*Payout Wallet Active* ✅\n` +
+    `─────────────────────\n\n` +
+    `Your share of creator fees is now paid to:\n` +
+    `\`${solAddress}\`\n`;
+
+  if (movedLamports > 0) {
+    message += `\n${movedLamports / 1_000_000_000} SOL you were owed has moved to this wallet.\n`;
+  }
+
+  message += `\nDidn't request this? Contact an admin immediately.`;
+
+  const sent = await sendTelegramMessage(telegramUserId, message);
+  if (sent) {
+    console.log(`[TelegramNotifier] Notified user ${telegramUserId} — payout wallet active`);
+  }
+}
+
 /**
  * Notify admins about important events.
  * Sends to all admins concurrently (not sequentially).
@@ -224,3 +366,33 @@ export async function notifyAdmins(text: string): Promise<void> {
     adminIds.map(adminId => sendTelegramMessage(adminId, text))
   );
 }
+
+/**
+ * Ask every admin to approve or reject a parked outbound transfer.
+ */
+export async function notifyAdminsTransferApproval(approvalId: number, text: string): Promise<void> {
+  const adminIds = (process.env.ADMIN_TELEGRAM_IDS || "")
+    .split(",")
+    .filter(Boolean);
+
+  await Promise.allSettled(
+    adminIds.map(adminId =>
+      sendTelegramMessage(adminId, text, "Markdown", transferApprovalKeyboard(approvalId))
+    )
+  );
+}
+
+/**
+ * Ask editors to approve, edit or skip the next story before it publishes.
+ */
+export async function notifyEditorsPublishReview(
+  editorIds: string[],
+  reviewId: number,
+  text: string
+): Promise<void> {
+  await Promise.allSettled(
+    editorIds.map(editorId =>
+      sendTelegramMessage(editorId, text, "Markdown", publishReviewKeyboard(reviewId))
+    )
+  );
+}
@@ -2,7 +2,7 @@
  * Token metadata generation: meme-ified article images + dumb literal naming.
  *
  * Image strategy (in priority order):
- *   1. Download the article's OG image → pass to openai.images.edit() to
+ *   1. Download the article's OG image → pass to the LLM image edit endpoint to
  *      meme-ify it (deep-fry, exaggerate, add surreal elements)
  *   2. If no article image or edit fails → generate a deliberately crude
  *      shitpost-tier AI image from scratch
@@ -12,15 +12,11 @@
  *   No clever wordplay, no irony, no themes. Just the thing.
  */
 
-import OpenAI, { toFile } from "openai";
 import { tickerExists } from "./db";
 import { saveImageBuffer } from "./image-store";
 import type { TokenMetadata, PageContent } from "./types";
 import { sanitizeForPrompt, safeFetch } from "./url-validator";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { chatCompletion, generateImage, editImage } from "./llm-provider";
 
 // Configuration
 const MAX_TICKER_ATTEMPTS = 5;
@@ -122,18 +118,17 @@ Respond with JSON only:
     attempts++;
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const completion = await chatCompletion("commentary", {
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userContent },
         ],
         temperature: 0.7,
-        max_tokens: 200,
-        response_format: { type: "json_object" },
+        maxTokens: 200,
+        json: true,
       });
 
-      const response = completion.choices[0]?.message?.content || "{}";
+      const response = completion.content || "{}";
       const result = JSON.parse(response);
 
       let ticker = (result.ticker || "").toUpperCase().replace(/[^A-Z]/g, "");
@@ -227,7 +222,7 @@ async function generateTokenLogo(headline: string, content: PageContent): Promis
 }
 
 /**
- * Download the article's OG image and meme-ify it via openai.images.edit().
+ * Download the article's OG image and meme-ify it via editImage().
  * Returns the local image path or null on failure.
  */
 async function memeifyArticleImage(headline: string, imageUrl: string): Promise<string | null> {
@@ -258,7 +253,7 @@ async function memeifyArticleImage(headline: string, imageUrl: string): Promise<
     return null;
   }
 
-  // Step 2: Pass to openai.images.edit() with meme-ification prompt
+  // Step 2: Pass to editImage() with meme-ification prompt
   const safeHeadline = sanitizeForPrompt(headline, 100);
 
   const editPrompt = `Take this news image and turn it into a viral pump.fun memecoin profile picture.
@@ -276,18 +271,12 @@ Rules:
 The news headline: "${safeHeadline}"`;
 
   try {
-    // Convert buffer to a File-like object for the SDK
-    const imageFile = await toFile(imageBuffer, "article.png", { type: "image/png" });
-
-    const response = await openai.images.edit({
-      model: "gpt-image-1",
-      image: imageFile,
+    const resultBase64 = await editImage({
+      image: imageBuffer,
       prompt: editPrompt,
       size: "1024x1024",
       quality: "medium",
     });
-
-    const resultBase64 = response.data?.[0]?.b64_json;
     if (!resultBase64) {
       throw new Error("No image data in edit response");
     }
@@ -332,15 +321,11 @@ RULES:
 - The vibe: if a degen scrolling pump.fun at 3am saw this thumbnail, they'd stop and click`;
 
   try {
-    const response = await openai.images.generate({
-      model: "gpt-image-1",
+    const imageBase64 = await generateImage({
       prompt,
-      n: 1,
       size: "1024x1024",
       quality: "low",
     });
-
-    const imageBase64 = response.data?.[0]?.b64_json;
     if (!imageBase64) {
       throw new Error("No image data in response");
     }
@@ -449,15 +434,11 @@ RULES:
 - Eye-catching and scroll-stopping`;
 
   try {
-    const response = await openai.images.generate({
-      model: "gpt-image-1",
+    const imageBase64 = await generateImage({
       prompt,
-      n: 1,
       size: "1536x1024",
       quality: "low",
     });
-
-    const imageBase64 = response.data?.[0]?.b64_json;
     if (!imageBase64) {
       throw new Error("No banner image data in response");
     }
@@ -492,8 +473,7 @@ async function generateTokenDescription(
   console.log(`[TokenGenerator] Generating description for: "${headline}"`);
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await chatCompletion("commentary", {
       messages: [
         {
           role: "system",
@@ -505,11 +485,11 @@ async function generateTokenDescription(
         },
       ],
       temperature: 0.5,
-      max_tokens: 100,
+      maxTokens: 100,
     });
 
     const synopsis =
-      completion.choices[0]?.message?.content?.trim() || headline;
+      completion.content?.trim() || headline;
 
     return `${synopsis}\n\nPowered by The McAfee Report`;
   } catch (error) {
@@ -527,8 +507,7 @@ async function generateTokenDescription(
  */
 export async function generateTokenName(headline: string): Promise<string> {
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await chatCompletion("commentary", {
       messages: [
         {
           role: "system",
@@ -540,11 +519,11 @@ export async function generateTokenName(headline: string): Promise<string> {
         },
       ],
       temperature: 0.7,
-      max_tokens: 50,
+      maxTokens: 50,
     });
 
     const name =
-      completion.choices[0]?.message?.content?.trim() ||
+      completion.content?.trim() ||
       headline.substring(0, 25);
     return name.replace(/["']/g, "").substring(0, 30);
   } catch (error) {
@@ -563,8 +542,7 @@ export async function generateTicker(name: string): Promise<string> {
     attempts++;
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
+      const completion = await chatCompletion("commentary", {
         messages: [
           {
             role: "system",
@@ -576,10 +554,10 @@ export async function generateTicker(name: string): Promise<string> {
           },
         ],
         temperature: Math.min(0.7 + attempts * 0.1, 2.0),
-        max_tokens: 20,
+        maxTokens: 20,
       });
 
-      let ticker = (completion.choices[0]?.message?.content || "")
+      let ticker = (completion.content || "")
         .toUpperCase()
         .replace(/[^A-Z]/g, "")
         .substring(0, TICKER_MAX_LENGTH);
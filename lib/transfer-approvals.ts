@@ -0,0 +1,213 @@
+/**
+ * Transfer Approvals — N-admin sign-off for large or unusual outbound
+ * transfers.
+ *
+ * wallet-guardrails flags transfers over APPROVAL_THRESHOLD_SOL (and, with
+ * APPROVAL_NEW_DESTINATIONS, to addresses never paid before) as needing
+ * approval. secure-wallet then calls acquireTransferApproval():
+ * 1. The first attempt parks the transfer in transfer_approvals and sends
+ *    every admin an Approve/Reject request through the bot.
+ * 2. Retries of the same transfers by the same caller find that request
+ *    instead of filing another, and stay unsent while it is pending.
+ * 3. Once APPROVALS_REQUIRED distinct admins approve within
+ *    APPROVAL_WINDOW_HOURS, the caller's next retry claims the approval and
+ *    the transfer is sent — once. A single rejection blocks it for the rest
+ *    of the window.
+ *
+ * Callers keep their own retry loops (pending revenue events, the next
+ * payout run), so bookkeeping for the transfer stays where it already is.
+ * A caller whose amounts drift between attempts (payout runs plan from
+ * balances that keep accruing) re-plans to its live requests with
+ * getLiveApprovalTransfers(), so a retry still matches what admins saw.
+ *
+ * Configuration via environment variables:
+ *   APPROVALS_REQUIRED     – Distinct admins who must approve (default: 2)
+ *   APPROVAL_WINDOW_HOURS  – Time to collect approvals, then to execute (default: 24)
+ */
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import {
+  claimTransferApproval,
+  createTransferApproval,
+  expireTransferApprovals,
+  findOpenTransferApproval,
+  getLiveTransferApprovals,
+  getTransferApprovalById,
+  recordTransferApprovalVote,
+} from "./db";
+import { notifyAdmins, notifyAdminsTransferApproval } from "./telegram-notifier";
+import type { TransferApproval } from "./types";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export function getApprovalsRequired(): number {
+  const raw = parseInt(process.env.APPROVALS_REQUIRED || "2", 10);
+  return isNaN(raw) ? 2 : Math.max(1, Math.min(10, raw));
+}
+
+export function getApprovalWindowHours(): number {
+  const raw = parseFloat(process.env.APPROVAL_WINDOW_HOURS || "24");
+  return isNaN(raw) || raw <= 0 ? 24 : Math.min(raw, 168);
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type Transfer = { address: string; lamports: number };
+
+export type ApprovalGateResult =
+  | { approved: true; approvalId: number }
+  | { approved: false; approvalId: number; error: string };
+
+// ---------------------------------------------------------------------------
+// Gate (called by secure-wallet)
+// ---------------------------------------------------------------------------
+
+/** Order-independent identity of a set of transfers. */
+function getTransfersKey(transfers: Transfer[]): string {
+  return transfers
+    .map((t) => `${t.address}:${t.lamports}`)
+    .sort()
+    .join(",");
+}
+
+/**
+ * Gate a transfer that guardrails flagged for approval. Returns approved
+ * (and consumes the approval) only when enough admins have signed off;
+ * otherwise files or reuses the request and returns why it is held.
+ */
+export async function acquireTransferApproval(
+  caller: string,
+  transfers: Transfer[],
+  reason: string
+): Promise<ApprovalGateResult> {
+  expireTransferApprovals();
+
+  const transfersKey = getTransfersKey(transfers);
+  const open = findOpenTransferApproval(caller, transfersKey);
+
+  if (open?.status === "approved" && claimTransferApproval(open.id)) {
+    console.log(`[Approvals] Executing approved transfer #${open.id} (${caller})`);
+    return { approved: true, approvalId: open.id };
+  }
+
+  if (open?.status === "rejected") {
+    return { approved: false, approvalId: open.id, error: `Transfer rejected by an admin (approval #${open.id})` };
+  }
+
+  if (open?.status === "pending") {
+    return { approved: false, approvalId: open.id, error: `Awaiting admin approval (#${open.id})` };
+  }
+
+  const totalLamports = transfers.reduce((sum, t) => sum + t.lamports, 0);
+  const approval = createTransferApproval({
+    caller,
+    transfersKey,
+    transfers,
+    totalLamports,
+    reason,
+    approvalsRequired: getApprovalsRequired(),
+    windowHours: getApprovalWindowHours(),
+  });
+  console.warn(
+    `[Approvals] Transfer #${approval.id} (${caller}, ${totalLamports / LAMPORTS_PER_SOL} SOL) ` +
+    `needs ${approval.approvals_required} admin approval(s): ${reason}`
+  );
+
+  await notifyAdminsTransferApproval(
+    approval.id,
+    `*Transfer approval needed*\n─────────────────────\n\n${formatTransferApproval(approval)}`
+  );
+
+  return { approved: false, approvalId: approval.id, error: `Awaiting admin approval (#${approval.id})` };
+}
+
+/**
+ * A caller's live requests (pending, approved or rejected) with their
+ * transfers, oldest first.
+ */
+export function getLiveApprovalTransfers(
+  caller: string
+): Array<{ approval: TransferApproval; transfers: Transfer[] }> {
+  expireTransferApprovals();
+  return getLiveTransferApprovals(caller).map((approval) => ({
+    approval,
+    transfers: JSON.parse(approval.transfers) as Transfer[],
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Voting (called by the bot)
+// ---------------------------------------------------------------------------
+
+/**
+ * Record an admin's approve/reject vote. The caller must have checked that
+ * the voter is an admin.
+ */
+export async function voteOnTransferApproval(
+  approvalId: number,
+  adminTelegramId: string,
+  decision: "approve" | "reject"
+): Promise<{ success: boolean; approval?: TransferApproval; approvals?: number; error?: string }> {
+  expireTransferApprovals();
+
+  const vote = recordTransferApprovalVote(approvalId, adminTelegramId, decision, getApprovalWindowHours());
+  if (!vote) {
+    const approval = getTransferApprovalById(approvalId);
+    return {
+      success: false,
+      approval,
+      error: approval ? `Transfer #${approvalId} is already ${approval.status}.` : "Transfer approval not found.",
+    };
+  }
+
+  if (vote.duplicate) {
+    return { success: false, approval: vote.approval, approvals: vote.approvals, error: "You already voted on this transfer." };
+  }
+
+  const { approval, approvals } = vote;
+  console.log(
+    `[Approvals] Admin ${adminTelegramId} voted ${decision} on #${approvalId} ` +
+    `(${approvals}/${approval.approvals_required}, now ${approval.status})`
+  );
+
+  if (approval.status === "approved") {
+    await notifyAdmins(
+      `✅ Transfer #${approvalId} (${approval.total_lamports / LAMPORTS_PER_SOL} SOL, ${approval.caller}) ` +
+      `approved by ${approvals} admins. It is sent on the caller's next attempt before ${approval.expires_at} UTC.`
+    );
+  } else if (approval.status === "rejected") {
+    await notifyAdmins(
+      `⛔ Transfer #${approvalId} (${approval.total_lamports / LAMPORTS_PER_SOL} SOL, ${approval.caller}) ` +
+      `rejected by admin ${adminTelegramId}.`
+    );
+  }
+
+  return { success: true, approval, approvals };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Telegram (legacy Markdown) summary of a request.
+ */
+export function formatTransferApproval(approval: TransferApproval): string {
+  const transfers = JSON.parse(approval.transfers) as Transfer[];
+
+  let msg = `*Transfer #${approval.id}* — ${approval.caller}\n`;
+  msg += `Total: ${approval.total_lamports / LAMPORTS_PER_SOL} SOL to ${transfers.length} wallet(s)\n`;
+  for (const transfer of transfers.slice(0, 5)) {
+    msg += `\`${transfer.address}\` — ${transfer.lamports / LAMPORTS_PER_SOL} SOL\n`;
+  }
+  if (transfers.length > 5) {
+    msg += `…and ${transfers.length - 5} more\n`;
+  }
+  msg += `Reason: ${approval.reason}\n`;
+  msg += `_Needs ${approval.approvals_required} approval(s) by ${approval.expires_at} UTC_`;
+  return msg;
+}
@@ -1,13 +1,9 @@
 /**
  * Lightweight English translation for non-English content.
- * Uses OpenAI gpt-4o-mini to detect language and translate in a single call.
+ * Uses the "commentary" LLM model to detect language and translate in a single call.
  */
 
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { chatCompletion } from "./llm-provider";
 
 interface TranslationResult {
   title: string;
@@ -40,10 +36,9 @@ export async function ensureEnglish(
   }
 
   try {
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await chatCompletion("commentary", {
       temperature: 0.1,
-      max_tokens: 600,
+      maxTokens: 600,
       messages: [
         {
           role: "system",
@@ -63,9 +58,9 @@ Respond in EXACTLY this JSON format (no markdown, no code fences):
       ],
     });
 
-    const raw = completion.choices[0]?.message?.content?.trim();
+    const raw = completion.content?.trim();
     if (!raw) {
-      console.warn("[Translator] Empty response from OpenAI");
+      console.warn("[Translator] Empty response from LLM");
       return { title, description, translated: false, detectedLanguage: "unknown" };
     }
 
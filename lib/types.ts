@@ -20,6 +20,36 @@ export interface TokenInfo {
   price_change_24h?: number;
 }
 
+/** Live market data for a token (pump.fun, DexScreener fallback). */
+export interface TokenPrice {
+  mintAddress: string;
+  ticker: string;
+  price: number;
+  priceChange24h: number;
+  marketCap?: number;
+  volume24h?: number;
+  imageUrl?: string;
+  pumpUrl?: string;
+}
+
+// ============= SEARCH TYPES =============
+
+/** Filters for full-text headline search (see db.searchHeadlines). */
+export interface HeadlineSearchFilters {
+  query?: string;
+  from?: string;          // Inclusive YYYY-MM-DD (UTC)
+  to?: string;            // Inclusive YYYY-MM-DD (UTC)
+  contentType?: ContentType;
+  hasToken?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface HeadlineSearchResult extends Headline {
+  content_type: ContentType;
+  summary: string | null;
+}
+
 export interface MainHeadlineData {
   id: number;
   title: string;
@@ -58,6 +88,34 @@ export interface AddHeadlineRequest {
   image_url?: string;
 }
 
+export interface UpdateHeadlineRequest {
+  id: number;
+  title?: string;
+  image_url?: string;
+  summary?: string;
+  /** Mark the change as a correction of a factual error (requires note). */
+  correction?: boolean;
+  note?: string;
+}
+
+export type HeadlineRevisionKind = "update" | "correction";
+
+/** One edit to a published headline. new_* is null for unchanged fields. */
+export interface HeadlineRevision {
+  id: number;
+  headline_id: number;
+  kind: HeadlineRevisionKind;
+  old_title: string | null;
+  new_title: string | null;
+  old_image_url: string | null;
+  new_image_url: string | null;
+  old_summary: string | null;
+  new_summary: string | null;
+  note: string | null;
+  edited_by: string;
+  created_at: string;
+}
+
 export interface SetMainHeadlineRequest {
   title: string;
   url: string;
@@ -68,7 +126,7 @@ export interface SetMainHeadlineRequest {
 // ============= SUBMISSION TYPES =============
 
 export type ContentType = "article" | "tweet" | "youtube" | "tiktok" | "other";
-export type SubmissionStatus = "pending" | "validating" | "approved" | "rejected" | "published";
+export type SubmissionStatus = "pending" | "validating" | "approved" | "rejected" | "appealed" | "published";
 
 export interface Submission {
   id: number;
@@ -84,6 +142,11 @@ export interface Submission {
   cached_content: string | null; // JSON stringified PageContent from validation
   custom_token_name: string | null;
   custom_ticker: string | null;
+  newsworthiness_score: number | null; // 0-100, scored at approval
+  queue_score: number | null;          // Decayed backlog rank (drops each lost window)
+  carryover_count: number;             // Publishing windows lost so far
+  approved_at: string | null;          // When it entered the approved backlog
+  story_update: number;                // SQLite boolean: editor accepted it as an update to a developing story
   published_at: string | null;
   created_at: string;
 }
@@ -98,6 +161,40 @@ export interface CreateSubmissionRequest {
   custom_ticker?: string;
 }
 
+// ============= APPEAL TYPES =============
+
+export type AppealStatus = "pending" | "approved" | "denied";
+
+/** A submitter's request for an editor to re-review a rejected submission. */
+export interface SubmissionAppeal {
+  id: number;
+  submission_id: number;
+  telegram_user_id: string;
+  reason: string | null;
+  status: AppealStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+// ============= STORY CLUSTER TYPES =============
+
+/** A developing story: related published headlines grouped over time. */
+export interface StoryCluster {
+  id: number;
+  title: string;        // Title of the headline that started the story
+  created_at: string;
+  updated_at: string;
+}
+
+/** One entry on a developing-story timeline (oldest first). */
+export interface StoryTimelineEntry {
+  id: number;           // Headline ID
+  title: string;
+  created_at: string;
+  is_update: boolean;   // Accepted by an editor as an update (new facts)
+}
+
 // ============= TOKEN TYPES =============
 
 export interface Token {
@@ -114,6 +211,8 @@ export interface Token {
   creator_wallet_address: string | null;
   /** AES-256-GCM encrypted base58 private key of the ephemeral deployer. */
   creator_wallet_encrypted_key: string | null;
+  /** WALLET_ENCRYPTION_KEY version creator_wallet_encrypted_key is encrypted under. */
+  creator_wallet_key_version: number;
   /** ISO timestamp of the last successful creator-fee claim for this token. */
   last_fee_claim_at: string | null;
   /** The meme theme ID used when generating this token (for analytics). */
@@ -180,6 +279,8 @@ export interface ClaimAllocation {
   submitter_lamports: number;
   submitter_tx_signature: string | null;
   status: ClaimAllocationStatus;
+  /** Payout batch that paid this share (null until paid by a payout run). */
+  payout_batch_id: number | null;
   created_at: string;
 }
 
@@ -192,14 +293,300 @@ export interface TokenVolumeSnapshot {
   created_at: string;
 }
 
+// ============= PAYOUT TYPES =============
+
+export type PayoutBatchStatus = "pending" | "sent" | "failed";
+
+/** One scheduled payout transaction (several recipients, one signature). */
+export interface PayoutBatch {
+  id: number;
+  tx_signature: string | null;
+  total_lamports: number;
+  recipients_count: number;
+  status: PayoutBatchStatus;
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+/** One recipient's transfer within a payout batch. */
+export interface PayoutBatchItem {
+  id: number;
+  batch_id: number;
+  sol_address: string;
+  amount_lamports: number;
+  /** Part of the payment not yet matched to a claim allocation. */
+  unallocated_lamports: number;
+}
+
+export type PayoutWalletStatus = "pending" | "active" | "superseded" | "cancelled";
+
+/** A payout address a Telegram user proved they own (see payout-wallets.ts). */
+export interface PayoutWallet {
+  id: number;
+  telegram_user_id: string;
+  sol_address: string;
+  /** Challenge text the wallet signed. */
+  message: string;
+  /** Base58 ed25519 signature over `message`. */
+  signature: string;
+  status: PayoutWalletStatus;
+  /** When the address starts receiving payouts (request time + cooldown). */
+  effective_at: string;
+  created_at: string;
+  activated_at: string | null;
+  cancelled_at: string | null;
+}
+
+// ============= BUY-AND-BURN TYPES =============
+
+export type BuyBurnStatus = "pending" | "swapped" | "burned" | "failed";
+
+/** One buy-and-burn run: a SOL → $NEWS swap and the burn of what it bought. */
+export interface BuyBurn {
+  id: number;
+  /** Swap adapter that executed the buy ("jupiter", "mock"). */
+  adapter: string;
+  mint_address: string;
+  input_lamports: number;
+  /** Raw token units the quote promised. */
+  quoted_amount: number;
+  /** Least the swap could return within the slippage limit. */
+  min_amount: number;
+  slippage_bps: number;
+  price_impact_pct: number;
+  bought_amount: number | null;
+  burned_amount: number | null;
+  status: BuyBurnStatus;
+  swap_tx_signature: string | null;
+  burn_tx_signature: string | null;
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// ============= TRANSFER APPROVAL TYPES =============
+
+export type TransferApprovalStatus = "pending" | "approved" | "rejected" | "executed" | "expired";
+
+/** An outbound transfer parked until enough distinct admins approve it. */
+export interface TransferApproval {
+  id: number;
+  /** Module that requested the transfer (audit-log caller name). */
+  caller: string;
+  /** Canonical "address:lamports,..." list used to match retries. */
+  transfers_key: string;
+  /** JSON array of { address, lamports }. */
+  transfers: string;
+  total_lamports: number;
+  /** Why the transfer needs approval (size, new destination). */
+  reason: string;
+  approvals_required: number;
+  status: TransferApprovalStatus;
+  tx_signature: string | null;
+  /** Deadline for collecting approvals, then for executing the approved transfer. */
+  expires_at: string;
+  created_at: string;
+  resolved_at: string | null;
+  executed_at: string | null;
+}
+
+export interface TransferApprovalVote {
+  approval_id: number;
+  admin_telegram_id: string;
+  decision: "approve" | "reject";
+  created_at: string;
+}
+
+// ============= WALLET ANOMALY TYPES =============
+
+export type WalletAnomalyKind =
+  | "outflow_spike"
+  | "guardrail_blocks"
+  | "shared_payout_address"
+  | "deploy_failures"
+  | "balance_drop";
+
+/** An anomaly flagged by the wallet audit-log watcher. */
+export interface WalletAnomaly {
+  id: number;
+  kind: WalletAnomalyKind;
+  /** What was flagged within the kind (an address, "master", ...). */
+  subject: string;
+  message: string;
+  /** 1 if this anomaly froze outbound sends (WALLET_AUTO_FREEZE). */
+  froze_wallet: number;
+  created_at: string;
+}
+
+// ============= INGESTION TYPES =============
+
+export type IngestionSourceKind = "rss" | "atom" | "sitemap";
+
+/** An RSS/Atom feed or sitemap polled for newsroom submissions. */
+export interface IngestionSource {
+  id: number;
+  url: string;
+  kind: IngestionSourceKind;
+  name: string | null;
+  enabled: number;
+  /** Admin Telegram id or "cli". */
+  added_by: string;
+  last_polled_at: string | null;
+  last_error: string | null;
+  consecutive_failures: number;
+  items_submitted: number;
+  created_at: string;
+}
+
+// ============= PUBLISH REVIEW TYPES =============
+
+export type PublishReviewStatus = "pending" | "approved" | "skipped" | "published" | "failed";
+
+/** A publishing winner held for editor review (EDITOR_REVIEW mode). */
+export interface PublishReview {
+  id: number;
+  submission_id: number;
+  headline: string;
+  /** AI summary for tweet submissions. */
+  summary: string | null;
+  /** Null when no token will be deployed. */
+  token_name: string | null;
+  ticker: string | null;
+  token_description: string | null;
+  image_url: string | null;
+  banner_url: string | null;
+  status: PublishReviewStatus;
+  /** Telegram id of the last editor who edited the draft. */
+  edited_by: string | null;
+  /** Telegram id of the deciding editor, or "timeout". */
+  decided_by: string | null;
+  decided_at: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+/** Everything generated for a submission before its headline goes live. */
+export interface PublishDraft {
+  content: PageContent;
+  headline: string;
+  tweetSummary: string | null;
+  /** Null when on-chain operations are paused or generation failed. */
+  tokenMetadata: TokenMetadata | null;
+}
+
+// ============= REPUTATION TYPES =============
+
+/** A submitter's track record (see db.getReputationStats). */
+export interface ReputationStats {
+  total: number;
+  published: number;
+  /** Rejected at validation (stories that aged out of the backlog don't count). */
+  rejected: number;
+  /** Flagged as a duplicate of an earlier submission. */
+  duplicates: number;
+  wagmi_votes: number;
+  ngmi_votes: number;
+  tokens: number;
+  token_fee_lamports: number;
+}
+
+/** Reputation score (0-100) and its parts (each 0-1, 0.5 = no history). */
+export interface UserReputation {
+  score: number;
+  outcomes: number;
+  originality: number;
+  votes: number;
+  tokens: number;
+  stats: ReputationStats;
+}
+
+// ============= SOURCE DOMAIN TYPES =============
+
+export type SourceDomainTier = "trusted" | "neutral" | "blocked";
+
+/** A source domain's admin-set trust tier and learned validation stats. */
+export interface SourceDomain {
+  domain: string;
+  tier: SourceDomainTier;
+  note: string | null;
+  tier_set_by: string | null;
+  tier_set_at: string | null;
+  approved_count: number;
+  rejected_count: number;
+  fact_rejections: number;
+  stale_rejections: number;
+  duplicate_rejections: number;
+  blocked_rejections: number;
+  last_rejection_reason: string | null;
+  last_seen_at: string | null;
+  created_at: string;
+}
+
 // ============= VALIDATION TYPES =============
 
+/** Which check rejected a submission. */
+export type ValidationRejectionKind = "blocked_domain" | "stale" | "fact" | "duplicate" | "error";
+
 export interface ValidationResult {
   isValid: boolean;
   factScore: number;       // 0-100
   freshnessHours: number;  // Age in hours
   duplicateOf?: number;    // submission_id if duplicate
   rejectionReason?: string;
+  rejectionKind?: ValidationRejectionKind;
+  audit?: ValidationAudit; // Per-layer detail, persisted to submission_validations
+}
+
+/** Where the freshness check found the publish date. */
+export type PublishDateSource = "structured" | "ai" | "social_default" | "unknown_default";
+
+/** Which duplicate-detection layer flagged the submission. */
+export type DuplicateLayer = "hash" | "embedding" | "ai_title";
+
+/** Per-layer breakdown of a validation run (models, scores, latencies). */
+export interface ValidationAudit {
+  factScore: number | null;
+  factReason: string | null;
+  factModel: string | null;
+  factLatencyMs: number | null;
+  freshnessHours: number | null;
+  publishedAt: string | null;
+  publishedAtSource: PublishDateSource | null;
+  freshnessModel: string | null;
+  freshnessLatencyMs: number | null;
+  duplicateLayer: DuplicateLayer | null;
+  duplicateOf: number | null;
+  similarity: number | null;        // Best embedding similarity seen (0-1)
+  embeddingModel: string | null;
+  duplicateModel: string | null;
+  duplicateLatencyMs: number | null;
+  totalLatencyMs: number;
+}
+
+/** A persisted validation run (one row per validateSubmission call). */
+export interface SubmissionValidation {
+  id: number;
+  submission_id: number;
+  is_valid: number;                 // SQLite boolean (0/1)
+  rejection_reason: string | null;
+  fact_score: number | null;
+  fact_reason: string | null;
+  fact_model: string | null;
+  fact_latency_ms: number | null;
+  freshness_hours: number | null;
+  published_at: string | null;
+  published_at_source: PublishDateSource | null;
+  freshness_model: string | null;
+  freshness_latency_ms: number | null;
+  duplicate_layer: DuplicateLayer | null;
+  duplicate_of: number | null;
+  similarity: number | null;
+  embedding_model: string | null;
+  duplicate_model: string | null;
+  duplicate_latency_ms: number | null;
+  total_latency_ms: number;
+  created_at: string;
 }
 
 export interface PageContent {
@@ -257,6 +644,29 @@ export interface ActivityEvent {
   created_at: string;
 }
 
+export interface ActivityStats {
+  submissionsToday: number;
+  tokensLaunchedToday: number;
+  votesToday: number;
+  approvalRate: number;
+}
+
+// ============= LIVE EVENT TYPES =============
+
+/** Event types pushed over the /api/live Server-Sent Events stream. */
+export const LIVE_EVENT_TYPES = ["headline", "activity", "stats", "votes", "siren", "prices"] as const;
+export type LiveEventType = (typeof LIVE_EVENT_TYPES)[number];
+
+/** Payload carried by each live event type. */
+export interface LiveEventMap {
+  headline: Headline;                           // New or newly enriched homepage headline
+  activity: ActivityEvent;                      // New War Room activity_log row
+  stats: ActivityStats;                         // War Room counters
+  votes: VoteCounts & { headline_id: number };  // Vote totals for a headline that changed
+  siren: { headline: Headline | null };         // Breaking Siren headline changed
+  prices: TokenPrice[];                         // Price tick for all tracked tokens
+}
+
 // ============= DEPLOYER POOL TYPES =============
 
 export type PoolWalletStatus = "ready" | "reserved" | "used" | "failed";
@@ -265,6 +675,8 @@ export interface PoolWallet {
   id: number;
   address: string;
   encrypted_key: string;
+  /** WALLET_ENCRYPTION_KEY version encrypted_key is encrypted under. */
+  key_version: number;
   funded_at: string;
   funded_lamports: number;
   status: PoolWalletStatus;
@@ -282,6 +694,51 @@ export interface PoolStats {
   total: number;
 }
 
+/** An encrypted wallet key stored in the database (pool or ephemeral creator wallet). */
+export interface StoredWalletKey {
+  source: "deployer_pool" | "tokens";
+  /** Row id in the source table. */
+  id: number;
+  address: string;
+  encrypted_key: string;
+  key_version: number;
+}
+
+// ============= SIMULATED CHAIN TYPES (SOLANA_MODE=simulated) =============
+
+export type SimTransactionKind =
+  | "airdrop"
+  | "transfer"
+  | "create_token"
+  | "claim_creator_fee"
+  | "swap"
+  | "burn_tokens";
+
+export interface SimTransaction {
+  id: number;
+  signature: string;
+  kind: SimTransactionKind;
+  from_address: string | null;
+  to_address: string | null;
+  lamports: number;
+  fee_lamports: number;
+  mint_address: string | null;
+  created_at: string;
+}
+
+export interface SimMint {
+  mint_address: string;
+  creator: string;
+  name: string;
+  symbol: string;
+  metadata_uri: string | null;
+  bonding_curve: string;
+  volume_lamports: number;
+  unclaimed_fee_lamports: number;
+  last_trade_at: string;
+  created_at: string;
+}
+
 // ============= STATE MACHINE =============
 
 /** Valid status transitions – enforced by db.updateSubmissionStatus */
@@ -289,6 +746,7 @@ export const VALID_STATUS_TRANSITIONS: Record<SubmissionStatus, SubmissionStatus
   pending: ["validating", "rejected"],
   validating: ["approved", "rejected"],
   approved: ["published", "rejected"],
-  rejected: [],   // Terminal state
+  rejected: ["appealed"],            // Terminal unless the submitter appeals
+  appealed: ["approved", "rejected"], // Editor approves or denies the appeal
   published: [],  // Terminal state
 };
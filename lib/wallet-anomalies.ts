@@ -0,0 +1,243 @@
+/**
+ * Wallet Anomalies — watch the wallet audit log for signs of abuse.
+ *
+ * Each check flags:
+ *   - outflow_spike          – last hour's outflow far above its trailing 7-day hourly average
+ *   - guardrail_blocks       – many guardrail blocks in the last hour
+ *   - shared_payout_address  – an address paid in the last day that many submitters use
+ *   - deploy_failures        – the most recent deploys all failed
+ *   - balance_drop           – the master wallet lost more than the audit log explains
+ *
+ * New anomalies are recorded in wallet_anomalies and posted to admins; the
+ * same anomaly is not re-alerted within ANOMALY_ALERT_COOLDOWN_HOURS. With
+ * WALLET_AUTO_FREEZE=true the first one also freezes outbound sends
+ * (wallet-guardrails.ts) until an admin runs /unfreeze.
+ *
+ * Configuration via environment variables:
+ *   WALLET_AUTO_FREEZE               – "true" to freeze sends on an anomaly (default: false)
+ *   ANOMALY_SPIKE_FACTOR             – Hourly outflow vs trailing average (default: 5)
+ *   ANOMALY_SPIKE_MIN_SOL            – Hourly outflow never flagged below this (default: 1)
+ *   ANOMALY_GUARDRAIL_BLOCKS         – Blocks per hour that are flagged (default: 5)
+ *   ANOMALY_SHARED_ADDRESS_USERS     – Submitters sharing a paid address (default: 3)
+ *   ANOMALY_DEPLOY_FAILURES          – Consecutive failed deploys (default: 3)
+ *   ANOMALY_BALANCE_DROP_SOL         – Unexplained balance drop per check (default: 0.1)
+ *   ANOMALY_ALERT_COOLDOWN_HOURS     – Quiet period per anomaly (default: 6)
+ *
+ * Runs every 15 minutes via the scheduler cron.
+ */
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import {
+  getSetting,
+  getSharedPayoutAddresses,
+  recordWalletAnomaly,
+  setSetting,
+  wasWalletAnomalyFlagged,
+} from "./db";
+import {
+  countOperationsSince,
+  getAuditLog,
+  getLatestAuditId,
+  getOutflowLamportsBetween,
+  getOutflowLamportsSinceId,
+} from "./wallet-audit";
+import { freezeWallet, getWalletFreeze } from "./wallet-guardrails";
+import { getMasterWalletBalance } from "./solana-wallet";
+import { notifyAdmins } from "./telegram-notifier";
+import type { WalletAnomaly, WalletAnomalyKind } from "./types";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+function isAutoFreezeEnabled(): boolean {
+  return process.env.WALLET_AUTO_FREEZE === "true";
+}
+
+function getSpikeFactor(): number {
+  const raw = parseFloat(process.env.ANOMALY_SPIKE_FACTOR || "5");
+  return isNaN(raw) || raw < 1 ? 5 : raw;
+}
+
+function getSpikeMinLamports(): number {
+  const raw = parseFloat(process.env.ANOMALY_SPIKE_MIN_SOL || "1");
+  return Math.floor((isNaN(raw) || raw < 0 ? 1 : raw) * LAMPORTS_PER_SOL);
+}
+
+function getGuardrailBlockLimit(): number {
+  const raw = parseInt(process.env.ANOMALY_GUARDRAIL_BLOCKS || "5", 10);
+  return isNaN(raw) || raw < 1 ? 5 : raw;
+}
+
+function getSharedAddressUsers(): number {
+  const raw = parseInt(process.env.ANOMALY_SHARED_ADDRESS_USERS || "3", 10);
+  return isNaN(raw) || raw < 2 ? 3 : raw;
+}
+
+function getDeployFailureLimit(): number {
+  const raw = parseInt(process.env.ANOMALY_DEPLOY_FAILURES || "3", 10);
+  return isNaN(raw) || raw < 1 ? 3 : Math.min(raw, 50);
+}
+
+function getBalanceDropLamports(): number {
+  const raw = parseFloat(process.env.ANOMALY_BALANCE_DROP_SOL || "0.1");
+  return Math.floor((isNaN(raw) || raw < 0 ? 0.1 : raw) * LAMPORTS_PER_SOL);
+}
+
+function getAlertCooldownHours(): number {
+  const raw = parseFloat(process.env.ANOMALY_ALERT_COOLDOWN_HOURS || "6");
+  return isNaN(raw) || raw < 0 ? 6 : raw;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Finding {
+  kind: WalletAnomalyKind;
+  subject: string;
+  message: string;
+}
+
+export interface AnomalyCheckResult {
+  /** Newly flagged anomalies (repeats within the cooldown are not included). */
+  anomalies: WalletAnomaly[];
+  /** True if this check froze outbound sends. */
+  froze: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Detectors
+// ---------------------------------------------------------------------------
+
+const TRAILING_HOURS = 7 * 24;
+
+function detectOutflowSpike(): Finding | null {
+  const lastHour = getOutflowLamportsBetween(1, 0);
+  const trailingAverage = getOutflowLamportsBetween(TRAILING_HOURS, 1) / (TRAILING_HOURS - 1);
+  const limit = Math.max(trailingAverage * getSpikeFactor(), getSpikeMinLamports());
+  if (lastHour <= limit) return null;
+
+  return {
+    kind: "outflow_spike",
+    subject: "master",
+    message:
+      `Outflow spike: ${lastHour / LAMPORTS_PER_SOL} SOL in the last hour vs a trailing average of ` +
+      `${(trailingAverage / LAMPORTS_PER_SOL).toFixed(4)} SOL/hour`,
+  };
+}
+
+function detectGuardrailBlocks(): Finding | null {
+  const blocks = countOperationsSince("guardrail_block", 60);
+  if (blocks < getGuardrailBlockLimit()) return null;
+
+  return {
+    kind: "guardrail_blocks",
+    subject: "master",
+    message: `${blocks} guardrail blocks in the last hour`,
+  };
+}
+
+function detectSharedPayoutAddresses(): Finding[] {
+  return getSharedPayoutAddresses(getSharedAddressUsers(), 24).map(({ address, users }) => ({
+    kind: "shared_payout_address" as const,
+    subject: address,
+    message: `Payout address ${address} was paid in the last 24h and is used by ${users} submitters`,
+  }));
+}
+
+function detectDeployFailures(): Finding | null {
+  const limit = getDeployFailureLimit();
+  const deploys = getAuditLog({ operation: "deploy_token", limit });
+  if (deploys.length < limit || deploys.some((d) => d.success)) return null;
+
+  return {
+    kind: "deploy_failures",
+    subject: "deploy",
+    message:
+      `The last ${limit} token deploys failed` +
+      // Strip Markdown entities so the admin alert still parses
+      (deploys[0].error_message ? ` (latest: ${deploys[0].error_message.replace(/[_*`[]/g, "")})` : ""),
+  };
+}
+
+const BALANCE_SNAPSHOT_SETTING = "wallet_anomaly_balance";
+
+/**
+ * Compare the master balance with the last check's snapshot. Logged outflow
+ * explains a drop; anything beyond it (less the tolerance) is flagged.
+ * Inflows (fee claims) can hide a drop, never cause one.
+ */
+async function detectBalanceDrop(): Promise<Finding | null> {
+  const auditId = getLatestAuditId();
+  const { lamports } = await getMasterWalletBalance();
+
+  const raw = getSetting(BALANCE_SNAPSHOT_SETTING);
+  setSetting(BALANCE_SNAPSHOT_SETTING, JSON.stringify({ lamports, auditId }));
+  if (!raw) return null;
+
+  const previous = JSON.parse(raw) as { lamports: number; auditId: number };
+  const explained = getOutflowLamportsSinceId(previous.auditId);
+  const unexplained = previous.lamports - lamports - explained;
+  if (unexplained <= getBalanceDropLamports()) return null;
+
+  return {
+    kind: "balance_drop",
+    subject: "master",
+    message:
+      `Master wallet dropped ${(previous.lamports - lamports) / LAMPORTS_PER_SOL} SOL since the last check; ` +
+      `only ${explained / LAMPORTS_PER_SOL} SOL is in the audit log`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Check
+// ---------------------------------------------------------------------------
+
+/**
+ * Run every detector, record and alert new anomalies, and freeze sends if
+ * WALLET_AUTO_FREEZE is on.
+ */
+export async function checkWalletAnomalies(): Promise<AnomalyCheckResult> {
+  const findings: Finding[] = [];
+  const add = (finding: Finding | null) => {
+    if (finding) findings.push(finding);
+  };
+
+  add(detectOutflowSpike());
+  add(detectGuardrailBlocks());
+  findings.push(...detectSharedPayoutAddresses());
+  add(detectDeployFailures());
+  try {
+    add(await detectBalanceDrop());
+  } catch (error) {
+    console.error("[Anomalies] Balance check failed:", error);
+  }
+
+  const cooldown = getAlertCooldownHours();
+  const fresh = findings.filter((f) => !wasWalletAnomalyFlagged(f.kind, f.subject, cooldown));
+  const result: AnomalyCheckResult = { anomalies: [], froze: false };
+  if (fresh.length === 0) return result;
+
+  const freeze = isAutoFreezeEnabled() && !getWalletFreeze();
+  if (freeze) {
+    freezeWallet(fresh.map((f) => f.message).join("; "), "auto");
+    result.froze = true;
+  }
+
+  for (const finding of fresh) {
+    result.anomalies.push(recordWalletAnomaly(finding.kind, finding.subject, finding.message, freeze));
+    console.warn(`[Anomalies] ${finding.kind}: ${finding.message}`);
+  }
+
+  let message = `🚨 Wallet anomal${fresh.length > 1 ? "ies" : "y"} detected\n\n`;
+  message += fresh.map((f) => `• ${f.message}`).join("\n");
+  if (freeze) {
+    message += `\n\nOutbound sends are FROZEN until an admin runs /unfreeze.`;
+  } else if (getWalletFreeze()) {
+    message += `\n\nOutbound sends are already frozen.`;
+  }
+  await notifyAdmins(message);
+
+  return result;
+}
@@ -1,87 +1,13 @@
 /**
  * Wallet Audit Log — structured, tamper-evident logging of every wallet operation.
  *
- * Stores entries in the same SQLite database used by the rest of the app.
+ * Stores entries in the same SQLite database used by the rest of the app
+ * (table created by the baseline migration in lib/migrations.ts).
  * Provides query helpers used by the guardrails module (daily outflow) and
  * an admin-facing getAuditLog() for forensics.
  */
 
-import db from "./db";
-
-// ---------------------------------------------------------------------------
-// Table initialisation (runs once on import, idempotent)
-// ---------------------------------------------------------------------------
-
-db.exec(`
-  CREATE TABLE IF NOT EXISTS wallet_audit_log (
-    id          INTEGER PRIMARY KEY AUTOINCREMENT,
-    timestamp   DATETIME DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
-    operation   TEXT NOT NULL CHECK(operation IN (
-      'send_sol', 'deploy_token', 'buy_burn', 'burn_tokens',
-      'balance_check', 'wallet_access', 'guardrail_block',
-      'claim_creator_fee'
-    )),
-    amount_lamports INTEGER DEFAULT 0,
-    destination     TEXT,
-    tx_signature    TEXT,
-    caller          TEXT NOT NULL,
-    success         INTEGER NOT NULL DEFAULT 1,
-    error_message   TEXT,
-    metadata        TEXT
-  );
-
-  CREATE INDEX IF NOT EXISTS idx_wallet_audit_timestamp
-    ON wallet_audit_log(timestamp);
-
-  CREATE INDEX IF NOT EXISTS idx_wallet_audit_operation
-    ON wallet_audit_log(operation);
-`);
-
-// Migration: Recreate wallet_audit_log if the CHECK constraint is missing
-// 'claim_creator_fee'. SQLite doesn't support ALTER COLUMN, so we must
-// recreate the table and copy data across.
-{
-  const tableInfo = db
-    .prepare(
-      "SELECT sql FROM sqlite_master WHERE type='table' AND name='wallet_audit_log'"
-    )
-    .get() as { sql: string } | undefined;
-
-  if (tableInfo && !tableInfo.sql.includes("claim_creator_fee")) {
-    db.exec(`
-      CREATE TABLE wallet_audit_log_new (
-        id          INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp   DATETIME DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
-        operation   TEXT NOT NULL CHECK(operation IN (
-          'send_sol', 'deploy_token', 'buy_burn', 'burn_tokens',
-          'balance_check', 'wallet_access', 'guardrail_block',
-          'claim_creator_fee'
-        )),
-        amount_lamports INTEGER DEFAULT 0,
-        destination     TEXT,
-        tx_signature    TEXT,
-        caller          TEXT NOT NULL,
-        success         INTEGER NOT NULL DEFAULT 1,
-        error_message   TEXT,
-        metadata        TEXT
-      );
-
-      INSERT INTO wallet_audit_log_new
-        SELECT * FROM wallet_audit_log;
-
-      DROP TABLE wallet_audit_log;
-
-      ALTER TABLE wallet_audit_log_new RENAME TO wallet_audit_log;
-
-      CREATE INDEX IF NOT EXISTS idx_wallet_audit_timestamp
-        ON wallet_audit_log(timestamp);
-
-      CREATE INDEX IF NOT EXISTS idx_wallet_audit_operation
-        ON wallet_audit_log(operation);
-    `);
-    console.log("[WalletAudit] Migrated CHECK constraint to include claim_creator_fee");
-  }
-}
+import { lazyStatement } from "./db";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -125,40 +51,80 @@ export interface LogWalletOperationParams {
 // Prepared statements
 // ---------------------------------------------------------------------------
 
-const insertStmt = db.prepare(`
+// Timestamps are stored as ISO 8601 with a "T" separator, so time bounds are
+// built with the same strftime format: they compare as text, and datetime()'s
+// "YYYY-MM-DD HH:MM:SS" would sort below every entry from the same day.
+
+const insertStmt = lazyStatement(`
   INSERT INTO wallet_audit_log
     (operation, amount_lamports, destination, tx_signature, caller, success, error_message, metadata)
   VALUES
     (@operation, @amountLamports, @destination, @txSignature, @caller, @success, @errorMessage, @metadata)
 `);
 
-const selectRecentStmt = db.prepare(`
+const selectRecentStmt = lazyStatement(`
   SELECT * FROM wallet_audit_log
   ORDER BY id DESC
   LIMIT @limit OFFSET @offset
 `);
 
-const selectByOperationStmt = db.prepare(`
+const selectByOperationStmt = lazyStatement(`
   SELECT * FROM wallet_audit_log
   WHERE operation = @operation
   ORDER BY id DESC
   LIMIT @limit OFFSET @offset
 `);
 
-const dailyOutflowStmt = db.prepare(`
+const dailyOutflowStmt = lazyStatement(`
   SELECT COALESCE(SUM(amount_lamports), 0) AS total
   FROM wallet_audit_log
   WHERE operation IN ('send_sol', 'deploy_token', 'buy_burn')
     AND success = 1
-    AND timestamp >= datetime('now', '-24 hours')
+    AND timestamp >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-24 hours')
 `);
 
-const txCountLastMinuteStmt = db.prepare(`
+const txCountLastMinuteStmt = lazyStatement(`
   SELECT COUNT(*) AS cnt
   FROM wallet_audit_log
   WHERE operation IN ('send_sol', 'deploy_token', 'buy_burn', 'burn_tokens')
     AND success = 1
-    AND timestamp >= datetime('now', '-1 minutes')
+    AND timestamp >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-1 minutes')
+`);
+
+const outflowBetweenStmt = lazyStatement(`
+  SELECT COALESCE(SUM(amount_lamports), 0) AS total
+  FROM wallet_audit_log
+  WHERE operation IN ('send_sol', 'deploy_token', 'buy_burn')
+    AND success = 1
+    AND timestamp >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', @from)
+    AND timestamp <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', @to)
+`);
+
+const outflowSinceIdStmt = lazyStatement(`
+  SELECT COALESCE(SUM(amount_lamports), 0) AS total
+  FROM wallet_audit_log
+  WHERE operation IN ('send_sol', 'deploy_token', 'buy_burn')
+    AND success = 1
+    AND id > @id
+`);
+
+const latestIdStmt = lazyStatement(`
+  SELECT COALESCE(MAX(id), 0) AS id FROM wallet_audit_log
+`);
+
+const countSinceStmt = lazyStatement(`
+  SELECT COUNT(*) AS cnt
+  FROM wallet_audit_log
+  WHERE operation = @operation
+    AND timestamp >= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', @since)
+`);
+
+const sentToDestinationStmt = lazyStatement(`
+  SELECT 1 FROM wallet_audit_log
+  WHERE operation = 'send_sol'
+    AND success = 1
+    AND destination = ?
+  LIMIT 1
 `);
 
 // ---------------------------------------------------------------------------
@@ -170,7 +136,7 @@ const txCountLastMinuteStmt = db.prepare(`
  */
 export function logWalletOperation(params: LogWalletOperationParams): void {
   try {
-    insertStmt.run({
+    insertStmt().run({
       operation: params.operation,
       amountLamports: params.amountLamports ?? 0,
       destination: params.destination ?? null,
@@ -191,7 +157,7 @@ export function logWalletOperation(params: LogWalletOperationParams): void {
  * Used by wallet-guardrails to enforce the daily spending cap.
  */
 export function getDailyOutflowLamports(): number {
-  const row = dailyOutflowStmt.get() as { total: number } | undefined;
+  const row = dailyOutflowStmt().get() as { total: number } | undefined;
   return row?.total ?? 0;
 }
 
@@ -200,10 +166,53 @@ export function getDailyOutflowLamports(): number {
  * Used by wallet-guardrails for rate limiting.
  */
 export function getRecentTxCount(): number {
-  const row = txCountLastMinuteStmt.get() as { cnt: number } | undefined;
+  const row = txCountLastMinuteStmt().get() as { cnt: number } | undefined;
+  return row?.cnt ?? 0;
+}
+
+/**
+ * Successful outbound lamports between `fromHoursAgo` and `toHoursAgo`.
+ * Used by the anomaly watcher to compare recent outflow with its trailing
+ * average.
+ */
+export function getOutflowLamportsBetween(fromHoursAgo: number, toHoursAgo: number): number {
+  const row = outflowBetweenStmt().get({
+    from: `-${fromHoursAgo} hours`,
+    to: `-${toHoursAgo} hours`,
+  }) as { total: number } | undefined;
+  return row?.total ?? 0;
+}
+
+/**
+ * Successful outbound lamports logged after audit entry `id`.
+ */
+export function getOutflowLamportsSinceId(id: number): number {
+  const row = outflowSinceIdStmt().get({ id }) as { total: number } | undefined;
+  return row?.total ?? 0;
+}
+
+/** Id of the newest audit entry (0 if the log is empty). */
+export function getLatestAuditId(): number {
+  const row = latestIdStmt().get() as { id: number } | undefined;
+  return row?.id ?? 0;
+}
+
+/**
+ * Number of entries of an operation in the last `minutes`.
+ */
+export function countOperationsSince(operation: AuditOperation, minutes: number): number {
+  const row = countSinceStmt().get({ operation, since: `-${minutes} minutes` }) as { cnt: number } | undefined;
   return row?.cnt ?? 0;
 }
 
+/**
+ * Whether the wallet has ever successfully sent SOL to this address.
+ * Used by wallet-guardrails to flag new destinations for approval.
+ */
+export function hasSentToDestination(address: string): boolean {
+  return sentToDestinationStmt().get(address) !== undefined;
+}
+
 /**
  * Query the audit log for display / forensics.
  */
@@ -218,13 +227,13 @@ export function getAuditLog(options: {
   let rows: unknown[];
 
   if (options.operation) {
-    rows = selectByOperationStmt.all({
+    rows = selectByOperationStmt().all({
       operation: options.operation,
       limit,
       offset,
     });
   } else {
-    rows = selectRecentStmt.all({ limit, offset });
+    rows = selectRecentStmt().all({ limit, offset });
   }
 
   return (rows as Array<Record<string, unknown>>).map((r) => ({
@@ -8,11 +8,21 @@
  *   MAX_TX_SOL          – Max SOL per single send (default: 1)
  *   MAX_DAILY_SOL       – Rolling 24h outflow cap (default: 10)
  *   ALLOWED_DESTINATIONS – Comma-separated allowlist of addresses (optional)
+ *   APPROVAL_THRESHOLD_SOL – Transfers above this need admin approval (default: off)
+ *   APPROVAL_NEW_DESTINATIONS – "true" to need approval for never-paid addresses
+ *
+ * Admins (or the anomaly watcher, with WALLET_AUTO_FREEZE) can also freeze
+ * the wallet: secure-wallet then refuses every send until it is unfrozen.
+ *
+ * A transfer that passes every limit but trips an approval rule is not sent:
+ * the result carries requiresApproval and secure-wallet parks it with
+ * transfer-approvals.ts until enough admins approve it.
  */
 
 import { LAMPORTS_PER_SOL } from "@solana/web3.js";
-import { getDailyOutflowLamports, logWalletOperation } from "./wallet-audit";
+import { getDailyOutflowLamports, hasSentToDestination, logWalletOperation } from "./wallet-audit";
 import { isValidSolanaAddress } from "./solana-wallet";
+import { getSetting, setSetting } from "./db";
 
 // ---------------------------------------------------------------------------
 // Configuration (read from env at call time to support hot-reload)
@@ -40,13 +50,32 @@ function getAllowedDestinations(): Set<string> | null {
   return new Set(addrs);
 }
 
+function getApprovalThresholdLamports(): number {
+  const sol = parseFloat(process.env.APPROVAL_THRESHOLD_SOL || "0");
+  const clamped = isNaN(sol) || sol < 0 ? 0 : Math.min(sol, 100); // 0 disables the size rule
+  return Math.floor(clamped * LAMPORTS_PER_SOL);
+}
+
+function requiresApprovalForNewDestinations(): boolean {
+  return process.env.APPROVAL_NEW_DESTINATIONS === "true";
+}
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+export interface WalletFreeze {
+  reason: string;
+  /** "auto" for the anomaly watcher, else the admin's Telegram id. */
+  frozenBy: string;
+  frozenAt: string;
+}
+
 export interface GuardrailCheckResult {
   allowed: boolean;
   reason?: string;
+  /** Within every limit, but admins must approve it first (allowed is false). */
+  requiresApproval?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -67,7 +96,9 @@ export function withGuardrailLock<T>(fn: () => Promise<T>): Promise<T> {
 
 /**
  * Validate a proposed outbound SOL transfer against all guardrails.
- * Returns { allowed: true } or { allowed: false, reason: "..." }.
+ * Returns { allowed: true }, { allowed: false, reason: "..." }, or
+ * { allowed: false, requiresApproval: true, reason: "..." } for a transfer
+ * that is within limits but needs admin approval.
  *
  * If blocked, an audit log entry with operation "guardrail_block" is written.
  *
@@ -121,6 +152,47 @@ export function checkSendGuardrails(
     return { allowed: false, reason };
   }
 
+  // 6. Approval rules (size, new destination)
+  const approvalReason = getApprovalReason([{ address: recipientAddress, lamports }], lamports);
+  if (approvalReason) {
+    return { allowed: false, requiresApproval: true, reason: approvalReason };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Validate a multi-recipient transfer. Every recipient must pass the
+ * single-send checks (address, amount, per-transaction limit, allowlist),
+ * and the batch total must fit under the daily spending limit. Approval
+ * rules apply to the batch as a whole (its total, any new destination).
+ */
+export function checkBatchSendGuardrails(
+  transfers: Array<{ address: string; lamports: number }>,
+  caller: string
+): GuardrailCheckResult {
+  for (const transfer of transfers) {
+    const result = checkSendGuardrails(transfer.address, transfer.lamports, caller);
+    if (!result.allowed && !result.requiresApproval) return result;
+  }
+
+  const total = transfers.reduce((sum, t) => sum + t.lamports, 0);
+  const dailyOutflow = getDailyOutflowLamports();
+  const maxDaily = getMaxDailyLamports();
+  if (dailyOutflow + total > maxDaily) {
+    const reason =
+      `Daily spending limit would be exceeded by batch of ${transfers.length}: ` +
+      `${(dailyOutflow + total) / LAMPORTS_PER_SOL} SOL > ${maxDaily / LAMPORTS_PER_SOL} SOL max ` +
+      `(already spent ${dailyOutflow / LAMPORTS_PER_SOL} SOL in last 24h)`;
+    logGuardrailBlock(caller, reason, undefined, total);
+    return { allowed: false, reason };
+  }
+
+  const approvalReason = getApprovalReason(transfers, total);
+  if (approvalReason) {
+    return { allowed: false, requiresApproval: true, reason: approvalReason };
+  }
+
   return { allowed: true };
 }
 
@@ -146,6 +218,52 @@ export function checkOperationGuardrails(
   return { allowed: true };
 }
 
+// ---------------------------------------------------------------------------
+// Freeze
+// ---------------------------------------------------------------------------
+
+const FREEZE_SETTING = "wallet_freeze";
+
+/**
+ * The active freeze, or null when sends are allowed.
+ */
+export function getWalletFreeze(): WalletFreeze | null {
+  const raw = getSetting(FREEZE_SETTING);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as WalletFreeze;
+  } catch {
+    // Unreadable state must not unfreeze the wallet
+    return { reason: "Unreadable freeze state", frozenBy: "unknown", frozenAt: "" };
+  }
+}
+
+/**
+ * Halt every outbound send until unfreezeWallet(). Keeps the first freeze
+ * if already frozen.
+ */
+export function freezeWallet(reason: string, frozenBy: string): WalletFreeze {
+  const existing = getWalletFreeze();
+  if (existing) return existing;
+
+  const freeze: WalletFreeze = { reason, frozenBy, frozenAt: new Date().toISOString() };
+  setSetting(FREEZE_SETTING, JSON.stringify(freeze));
+  console.warn(`[Guardrails] Wallet FROZEN by ${frozenBy}: ${reason}`);
+  return freeze;
+}
+
+/**
+ * Lift a freeze. Returns the freeze that was lifted, if any.
+ */
+export function unfreezeWallet(unfrozenBy: string): WalletFreeze | null {
+  const existing = getWalletFreeze();
+  if (existing) {
+    setSetting(FREEZE_SETTING, "");
+    console.log(`[Guardrails] Wallet unfrozen by ${unfrozenBy}`);
+  }
+  return existing;
+}
+
 /**
  * Return current guardrail status (useful for admin dashboards).
  */
@@ -155,6 +273,9 @@ export function getGuardrailStatus(): {
   dailyOutflowSol: number;
   dailyRemainingLamports: number;
   hasAllowlist: boolean;
+  approvalThresholdSol: number;
+  approvalForNewDestinations: boolean;
+  frozen: boolean;
 } {
   const maxDaily = getMaxDailyLamports();
   const dailyOutflow = getDailyOutflowLamports();
@@ -165,6 +286,9 @@ export function getGuardrailStatus(): {
     dailyOutflowSol: dailyOutflow / LAMPORTS_PER_SOL,
     dailyRemainingLamports: Math.max(0, maxDaily - dailyOutflow),
     hasAllowlist: getAllowedDestinations() !== null,
+    approvalThresholdSol: getApprovalThresholdLamports() / LAMPORTS_PER_SOL,
+    approvalForNewDestinations: requiresApprovalForNewDestinations(),
+    frozen: getWalletFreeze() !== null,
   };
 }
 
@@ -172,6 +296,28 @@ export function getGuardrailStatus(): {
 // Helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Why a transfer (already within limits) needs admin approval, or null.
+ */
+function getApprovalReason(
+  transfers: Array<{ address: string; lamports: number }>,
+  totalLamports: number
+): string | null {
+  const threshold = getApprovalThresholdLamports();
+  if (threshold > 0 && totalLamports > threshold) {
+    return `Transfer of ${totalLamports / LAMPORTS_PER_SOL} SOL is over the approval threshold (${threshold / LAMPORTS_PER_SOL} SOL)`;
+  }
+
+  if (requiresApprovalForNewDestinations()) {
+    const fresh = transfers.filter((t) => !hasSentToDestination(t.address));
+    if (fresh.length > 0) {
+      return `New destination${fresh.length > 1 ? "s" : ""}: ${fresh.map((t) => t.address).join(", ")}`;
+    }
+  }
+
+  return null;
+}
+
 function logGuardrailBlock(
   caller: string,
   reason: string,
@@ -0,0 +1,69 @@
+/**
+ * Wallet anomalies CLI — inspect the audit-log watcher (lib/wallet-anomalies.ts)
+ * and the wallet freeze.
+ *
+ * Usage:
+ *   npx tsx scripts/anomalies.ts                   # freeze state + recently flagged anomalies
+ *   npx tsx scripts/anomalies.ts check             # run every detector now (alerts admins)
+ *   npx tsx scripts/anomalies.ts freeze [reason]   # halt all outbound sends
+ *   npx tsx scripts/anomalies.ts unfreeze          # resume outbound sends
+ */
+
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { getRecentWalletAnomalies } from "../lib/db";
+import { freezeWallet, getWalletFreeze, unfreezeWallet } from "../lib/wallet-guardrails";
+import { checkWalletAnomalies } from "../lib/wallet-anomalies";
+
+const args = process.argv.slice(2);
+const command = args[0] || "status";
+
+function printStatus(): void {
+  const freeze = getWalletFreeze();
+  console.log(
+    freeze
+      ? `\nWallet FROZEN by ${freeze.frozenBy} at ${freeze.frozenAt}: ${freeze.reason}`
+      : `\nWallet not frozen`
+  );
+
+  const anomalies = getRecentWalletAnomalies(20);
+  console.log(`\nRecent anomalies (${anomalies.length})`);
+  for (const anomaly of anomalies) {
+    console.log(
+      `  #${String(anomaly.id).padEnd(5)} ${anomaly.created_at}  ${anomaly.kind.padEnd(22)} ` +
+      `${anomaly.froze_wallet ? "[froze] " : ""}${anomaly.message}`
+    );
+  }
+  console.log("");
+}
+
+async function main(): Promise<void> {
+  if (command === "status") {
+    printStatus();
+  } else if (command === "check") {
+    const result = await checkWalletAnomalies();
+    console.log(
+      `\n${result.anomalies.length} new anomal${result.anomalies.length === 1 ? "y" : "ies"}` +
+      (result.froze ? " — wallet frozen" : "")
+    );
+    for (const anomaly of result.anomalies) {
+      console.log(`  ${anomaly.kind}: ${anomaly.message}`);
+    }
+    console.log("");
+  } else if (command === "freeze") {
+    const freeze = freezeWallet(args.slice(1).join(" ") || "Frozen from CLI", "cli");
+    console.log(`Wallet frozen by ${freeze.frozenBy}: ${freeze.reason}`);
+  } else if (command === "unfreeze") {
+    const lifted = unfreezeWallet("cli");
+    console.log(lifted ? `Wallet unfrozen (was frozen by ${lifted.frozenBy}: ${lifted.reason}).` : "Wallet is not frozen.");
+  } else {
+    console.error(`Unknown command "${command}". Use: status (default), check, freeze, unfreeze`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`\n${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+/**
+ * Buy-and-burn CLI — inspect and run the batched $NEWS buy-and-burn
+ * (lib/buy-burn.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/buy-burn.ts                                   # reserve, recent runs + what the next run would swap
+ *   npx tsx scripts/buy-burn.ts run                               # swap and burn the reserve now
+ *   npx tsx scripts/buy-burn.ts resolve <id> swapped <sig> [amt]  # an unconfirmed swap landed on-chain
+ *   npx tsx scripts/buy-burn.ts resolve <id> failed               # an unconfirmed swap did not land
+ */
+
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { getBuyBurnTotals, getRecentBuyBurns } from "../lib/db";
+import { LEDGER_ACCOUNTS, getLedgerAccountBalance } from "../lib/ledger";
+import { NEWS_TOKEN_DECIMALS, resolveBuyBurn, runBuyAndBurn } from "../lib/buy-burn";
+
+const args = process.argv.slice(2);
+const command = args[0] || "status";
+
+function sol(lamports: number): string {
+  return (lamports / LAMPORTS_PER_SOL).toFixed(6);
+}
+
+function tokens(amount: number): string {
+  return (amount / 10 ** NEWS_TOKEN_DECIMALS).toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+async function printStatus(): Promise<void> {
+  const totals = getBuyBurnTotals();
+  console.log(`\nBurn reserve: ${sol(getLedgerAccountBalance(LEDGER_ACCOUNTS.burnReserve))} SOL`);
+  console.log(`Burned so far: ${tokens(totals.burnedAmount)} $NEWS for ${sol(totals.spentLamports)} SOL in ${totals.burns} burn(s)`);
+
+  const runs = getRecentBuyBurns(20);
+  console.log(`\nRecent runs (${runs.length})`);
+  for (const run of runs) {
+    console.log(
+      `  #${String(run.id).padEnd(5)} ${run.status.padEnd(8)} ${sol(run.input_lamports).padStart(12)} SOL  ` +
+      `${tokens(run.burned_amount ?? run.bought_amount ?? run.quoted_amount).padStart(16)} $NEWS  ${run.created_at}  ` +
+      `${run.burn_tx_signature || run.swap_tx_signature || run.error_message || ""}`
+    );
+  }
+
+  const plan = await runBuyAndBurn({ dryRun: true });
+  if (plan.skippedReason || plan.error) {
+    console.log(`\nNext run: skipped — ${plan.skippedReason || plan.error}\n`);
+  } else if (plan.quote) {
+    console.log(
+      `\nNext run: ${sol(plan.plannedLamports)} SOL → ~${tokens(plan.quote.outAmount)} $NEWS ` +
+      `(min ${tokens(plan.quote.minOutAmount)}, impact ${plan.quote.priceImpactPct.toFixed(2)}%, via ${plan.quote.adapter})\n`
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  if (command === "status") {
+    await printStatus();
+  } else if (command === "run") {
+    const result = await runBuyAndBurn();
+    if (result.skippedReason && result.burned === 0) {
+      console.log(`\nSkipped: ${result.skippedReason}\n`);
+      return;
+    }
+    if (result.error) {
+      console.log(`\nFailed: ${result.error}\n`);
+    }
+    console.log(
+      `\nSpent ${sol(result.spentLamports)} SOL, burned ${tokens(result.burnedAmount)} $NEWS ` +
+      `in ${result.burned} burn(s)\n`
+    );
+  } else if (command === "resolve") {
+    const id = parseInt(args[1], 10);
+    const outcome = args[2];
+    if (isNaN(id) || (outcome !== "swapped" && outcome !== "failed")) {
+      console.error("Usage: npx tsx scripts/buy-burn.ts resolve <id> swapped|failed [signature] [rawAmount]");
+      process.exit(1);
+    }
+    const amount = args[4] ? parseInt(args[4], 10) : undefined;
+    resolveBuyBurn(id, outcome, args[3], amount);
+    console.log(`Buy-and-burn #${id} resolved as ${outcome}.`);
+  } else {
+    console.error(`Unknown command "${command}". Use: status (default), run, resolve`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`\n${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -3,13 +3,16 @@
  *
  * The automated scheduler claims fees every 30 min and logs the amounts.
  * This script totals up everything claimed since the last distribution
- * and pays submitters their share pro-rata by trading volume.
+ * and accrues submitters their share pro-rata by trading volume. Balances
+ * over the payout threshold are then paid by the scheduled payout run
+ * (or immediately with --payout).
  *
  * Usage:
  *   npx tsx scripts/claim-and-pay.ts                  # distribute what's owed
  *   npx tsx scripts/claim-and-pay.ts --dry-run        # preview only, no payments sent
  *   npx tsx scripts/claim-and-pay.ts --amount 0.5     # override amount (instead of auto-detect)
  *   npx tsx scripts/claim-and-pay.ts --claim           # also claim fees before distributing
+ *   npx tsx scripts/claim-and-pay.ts --payout          # run a payout right after accruing
  */
 
 import dotenv from "dotenv";
@@ -22,6 +25,8 @@ import { LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { getConnection } from "../lib/solana-wallet";
 import { secureGetWallet, secureGetBalance } from "../lib/secure-wallet";
 import { callCollectCreatorFee } from "../lib/creator-fee-claimer";
+import { recordCreatorFeeClaim } from "../lib/ledger";
+import { runSubmitterPayouts } from "../lib/submitter-payouts";
 import {
   distributeBulkClaim,
   fetchTokenVolumes,
@@ -36,6 +41,7 @@ import {
 const args = process.argv.slice(2);
 const isDryRun = args.includes("--dry-run");
 const doClaim = args.includes("--claim");
+const doPayout = args.includes("--payout");
 
 function getFlag(flag: string): string | undefined {
   const idx = args.indexOf(flag);
@@ -81,6 +87,7 @@ async function main(): Promise<void> {
       const diff = Math.max(0, after.lamports - balanceBefore);
 
       if (diff > 0) {
+        recordCreatorFeeClaim(signature, diff);
         console.log(`  Received: ${sol(diff)} SOL`);
       } else {
         console.log(`  No new fees to claim.`);
@@ -159,7 +166,7 @@ async function main(): Promise<void> {
       `${created.padEnd(8)} ` +
       `${(s.sharePercent * 100).toFixed(1).padStart(5)}%  ` +
       `${sol(s.submitterLamports).padStart(12)} SOL  → ` +
-      `${s.deployerSolAddress.slice(0, 8)}…${s.deployerSolAddress.slice(-4)}`
+      `${s.payoutAddress.slice(0, 8)}…${s.payoutAddress.slice(-4)}`
     );
   }
 
@@ -168,14 +175,14 @@ async function main(): Promise<void> {
 
   // ── Dry run stops here ──
   if (isDryRun) {
-    console.log(`\n  DRY RUN — no payments were sent.`);
-    console.log(`  Run without --dry-run to pay out.\n`);
+    console.log(`\n  DRY RUN — nothing was accrued or sent.`);
+    console.log(`  Run without --dry-run to accrue shares.\n`);
     return;
   }
 
   // ── Step 5: Send payments ──
   const txSig = `distribution-${Date.now()}`;
-  console.log(`\n  Sending payments...\n`);
+  console.log(`\n  Accruing submitter shares...\n`);
 
   const result = await distributeBulkClaim(txSig, distributionLamports, false);
 
@@ -185,14 +192,14 @@ async function main(): Promise<void> {
     console.log(hr());
     console.log(`  Batch ID:    ${result.batchId}`);
     console.log(`  Tokens:      ${result.tokensCount}`);
-    console.log(`  Distributed: ${sol(result.distributedLamports || 0)} SOL`);
+    console.log(`  Accrued:     ${sol(result.distributedLamports || 0)} SOL`);
 
     if (result.batchId) {
       const summary = getClaimDistributionSummary(result.batchId);
       if (summary.length > 0) {
         console.log(`\n  Per-token results:\n`);
         for (const s of summary) {
-          const status = s.allocation_status === "paid" ? "PAID" : s.allocation_status.toUpperCase();
+          const status = s.allocation_status === "pending" ? "ACCRUED" : s.allocation_status.toUpperCase();
           const txShort = s.submitter_tx_signature ? s.submitter_tx_signature.slice(0, 12) + "…" : "-";
           console.log(
             `  ${s.ticker.padEnd(12)} ` +
@@ -203,6 +210,19 @@ async function main(): Promise<void> {
         }
       }
     }
+
+    if (doPayout) {
+      const payout = await runSubmitterPayouts();
+      console.log(
+        payout.skippedReason
+          ? `\n  Payout skipped: ${payout.skippedReason}`
+          : `\n  Payout: ${sol(payout.paidLamports)} SOL to ${payout.paidRecipients} wallet(s) ` +
+            `in ${payout.batches} transaction(s)${payout.failedBatches ? `, ${payout.failedBatches} failed` : ""}` +
+            (payout.heldBatches ? `, ${payout.heldBatches} held (${payout.heldReason})` : "")
+      );
+    } else {
+      console.log(`\n  Wallets over the payout threshold are paid by the next payout run.`);
+    }
     console.log(`\n${hr()}\n`);
   } else {
     console.error(`\nDistribution failed: ${result.error}`);
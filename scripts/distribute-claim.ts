@@ -122,7 +122,7 @@ async function cmdDryRun(txSignature?: string): Promise<void> {
       share: `${(s.sharePercent * 100).toFixed(2)}%`,
       total: `${formatSol(s.totalAmountLamports)} SOL`,
       submitter: `${formatSol(s.submitterLamports)} SOL`,
-      wallet: s.deployerSolAddress.slice(0, 12) + "…",
+      wallet: s.payoutAddress.slice(0, 12) + "…",
     };
   });
 
@@ -168,7 +168,7 @@ async function cmdDistribute(txSignature: string, amountSol?: number): Promise<v
     console.log(`\nDistribution complete!`);
     console.log(`  Batch ID: ${result.batchId}`);
     console.log(`  Tokens: ${result.tokensCount}`);
-    console.log(`  Distributed: ${formatSol(result.distributedLamports || 0)} SOL`);
+    console.log(`  Accrued: ${formatSol(result.distributedLamports || 0)} SOL (paid by the next payout run)`);
 
     if (result.batchId) {
       console.log(`\nAllocation details:\n`);
@@ -267,7 +267,7 @@ async function cmdRetry(batchId: number): Promise<void> {
 
   console.log(`Batch #${batchId}: ${formatSol(batch.total_lamports)} SOL, status: ${batch.status}\n`);
 
-  const result = await retryFailedAllocations(batchId);
+  const result = retryFailedAllocations(batchId);
 
   console.log(`\nRetry results:`);
   console.log(`  Retried:   ${result.retried}`);
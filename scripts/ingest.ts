@@ -0,0 +1,69 @@
+/**
+ * Ingestion CLI — manage the RSS/Atom feeds and sitemaps polled for newsroom
+ * submissions (lib/ingestion.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/ingest.ts                     # sources + newsroom wallet
+ *   npx tsx scripts/ingest.ts add <url> [name]    # register a feed or sitemap
+ *   npx tsx scripts/ingest.ts enable <id>         # resume polling a source
+ *   npx tsx scripts/ingest.ts disable <id>        # stop polling a source
+ *   npx tsx scripts/ingest.ts poll                # poll now (respects the queue target)
+ */
+
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { getIngestionSourceById, getIngestionSources, setIngestionSourceEnabled } from "../lib/db";
+import {
+  describeUndatedItems,
+  formatIngestionSource,
+  getNewsroomAddress,
+  pollIngestionSources,
+  registerIngestionSource,
+} from "../lib/ingestion";
+
+const args = process.argv.slice(2);
+const command = args[0] || "status";
+
+function printStatus(): void {
+  console.log(`\nNewsroom wallet: ${getNewsroomAddress() ?? "NOT SET (ingestion off)"}`);
+
+  const sources = getIngestionSources();
+  console.log(`\nSources (${sources.length})`);
+  for (const source of sources) {
+    console.log(formatIngestionSource(source).replace(/^/gm, "  "));
+  }
+  console.log("");
+}
+
+async function main(): Promise<void> {
+  if (command === "status") {
+    printStatus();
+  } else if (command === "add") {
+    if (!args[1]) throw new Error("Usage: add <url> [name]");
+    const result = await registerIngestionSource(args[1], args.slice(2).join(" ") || null, "cli");
+    if (!result.success || !result.source) throw new Error(result.error);
+    console.log(`Added (${result.items} items found):\n${formatIngestionSource(result.source)}`);
+    if (result.undated) console.log(describeUndatedItems(result.undated));
+  } else if (command === "enable" || command === "disable") {
+    const id = parseInt(args[1] || "", 10);
+    if (isNaN(id) || !getIngestionSourceById(id)) throw new Error(`Usage: ${command} <id>`);
+    setIngestionSourceEnabled(id, command === "enable");
+    console.log(`Source #${id} ${command}d.`);
+  } else if (command === "poll") {
+    const result = await pollIngestionSources();
+    console.log(`\nPolled ${result.polled} source(s): ${result.submitted} submitted, ${result.skipped} skipped`);
+    for (const error of result.errors) {
+      console.log(`  ${error}`);
+    }
+    console.log("");
+  } else {
+    console.error(`Unknown command "${command}". Use: status (default), add, enable, disable, poll`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`\n${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
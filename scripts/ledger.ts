@@ -0,0 +1,79 @@
+/**
+ * Revenue ledger CLI — balances, reconciliation and opening entries for the
+ * double-entry ledger in lib/ledger.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/ledger.ts                          # account balances + trial balance
+ *   npx tsx scripts/ledger.ts reconcile                # compare ledger to on-chain balances now
+ *   npx tsx scripts/ledger.ts open                     # one-time opening balances (existing deployments)
+ *   npx tsx scripts/ledger.ts adjust <account> [note]  # book drift on one account against equity
+ */
+
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { getLedgerBalances, getTrialBalance } from "../lib/ledger";
+import { reconcileLedger, postOpeningBalances, postDriftAdjustment } from "../lib/ledger-reconciler";
+
+const args = process.argv.slice(2);
+const command = args[0] || "balances";
+
+function sol(lamports: number): string {
+  return (lamports / LAMPORTS_PER_SOL).toFixed(6);
+}
+
+function printBalances(): void {
+  const balances = getLedgerBalances();
+  console.log(`\n${balances.length} ledger account(s)\n`);
+  for (const account of balances) {
+    console.log(`  ${account.type.padEnd(10)} ${account.code.padEnd(60)} ${sol(account.balanceLamports).padStart(14)} SOL`);
+  }
+
+  const trial = getTrialBalance();
+  console.log(
+    `\nDebits ${sol(trial.debitsLamports)} SOL, credits ${sol(trial.creditsLamports)} SOL — ` +
+    (trial.balanced ? "balanced\n" : "OUT OF BALANCE\n")
+  );
+}
+
+async function main(): Promise<void> {
+  if (command === "balances") {
+    printBalances();
+  } else if (command === "reconcile") {
+    const result = await reconcileLedger();
+    console.log("");
+    for (const line of result.lines) {
+      console.log(
+        `  ${line.flagged ? "DRIFT" : "ok   "} ${line.accountCode.padEnd(28)} ` +
+        `ledger ${sol(line.ledgerLamports).padStart(14)}  chain ${sol(line.chainLamports).padStart(14)}  ` +
+        `drift ${sol(line.driftLamports).padStart(14)}`
+      );
+    }
+    console.log(`\n${result.flagged} account(s) flagged\n`);
+  } else if (command === "open") {
+    const posted = await postOpeningBalances();
+    console.log(posted ? "Opening balances posted." : "Opening balances were already posted.");
+    printBalances();
+  } else if (command === "adjust") {
+    const account = args[1];
+    if (!account) {
+      console.error("Usage: npx tsx scripts/ledger.ts adjust <account> [note]");
+      process.exit(1);
+    }
+    const adjustment = await postDriftAdjustment(account, args.slice(2).join(" ") || undefined);
+    console.log(
+      adjustment === 0
+        ? `${account} already matches the chain.`
+        : `Adjusted ${account} by ${sol(adjustment)} SOL against equity.`
+    );
+  } else {
+    console.error(`Unknown command "${command}". Use: balances (default), reconcile, open, adjust`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`\n${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
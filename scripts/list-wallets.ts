@@ -12,9 +12,9 @@ dotenv.config({ path: ".env.local" });
 
 import { getAllTokens } from "../lib/db";
 import db from "../lib/db";
-import { decryptPrivateKey } from "../lib/secrets-provider";
+import { decryptWalletKey, getEncryptionKeys } from "../lib/secrets-provider";
 
-const encryptionKey = process.env.WALLET_ENCRYPTION_KEY;
+const encryptionKeys = getEncryptionKeys();
 
 const tokens = getAllTokens(9999);
 
@@ -34,13 +34,13 @@ console.log("=".repeat(120));
 
 for (const token of walletsWithKeys) {
   try {
-    if (!encryptionKey) {
+    if (encryptionKeys.size === 0) {
       console.warn("WALLET_ENCRYPTION_KEY not set — cannot decrypt ephemeral keys");
       break;
     }
-    const privateKey = decryptPrivateKey(
+    const privateKey = decryptWalletKey(
       token.creator_wallet_encrypted_key!,
-      encryptionKey
+      token.creator_wallet_key_version
     );
 
     const submitterWallet = token.submission_id ? submitterMap.get(token.submission_id) || "unknown" : "N/A";
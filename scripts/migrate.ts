@@ -0,0 +1,72 @@
+/**
+ * Schema migrations CLI — apply, inspect, or dry-run the versioned
+ * migrations defined in lib/migrations.ts.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate.ts              # apply pending migrations
+ *   npx tsx scripts/migrate.ts status       # show current version and pending migrations
+ *   npx tsx scripts/migrate.ts --dry-run    # run pending migrations in a rolled-back transaction
+ *
+ * Stop the web app, bot and scheduler before applying in production — they
+ * refuse to start until the database matches the code's schema version.
+ */
+
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  getAppliedMigrations,
+  getPendingMigrations,
+  getSchemaVersion,
+  applyMigrations,
+} from "../lib/migrations";
+
+const args = process.argv.slice(2);
+const command = args.find((a) => !a.startsWith("--")) || "apply";
+const dryRun = args.includes("--dry-run");
+
+function printStatus(): void {
+  const applied = getAppliedMigrations();
+  const pending = getPendingMigrations();
+
+  console.log(`\nSchema version: ${getSchemaVersion()} (code expects ${SCHEMA_VERSION})\n`);
+
+  for (const migration of MIGRATIONS) {
+    const row = applied.find((a) => a.version === migration.version);
+    const state = row ? `applied ${row.applied_at}` : "pending";
+    console.log(`  ${String(migration.version).padStart(3)}  ${migration.name.padEnd(28)} ${state}`);
+  }
+
+  // Versions recorded in the DB but unknown to this code (newer deploy)
+  for (const row of applied.filter((a) => !MIGRATIONS.some((m) => m.version === a.version))) {
+    console.log(`  ${String(row.version).padStart(3)}  ${row.name.padEnd(28)} applied ${row.applied_at} (unknown to this code)`);
+  }
+
+  console.log(`\n${pending.length} pending migration(s)\n`);
+}
+
+try {
+  if (command === "status") {
+    printStatus();
+  } else if (command === "apply") {
+    const pending = getPendingMigrations();
+    if (pending.length === 0) {
+      console.log(`Schema is up to date (version ${getSchemaVersion()}).`);
+    } else {
+      applyMigrations({ dryRun });
+      console.log(
+        dryRun
+          ? `\nDry run: ${pending.length} migration(s) ran cleanly and were rolled back.`
+          : `\nSchema is now at version ${getSchemaVersion()}.`
+      );
+    }
+  } else {
+    console.error(`Unknown command "${command}". Use: apply (default), status, --dry-run`);
+    process.exit(1);
+  }
+} catch (error) {
+  console.error(`\n${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
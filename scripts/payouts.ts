@@ -0,0 +1,107 @@
+/**
+ * Submitter payouts CLI — inspect and run the batched payout of accrued
+ * submitter balances (lib/submitter-payouts.ts).
+ *
+ * Usage:
+ *   npx tsx scripts/payouts.ts                              # recent batches + what the next run would pay
+ *   npx tsx scripts/payouts.ts run                          # pay every wallet over PAYOUT_MIN_SOL now
+ *   npx tsx scripts/payouts.ts resolve <batchId> sent [sig] # an unconfirmed batch landed on-chain
+ *   npx tsx scripts/payouts.ts resolve <batchId> failed     # an unconfirmed batch did not land
+ *   npx tsx scripts/payouts.ts wallets                      # payout wallet changes still in their cooldown
+ *   npx tsx scripts/payouts.ts cancel-wallet <telegramId>   # block a suspicious wallet change
+ */
+
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { getRecentPayoutBatches, getScheduledPayoutWallets } from "../lib/db";
+import { planPayouts, runSubmitterPayouts, resolvePayoutBatch } from "../lib/submitter-payouts";
+import { cancelPayoutWalletChange } from "../lib/payout-wallets";
+
+const args = process.argv.slice(2);
+const command = args[0] || "status";
+
+function sol(lamports: number): string {
+  return (lamports / LAMPORTS_PER_SOL).toFixed(6);
+}
+
+function printStatus(): void {
+  const batches = getRecentPayoutBatches(20);
+  console.log(`\nRecent payout batches (${batches.length})`);
+  for (const batch of batches) {
+    console.log(
+      `  #${String(batch.id).padEnd(5)} ${batch.status.padEnd(8)} ${sol(batch.total_lamports).padStart(12)} SOL  ` +
+      `${String(batch.recipients_count).padStart(3)} wallet(s)  ${batch.created_at}  ${batch.tx_signature || batch.error_message || ""}`
+    );
+  }
+
+  const plan = planPayouts();
+  const due = plan.flat();
+  console.log(`\nNext run: ${due.length} wallet(s) in ${plan.length} transaction(s)`);
+  for (const payout of due) {
+    const carry = payout.owedLamports - payout.lamports;
+    console.log(
+      `  ${payout.address}  ${sol(payout.lamports).padStart(12)} SOL` +
+      (carry > 0 ? `  (${sol(carry)} SOL carries over)` : "")
+    );
+  }
+  console.log("");
+}
+
+async function main(): Promise<void> {
+  if (command === "status") {
+    printStatus();
+  } else if (command === "run") {
+    const result = await runSubmitterPayouts();
+    if (result.skippedReason) {
+      console.log(`\nSkipped: ${result.skippedReason}\n`);
+      return;
+    }
+    console.log(
+      `\nPaid ${sol(result.paidLamports)} SOL to ${result.paidRecipients} wallet(s) ` +
+      `in ${result.batches} transaction(s), ${result.failedBatches} failed` +
+      (result.heldBatches ? `, ${result.heldBatches} held (${result.heldReason})` : "") +
+      "\n"
+    );
+  } else if (command === "resolve") {
+    const batchId = parseInt(args[1], 10);
+    const outcome = args[2];
+    if (isNaN(batchId) || (outcome !== "sent" && outcome !== "failed")) {
+      console.error("Usage: npx tsx scripts/payouts.ts resolve <batchId> sent|failed [signature]");
+      process.exit(1);
+    }
+    resolvePayoutBatch(batchId, outcome, args[3]);
+    console.log(`Payout batch #${batchId} resolved as ${outcome}.`);
+  } else if (command === "wallets") {
+    const wallets = getScheduledPayoutWallets();
+    console.log(`\nPending payout wallet changes (${wallets.length})`);
+    for (const wallet of wallets) {
+      console.log(
+        `  #${String(wallet.id).padEnd(5)} user ${wallet.telegram_user_id.padEnd(12)} ${wallet.sol_address}  ` +
+        `effective ${wallet.effective_at} UTC`
+      );
+    }
+    console.log("");
+  } else if (command === "cancel-wallet") {
+    const telegramUserId = args[1];
+    if (!telegramUserId) {
+      console.error("Usage: npx tsx scripts/payouts.ts cancel-wallet <telegramUserId>");
+      process.exit(1);
+    }
+    const cancelled = cancelPayoutWalletChange(telegramUserId);
+    console.log(
+      cancelled
+        ? `Cancelled change to ${cancelled.sol_address} for user ${telegramUserId}.`
+        : `User ${telegramUserId} has no pending payout wallet change.`
+    );
+  } else {
+    console.error(`Unknown command "${command}". Use: status (default), run, resolve, wallets, cancel-wallet`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`\n${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
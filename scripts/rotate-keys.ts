@@ -0,0 +1,77 @@
+/**
+ * Key rotation CLI — re-encrypt stored pool and creator wallet keys under a
+ * new WALLET_ENCRYPTION_KEY version (see lib/key-rotation.ts for the procedure).
+ *
+ * Usage:
+ *   npx tsx scripts/rotate-keys.ts                    # key versions configured + stored keys per version
+ *   npx tsx scripts/rotate-keys.ts generate           # print a new random 64-hex encryption key
+ *   npx tsx scripts/rotate-keys.ts rotate --dry-run   # decrypt and verify every key, write nothing
+ *   npx tsx scripts/rotate-keys.ts rotate             # re-encrypt all keys in one transaction
+ *   npx tsx scripts/rotate-keys.ts master             # print MASTER_WALLET_ENCRYPTED_KEY under the current version
+ */
+
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { randomBytes } from "crypto";
+import { getKeyRotationStatus, reencryptMasterWalletKey, rotateWalletKeys } from "../lib/key-rotation";
+
+const args = process.argv.slice(2);
+const command = args[0] || "status";
+const dryRun = args.includes("--dry-run");
+
+function printStatus(): void {
+  const status = getKeyRotationStatus();
+  console.log(`\nCurrent key version: ${status.currentVersion}`);
+  console.log(`Configured versions: ${status.configuredVersions.join(", ") || "none"}`);
+
+  console.log(`\nStored wallet keys by version`);
+  const versions = Object.keys(status.keysByVersion).map(Number).sort((a, b) => a - b);
+  for (const version of versions) {
+    const marker = version === status.currentVersion ? " (current)" : "";
+    const missing = status.configuredVersions.includes(version) ? "" : "  [NO KEY CONFIGURED]";
+    console.log(`  v${version}${marker}: ${status.keysByVersion[version]}${missing}`);
+  }
+  if (versions.length === 0) console.log("  none");
+
+  console.log(`\n${status.pending} key(s) to rotate`);
+  if (status.missingKey > 0) {
+    console.log(`${status.missingKey} key(s) cannot be decrypted until their version's key is configured`);
+  }
+  console.log("");
+}
+
+async function main(): Promise<void> {
+  if (command === "status") {
+    printStatus();
+  } else if (command === "generate") {
+    console.log(randomBytes(32).toString("hex"));
+  } else if (command === "rotate") {
+    const result = rotateWalletKeys({ dryRun });
+    for (const error of result.errors) {
+      console.error(`  ${error}`);
+    }
+    if (result.errors.length > 0) {
+      throw new Error(`Rotation aborted: ${result.errors.length} error(s), no keys were changed`);
+    }
+    console.log(
+      `\n${dryRun ? "Would re-encrypt" : "Re-encrypted"} ${result.rotated} key(s); ` +
+      `${result.alreadyCurrent} already on the current version\n`
+    );
+  } else if (command === "master") {
+    const master = reencryptMasterWalletKey();
+    if (!master) {
+      throw new Error("MASTER_WALLET_ENCRYPTED_KEY is not set");
+    }
+    console.log(`MASTER_WALLET_ENCRYPTED_KEY=${master.encrypted}`);
+    console.log(`MASTER_WALLET_KEY_VERSION=${master.keyVersion}`);
+  } else {
+    console.error(`Unknown command "${command}". Use: status (default), generate, rotate [--dry-run], master`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`\n${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
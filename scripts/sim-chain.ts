@@ -0,0 +1,79 @@
+/**
+ * Simulated chain CLI — inspect and drive the fake Solana/pump.fun ledger
+ * used when SOLANA_MODE=simulated.
+ *
+ * Usage:
+ *   npx tsx scripts/sim-chain.ts                        # master wallet, mints, recent transactions
+ *   npx tsx scripts/sim-chain.ts airdrop <address> <sol> # credit SOL to any address
+ *   npx tsx scripts/sim-chain.ts trade                  # accrue trading volume + creator fees now
+ *
+ * Refuses to run unless SOLANA_MODE=simulated.
+ */
+
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import {
+  isSimulatedSolana,
+  getSimulatedMasterWallet,
+  getSimulatedBalance,
+  getSimulatedMints,
+  getSimulatedTransactions,
+  simulateAirdrop,
+  simulateTrading,
+} from "../lib/solana-sim";
+import { isValidSolanaAddress } from "../lib/solana-wallet";
+
+const args = process.argv.slice(2);
+const command = args[0] || "status";
+
+function sol(lamports: number): string {
+  return (lamports / LAMPORTS_PER_SOL).toFixed(6);
+}
+
+function printStatus(): void {
+  const master = getSimulatedMasterWallet().publicKey.toBase58();
+  console.log(`\nSimulated master wallet: ${master}`);
+  console.log(`Balance: ${sol(getSimulatedBalance(master))} SOL\n`);
+
+  const mints = getSimulatedMints();
+  console.log(`${mints.length} simulated mint(s)`);
+  for (const mint of mints) {
+    console.log(
+      `  ${mint.symbol.padEnd(10)} ${mint.mint_address}  ` +
+      `volume ${sol(mint.volume_lamports)} SOL, unclaimed fees ${sol(mint.unclaimed_fee_lamports)} SOL`
+    );
+  }
+
+  console.log(`\nRecent master wallet transactions`);
+  for (const tx of getSimulatedTransactions(master, 10)) {
+    const direction = tx.to_address === master ? "+" : "-";
+    console.log(`  ${tx.created_at}  ${tx.kind.padEnd(18)} ${direction}${sol(tx.lamports)} SOL  ${tx.signature.slice(0, 16)}…`);
+  }
+  console.log("");
+}
+
+if (!isSimulatedSolana()) {
+  console.error("SOLANA_MODE is not \"simulated\" — refusing to touch the simulated ledger.");
+  process.exit(1);
+}
+
+if (command === "status") {
+  printStatus();
+} else if (command === "airdrop") {
+  const [address, amount] = args.slice(1);
+  const parsed = parseFloat(amount);
+  if (!address || !isValidSolanaAddress(address) || isNaN(parsed) || parsed <= 0) {
+    console.error("Usage: npx tsx scripts/sim-chain.ts airdrop <address> <sol>");
+    process.exit(1);
+  }
+  const signature = simulateAirdrop(address, Math.floor(parsed * LAMPORTS_PER_SOL));
+  console.log(`Airdropped ${parsed} SOL to ${address} (tx: ${signature})`);
+} else if (command === "trade") {
+  simulateTrading();
+  printStatus();
+} else {
+  console.error(`Unknown command "${command}". Use: status (default), airdrop, trade`);
+  process.exit(1);
+}
@@ -0,0 +1,64 @@
+/**
+ * Buy-and-burn swap failures: a swap that was never sent or did not land
+ * fails the run, while one sent but not confirmed stays pending until an
+ * operator resolves it.
+ */
+
+import "./migrate";
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { getPendingBuyBurns, getRecentBuyBurns } from "../lib/db";
+import { accrueBurnShare, resolveBuyBurn, runBuyAndBurn } from "../lib/buy-burn";
+import { LEDGER_ACCOUNTS, getLedgerAccountBalance } from "../lib/ledger";
+import { TransactionNotLandedError } from "../lib/solana-wallet";
+import { SwapUnconfirmedError, getSwapAdapter, type SwapAdapter } from "../lib/swap-adapter";
+
+const RESERVE = 0.1 * LAMPORTS_PER_SOL;
+
+let adapter: SwapAdapter;
+
+function failSwapWith(error: Error): void {
+  adapter.swap = async () => {
+    throw error;
+  };
+}
+
+before(() => {
+  process.env.BUY_BURN_ENABLED = "true";
+  process.env.NEWS_TOKEN_MINT = "NewsMint11111111111111111111111111111111111";
+  accrueBurnShare("test:reserve", RESERVE);
+  // Every run gets a fresh mock adapter: patch the shared prototype
+  adapter = Object.getPrototypeOf(getSwapAdapter());
+});
+
+test("a swap that was never sent or did not land fails the run", async () => {
+  const errors = [
+    new Error("Jupiter API error: 504 - upstream timed out"),
+    new TransactionNotLandedError("Transaction abc failed: blockhash expired"),
+  ];
+  for (const error of errors) {
+    failSwapWith(error);
+    const result = await runBuyAndBurn();
+    assert.equal(result.error, error.message);
+
+    const [run] = getRecentBuyBurns(1);
+    assert.equal(run.status, "failed");
+    assert.equal(run.error_message, error.message);
+    assert.equal(getLedgerAccountBalance(LEDGER_ACCOUNTS.burnReserve), RESERVE);
+  }
+});
+
+test("a swap sent but not confirmed stays pending with its signature", async () => {
+  failSwapWith(new SwapUnconfirmedError("confirmation timed out after 30 polls", "sig-unconfirmed"));
+  await runBuyAndBurn();
+
+  const [run] = getPendingBuyBurns();
+  assert.equal(run.swap_tx_signature, "sig-unconfirmed");
+  assert.match((await runBuyAndBurn()).skippedReason!, /awaiting resolution/);
+
+  // The operator confirms it landed; the stored signature is used
+  resolveBuyBurn(run.id, "swapped");
+  assert.equal(getRecentBuyBurns(1)[0].status, "swapped");
+  assert.equal(getRecentBuyBurns(1)[0].swap_tx_signature, "sig-unconfirmed");
+});
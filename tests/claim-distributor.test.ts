@@ -0,0 +1,151 @@
+/**
+ * Claim allocations that could not be accrued normally: failed shares
+ * retried onto a valid payout wallet, shares the ledger refused, and dust
+ * skipped by older runs.
+ */
+
+import "./migrate";
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import db, {
+  createClaimAllocation,
+  createClaimBatch,
+  createPayoutBatch,
+  createPayoutWallet,
+  createSubmission,
+  createToken,
+  getClaimAllocationsByBatch,
+  markPayoutBatchSent,
+  updateClaimAllocationStatus,
+} from "../lib/db";
+import { accrueSkippedAllocations, distributeBulkClaim, retryFailedAllocations } from "../lib/claim-distributor";
+import { getLedgerAccountBalance, recordSubmitterAccrual, submitterPayableAccount } from "../lib/ledger";
+import { postOpeningBalances } from "../lib/ledger-reconciler";
+import { planPayouts } from "../lib/submitter-payouts";
+
+const INVALID_ADDRESS = "not-a-solana-address";
+const WALLET = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+const SHARE = 0.02 * LAMPORTS_PER_SOL;
+
+let claimBatchId: number;
+
+function owed(address: string): number {
+  return getLedgerAccountBalance(submitterPayableAccount(address));
+}
+
+function allocation(id: number) {
+  return getClaimAllocationsByBatch(claimBatchId).find((a) => a.id === id)!;
+}
+
+/** A token launched by Telegram user `userId` with `address` on the submission. */
+function launch(userId: string, address: string): number {
+  const submission = createSubmission(userId, address, `https://news.example/${userId}-${Date.now()}`);
+  return createToken("Test", "TEST", address, undefined, submission.id).id;
+}
+
+beforeEach(() => {
+  db.exec(`
+    DELETE FROM claim_allocations;
+    DELETE FROM payout_batch_items;
+    DELETE FROM payout_batches;
+    DELETE FROM payout_wallets;
+  `);
+  claimBatchId = createClaimBatch(`claim-${Date.now()}-${Math.random()}`, 1_000_000_000, 1).id;
+});
+
+test("a retried allocation moves its balance to the new wallet for the payout run", () => {
+  const tokenId = launch("2001", INVALID_ADDRESS);
+  const { id } = createClaimAllocation(claimBatchId, tokenId, 0, 1, SHARE * 2, SHARE);
+  recordSubmitterAccrual(`claim_allocation:${id}`, INVALID_ADDRESS, SHARE, tokenId);
+  updateClaimAllocationStatus(id, "failed");
+
+  // Still no valid address: nothing moves
+  assert.deepEqual(retryFailedAllocations(claimBatchId), { retried: 1, succeeded: 0, failed: 1 });
+  assert.equal(owed(INVALID_ADDRESS), SHARE);
+
+  createPayoutWallet("2001", WALLET, "message", "signature", 0);
+  assert.deepEqual(retryFailedAllocations(claimBatchId), { retried: 1, succeeded: 1, failed: 0 });
+  assert.ok(owed(INVALID_ADDRESS) === 0);
+  assert.equal(owed(WALLET), SHARE);
+  assert.equal(allocation(id).status, "pending");
+
+  const planned = planPayouts().flat();
+  assert.deepEqual(planned.map((p) => [p.address, p.lamports]), [[WALLET, SHARE]]);
+
+  const batch = createPayoutBatch([{ address: WALLET, lamports: SHARE }]);
+  markPayoutBatchSent(batch.id, "sig-retry");
+  assert.equal(allocation(id).status, "paid");
+});
+
+test("a failed allocation that was never accrued is accrued to the new wallet", () => {
+  const tokenId = launch("2002", INVALID_ADDRESS);
+  const { id } = createClaimAllocation(claimBatchId, tokenId, 0, 1, SHARE * 2, SHARE);
+  updateClaimAllocationStatus(id, "failed");
+
+  const newWallet = "GokivDYuQXPZCWRkwMhdH2h91KpDQXBEmpgBgs55bnpH";
+  createPayoutWallet("2002", newWallet, "message", "signature", 0);
+  assert.equal(retryFailedAllocations(claimBatchId).succeeded, 1);
+  assert.ok(owed(INVALID_ADDRESS) === 0);
+  assert.equal(owed(newWallet), SHARE);
+});
+
+test("a share the ledger refused is failed, then accrued on retry", async () => {
+  const deployer = "4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T";
+  createToken("Claimed", "CLM", deployer, undefined, undefined, undefined, "ClaimMint111111111111111111111111111111111");
+  // Owed from elsewhere: must not be mistaken for this allocation's share
+  recordSubmitterAccrual("test:earlier", deployer, SHARE);
+
+  db.exec(`
+    CREATE TEMP TRIGGER refuse_accruals BEFORE INSERT ON ledger_transactions
+    WHEN NEW.kind = 'submitter_accrual'
+    BEGIN SELECT RAISE(ABORT, 'ledger unavailable'); END;
+  `);
+  const result = await distributeBulkClaim("claim-refused", 4 * SHARE);
+  db.exec(`DROP TRIGGER refuse_accruals`);
+
+  assert.equal(result.success, true);
+  assert.equal(result.distributedLamports, 0);
+  const [refused] = getClaimAllocationsByBatch(result.batchId!);
+  assert.equal(refused.status, "failed");
+  assert.equal(owed(deployer), SHARE);
+
+  assert.equal(retryFailedAllocations(result.batchId!).succeeded, 1);
+  assert.equal(owed(deployer), SHARE + refused.submitter_lamports);
+  assert.equal(getClaimAllocationsByBatch(result.batchId!)[0].status, "pending");
+});
+
+test("skipped dust is accrued once and carried over", () => {
+  const dustWallet = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+  const tokenId = launch("2003", dustWallet);
+  const dust = createClaimAllocation(claimBatchId, tokenId, 0, 1, 800_000, 400_000);
+  updateClaimAllocationStatus(dust.id, "skipped");
+  const empty = createClaimAllocation(claimBatchId, tokenId, 0, 1, 0, 0);
+  updateClaimAllocationStatus(empty.id, "skipped");
+
+  assert.deepEqual(accrueSkippedAllocations(), { accrued: 1, accruedLamports: 400_000 });
+  assert.equal(owed(dustWallet), 400_000);
+  assert.equal(allocation(dust.id).status, "pending");
+  assert.equal(allocation(empty.id).status, "skipped");
+
+  assert.deepEqual(accrueSkippedAllocations(), { accrued: 0, accruedLamports: 0 });
+  assert.equal(owed(dustWallet), 400_000);
+});
+
+// Last: allocations created in the same second as the opening balances
+// count as covered by them
+test("a failed allocation from before the ledger moves from the deployer", async () => {
+  const deployer = "DRpbCBMxVnDK7maPM5tGv6MvB3v1sRMC86PZ8okm21hy";
+  const tokenId = launch("2004", deployer);
+  const { id } = createClaimAllocation(claimBatchId, tokenId, 0, 1, SHARE * 2, SHARE);
+  updateClaimAllocationStatus(id, "failed");
+
+  assert.equal(await postOpeningBalances(), true);
+  assert.equal(owed(deployer), SHARE);
+
+  const newWallet = "3Kz9CCXL3pWvNRGsYTwGT2VbrLuhGLBgkuNBbsVmqXJ7";
+  createPayoutWallet("2004", newWallet, "message", "signature", 0);
+  assert.equal(retryFailedAllocations(claimBatchId).succeeded, 1);
+  assert.ok(owed(deployer) === 0);
+  assert.equal(owed(newWallet), SHARE);
+});
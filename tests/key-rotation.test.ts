@@ -0,0 +1,68 @@
+/**
+ * Wallet key rotation: stored keys are re-encrypted under the new key
+ * version and still decrypt to the same wallet, or nothing is written.
+ */
+
+import "./migrate";
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import db, { addPoolWallet, getStoredWalletKeys } from "../lib/db";
+import { getKeyRotationStatus, rotateWalletKeys } from "../lib/key-rotation";
+import { decryptWalletKey, encryptWalletKey } from "../lib/secrets-provider";
+
+const OLD_KEY = crypto.randomBytes(32).toString("hex");
+const NEW_KEY = crypto.randomBytes(32).toString("hex");
+
+let secretKey: string;
+
+/** Move to key version 2, keeping version 1 readable. */
+function rotateEnvironment(): void {
+  process.env.WALLET_ENCRYPTION_KEYS_PREVIOUS = `1:${OLD_KEY}`;
+  process.env.WALLET_ENCRYPTION_KEY = NEW_KEY;
+  process.env.WALLET_ENCRYPTION_KEY_VERSION = "2";
+}
+
+before(() => {
+  process.env.WALLET_ENCRYPTION_KEY = OLD_KEY;
+  process.env.WALLET_ENCRYPTION_KEY_VERSION = "1";
+
+  const keypair = Keypair.generate();
+  secretKey = bs58.encode(keypair.secretKey);
+  const { encrypted, keyVersion } = encryptWalletKey(secretKey);
+  addPoolWallet(keypair.publicKey.toBase58(), encrypted, keyVersion, 0);
+});
+
+test("a key that decrypts to another wallet stops the whole rotation", () => {
+  const { encrypted } = encryptWalletKey(bs58.encode(Keypair.generate().secretKey));
+  const mismatched = addPoolWallet(Keypair.generate().publicKey.toBase58(), encrypted, 1, 0);
+  rotateEnvironment();
+
+  const result = rotateWalletKeys();
+  assert.equal(result.rotated, 0);
+  assert.equal(result.errors.length, 1);
+  assert.match(result.errors[0], /decrypted key belongs to/);
+  assert.deepEqual(getStoredWalletKeys().map((k) => k.key_version), [1, 1]);
+
+  db.prepare(`DELETE FROM deployer_pool WHERE id = ?`).run(mismatched.id);
+});
+
+test("rotated keys decrypt to the same wallet under the new version only", () => {
+  rotateEnvironment();
+  assert.equal(getKeyRotationStatus().pending, 1);
+
+  assert.deepEqual(rotateWalletKeys({ dryRun: true }), { rotated: 1, alreadyCurrent: 0, errors: [] });
+  assert.equal(getStoredWalletKeys()[0].key_version, 1);
+
+  assert.deepEqual(rotateWalletKeys(), { rotated: 1, alreadyCurrent: 0, errors: [] });
+  const [stored] = getStoredWalletKeys();
+  assert.equal(stored.key_version, 2);
+  assert.equal(getKeyRotationStatus().pending, 0);
+
+  // The old key can be dropped once nothing is left on it
+  delete process.env.WALLET_ENCRYPTION_KEYS_PREVIOUS;
+  assert.equal(decryptWalletKey(stored.encrypted_key, stored.key_version), secretKey);
+  assert.deepEqual(rotateWalletKeys(), { rotated: 0, alreadyCurrent: 1, errors: [] });
+});
@@ -0,0 +1,73 @@
+/**
+ * Revenue ledger: balanced, idempotent postings and reconciliation of the
+ * opening balances against the simulated chain.
+ */
+
+import "./migrate";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { createClaimAllocation, createClaimBatch, createToken } from "../lib/db";
+import {
+  LEDGER_ACCOUNTS,
+  getLedgerAccountBalance,
+  getTrialBalance,
+  postLedgerTransaction,
+  recordDeposit,
+  recordSubmitterAccrual,
+  submitterPayableAccount,
+} from "../lib/ledger";
+import { postOpeningBalances, reconcileLedger } from "../lib/ledger-reconciler";
+import { getAddressBalance, getMasterWalletAddress } from "../lib/solana-wallet";
+
+const SUBMITTER = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+const OPERATOR = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+
+test("opening balances book legacy payables and match the chain", async () => {
+  // A claim share from before the ledger: pending, never accrued
+  const tokenId = createToken("Legacy", "OLD", SUBMITTER).id;
+  const batchId = createClaimBatch("legacy-claim", 100_000, 1).id;
+  createClaimAllocation(batchId, tokenId, 0, 1, 100_000, 50_000);
+
+  assert.equal(await postOpeningBalances(), true);
+  assert.equal(await postOpeningBalances(), false);
+
+  assert.equal(getLedgerAccountBalance(submitterPayableAccount(SUBMITTER)), 50_000);
+  const chain = (await getAddressBalance(getMasterWalletAddress())).lamports;
+  assert.equal(getLedgerAccountBalance(LEDGER_ACCOUNTS.masterWallet), chain);
+  assert.equal(getTrialBalance().balanced, true);
+
+  const master = (await reconcileLedger()).lines.find((l) => l.accountCode === LEDGER_ACCOUNTS.masterWallet)!;
+  assert.equal(master.driftLamports, 0);
+  assert.equal(master.flagged, false);
+});
+
+test("unbalanced postings are refused", () => {
+  const posted = postLedgerTransaction({
+    kind: "adjustment",
+    reference: "unbalanced",
+    lines: [
+      { account: LEDGER_ACCOUNTS.masterWallet, amountLamports: 1_000 },
+      { account: LEDGER_ACCOUNTS.equity, amountLamports: -999 },
+    ],
+  });
+  assert.equal(posted, null);
+  assert.equal(getTrialBalance().balanced, true);
+});
+
+test("postings are idempotent per kind and reference", () => {
+  const before = getLedgerAccountBalance(submitterPayableAccount(SUBMITTER));
+  recordSubmitterAccrual("revenue_event:idempotent", SUBMITTER, 7_000);
+  recordSubmitterAccrual("revenue_event:idempotent", SUBMITTER, 7_000);
+  assert.equal(getLedgerAccountBalance(submitterPayableAccount(SUBMITTER)), before + 7_000);
+});
+
+test("several deposits in one transaction are each booked", () => {
+  const before = getLedgerAccountBalance(LEDGER_ACCOUNTS.masterWallet);
+  recordDeposit(OPERATOR, LAMPORTS_PER_SOL, "deposit-sig", 0);
+  recordDeposit(OPERATOR, LAMPORTS_PER_SOL, "deposit-sig", 1);
+  recordDeposit(OPERATOR, LAMPORTS_PER_SOL, "deposit-sig", 1);
+
+  assert.equal(getLedgerAccountBalance(LEDGER_ACCOUNTS.masterWallet), before + 2 * LAMPORTS_PER_SOL);
+  assert.equal(getTrialBalance().balanced, true);
+});
@@ -0,0 +1,8 @@
+/**
+ * Brings the test database to the current schema. Import it first in test
+ * files that need a migrated database, before anything that touches it.
+ */
+
+import { applyMigrations } from "../lib/migrations";
+
+applyMigrations();
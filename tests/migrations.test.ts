@@ -0,0 +1,57 @@
+/**
+ * Migrations: upgrading a database that already holds data.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import db from "../lib/db";
+import {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  applyMigrations,
+  assertSchemaVersion,
+  getSchemaVersion,
+} from "../lib/migrations";
+
+test("an unmigrated database fails the schema check, not an import", async () => {
+  // Entry points import these before checking the schema version
+  await import("../lib/ledger");
+  await import("../lib/ledger-reconciler");
+  await import("../lib/wallet-audit");
+
+  assert.throws(() => assertSchemaVersion(), /npm run migrate/);
+});
+
+test("rebuilds submissions under foreign keys without losing references", () => {
+  // A database at version 2: submissions without the 'appealed' status,
+  // already referenced by tokens and validation rows
+  getSchemaVersion();
+  for (const migration of MIGRATIONS.slice(0, 2)) {
+    migration.up(db);
+    db.prepare(`INSERT INTO schema_migrations (version, name) VALUES (?, ?)`).run(migration.version, migration.name);
+  }
+  const submissionId = db
+    .prepare(`INSERT INTO submissions (telegram_user_id, sol_address, url) VALUES ('1', 'addr', 'https://a.example/1') RETURNING id`)
+    .pluck()
+    .get() as number;
+  db.prepare(`INSERT INTO tokens (submission_id, token_name, ticker, deployer_sol_address) VALUES (?, 'Token', 'TKN', 'addr')`).run(submissionId);
+  db.prepare(`INSERT INTO submission_validations (submission_id, is_valid, total_latency_ms) VALUES (?, 1, 5)`).run(submissionId);
+
+  applyMigrations({ dryRun: true });
+  assert.equal(getSchemaVersion(), 2);
+
+  applyMigrations();
+
+  assert.equal(getSchemaVersion(), SCHEMA_VERSION);
+  assert.equal(db.pragma("foreign_keys", { simple: true }), 1);
+  assert.deepEqual(db.pragma("foreign_key_check"), []);
+  assert.match(
+    (db.prepare(`SELECT sql FROM sqlite_master WHERE name = 'submissions'`).pluck().get() as string),
+    /'appealed'/
+  );
+  assert.equal(db.prepare(`SELECT submission_id FROM tokens`).pluck().get(), submissionId);
+
+  // The rebuilt table is still the one tokens reference
+  db.prepare(`UPDATE submissions SET status = 'appealed' WHERE id = ?`).run(submissionId);
+  assert.throws(() => db.prepare(`DELETE FROM submissions WHERE id = ?`).run(submissionId), /FOREIGN KEY/);
+});
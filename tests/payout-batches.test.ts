@@ -0,0 +1,86 @@
+/**
+ * Settling payout batches: which claim allocations a sent batch marks paid.
+ */
+
+import "./migrate";
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import db, {
+  createClaimAllocation,
+  createClaimBatch,
+  createPayoutBatch,
+  createToken,
+  getClaimAllocationsByBatch,
+  getPayoutBatchItems,
+  markPayoutBatchSent,
+} from "../lib/db";
+import { recordSubmitterAccrual } from "../lib/ledger";
+
+const WALLET = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+
+let claimBatchId: number;
+let tokenId: number;
+
+/** A claim allocation for the test token, accrued to WALLET unless `accrued` is false. */
+function allocate(submitterLamports: number, accrued = true): number {
+  const allocation = createClaimAllocation(claimBatchId, tokenId, 0, 0.5, submitterLamports * 2, submitterLamports);
+  if (accrued) {
+    recordSubmitterAccrual(`claim_allocation:${allocation.id}`, WALLET, submitterLamports, tokenId);
+  }
+  return allocation.id;
+}
+
+function statusOf(allocationId: number): string {
+  return getClaimAllocationsByBatch(claimBatchId).find((a) => a.id === allocationId)!.status;
+}
+
+function pay(lamports: number, signature: string): number {
+  const batch = createPayoutBatch([{ address: WALLET, lamports }]);
+  assert.equal(markPayoutBatchSent(batch.id, signature), true);
+  return batch.id;
+}
+
+beforeEach(() => {
+  db.exec(`
+    DELETE FROM claim_allocations;
+    DELETE FROM payout_batch_items;
+    DELETE FROM payout_batches;
+  `);
+  tokenId = createToken("Test", "TEST", WALLET).id;
+  claimBatchId = createClaimBatch(`claim-${tokenId}`, 1_000_000, 1).id;
+});
+
+test("a capped payout leaves the allocations it did not cover pending", () => {
+  const first = allocate(3_000);
+  const second = allocate(4_000);
+
+  const batchId = pay(5_000, "sig-capped");
+  assert.equal(statusOf(first), "paid");
+  assert.equal(statusOf(second), "pending");
+  assert.equal(getPayoutBatchItems(batchId)[0].unallocated_lamports, 2_000);
+
+  // The remainder plus what the first payout left over covers the second
+  const nextBatchId = pay(2_000, "sig-remainder");
+  assert.equal(statusOf(second), "paid");
+  assert.equal(getPayoutBatchItems(batchId)[0].unallocated_lamports, 0);
+  assert.equal(getPayoutBatchItems(nextBatchId)[0].unallocated_lamports, 0);
+
+  const paid = getClaimAllocationsByBatch(claimBatchId).find((a) => a.id === second)!;
+  assert.equal(paid.payout_batch_id, nextBatchId);
+  assert.equal(paid.submitter_tx_signature, "sig-remainder");
+});
+
+test("allocations never accrued to the ledger are not marked paid", () => {
+  const legacy = allocate(1_000, false);
+  const accrued = allocate(2_000);
+
+  pay(10_000, "sig-legacy");
+  assert.equal(statusOf(legacy), "pending");
+  assert.equal(statusOf(accrued), "paid");
+});
+
+test("a batch is only settled once", () => {
+  allocate(1_000);
+  const batchId = pay(1_000, "sig-once");
+  assert.equal(markPayoutBatchSent(batchId, "sig-again"), false);
+});
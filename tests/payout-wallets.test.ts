@@ -0,0 +1,87 @@
+/**
+ * Payout wallet changes: the signed ownership proof, the cooldown before a
+ * new wallet receives anything, and moving what the old address was owed.
+ */
+
+import "./migrate";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import bs58 from "bs58";
+import { createSubmission, createToken } from "../lib/db";
+import { getLedgerAccountBalance, recordSubmitterAccrual, submitterPayableAccount } from "../lib/ledger";
+import {
+  activateDuePayoutWallets,
+  createPayoutWalletChallenge,
+  registerPayoutWallet,
+  resolvePayoutAddress,
+  verifyWalletSignature,
+} from "../lib/payout-wallets";
+import type { Token } from "../lib/types";
+
+const OLD_ADDRESS = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+
+/** A fresh ed25519 wallet: its base58 address and a base58 signer. */
+function wallet(): { address: string; sign: (message: string) => string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const x = publicKey.export({ format: "jwk" }).x!;
+  return {
+    address: bs58.encode(Buffer.from(x, "base64url")),
+    sign: (message) => bs58.encode(crypto.sign(null, Buffer.from(message, "utf8"), privateKey)),
+  };
+}
+
+function launch(userId: string): Token {
+  const submission = createSubmission(userId, OLD_ADDRESS, `https://news.example/${userId}`);
+  return createToken("Test", "TEST", OLD_ADDRESS, undefined, submission.id);
+}
+
+test("only a signature by the wallet itself verifies", () => {
+  const owner = wallet();
+  const other = wallet();
+  const message = "Send my submitter payouts to: me";
+
+  assert.equal(verifyWalletSignature(owner.address, message, owner.sign(message)), true);
+  assert.equal(verifyWalletSignature(owner.address, message, other.sign(message)), false);
+  assert.equal(verifyWalletSignature(owner.address, `${message}!`, owner.sign(message)), false);
+  assert.equal(verifyWalletSignature(owner.address, message, "not-base58-0OIl"), false);
+});
+
+test("a registration is refused unless signed by the wallet before the challenge expires", () => {
+  const owner = wallet();
+  const challenge = createPayoutWalletChallenge("3001", owner.address);
+
+  const forged = registerPayoutWallet("3001", challenge, wallet().sign(challenge.message));
+  assert.equal(forged.success, false);
+  assert.match(forged.error!, /Signature does not match/);
+
+  const expired = registerPayoutWallet(
+    "3001",
+    { ...challenge, expiresAt: Date.now() - 1 },
+    owner.sign(challenge.message)
+  );
+  assert.equal(expired.success, false);
+  assert.match(expired.error!, /expired/);
+});
+
+test("a new wallet receives payouts only after its cooldown", async () => {
+  const token = launch("3002");
+  const owner = wallet();
+
+  const challenge = createPayoutWalletChallenge("3002", owner.address);
+  const scheduled = registerPayoutWallet("3002", challenge, owner.sign(challenge.message));
+  assert.equal(scheduled.success, true);
+  assert.equal(resolvePayoutAddress(token), OLD_ADDRESS);
+  assert.equal((await activateDuePayoutWallets()).activated, 0);
+
+  // Re-registering without a cooldown replaces the scheduled change
+  process.env.PAYOUT_WALLET_COOLDOWN_HOURS = "0";
+  const again = createPayoutWalletChallenge("3002", owner.address);
+  assert.equal(registerPayoutWallet("3002", again, owner.sign(again.message)).success, true);
+  assert.equal(resolvePayoutAddress(token), owner.address);
+
+  recordSubmitterAccrual("test:owed", OLD_ADDRESS, 25_000, token.id);
+  assert.deepEqual(await activateDuePayoutWallets(), { activated: 1, movedLamports: 25_000 });
+  assert.ok(getLedgerAccountBalance(submitterPayableAccount(OLD_ADDRESS)) === 0);
+  assert.equal(getLedgerAccountBalance(submitterPayableAccount(owner.address)), 25_000);
+});
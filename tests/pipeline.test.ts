@@ -0,0 +1,121 @@
+/**
+ * Pipeline smoke test: submission validation and token generation run
+ * end-to-end against the fixture LLM provider. Recorded responses come from
+ * fixtures/llm; every other call gets the provider's canned response.
+ */
+
+import "./migrate";
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { createSubmission, getSourceDomains } from "../lib/db";
+import { validateSubmission } from "../lib/ai-validator";
+import { recordDomainValidation, setDomainTier } from "../lib/source-domains";
+import { generateTokenMetadata } from "../lib/token-generator";
+import type { PageContent } from "../lib/types";
+
+/** A fresh article; the fact check has no recording for it (canned pass). */
+const FRESH_ARTICLE: PageContent = {
+  title: "Exchange Halts Withdrawals After Hot Wallet Exploit",
+  description: "A mid-sized crypto exchange paused withdrawals after attackers drained its hot wallet.",
+  content: "The exchange said customer funds in cold storage were unaffected and that it was working with investigators.",
+  imageUrl: null,
+};
+
+/** Satire; fixtures/llm holds a recorded fact check that scores it 15. */
+const SATIRE_URL = "https://satire.example/markets/fed-cuts-rates-to-minus-100";
+const SATIRE_ARTICLE: PageContent = {
+  title: "Fed Cuts Rates to Minus 100 Percent, Pays Everyone to Borrow",
+  description: "The central bank will now send you money for taking out a mortgage.",
+  content: "In a move economists called 'bold' and 'impossible', the Fed announced negative rates of minus 100 percent.",
+  imageUrl: null,
+};
+
+/** Token generation; fixtures/llm holds the recorded name/ticker and description. */
+const TOKEN_HEADLINE = "Federal Reserve Cuts Interest Rates";
+const TOKEN_CONTENT: PageContent = {
+  title: TOKEN_HEADLINE,
+  description: "The Fed lowered its benchmark rate by a quarter point.",
+  content: "",
+  imageUrl: null,
+};
+
+/** Publish date a few minutes ago, so freshness is decided without an AI call. */
+function fresh(content: PageContent): PageContent {
+  return { ...content, publishedAt: new Date(Date.now() - 10 * 60 * 1000) };
+}
+
+function submit(url: string) {
+  return createSubmission("1001", "So11111111111111111111111111111111111111112", url, "article");
+}
+
+describe("validateSubmission", () => {
+  test("passes a fresh, original article", async () => {
+    const submission = submit("https://news.example/exchange-halts-withdrawals");
+    const result = await validateSubmission(submission.id, submission.url, fresh(FRESH_ARTICLE));
+
+    assert.equal(result.isValid, true);
+    assert.equal(result.factScore, 80);
+    assert.equal(result.audit?.publishedAtSource, "structured");
+    assert.equal(result.audit?.factModel, "gpt-4o-mini");
+    assert.equal(result.audit?.embeddingModel, "text-embedding-3-small");
+  });
+
+  test("flags a repost of the same content as a duplicate", async () => {
+    const submission = submit("https://mirror.example/exchange-halts-withdrawals");
+    const result = await validateSubmission(submission.id, submission.url, fresh(FRESH_ARTICLE));
+
+    assert.equal(result.isValid, false);
+    assert.equal(result.rejectionKind, "duplicate");
+    assert.equal(result.audit?.duplicateLayer, "hash");
+  });
+
+  test("replays a recorded fact check", async () => {
+    const submission = submit(SATIRE_URL);
+    const result = await validateSubmission(submission.id, submission.url, fresh(SATIRE_ARTICLE));
+
+    assert.equal(result.isValid, false);
+    assert.equal(result.rejectionKind, "fact");
+    assert.equal(result.factScore, 15);
+    assert.match(result.rejectionReason || "", /satire/i);
+  });
+
+  test("rejects blocked domains without calling the model", async () => {
+    assert.equal(setDomainTier("satire.example", "blocked", "Satire", "test").success, true);
+
+    const submission = submit(SATIRE_URL);
+    const result = await validateSubmission(submission.id, submission.url, fresh(SATIRE_ARTICLE));
+
+    assert.equal(result.isValid, false);
+    assert.equal(result.rejectionKind, "blocked_domain");
+    assert.equal(result.audit?.factModel, null);
+
+    recordDomainValidation(submission.url, result);
+    assert.equal(getSourceDomains(["satire.example"])[0].blocked_rejections, 1);
+  });
+});
+
+describe("generateTokenMetadata", () => {
+  test("builds a token from recorded and canned responses", async () => {
+    const metadata = await generateTokenMetadata(TOKEN_HEADLINE, TOKEN_CONTENT);
+
+    assert.equal(metadata.name, "Rate Cut");
+    assert.equal(metadata.ticker, "RATES");
+    assert.match(metadata.description, /^The Federal Reserve lowered/);
+
+    // Images come from the fixture PNG and are saved under public/tokens
+    assert.match(metadata.imageUrl, /^\/tokens\/.+\.png$/);
+    assert.ok(fs.existsSync(path.join(process.cwd(), "public", metadata.imageUrl)));
+  });
+
+  test("keeps custom names and tickers", async () => {
+    const metadata = await generateTokenMetadata(TOKEN_HEADLINE, TOKEN_CONTENT, {
+      name: "Custom Coin",
+      ticker: "CUSTOM",
+    });
+
+    assert.equal(metadata.name, "Custom Coin");
+    assert.equal(metadata.ticker, "CUSTOM");
+  });
+});
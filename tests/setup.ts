@@ -0,0 +1,22 @@
+/**
+ * Test setup, preloaded into every test file by `npm test`.
+ *
+ * Each test file runs in its own process against a fresh SQLite database in
+ * a temp directory (lib/db.ts opens data/headlines.db under the working
+ * directory). LLM calls are served by the fixture provider from
+ * fixtures/llm and Solana by the simulated backend, so no test touches the
+ * network.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const repoRoot = path.resolve(__dirname, "..");
+
+process.env.LLM_PROVIDER = "fixture";
+process.env.LLM_FIXTURE_DIR = path.join(repoRoot, "fixtures", "llm");
+process.env.SOLANA_MODE = "simulated";
+process.env.SIM_WALLET_SEED = "test";
+
+process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), "drudge-test-")));
@@ -0,0 +1,100 @@
+/**
+ * sendSolBatch outcome classification against a stubbed RPC connection.
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { Connection, Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { getConnection, sendSolBatch } from "../lib/solana-wallet";
+
+const RECIPIENT = Keypair.generate().publicKey.toBase58();
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+const LAST_VALID_BLOCK_HEIGHT = 1_000;
+
+/** Stub the RPC calls sendSolBatch makes; overrides replace individual calls. */
+function stubConnection(overrides: Partial<Connection>): void {
+  Object.assign(getConnection(), {
+    getBalance: async () => 10_000_000_000,
+    getLatestBlockhash: async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: LAST_VALID_BLOCK_HEIGHT }),
+    sendRawTransaction: async () => "sig1",
+    getBlockHeight: async () => LAST_VALID_BLOCK_HEIGHT - 10,
+    ...overrides,
+  });
+}
+
+before(() => {
+  process.env.SOLANA_MODE = "live";
+  process.env.MASTER_WALLET_PRIVATE_KEY = bs58.encode(Keypair.generate().secretKey);
+});
+
+after(() => {
+  process.env.SOLANA_MODE = "simulated";
+});
+
+test("an RPC error while confirming a sent batch leaves it unconfirmed", async () => {
+  stubConnection({
+    getSignatureStatuses: async () => {
+      throw new Error("503 Service Unavailable");
+    },
+  });
+
+  const result = await sendSolBatch([{ address: RECIPIENT, lamports: 1_000 }]);
+
+  assert.equal(result.success, false);
+  assert.equal(result.unconfirmed, true);
+  assert.equal(result.signature, "sig1");
+});
+
+test("an on-chain error is a definite failure", async () => {
+  stubConnection({
+    getSignatureStatuses: (async () => ({
+      context: { slot: 1 },
+      value: [{ slot: 1, confirmations: 1, err: { InstructionError: [0, "Custom"] }, confirmationStatus: "confirmed" }],
+    })) as unknown as Connection["getSignatureStatuses"],
+  });
+
+  const result = await sendSolBatch([{ address: RECIPIENT, lamports: 1_000 }]);
+
+  assert.equal(result.success, false);
+  assert.equal(result.unconfirmed, false);
+});
+
+test("an expired blockhash is a definite failure", async () => {
+  stubConnection({
+    getSignatureStatuses: (async () => ({ context: { slot: 1 }, value: [null] })) as unknown as Connection["getSignatureStatuses"],
+    getBlockHeight: async () => LAST_VALID_BLOCK_HEIGHT + 1,
+  });
+
+  const result = await sendSolBatch([{ address: RECIPIENT, lamports: 1_000 }]);
+
+  assert.equal(result.success, false);
+  assert.equal(result.unconfirmed, false);
+});
+
+test("a send that never reached the RPC is a definite failure", async () => {
+  stubConnection({
+    sendRawTransaction: async () => {
+      throw new Error("fetch failed");
+    },
+  });
+
+  const result = await sendSolBatch([{ address: RECIPIENT, lamports: 1_000 }]);
+
+  assert.equal(result.success, false);
+  assert.equal(result.unconfirmed, false);
+  assert.equal(result.signature, undefined);
+});
+
+test("a confirmed batch succeeds", async () => {
+  stubConnection({
+    getSignatureStatuses: (async () => ({
+      context: { slot: 1 },
+      value: [{ slot: 1, confirmations: 1, err: null, confirmationStatus: "confirmed" }],
+    })) as unknown as Connection["getSignatureStatuses"],
+  });
+
+  const result = await sendSolBatch([{ address: RECIPIENT, lamports: 1_000 }]);
+
+  assert.deepEqual(result, { success: true, signature: "sig1" });
+});
@@ -0,0 +1,75 @@
+/**
+ * Payout runs against the simulated chain: a batch held for admin approval
+ * is sent for exactly the approved amounts, even after balances have grown,
+ * and revenue shares are paid by one path only.
+ */
+
+import "./migrate";
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import db, { createRevenueEvent, createToken, updateRevenueEventStatus } from "../lib/db";
+import { getLedgerAccountBalance, recordSubmitterAccrual, submitterPayableAccount } from "../lib/ledger";
+import { planPayouts, runSubmitterPayouts } from "../lib/submitter-payouts";
+import { getLiveApprovalTransfers, voteOnTransferApproval } from "../lib/transfer-approvals";
+import type { TransferApproval } from "../lib/types";
+
+const WALLET = "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin";
+
+function owed(): number {
+  return getLedgerAccountBalance(submitterPayableAccount(WALLET));
+}
+
+function approvals(): TransferApproval[] {
+  return db.prepare(`SELECT * FROM transfer_approvals ORDER BY id ASC`).all() as TransferApproval[];
+}
+
+before(() => {
+  process.env.APPROVAL_THRESHOLD_SOL = "0.01";
+  process.env.APPROVALS_REQUIRED = "1";
+});
+
+test("an approved payout batch is sent exactly as approved", async () => {
+  recordSubmitterAccrual("test:1", WALLET, 0.05 * LAMPORTS_PER_SOL);
+
+  // Held for approval, not failed: no batch is recorded
+  const held = await runSubmitterPayouts();
+  assert.equal(held.paidRecipients, 0);
+  assert.equal(held.failedBatches, 0);
+  assert.equal(held.heldBatches, 1);
+  assert.deepEqual(db.prepare(`SELECT id FROM payout_batches`).all(), []);
+  assert.equal(approvals().length, 1);
+  assert.equal(approvals()[0].status, "pending");
+
+  // More accrues before admins vote: the wallet waits for its request
+  // instead of being planned (and filed) again at the new balance
+  recordSubmitterAccrual("test:2", WALLET, 0.01 * LAMPORTS_PER_SOL);
+  const waiting = await runSubmitterPayouts();
+  assert.deepEqual(waiting.plan, []);
+  assert.equal(approvals().length, 1);
+
+  const [{ approval, transfers }] = getLiveApprovalTransfers("submitter-payouts");
+  assert.deepEqual(transfers, [{ address: WALLET, lamports: 0.05 * LAMPORTS_PER_SOL }]);
+  assert.equal((await voteOnTransferApproval(approval.id, "admin-1", "approve")).success, true);
+
+  const paid = await runSubmitterPayouts();
+  assert.equal(paid.paidRecipients, 1);
+  assert.equal(paid.paidLamports, 0.05 * LAMPORTS_PER_SOL);
+  assert.equal(approvals()[0].status, "executed");
+  assert.ok(approvals()[0].tx_signature);
+  assert.equal(owed(), 0.01 * LAMPORTS_PER_SOL);
+});
+
+test("a pending revenue share is left to the revenue distributor", () => {
+  const wallet = "GokivDYuQXPZCWRkwMhdH2h91KpDQXBEmpgBgs55bnpH";
+  const tokenId = createToken("Revenue", "REV", wallet).id;
+  const event = createRevenueEvent(tokenId, 0.1 * LAMPORTS_PER_SOL);
+  recordSubmitterAccrual(`revenue_event:${event.id}`, wallet, event.submitter_share_lamports, tokenId);
+
+  const planned = () => planPayouts().flat().filter((p) => p.address === wallet);
+  assert.deepEqual(planned(), []);
+
+  // A share the distributor failed to send is paid by the next payout run
+  updateRevenueEventStatus(event.id, "failed");
+  assert.deepEqual(planned().map((p) => p.lamports), [event.submitter_share_lamports]);
+});
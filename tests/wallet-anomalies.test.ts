@@ -0,0 +1,74 @@
+/**
+ * Wallet audit time windows and the anomaly watcher built on them.
+ */
+
+import "./migrate";
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import db from "../lib/db";
+import {
+  countOperationsSince,
+  getDailyOutflowLamports,
+  getOutflowLamportsBetween,
+  logWalletOperation,
+} from "../lib/wallet-audit";
+import { checkWalletAnomalies } from "../lib/wallet-anomalies";
+import { getWalletFreeze, unfreezeWallet } from "../lib/wallet-guardrails";
+
+/** Log an audit entry as if it happened `minutesAgo` minutes ago. */
+function logAt(minutesAgo: number, operation: "send_sol" | "guardrail_block", lamports = 0): void {
+  db.prepare(`
+    INSERT INTO wallet_audit_log (timestamp, operation, amount_lamports, caller, success)
+    VALUES (strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?), ?, ?, 'test', 1)
+  `).run(`-${minutesAgo} minutes`, operation, lamports);
+}
+
+beforeEach(() => {
+  db.exec(`DELETE FROM wallet_audit_log; DELETE FROM wallet_anomalies;`);
+  if (getWalletFreeze()) unfreezeWallet("test");
+});
+
+test("outflow windows only count entries inside them", () => {
+  logWalletOperation({ operation: "send_sol", amountLamports: 1_000, caller: "test", success: true });
+  logAt(30, "send_sol", 2_000);
+  logAt(3 * 60, "send_sol", 4_000);
+  logAt(25 * 60, "send_sol", 8_000);
+
+  assert.equal(getOutflowLamportsBetween(1, 0), 3_000);
+  assert.equal(getOutflowLamportsBetween(24, 1), 4_000);
+  assert.equal(getDailyOutflowLamports(), 7_000);
+});
+
+test("guardrail blocks are counted for the last hour only", () => {
+  logAt(5, "guardrail_block");
+  logAt(2 * 60, "guardrail_block");
+  logAt(20 * 60, "guardrail_block");
+
+  assert.equal(countOperationsSince("guardrail_block", 60), 1);
+});
+
+test("flags an outflow spike and auto-freezes sends", async () => {
+  process.env.WALLET_AUTO_FREEZE = "true";
+  try {
+    logAt(2 * 24 * 60, "send_sol", 0.1 * LAMPORTS_PER_SOL);
+    logAt(10, "send_sol", 3 * LAMPORTS_PER_SOL);
+
+    const result = await checkWalletAnomalies();
+
+    assert.deepEqual(result.anomalies.map((a) => a.kind), ["outflow_spike"]);
+    assert.equal(result.froze, true);
+    assert.ok(getWalletFreeze());
+  } finally {
+    delete process.env.WALLET_AUTO_FREEZE;
+  }
+});
+
+test("old guardrail blocks do not trigger an anomaly", async () => {
+  for (let i = 0; i < 10; i++) logAt(3 * 60 + i, "guardrail_block");
+
+  const result = await checkWalletAnomalies();
+
+  assert.deepEqual(result.anomalies, []);
+  assert.equal(result.froze, false);
+});
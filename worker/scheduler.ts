@@ -4,7 +4,13 @@
  * Fixed 10-minute cadence:
  * - Publishes 1 approved article every 10 minutes (6/hour, 144/day)
  * - Validates up to 10 pending submissions per cycle
+ * - Fast lane: validates every minute so breaking stories publish immediately
  * - Revenue processing runs on a fixed 5-minute cron (independent)
+ * - Ledger reconciliation against on-chain balances runs hourly
+ * - Submitter payouts (batched, thresholded) run every 6 hours
+ * - Buy-and-burn of the burn reserve runs every 12 hours
+ * - Wallet audit-log anomaly checks run every 15 minutes
+ * - RSS/Atom/sitemap ingestion tops up the submission queue every 20 minutes
  *
  * Other features:
  * - Graceful shutdown waits for in-progress work
@@ -40,8 +46,14 @@ if (!envLoaded) {
 
 // Track concurrent execution
 let isRunning = false;
+let isFastLaneRunning = false;
 let isProcessingRevenue = false;
 let isClaimingFees = false;
+let isReconcilingLedger = false;
+let isPayingSubmitters = false;
+let isBurning = false;
+let isCheckingAnomalies = false;
+let isIngesting = false;
 let cycleCount = 0;
 let isShuttingDown = false;
 
@@ -50,9 +62,15 @@ const cronTasks: ScheduledTask[] = [];
 
 // Dynamically imported module references (loaded in main after env is ready)
 let runSchedulerCycle: typeof import("../lib/scheduler")["runSchedulerCycle"];
+let runFastLaneCycle: typeof import("../lib/scheduler")["runFastLaneCycle"];
 let getSchedulerStatus: typeof import("../lib/scheduler")["getSchedulerStatus"];
 let processPendingRevenue: typeof import("../lib/revenue-distributor")["processPendingRevenue"];
 let claimAllCreatorFees: typeof import("../lib/creator-fee-claimer")["claimAllCreatorFees"];
+let reconcileLedger: typeof import("../lib/ledger-reconciler")["reconcileLedger"];
+let runSubmitterPayouts: typeof import("../lib/submitter-payouts")["runSubmitterPayouts"];
+let runBuyAndBurn: typeof import("../lib/buy-burn")["runBuyAndBurn"];
+let checkWalletAnomalies: typeof import("../lib/wallet-anomalies")["checkWalletAnomalies"];
+let pollIngestionSources: typeof import("../lib/ingestion")["pollIngestionSources"];
 
 /**
  * Run a scheduler cycle (called every 10 minutes by cron).
@@ -66,6 +84,11 @@ async function safeRunCycle(): Promise<void> {
   isRunning = true;
   cycleCount++;
 
+  // Let an in-flight fast-lane pass finish rather than skipping this window
+  while (isFastLaneRunning) {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+
   console.log(`\n${"=".repeat(50)}`);
   console.log(
     `[Worker] Starting cycle #${cycleCount} at ${new Date().toISOString()}`
@@ -88,6 +111,27 @@ async function safeRunCycle(): Promise<void> {
   }
 }
 
+/**
+ * Run a fast-lane validation pass (called every minute by cron).
+ * Never overlaps the main cycle: skips while it runs, and the main cycle
+ * waits for an in-flight pass before starting.
+ */
+async function safeRunFastLane(): Promise<void> {
+  if (isRunning || isFastLaneRunning || isShuttingDown) return;
+
+  isFastLaneRunning = true;
+  try {
+    const validated = await runFastLaneCycle();
+    if (validated > 0) {
+      console.log(`[Worker] Fast lane validated ${validated} submission(s)`);
+    }
+  } catch (error) {
+    console.error("[Worker] Error during fast-lane cycle:", error);
+  } finally {
+    isFastLaneRunning = false;
+  }
+}
+
 /**
  * Process pending revenue events with safety checks.
  */
@@ -138,17 +182,160 @@ async function safeClaimCreatorFees(): Promise<void> {
   }
 }
 
+/**
+ * Reconcile the revenue ledger against on-chain balances.
+ * Runs hourly via cron; drift is reported to admins by the reconciler.
+ */
+async function safeReconcileLedger(): Promise<void> {
+  if (isReconcilingLedger || isShuttingDown) {
+    console.log("[Worker] Ledger reconciliation already running or shutting down, skipping...");
+    return;
+  }
+
+  isReconcilingLedger = true;
+  try {
+    const result = await reconcileLedger();
+    if (result.flagged > 0) {
+      console.log(`[Worker] Ledger: ${result.flagged} account(s) drifting (${result.newlyFlagged} new)`);
+    }
+  } catch (error) {
+    console.error("[Worker] Ledger reconciliation error:", error);
+  } finally {
+    isReconcilingLedger = false;
+  }
+}
+
+/**
+ * Pay accrued submitter balances over the payout threshold.
+ * Runs every 6 hours via cron.
+ */
+async function safeRunPayouts(): Promise<void> {
+  if (isPayingSubmitters || isShuttingDown) {
+    console.log("[Worker] Payout run already running or shutting down, skipping...");
+    return;
+  }
+
+  isPayingSubmitters = true;
+  try {
+    const result = await runSubmitterPayouts();
+    if (result.batches > 0 || result.heldBatches > 0) {
+      console.log(
+        `[Worker] Payouts: ${result.paidLamports / 1e9} SOL to ${result.paidRecipients} wallet(s), ` +
+        `${result.failedBatches} failed batch(es), ${result.heldBatches} held`
+      );
+    }
+  } catch (error) {
+    console.error("[Worker] Payout run error:", error);
+  } finally {
+    isPayingSubmitters = false;
+  }
+}
+
+/**
+ * Swap the burn reserve for $NEWS and burn it once it reaches the threshold.
+ * Runs every 12 hours via cron.
+ */
+async function safeRunBuyBurn(): Promise<void> {
+  if (isBurning || isShuttingDown) {
+    console.log("[Worker] Buy-and-burn already running or shutting down, skipping...");
+    return;
+  }
+
+  isBurning = true;
+  try {
+    const result = await runBuyAndBurn();
+    if (result.spentLamports > 0 || result.burned > 0) {
+      console.log(
+        `[Worker] Buy-and-burn: spent ${result.spentLamports / 1e9} SOL, ${result.burned} burn(s) completed`
+      );
+    }
+  } catch (error) {
+    console.error("[Worker] Buy-and-burn error:", error);
+  } finally {
+    isBurning = false;
+  }
+}
+
+/**
+ * Scan the wallet audit log for anomalies (and auto-freeze if configured).
+ * Runs every 15 minutes via cron.
+ */
+async function safeCheckWalletAnomalies(): Promise<void> {
+  if (isCheckingAnomalies || isShuttingDown) {
+    console.log("[Worker] Anomaly check already running or shutting down, skipping...");
+    return;
+  }
+
+  isCheckingAnomalies = true;
+  try {
+    const result = await checkWalletAnomalies();
+    if (result.anomalies.length > 0) {
+      console.warn(
+        `[Worker] ${result.anomalies.length} wallet anomal${result.anomalies.length > 1 ? "ies" : "y"} flagged` +
+        (result.froze ? " — wallet frozen" : "")
+      );
+    }
+  } catch (error) {
+    console.error("[Worker] Anomaly check error:", error);
+  } finally {
+    isCheckingAnomalies = false;
+  }
+}
+
+/**
+ * Poll RSS/Atom feeds and sitemaps for newsroom submissions.
+ * Runs every 20 minutes via cron.
+ */
+async function safePollIngestion(): Promise<void> {
+  if (isIngesting || isShuttingDown) {
+    console.log("[Worker] Ingestion already running or shutting down, skipping...");
+    return;
+  }
+
+  isIngesting = true;
+  try {
+    const result = await pollIngestionSources();
+    if (result.submitted > 0 || result.errors.length > 0) {
+      console.log(
+        `[Worker] Ingestion: ${result.submitted} submission(s) from ${result.polled} source(s), ` +
+        `${result.errors.length} error(s)`
+      );
+    }
+  } catch (error) {
+    console.error("[Worker] Ingestion error:", error);
+  } finally {
+    isIngesting = false;
+  }
+}
+
 // Main function
 async function main(): Promise<void> {
+  // Refuse to run against a database at an unexpected schema version.
+  // Checked before loading the other modules, some of which prepare
+  // statements on import.
+  const migrations = await import("../lib/migrations");
+  migrations.assertSchemaVersion();
+
   // Dynamic imports: app modules are loaded HERE, after dotenv has run.
   const scheduler = await import("../lib/scheduler");
   const revenue = await import("../lib/revenue-distributor");
   const feeClaimer = await import("../lib/creator-fee-claimer");
+  const ledgerReconciler = await import("../lib/ledger-reconciler");
+  const payouts = await import("../lib/submitter-payouts");
+  const buyBurn = await import("../lib/buy-burn");
+  const anomalies = await import("../lib/wallet-anomalies");
+  const ingestion = await import("../lib/ingestion");
 
   runSchedulerCycle = scheduler.runSchedulerCycle;
+  runFastLaneCycle = scheduler.runFastLaneCycle;
   getSchedulerStatus = scheduler.getSchedulerStatus;
   processPendingRevenue = revenue.processPendingRevenue;
   claimAllCreatorFees = feeClaimer.claimAllCreatorFees;
+  reconcileLedger = ledgerReconciler.reconcileLedger;
+  runSubmitterPayouts = payouts.runSubmitterPayouts;
+  runBuyAndBurn = buyBurn.runBuyAndBurn;
+  checkWalletAnomalies = anomalies.checkWalletAnomalies;
+  pollIngestionSources = ingestion.pollIngestionSources;
 
   console.log("🚀 Starting News Token Scheduler Worker");
   console.log(`📊 Initial status: ${JSON.stringify(getSchedulerStatus())}`);
@@ -164,6 +351,12 @@ async function main(): Promise<void> {
   });
   cronTasks.push(publishingTask);
 
+  // Breaking-news fast lane: validate every minute, publish breaking stories immediately
+  const fastLaneTask = cron.schedule("* * * * *", async () => {
+    await safeRunFastLane();
+  });
+  cronTasks.push(fastLaneTask);
+
   // Revenue processing stays on a fixed 5-minute cron (independent of publishing)
   const revenueTask = cron.schedule("*/5 * * * *", async () => {
     await safeProcessRevenue();
@@ -176,10 +369,46 @@ async function main(): Promise<void> {
   });
   cronTasks.push(feeClaimTask);
 
+  // Ledger reconciliation against on-chain balances (hourly, off the fee-claim minutes)
+  const reconcileTask = cron.schedule("15 * * * *", async () => {
+    await safeReconcileLedger();
+  });
+  cronTasks.push(reconcileTask);
+
+  // Batched submitter payouts (every 6 hours)
+  const payoutTask = cron.schedule("45 */6 * * *", async () => {
+    await safeRunPayouts();
+  });
+  cronTasks.push(payoutTask);
+
+  // Batched buy-and-burn of $NEWS (every 12 hours, when enabled)
+  const buyBurnTask = cron.schedule("20 */12 * * *", async () => {
+    await safeRunBuyBurn();
+  });
+  cronTasks.push(buyBurnTask);
+
+  // Wallet audit-log anomaly watch (every 15 minutes)
+  const anomalyTask = cron.schedule("*/15 * * * *", async () => {
+    await safeCheckWalletAnomalies();
+  });
+  cronTasks.push(anomalyTask);
+
+  // Feed/sitemap ingestion into the submission queue (every 20 minutes)
+  const ingestionTask = cron.schedule("*/20 * * * *", async () => {
+    await safePollIngestion();
+  });
+  cronTasks.push(ingestionTask);
+
   console.log("⏰ Scheduler started:");
   console.log("   - Publishing:  every 10 minutes (6/hour, 144/day)");
+  console.log("   - Fast lane:   every minute (validation + breaking news)");
   console.log("   - Revenue:     every 5 minutes");
   console.log("   - Fee claims:  every 30 minutes");
+  console.log("   - Ledger:      hourly reconciliation");
+  console.log("   - Payouts:     every 6 hours");
+  console.log("   - Buy & burn:  every 12 hours");
+  console.log("   - Anomalies:   every 15 minutes");
+  console.log("   - Ingestion:   every 20 minutes");
   console.log("   Press Ctrl+C to stop\n");
 
   // Graceful shutdown — waits for in-progress work to complete
@@ -197,12 +426,12 @@ async function main(): Promise<void> {
     // Wait for in-progress work (max 30 seconds)
     const maxWaitMs = 30_000;
     const startWait = Date.now();
-    while ((isRunning || isProcessingRevenue || isClaimingFees) && Date.now() - startWait < maxWaitMs) {
+    while ((isRunning || isFastLaneRunning || isProcessingRevenue || isClaimingFees || isReconcilingLedger || isPayingSubmitters || isBurning || isCheckingAnomalies || isIngesting) && Date.now() - startWait < maxWaitMs) {
       console.log("[Worker] Waiting for in-progress work to complete...");
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
-    if (isRunning || isProcessingRevenue || isClaimingFees) {
+    if (isRunning || isFastLaneRunning || isProcessingRevenue || isClaimingFees || isReconcilingLedger || isPayingSubmitters || isBurning || isCheckingAnomalies || isIngesting) {
       console.warn("[Worker] Timed out waiting for in-progress work — exiting anyway");
     }
 